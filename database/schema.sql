@@ -20,11 +20,31 @@ CREATE TABLE IF NOT EXISTS invoices (
     customer_email TEXT,
     customer_phone TEXT,
     customer_address TEXT,
+    customer_state_code TEXT,
+    customer_gstin TEXT,
+    place_of_supply TEXT,
+    supply_type TEXT CHECK (supply_type IN ('b2b', 'b2c', 'export_with_payment', 'export_without_payment', 'sez_with_payment', 'sez_without_payment', 'deemed_export')),
+    port_code TEXT,
+    shipping_bill_number TEXT,
+    shipping_bill_date TEXT,
+    transport JSONB,
     items JSONB NOT NULL DEFAULT '[]'::jsonb,
     tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
     discount NUMERIC(10,2) NOT NULL DEFAULT 0,
+    discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+    charges JSONB NOT NULL DEFAULT '[]'::jsonb,
+    currency TEXT,
+    exchange_rate NUMERIC(14,6) CHECK (exchange_rate > 0),
     notes TEXT,
-    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending', 'paid', 'overdue', 'cancelled')),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending', 'partially_paid', 'paid', 'overdue', 'cancelled')),
+    payment_terms TEXT,
+    payment_terms_days INTEGER,
+    due_date TEXT,
+    rounding JSONB,
+    irn TEXT,
+    ack_number TEXT,
+    ack_date TEXT,
+    signed_qr_code TEXT,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -37,10 +57,18 @@ CREATE TABLE IF NOT EXISTS customers (
     email TEXT,
     phone TEXT,
     address TEXT,
+    state_code TEXT,
+    gstin TEXT,
+    payment_terms TEXT,
+    payment_terms_days INTEGER,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Saved customer an invoice was billed to. The customer_* columns stay as the snapshot printed on it.
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
 -- Products Table
 CREATE TABLE IF NOT EXISTS products (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -49,6 +77,9 @@ CREATE TABLE IF NOT EXISTS products (
     description TEXT,
     price NUMERIC(10,2) NOT NULL,
     unit TEXT DEFAULT 'piece',
+    hsn_code TEXT,
+    tax_rate NUMERIC(5,2),
+    price_includes_tax BOOLEAN NOT NULL DEFAULT false,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -61,10 +92,12 @@ CREATE TABLE IF NOT EXISTS business_profile (
     address TEXT NOT NULL DEFAULT '',
     city TEXT NOT NULL DEFAULT '',
     state TEXT NOT NULL DEFAULT '',
+    state_code TEXT,
     pincode TEXT NOT NULL DEFAULT '',
     phone TEXT NOT NULL DEFAULT '',
     email TEXT NOT NULL DEFAULT '',
     tax_id TEXT NOT NULL DEFAULT '',
+    lut_number TEXT,
     logo TEXT,
     currency TEXT NOT NULL DEFAULT '₹',
     tax_rate NUMERIC(5,2) NOT NULL DEFAULT 18,
@@ -80,14 +113,92 @@ CREATE TABLE IF NOT EXISTS settings (
     currency TEXT NOT NULL DEFAULT '₹',
     tax_rate NUMERIC(5,2) NOT NULL DEFAULT 18,
     invoice_prefix TEXT NOT NULL DEFAULT 'INV',
-    default_payment_terms TEXT NOT NULL DEFAULT 'Due on receipt',
+    default_payment_terms TEXT NOT NULL DEFAULT 'due_on_receipt',
+    default_payment_terms_days INTEGER,
+    estimate_prefix TEXT NOT NULL DEFAULT 'EST',
+    estimate_validity_days INTEGER NOT NULL DEFAULT 30,
+    credit_note_prefix TEXT NOT NULL DEFAULT 'CN',
+    debit_note_prefix TEXT NOT NULL DEFAULT 'DN',
     show_logo BOOLEAN NOT NULL DEFAULT true,
     tax_label TEXT NOT NULL DEFAULT 'GST',
+    rounding_mode TEXT NOT NULL DEFAULT 'nearest' CHECK (rounding_mode IN ('nearest', 'up', 'down')),
+    rounding_increment NUMERIC(4,2) NOT NULL DEFAULT 1,
+    tax_rounding TEXT NOT NULL DEFAULT 'line' CHECK (tax_rounding IN ('line', 'invoice')),
+    exchange_rates JSONB NOT NULL DEFAULT '{}'::jsonb,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     UNIQUE(user_id)
 );
 
+-- Payments Table (partial payments recorded against an invoice)
+CREATE TABLE IF NOT EXISTS payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+    date TEXT NOT NULL,
+    mode TEXT NOT NULL DEFAULT 'cash' CHECK (mode IN ('cash', 'upi', 'bank', 'cheque', 'card')),
+    reference TEXT,
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Estimates Table (quotations that can be converted to invoices)
+CREATE TABLE IF NOT EXISTS estimates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    estimate_number TEXT NOT NULL,
+    date TEXT NOT NULL,
+    valid_until TEXT,
+    customer_name TEXT NOT NULL,
+    customer_email TEXT,
+    customer_phone TEXT,
+    customer_address TEXT,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    discount NUMERIC(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired')),
+    converted_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    rounding JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Credit/Debit Notes Table (corrections issued against an invoice)
+CREATE TABLE IF NOT EXISTS credit_debit_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    note_number TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('credit', 'debit')),
+    date TEXT NOT NULL,
+    reason TEXT,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    discount NUMERIC(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Recurring Profiles Table (template invoices generated on a schedule)
+CREATE TABLE IF NOT EXISTS recurring_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    template JSONB NOT NULL DEFAULT '{}'::jsonb,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'quarterly', 'yearly')),
+    start_date TEXT NOT NULL,
+    end_date TEXT,
+    next_run_date TEXT NOT NULL,
+    last_run_date TEXT,
+    auto_send BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- ============================================
 -- INDEXES FOR PERFORMANCE
 -- ============================================
@@ -96,6 +207,8 @@ CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id);
 CREATE INDEX IF NOT EXISTS idx_invoices_created_at ON invoices(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
 CREATE INDEX IF NOT EXISTS idx_invoices_invoice_number ON invoices(invoice_number);
+CREATE INDEX IF NOT EXISTS idx_invoices_due_date ON invoices(due_date);
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id);
 
 CREATE INDEX IF NOT EXISTS idx_customers_user_id ON customers(user_id);
 CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(name);
@@ -103,6 +216,19 @@ CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(name);
 CREATE INDEX IF NOT EXISTS idx_products_user_id ON products(user_id);
 CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
 
+CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_estimates_user_id ON estimates(user_id);
+CREATE INDEX IF NOT EXISTS idx_estimates_created_at ON estimates(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_estimates_status ON estimates(status);
+
+CREATE INDEX IF NOT EXISTS idx_credit_debit_notes_user_id ON credit_debit_notes(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_debit_notes_invoice_id ON credit_debit_notes(invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_profiles_user_id ON recurring_profiles(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_profiles_next_run_date ON recurring_profiles(next_run_date);
+
 CREATE INDEX IF NOT EXISTS idx_business_profile_user_id ON business_profile(user_id);
 CREATE INDEX IF NOT EXISTS idx_settings_user_id ON settings(user_id);
 
@@ -116,6 +242,10 @@ ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE business_profile ENABLE ROW LEVEL SECURITY;
 ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE estimates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_debit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_profiles ENABLE ROW LEVEL SECURITY;
 
 -- Invoices Policies
 CREATE POLICY "Users can view own invoices"
@@ -207,6 +337,78 @@ CREATE POLICY "Users can delete own settings"
     ON settings FOR DELETE
     USING (auth.uid() = user_id);
 
+-- Payments Policies
+CREATE POLICY "Users can view own payments"
+    ON payments FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own payments"
+    ON payments FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own payments"
+    ON payments FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own payments"
+    ON payments FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Estimates Policies
+CREATE POLICY "Users can view own estimates"
+    ON estimates FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own estimates"
+    ON estimates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own estimates"
+    ON estimates FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own estimates"
+    ON estimates FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Credit/Debit Notes Policies
+CREATE POLICY "Users can view own credit/debit notes"
+    ON credit_debit_notes FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own credit/debit notes"
+    ON credit_debit_notes FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own credit/debit notes"
+    ON credit_debit_notes FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own credit/debit notes"
+    ON credit_debit_notes FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Recurring Profiles Policies
+CREATE POLICY "Users can view own recurring profiles"
+    ON recurring_profiles FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring profiles"
+    ON recurring_profiles FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring profiles"
+    ON recurring_profiles FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring profiles"
+    ON recurring_profiles FOR DELETE
+    USING (auth.uid() = user_id);
+
 -- ============================================
 -- TRIGGERS FOR AUTOMATIC UPDATED_AT
 -- ============================================
@@ -246,6 +448,26 @@ CREATE TRIGGER update_settings_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_payments_updated_at
+    BEFORE UPDATE ON payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_estimates_updated_at
+    BEFORE UPDATE ON estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_credit_debit_notes_updated_at
+    BEFORE UPDATE ON credit_debit_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_recurring_profiles_updated_at
+    BEFORE UPDATE ON recurring_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================
 -- REALTIME PUBLICATION (for real-time subscriptions)
 -- ============================================
@@ -256,3 +478,7 @@ ALTER PUBLICATION supabase_realtime ADD TABLE customers;
 ALTER PUBLICATION supabase_realtime ADD TABLE products;
 ALTER PUBLICATION supabase_realtime ADD TABLE business_profile;
 ALTER PUBLICATION supabase_realtime ADD TABLE settings;
+ALTER PUBLICATION supabase_realtime ADD TABLE payments;
+ALTER PUBLICATION supabase_realtime ADD TABLE estimates;
+ALTER PUBLICATION supabase_realtime ADD TABLE credit_debit_notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE recurring_profiles;
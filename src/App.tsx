@@ -12,8 +12,15 @@ const Dashboard = lazy(() => import('./pages/Dashboard'));
 const Invoices = lazy(() => import('./pages/Invoices'));
 const CreateInvoice = lazy(() => import('./pages/CreateInvoice'));
 const ViewInvoice = lazy(() => import('./pages/ViewInvoice'));
+const Estimates = lazy(() => import('./pages/Estimates'));
+const CreateEstimate = lazy(() => import('./pages/CreateEstimate'));
+const ViewEstimate = lazy(() => import('./pages/ViewEstimate'));
+const RecurringProfiles = lazy(() => import('./pages/RecurringProfiles'));
+const CreateRecurringProfile = lazy(() => import('./pages/CreateRecurringProfile'));
 const Products = lazy(() => import('./pages/Products'));
 const Customers = lazy(() => import('./pages/Customers'));
+const ViewCustomer = lazy(() => import('./pages/ViewCustomer'));
+const Reports = lazy(() => import('./pages/Reports'));
 const Settings = lazy(() => import('./pages/Settings'));
 const Login = lazy(() => import('./pages/Login'));
 const Signup = lazy(() => import('./pages/Signup'));
@@ -76,6 +83,39 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/estimates/*"
+                element={
+                  <ProtectedRoute>
+                    <Layout>
+                      <Suspense fallback={<PageLoader />}>
+                        <Routes>
+                          <Route path="/" element={<Estimates />} />
+                          <Route path="/new" element={<CreateEstimate />} />
+                          <Route path="/edit/:id" element={<CreateEstimate />} />
+                          <Route path="/view/:id" element={<ViewEstimate />} />
+                        </Routes>
+                      </Suspense>
+                    </Layout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/recurring/*"
+                element={
+                  <ProtectedRoute>
+                    <Layout>
+                      <Suspense fallback={<PageLoader />}>
+                        <Routes>
+                          <Route path="/" element={<RecurringProfiles />} />
+                          <Route path="/new" element={<CreateRecurringProfile />} />
+                          <Route path="/edit/:id" element={<CreateRecurringProfile />} />
+                        </Routes>
+                      </Suspense>
+                    </Layout>
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/products"
                 element={
@@ -89,12 +129,27 @@ function App() {
                 }
               />
               <Route
-                path="/customers"
+                path="/customers/*"
+                element={
+                  <ProtectedRoute>
+                    <Layout>
+                      <Suspense fallback={<PageLoader />}>
+                        <Routes>
+                          <Route path="/" element={<Customers />} />
+                          <Route path="/:id" element={<ViewCustomer />} />
+                        </Routes>
+                      </Suspense>
+                    </Layout>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reports"
                 element={
                   <ProtectedRoute>
                     <Layout>
                       <Suspense fallback={<PageLoader />}>
-                        <Customers />
+                        <Reports />
                       </Suspense>
                     </Layout>
                   </ProtectedRoute>
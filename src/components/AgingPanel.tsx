@@ -0,0 +1,128 @@
+import { Fragment, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { usePDFGenerator } from '../hooks/usePDFGenerator';
+import { formatCurrency, formatDate, downloadBlob } from '../utils/helpers';
+import { toCSVBlob } from '../utils/csv';
+import { AGING_BUCKETS, getAgingFilename, getAgingPDFContent, getAgingRows, getPastDueAmount, type AgingReport } from '../utils/aging';
+
+interface AgingPanelProps {
+  report: AgingReport;
+}
+
+// Receivables by customer and age, each customer opening up to the invoices behind the figures
+function AgingPanel({ report }: AgingPanelProps) {
+  const { downloadReportPDF, isGenerating } = usePDFGenerator();
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const toggleExpanded = (id: string): void => {
+    setExpanded(prev => (prev.includes(id) ? prev.filter(expandedId => expandedId !== id) : [...prev, id]));
+  };
+
+  const handleDownloadCSV = (): void => {
+    downloadBlob(toCSVBlob(getAgingRows(report)), getAgingFilename(report, 'csv'));
+  };
+
+  const handleDownloadPDF = async (): Promise<void> => {
+    try {
+      await downloadReportPDF(getAgingPDFContent(report), getAgingFilename(report, 'pdf'));
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
+  const formatAmount = (amount: number): string => (amount ? formatCurrency(amount, report.currency) : '-');
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Receivables Aging</h2>
+          <p className="text-midnight-400 text-sm">
+            {formatCurrency(report.totals.total, report.currency)} outstanding as of {formatDate(report.asOf)},{' '}
+            {formatCurrency(getPastDueAmount(report.totals), report.currency)} past due
+          </p>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button onClick={handleDownloadCSV} disabled={report.customers.length === 0} className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-40">
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={handleDownloadPDF} disabled={report.customers.length === 0 || isGenerating} className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-40">
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {report.customers.length === 0 ? (
+        <p className="text-midnight-400 text-sm py-8 text-center">Nothing is outstanding</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-midnight-400 border-b border-midnight-700">
+                <th className="text-left py-2 pr-3 font-medium">Customer</th>
+                {AGING_BUCKETS.map((bucket) => (
+                  <th key={bucket.key} className="text-right py-2 px-3 font-medium whitespace-nowrap">{bucket.label}</th>
+                ))}
+                <th className="text-right py-2 pl-3 font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-midnight-700/50">
+              {report.customers.map((row) => {
+                const isExpanded = expanded.includes(row.id);
+                return (
+                  <Fragment key={row.id}>
+                    <tr className="text-white">
+                      <td className="py-2 pr-3">
+                        <button onClick={() => toggleExpanded(row.id)} className="flex items-center gap-2 hover:text-teal-400 transition-colors text-left">
+                          {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                          {row.customerName || 'No name'}
+                          <span className="text-midnight-500 text-xs">{row.invoices.length}</span>
+                        </button>
+                      </td>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <td key={bucket.key} className="text-right py-2 px-3 font-mono whitespace-nowrap">{formatAmount(row.amounts[bucket.key])}</td>
+                      ))}
+                      <td className="text-right py-2 pl-3 font-mono font-semibold whitespace-nowrap">{formatAmount(row.amounts.total)}</td>
+                    </tr>
+                    {isExpanded && row.invoices.map((item) => (
+                      <tr key={item.invoice.id} className="text-midnight-300 bg-midnight-800/40">
+                        <td className="py-2 pr-3 pl-8">
+                          <Link to={`/invoices/view/${item.invoice.id}`} className="font-mono hover:text-teal-400 transition-colors">
+                            {item.invoice.invoiceNumber}
+                          </Link>
+                          <span className="text-midnight-500 text-xs ml-2">
+                            Due {formatDate(item.dueDate)}{item.daysPastDue > 0 ? `, ${item.daysPastDue} days past due` : ''}
+                          </span>
+                        </td>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <td key={bucket.key} className="text-right py-2 px-3 font-mono whitespace-nowrap">
+                            {bucket.key === item.bucket ? formatCurrency(item.balance, report.currency) : ''}
+                          </td>
+                        ))}
+                        <td className="text-right py-2 pl-3 font-mono whitespace-nowrap">{formatCurrency(item.balance, report.currency)}</td>
+                      </tr>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="text-white font-semibold border-t border-midnight-700">
+                <td className="py-2 pr-3">Total</td>
+                {AGING_BUCKETS.map((bucket) => (
+                  <td key={bucket.key} className="text-right py-2 px-3 font-mono whitespace-nowrap">{formatAmount(report.totals[bucket.key])}</td>
+                ))}
+                <td className="text-right py-2 pl-3 font-mono whitespace-nowrap">{formatAmount(report.totals.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AgingPanel;
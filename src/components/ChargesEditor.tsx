@@ -0,0 +1,133 @@
+import { Plus, Trash2, Truck } from 'lucide-react';
+import { generateId, formatCurrency, calculateChargeTotals, parseTaxRateInput } from '../utils/helpers';
+import type { AdditionalCharge, ChargePlacement } from '../types';
+
+interface ChargesEditorProps {
+  charges: AdditionalCharge[];
+  currency?: string;
+  defaultTaxRate?: number; // Applies to taxable charges left without a tax rate
+  onChange: (charges: AdditionalCharge[]) => void;
+}
+
+export const createEmptyCharge = (): AdditionalCharge => ({
+  id: generateId(),
+  name: '',
+  amount: '',
+  placement: 'before_tax',
+  taxable: true,
+  taxRate: '',
+});
+
+const inputClass = 'w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all';
+
+// Shipping, packing and other charges added on top of the line items
+function ChargesEditor({ charges, currency, defaultTaxRate = 0, onChange }: ChargesEditorProps) {
+  const updateCharge = (chargeId: string, changes: Partial<AdditionalCharge>): void => {
+    onChange(charges.map(charge => (charge.id === chargeId ? { ...charge, ...changes } : charge)));
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-gold-500/20 flex items-center justify-center">
+            <Truck className="w-4 h-4 text-gold-400" />
+          </div>
+          <h2 className="text-lg font-semibold text-white">Additional Charges</h2>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...charges, createEmptyCharge()])}
+          className="btn-secondary flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add Charge
+        </button>
+      </div>
+
+      {charges.length === 0 ? (
+        <p className="text-midnight-400 text-sm">Shipping, packing or other charges billed with this invoice</p>
+      ) : (
+        <div className="space-y-2">
+          {charges.map((charge) => {
+            const afterTax = charge.placement === 'after_tax';
+            return (
+              <div
+                key={charge.id}
+                className="grid grid-cols-1 sm:grid-cols-[1fr_90px_110px_120px_auto_80px_100px_auto] gap-2 py-2 border-b border-midnight-700/50 items-center"
+              >
+                <input
+                  type="text"
+                  value={charge.name}
+                  onChange={(e) => updateCharge(charge.id, { name: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., Shipping"
+                />
+                <input
+                  type="text"
+                  value={charge.hsnCode || ''}
+                  onChange={(e) => updateCharge(charge.id, { hsnCode: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="SAC"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={charge.amount}
+                  onChange={(e) => updateCharge(charge.id, { amount: parseFloat(e.target.value) || '' })}
+                  className={`${inputClass} text-right`}
+                  placeholder="0.00"
+                />
+                <select
+                  value={charge.placement}
+                  onChange={(e) => {
+                    const placement = e.target.value as ChargePlacement;
+                    updateCharge(charge.id, { placement, taxable: placement === 'before_tax' && charge.taxable });
+                  }}
+                  className={inputClass}
+                >
+                  <option value="before_tax">Before tax</option>
+                  <option value="after_tax">After tax</option>
+                </select>
+                <label className={`flex items-center gap-1 text-xs ${afterTax ? 'text-midnight-600' : 'text-midnight-400 cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={charge.taxable && !afterTax}
+                    disabled={afterTax}
+                    onChange={(e) => updateCharge(charge.id, { taxable: e.target.checked })}
+                    className="w-3 h-3 accent-teal-500"
+                  />
+                  Taxable
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={charge.taxRate ?? ''}
+                  disabled={afterTax || !charge.taxable}
+                  onChange={(e) => updateCharge(charge.id, { taxRate: parseTaxRateInput(e.target.value) })}
+                  className={`${inputClass} text-center disabled:opacity-40`}
+                  placeholder={`${defaultTaxRate || 0}%`}
+                />
+                <span className="text-white font-mono text-sm font-semibold text-right truncate">
+                  {formatCurrency(calculateChargeTotals(charge, defaultTaxRate).amount, currency)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onChange(charges.filter(c => c.id !== charge.id))}
+                  className="p-1.5 text-coral-400 hover:bg-coral-500/20 rounded-lg transition-colors justify-self-end"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ChargesEditor;
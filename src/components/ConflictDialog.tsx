@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, X } from 'lucide-react';
+import { formatCurrency, formatDate, getInvoiceTotals, getStatusLabel } from '../utils/helpers';
+import { formatState, getSupplyType, getSupplyTypeLabel } from '../utils/gst';
+import { getTransportModeLabel } from '../utils/ewayBill';
+import { getPaymentTermsLabel } from '../utils/paymentTerms';
+import { ROUNDING_MODE_OPTIONS, TAX_ROUNDING_OPTIONS, resolveRounding } from '../utils/money';
+import { MERGE_GROUP_LABELS, applyMergeChoices, planInvoiceMerge, type MergeGroup } from '../utils/invoiceMerge';
+import type { Invoice } from '../types';
+
+interface ConflictDialogProps {
+  base?: Invoice | null; // The version both edits started from; without it every difference is asked about
+  mine: Invoice;
+  theirs: Invoice;
+  currency?: string;
+  isSaving?: boolean;
+  onResolve: (merged: Invoice) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const labelOf = <T extends string>(options: { value: T; label: string }[], value: T | undefined): string =>
+  options.find(option => option.value === value)?.label || String(value ?? '');
+
+function ConflictDialog({ base, mine, theirs, currency, isSaving, onResolve, onDiscard, onClose }: ConflictDialogProps) {
+  const plan = useMemo(() => planInvoiceMerge(base, mine, theirs), [base, mine, theirs]);
+
+  const [choices, setChoices] = useState<Partial<Record<MergeGroup, 'mine' | 'theirs'>>>({});
+
+  const describe = (invoice: Invoice, group: MergeGroup): string => {
+    switch (group) {
+      case 'items': {
+        const totals = getInvoiceTotals(invoice);
+        return `${invoice.items.length} item${invoice.items.length === 1 ? '' : 's'} · ${formatCurrency(totals.total, currency)}`;
+      }
+      case 'date':
+        return formatDate(invoice.date);
+      case 'customerStateCode':
+      case 'placeOfSupply':
+        return invoice[group] ? formatState(invoice[group]) : '—';
+      case 'supplyType':
+        return getSupplyTypeLabel(getSupplyType(invoice));
+      case 'exportDetails':
+        return [invoice.portCode, invoice.shippingBillNumber, invoice.shippingBillDate && formatDate(invoice.shippingBillDate)]
+          .filter(Boolean).join(' · ') || '—';
+      case 'transport': {
+        const transport = invoice.transport;
+        return transport ? [getTransportModeLabel(transport.mode), transport.vehicleNumber].filter(Boolean).join(' · ') : '—';
+      }
+      case 'taxRate':
+        return `${invoice.taxRate || 0}%`;
+      case 'discount':
+        return invoice.discountType === 'amount' ? formatCurrency(invoice.discount, currency) : `${invoice.discount || 0}%`;
+      case 'charges': {
+        const count = invoice.charges?.length || 0;
+        return count > 0 ? `${count} charge${count === 1 ? '' : 's'}` : '—';
+      }
+      case 'currency':
+        return invoice.currency
+          ? [invoice.currency, invoice.exchangeRate && `@ ${invoice.exchangeRate}`].filter(Boolean).join(' ')
+          : 'Base currency';
+      case 'status':
+        return getStatusLabel(invoice.status);
+      case 'paymentTerms':
+        return [getPaymentTermsLabel(invoice.paymentTerms), invoice.dueDate && `due ${formatDate(invoice.dueDate)}`]
+          .filter(Boolean).join(', ');
+      case 'rounding': {
+        const rounding = resolveRounding(invoice.rounding);
+        return `${labelOf(ROUNDING_MODE_OPTIONS, rounding.mode)} to ${rounding.increment.toFixed(2)} · tax ${labelOf(TAX_ROUNDING_OPTIONS, rounding.taxRounding).toLowerCase()}`;
+      }
+      case 'eInvoice':
+        return invoice.irn || 'Not registered';
+      default:
+        return invoice[group] ? String(invoice[group]) : '—';
+    }
+  };
+
+  const handleMerge = (): void => {
+    onResolve(applyMergeChoices(plan, theirs, choices));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div className="glass rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-gold-500/20">
+              <AlertTriangle className="w-5 h-5 text-gold-400" />
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold text-white">Invoice changed elsewhere</h3>
+              <p className="text-midnight-400 text-sm">
+                Someone saved this invoice after you opened it. Choose which value to keep where you both changed the same thing.
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-midnight-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        {plan.taken.length > 0 && (
+          <p className="text-midnight-300 text-sm mb-3">
+            Their changes to {plan.taken.map(group => MERGE_GROUP_LABELS[group]).join(', ')} will be kept as well.
+          </p>
+        )}
+
+        {plan.conflicts.length === 0 ? (
+          <p className="text-midnight-300 text-sm py-4">
+            The other changes do not overlap with yours. Saving will keep both.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {plan.conflicts.map(group => {
+              const choice = choices[group] || 'mine';
+              return (
+                <div key={group} className="rounded-xl bg-midnight-800/50 p-4">
+                  <p className="text-white font-medium mb-2">{MERGE_GROUP_LABELS[group]}</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {(['mine', 'theirs'] as const).map(side => (
+                      <label
+                        key={side}
+                        className={`flex items-start gap-2 p-3 rounded-lg cursor-pointer border transition-colors ${choice === side
+                          ? 'border-teal-500 bg-teal-500/10'
+                          : 'border-midnight-600 hover:border-midnight-500'
+                          }`}
+                      >
+                        <input
+                          type="radio"
+                          name={`conflict-${group}`}
+                          checked={choice === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [group]: side }))}
+                          className="mt-1"
+                        />
+                        <span className="min-w-0">
+                          <span className="block text-xs text-midnight-400">
+                            {side === 'mine' ? 'Your version' : 'Saved version'}
+                          </span>
+                          <span className="block text-sm text-white break-words whitespace-pre-line">
+                            {describe(side === 'mine' ? mine : theirs, group)}
+                          </span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col-reverse sm:flex-row gap-3 justify-end mt-6">
+          <button onClick={onDiscard} className="btn-secondary" disabled={isSaving}>
+            Discard my changes
+          </button>
+          <button onClick={handleMerge} className="btn-primary flex items-center justify-center gap-2" disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save merged invoice
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConflictDialog;
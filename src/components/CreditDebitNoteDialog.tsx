@@ -0,0 +1,284 @@
+import { useState, useMemo } from 'react';
+import { Loader2, Save, X, Plus, Trash2 } from 'lucide-react';
+import { generateId, formatCurrency, formatDate, calculateInvoiceTotals, parseTaxRateInput } from '../utils/helpers';
+import { getNextDocumentNumber } from '../utils/numbering';
+import { NOTE_TYPE_OPTIONS, getCreditedQuantity, getNoteDiscount, toReturnedLine } from '../utils/creditDebitNotes';
+import { isSupplyWithoutTax } from '../utils/gst';
+import type { CreditDebitNote, Invoice, InvoiceItem, NoteType, FormErrors } from '../types';
+
+interface Adjustment {
+  id: string;
+  name: string;
+  amount: string;
+  taxRate: string;
+}
+
+interface CreditDebitNoteDialogProps {
+  invoice: Invoice;
+  allNotes: CreditDebitNote[]; // Every note, for numbering and returned quantities
+  prefixes: Record<NoteType, string>;
+  currency?: string;
+  isSaving?: boolean;
+  onSave: (note: CreditDebitNote) => void;
+  onClose: () => void;
+}
+
+function CreditDebitNoteDialog({ invoice, allNotes, prefixes, currency, isSaving, onSave, onClose }: CreditDebitNoteDialogProps) {
+  const [type, setType] = useState<NoteType>('credit');
+  const [date, setDate] = useState(formatDate(new Date(), 'input'));
+  const [reason, setReason] = useState('');
+  // Quantity picked per invoice line; lines left out are not on the note
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const invoiceNotes = allNotes.filter(note => note.invoiceId === invoice.id);
+
+  // Credit notes cannot return more than was invoiced
+  const maxQuantity = (item: InvoiceItem): number | undefined =>
+    type === 'credit' ? (Number(item.quantity) || 0) - getCreditedQuantity(invoiceNotes, item.id) : undefined;
+
+  // Notes on a supply made without tax under a LUT carry no tax either
+  const untaxed = isSupplyWithoutTax(invoice.supplyType);
+  const noteTaxRate = untaxed ? 0 : invoice.taxRate;
+
+  const noteItems = useMemo((): InvoiceItem[] => [
+    ...invoice.items
+      .filter(item => Number(quantities[item.id]) > 0)
+      .map(item => toReturnedLine(item, Number(quantities[item.id]), getNoteDiscount(invoice))),
+    ...adjustments
+      .filter(adj => adj.name.trim() && Number(adj.amount) > 0)
+      .map(adj => ({
+        id: adj.id,
+        name: adj.name.trim(),
+        quantity: 1,
+        unit: 'NOS',
+        price: Number(adj.amount),
+        taxRate: parseTaxRateInput(adj.taxRate),
+      })),
+  ].map(item => (untaxed ? { ...item, taxRate: 0 } : item)), [invoice, quantities, adjustments, untaxed]);
+
+  const total = calculateInvoiceTotals(noteItems, noteTaxRate, 0, undefined, invoice.rounding).total;
+
+  const toggleItem = (item: InvoiceItem): void => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      if (next[item.id] !== undefined) {
+        delete next[item.id];
+      } else {
+        const max = maxQuantity(item);
+        next[item.id] = String(max !== undefined ? Math.max(0, max) : item.quantity);
+      }
+      return next;
+    });
+  };
+
+  const updateAdjustment = (id: string, field: keyof Omit<Adjustment, 'id'>, value: string): void => {
+    setAdjustments(prev => prev.map(adj => (adj.id === id ? { ...adj, [field]: value } : adj)));
+  };
+
+  const handleSave = (): void => {
+    const newErrors: FormErrors = {};
+    if (!reason.trim()) {
+      newErrors.reason = 'Reason is required';
+    }
+    if (noteItems.length === 0) {
+      newErrors.items = 'Select at least one invoice line or add an adjustment';
+    }
+    const overReturned = invoice.items.find(item => {
+      const max = maxQuantity(item);
+      return max !== undefined && Number(quantities[item.id]) > max;
+    });
+    if (overReturned) {
+      newErrors.items = `Only ${maxQuantity(overReturned)} of "${overReturned.name}" can still be credited`;
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const noteNumber = getNextDocumentNumber(
+      prefixes[type],
+      allNotes.filter(note => note.type === type).map(note => note.noteNumber),
+      new Date(date)
+    );
+
+    onSave({
+      id: generateId(),
+      noteNumber,
+      type,
+      invoiceId: invoice.id,
+      date: new Date(date).toISOString(),
+      reason: reason.trim(),
+      items: noteItems,
+      taxRate: noteTaxRate,
+      discount: 0,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div className="glass rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Issue Credit / Debit Note</h3>
+            <p className="text-midnight-400 text-sm">Against {invoice.invoiceNumber}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-midnight-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {NOTE_TYPE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setType(option.value)}
+                className={`flex-1 px-4 py-2 rounded-xl text-sm font-medium transition-colors ${type === option.value
+                  ? 'bg-teal-500/20 text-teal-400'
+                  : 'bg-midnight-700/50 text-midnight-300 hover:bg-midnight-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-midnight-400 text-xs -mt-2">
+            {type === 'credit'
+              ? 'Reduces what the customer owes, e.g. returned goods or an overcharge.'
+              : 'Increases what the customer owes, e.g. an undercharge or extra supply.'}
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Date *</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="input-label">Reason *</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className={`input-field ${errors.reason ? 'border-coral-500' : ''}`}
+                placeholder="e.g. Goods returned"
+              />
+            </div>
+          </div>
+
+          {/* Invoice lines */}
+          <div>
+            <label className="input-label">Invoice Lines</label>
+            <div className="divide-y divide-midnight-700 border border-midnight-700 rounded-xl">
+              {invoice.items.map((item) => {
+                const selected = quantities[item.id] !== undefined;
+                const max = maxQuantity(item);
+                return (
+                  <div key={item.id} className="flex items-center gap-3 px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selected}
+                      onChange={() => toggleItem(item)}
+                      disabled={max !== undefined && max <= 0}
+                      className="w-4 h-4 accent-teal-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm truncate">{item.name}</p>
+                      <p className="text-midnight-400 text-xs">
+                        {item.quantity} × {formatCurrency(Number(item.price), currency)}
+                        {max !== undefined && max < (Number(item.quantity) || 0) && ` · ${Math.max(0, max)} left to credit`}
+                      </p>
+                    </div>
+                    {selected && (
+                      <input
+                        type="number"
+                        min="0"
+                        max={max}
+                        value={quantities[item.id]}
+                        onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                        className="input-field w-24 py-1.5"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Free-form adjustments */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="input-label mb-0">Adjustments</label>
+              <button
+                onClick={() => setAdjustments(prev => [...prev, { id: generateId(), name: '', amount: '', taxRate: '' }])}
+                className="text-teal-400 text-sm flex items-center gap-1 hover:text-teal-300"
+              >
+                <Plus className="w-4 h-4" />
+                Add adjustment
+              </button>
+            </div>
+            {adjustments.map((adj) => (
+              <div key={adj.id} className="flex items-center gap-2 mb-2">
+                <input
+                  type="text"
+                  value={adj.name}
+                  onChange={(e) => updateAdjustment(adj.id, 'name', e.target.value)}
+                  className="input-field flex-1"
+                  placeholder="Description"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={adj.amount}
+                  onChange={(e) => updateAdjustment(adj.id, 'amount', e.target.value)}
+                  className="input-field w-28 font-mono"
+                  placeholder="Amount"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={untaxed ? '' : adj.taxRate}
+                  disabled={untaxed}
+                  onChange={(e) => updateAdjustment(adj.id, 'taxRate', e.target.value)}
+                  className="input-field w-20 disabled:opacity-40"
+                  placeholder={`${noteTaxRate}%`}
+                />
+                <button
+                  onClick={() => setAdjustments(prev => prev.filter(a => a.id !== adj.id))}
+                  className="p-2 text-midnight-400 hover:text-coral-400 hover:bg-coral-500/10 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {errors.items && <p className="text-coral-400 text-sm">{errors.items}</p>}
+
+          <div className="flex justify-between pt-4 border-t border-midnight-600">
+            <span className="text-midnight-300">Note total</span>
+            <span className="font-mono font-semibold text-white">
+              {type === 'credit' ? '- ' : '+ '}{formatCurrency(total, currency)}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">Cancel</button>
+          <button onClick={handleSave} disabled={isSaving} className="btn-primary flex-1 flex items-center justify-center gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Issue Note
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CreditDebitNoteDialog;
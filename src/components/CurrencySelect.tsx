@@ -0,0 +1,57 @@
+import { CURRENCIES, formatExchangeRate } from '../utils/currency';
+
+interface CurrencySelectProps {
+  currency: string; // ISO 4217 code
+  exchangeRate: number | undefined;
+  baseCurrency: string;
+  rates?: Record<string, number>; // Settings rates table, used to fill in the rate on a currency change
+  error?: string | null;
+  onChange: (currency: string, exchangeRate: number | undefined) => void;
+}
+
+// Invoice currency, with the rate to the base currency once it differs
+function CurrencySelect({ currency, exchangeRate, baseCurrency, rates = {}, error, onChange }: CurrencySelectProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="input-label">Currency</label>
+        <select
+          value={currency}
+          onChange={(e) => {
+            const code = e.target.value;
+            onChange(code, code === baseCurrency ? undefined : rates[code] || undefined);
+          }}
+          className="input-field"
+        >
+          {CURRENCIES.map((info) => (
+            <option key={info.code} value={info.code}>{info.code} - {info.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {currency !== baseCurrency && (
+        <div>
+          <label className="input-label">Exchange Rate ({baseCurrency} per {currency})</label>
+          <input
+            type="number"
+            min="0"
+            step="0.0001"
+            value={exchangeRate || ''}
+            onChange={(e) => onChange(currency, parseFloat(e.target.value) || undefined)}
+            className="input-field"
+            placeholder="0.0000"
+          />
+          {exchangeRate ? (
+            <p className="text-midnight-500 text-xs mt-1">{formatExchangeRate(currency, exchangeRate, baseCurrency)}</p>
+          ) : (
+            <p className={`text-xs mt-1 ${error ? 'text-coral-400' : 'text-midnight-500'}`}>
+              {error || 'Enter a rate, or add one to the rates table in Settings'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CurrencySelect;
@@ -0,0 +1,150 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { User } from 'lucide-react';
+import StateSelect from './StateSelect';
+import type { Customer, Invoice } from '../types';
+
+export type CustomerDetails = Pick<Invoice, 'customerName' | 'customerEmail' | 'customerPhone' | 'customerAddress' | 'customerStateCode' | 'customerGstin'>;
+
+interface CustomerDetailsFormProps {
+  value: CustomerDetails;
+  customers: Customer[];
+  error?: string | null;
+  gstinError?: string | null;
+  onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  onSelect: (customer: Customer) => void;
+  // Shows the GST fields, a state picker and the GSTIN, when given
+  onStateChange?: (code: string | undefined) => void;
+}
+
+// Customer name/contact fields with lookup from saved customers
+function CustomerDetailsForm({ value, customers, error, gstinError, onChange, onSelect, onStateChange }: CustomerDetailsFormProps) {
+  const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
+  const [customerSearch, setCustomerSearch] = useState('');
+
+  const filteredCustomers = useMemo((): Customer[] => {
+    if (!customerSearch) return customers.slice(0, 5);
+    return customers.filter(c =>
+      c.name.toLowerCase().includes(customerSearch.toLowerCase()) ||
+      c.phone?.includes(customerSearch)
+    ).slice(0, 5);
+  }, [customers, customerSearch]);
+
+  const selectCustomer = (customer: Customer): void => {
+    onSelect(customer);
+    setShowCustomerDropdown(false);
+    setCustomerSearch('');
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <User className="w-5 h-5 text-teal-400" />
+        <h2 className="text-lg font-semibold text-white">Customer Details</h2>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="relative sm:col-span-2">
+          <label className="input-label">Customer Name *</label>
+          <div className="relative">
+            <input
+              type="text"
+              name="customerName"
+              value={value.customerName}
+              onChange={(e) => {
+                onChange(e);
+                setCustomerSearch(e.target.value);
+                setShowCustomerDropdown(true);
+              }}
+              onFocus={() => setShowCustomerDropdown(true)}
+              className={`input-field ${error ? 'border-coral-500' : ''}`}
+              placeholder="Enter customer name"
+            />
+            {showCustomerDropdown && filteredCustomers.length > 0 && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setShowCustomerDropdown(false)}
+                />
+                <div className="absolute z-20 w-full mt-1 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden">
+                  {filteredCustomers.map((customer) => (
+                    <button
+                      key={customer.id}
+                      type="button"
+                      onClick={() => selectCustomer(customer)}
+                      className="w-full px-4 py-3 text-left hover:bg-midnight-700 transition-colors"
+                    >
+                      <p className="text-white font-medium">{customer.name}</p>
+                      {customer.phone && (
+                        <p className="text-midnight-400 text-sm">{customer.phone}</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          {error && (
+            <p className="text-coral-400 text-sm mt-1">{error}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="input-label">Phone</label>
+          <input
+            type="tel"
+            name="customerPhone"
+            value={value.customerPhone}
+            onChange={onChange}
+            className="input-field"
+            placeholder="Phone number"
+          />
+        </div>
+
+        <div>
+          <label className="input-label">Email</label>
+          <input
+            type="email"
+            name="customerEmail"
+            value={value.customerEmail}
+            onChange={onChange}
+            className="input-field"
+            placeholder="Email address"
+          />
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className="input-label">Address</label>
+          <textarea
+            name="customerAddress"
+            value={value.customerAddress}
+            onChange={onChange}
+            className="input-field min-h-[60px] resize-none"
+            placeholder="Customer address"
+          />
+        </div>
+
+        {onStateChange && (
+          <>
+            <StateSelect value={value.customerStateCode} onChange={onStateChange} />
+            <div>
+              <label className="input-label">GSTIN</label>
+              <input
+                type="text"
+                name="customerGstin"
+                value={value.customerGstin || ''}
+                onChange={onChange}
+                className={`input-field font-mono uppercase ${gstinError ? 'border-coral-500' : ''}`}
+                placeholder="Unregistered if blank"
+              />
+              {gstinError && (
+                <p className="text-coral-400 text-sm mt-1">{gstinError}</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CustomerDetailsForm;
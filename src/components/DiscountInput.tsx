@@ -0,0 +1,39 @@
+import type { DiscountType } from '../types';
+
+interface DiscountInputProps {
+  value: number;
+  type: DiscountType | undefined; // 'percent' when missing
+  currency?: string;
+  onChange: (value: number, type: DiscountType) => void;
+}
+
+// Invoice-level discount, as a percentage or a fixed amount
+function DiscountInput({ value, type = 'percent', currency = '₹', onChange }: DiscountInputProps) {
+  return (
+    <div>
+      <label className="input-label">Discount</label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          max={type === 'percent' ? 100 : undefined}
+          step="0.01"
+          value={value || ''}
+          onChange={(e) => onChange(parseFloat(e.target.value) || 0, type)}
+          placeholder="0"
+          className="input-field"
+        />
+        <select
+          value={type}
+          onChange={(e) => onChange(value, e.target.value as DiscountType)}
+          className="input-field w-20"
+        >
+          <option value="percent">%</option>
+          <option value="amount">{currency}</option>
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default DiscountInput;
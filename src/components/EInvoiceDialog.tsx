@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import type { Invoice, FormErrors } from '../types';
+
+export type EInvoiceRegistration = Required<Pick<Invoice, 'irn' | 'ackNumber' | 'ackDate'>> & Pick<Invoice, 'signedQrCode'>;
+
+interface EInvoiceDialogProps {
+  invoice: Invoice;
+  isSaving?: boolean;
+  onSave: (registration: EInvoiceRegistration) => void;
+  onClose: () => void;
+}
+
+// Records what the IRP returned after the e-invoice JSON was uploaded
+function EInvoiceDialog({ invoice, isSaving, onSave, onClose }: EInvoiceDialogProps) {
+  const [irn, setIrn] = useState(invoice.irn || '');
+  const [ackNumber, setAckNumber] = useState(invoice.ackNumber || '');
+  const [ackDate, setAckDate] = useState(invoice.ackDate || '');
+  const [signedQrCode, setSignedQrCode] = useState(invoice.signedQrCode || '');
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleSave = (): void => {
+    const newErrors: FormErrors = {};
+    if (!/^[0-9a-f]{64}$/i.test(irn.trim())) {
+      newErrors.irn = 'IRN must be the 64-character reference the IRP returned';
+    }
+    if (!/^\d{1,20}$/.test(ackNumber.trim())) {
+      newErrors.ackNumber = 'Acknowledgement number must be digits';
+    }
+    if (!ackDate.trim()) {
+      newErrors.ackDate = 'Acknowledgement date is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSave({
+      irn: irn.trim().toLowerCase(),
+      ackNumber: ackNumber.trim(),
+      ackDate: ackDate.trim(),
+      signedQrCode: signedQrCode.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div className="glass rounded-2xl p-6 max-w-lg w-full animate-scale-in">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Record IRN</h3>
+            <p className="text-midnight-400 text-sm">From the IRP's response for {invoice.invoiceNumber}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-midnight-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="input-label">IRN *</label>
+            <input
+              type="text"
+              value={irn}
+              onChange={(e) => setIrn(e.target.value)}
+              className={`input-field font-mono text-xs ${errors.irn ? 'border-coral-500' : ''}`}
+              placeholder="64-character invoice reference number"
+            />
+            {errors.irn && <p className="text-coral-400 text-sm mt-1">{errors.irn}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Ack No. *</label>
+              <input
+                type="text"
+                value={ackNumber}
+                onChange={(e) => setAckNumber(e.target.value)}
+                className={`input-field font-mono ${errors.ackNumber ? 'border-coral-500' : ''}`}
+                placeholder="112410000000000"
+              />
+            </div>
+            <div>
+              <label className="input-label">Ack Date *</label>
+              <input
+                type="text"
+                value={ackDate}
+                onChange={(e) => setAckDate(e.target.value)}
+                className={`input-field font-mono ${errors.ackDate ? 'border-coral-500' : ''}`}
+                placeholder="2024-04-01 10:15:00"
+              />
+            </div>
+          </div>
+          {(errors.ackNumber || errors.ackDate) && (
+            <p className="text-coral-400 text-sm -mt-2">{errors.ackNumber || errors.ackDate}</p>
+          )}
+
+          <div>
+            <label className="input-label">Signed QR Code</label>
+            <textarea
+              value={signedQrCode}
+              onChange={(e) => setSignedQrCode(e.target.value)}
+              className="input-field font-mono text-xs min-h-[100px] resize-none"
+              placeholder="SignedQRCode from the response, printed on the invoice as a QR code"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">Cancel</button>
+          <button onClick={handleSave} disabled={isSaving} className="btn-primary flex-1 flex items-center justify-center gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save IRN
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EInvoiceDialog;
@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import { AlertTriangle, Download, FileSpreadsheet } from 'lucide-react';
+import { formatCurrency, downloadBlob } from '../utils/helpers';
+import { toCSVBlob } from '../utils/csv';
+import { buildGSTR1, getGSTR1Filename, getGSTR1Sheets, sumRateRows, toGSTR1JSON, type ReturnRateRow } from '../utils/gstr1';
+import type { TaxPeriod } from '../utils/taxPeriods';
+import type { Business, CreditDebitNote, Invoice } from '../types';
+
+interface GSTR1PanelProps {
+  invoices: Invoice[];
+  notes: CreditDebitNote[];
+  business: Business;
+  period: TaxPeriod;
+}
+
+interface SectionRow {
+  sheet: string;
+  label: string;
+  count: number;
+  totals?: ReturnRateRow;
+}
+
+// GSTR-1 for a period: what each section holds, with the offline tool JSON and CSV sheets to download
+function GSTR1Panel({ invoices, notes, business, period }: GSTR1PanelProps) {
+  const report = useMemo(() => buildGSTR1(invoices, notes, business, period), [invoices, notes, business, period]);
+  const sheets = useMemo(() => getGSTR1Sheets(report), [report]);
+
+  const sections: SectionRow[] = [
+    { sheet: 'b2b', label: 'B2B, SEZ & deemed exports', count: report.b2b.length, totals: sumRateRows(report.b2b.flatMap(doc => doc.rates)) },
+    { sheet: 'b2cl', label: 'B2C large', count: report.b2cl.length, totals: sumRateRows(report.b2cl.flatMap(doc => doc.rates)) },
+    { sheet: 'b2cs', label: 'B2C others', count: report.b2cs.length, totals: sumRateRows(report.b2cs) },
+    { sheet: 'cdnr', label: 'Notes, registered', count: report.cdnr.length, totals: sumRateRows(report.cdnr.flatMap(doc => doc.rates)) },
+    { sheet: 'cdnur', label: 'Notes, unregistered', count: report.cdnur.length, totals: sumRateRows(report.cdnur.flatMap(doc => doc.rates)) },
+    { sheet: 'exp', label: 'Exports', count: report.exp.length, totals: sumRateRows(report.exp.flatMap(doc => doc.rates)) },
+    { sheet: 'hsn', label: 'HSN summary', count: report.hsn.length, totals: sumRateRows(report.hsn) },
+    { sheet: 'docs', label: 'Documents issued', count: report.docs.reduce((sum, row) => sum + row.total, 0) },
+  ];
+
+  const handleDownloadJSON = (): void => {
+    const blob = new Blob([JSON.stringify(toGSTR1JSON(report), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, getGSTR1Filename(report, 'json'));
+  };
+
+  const handleDownloadSheet = (name: string): void => {
+    const sheet = sheets.find(candidate => candidate.name === name);
+    if (sheet) downloadBlob(toCSVBlob(sheet.rows), getGSTR1Filename(report, 'csv', sheet.name));
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">GSTR-1</h2>
+          <p className="text-midnight-400 text-sm">Outward supplies, from the invoices and notes dated in the period</p>
+        </div>
+        <button onClick={handleDownloadJSON} className="btn-primary flex items-center gap-2 text-sm self-start">
+          <Download className="w-4 h-4" />
+          Download JSON
+        </button>
+      </div>
+
+      {report.warnings.length > 0 && (
+        <div className="mb-4 p-4 rounded-xl bg-gold-500/10 border border-gold-500/30">
+          <p className="text-gold-400 text-sm font-medium mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Check before filing
+          </p>
+          <ul className="list-disc list-inside space-y-1 text-midnight-300 text-sm">
+            {report.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-midnight-400 border-b border-midnight-700">
+              <th className="text-left py-2 pr-3 font-medium">Section</th>
+              <th className="text-right py-2 px-3 font-medium">Records</th>
+              <th className="text-right py-2 px-3 font-medium">Taxable Value</th>
+              <th className="text-right py-2 px-3 font-medium">IGST</th>
+              <th className="text-right py-2 px-3 font-medium">CGST</th>
+              <th className="text-right py-2 px-3 font-medium">SGST/UTGST</th>
+              <th className="py-2 pl-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-midnight-700/50">
+            {sections.map((section) => (
+              <tr key={section.sheet} className="text-white">
+                <td className="py-2 pr-3">
+                  {section.label}
+                  <span className="text-midnight-500 font-mono text-xs ml-2">{section.sheet.toUpperCase()}</span>
+                </td>
+                <td className="text-right py-2 px-3 font-mono">{section.count}</td>
+                <td className="text-right py-2 px-3 font-mono">{section.totals ? formatCurrency(section.totals.taxableValue) : ''}</td>
+                <td className="text-right py-2 px-3 font-mono">{section.totals ? formatCurrency(section.totals.igst) : ''}</td>
+                <td className="text-right py-2 px-3 font-mono">{section.totals ? formatCurrency(section.totals.cgst) : ''}</td>
+                <td className="text-right py-2 px-3 font-mono">{section.totals ? formatCurrency(section.totals.sgst) : ''}</td>
+                <td className="text-right py-2 pl-3">
+                  <button
+                    onClick={() => handleDownloadSheet(section.sheet)}
+                    disabled={section.count === 0}
+                    className="p-1.5 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title="Download CSV"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default GSTR1Panel;
@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { Download, FileSpreadsheet } from 'lucide-react';
+import { formatCurrency, downloadBlob } from '../utils/helpers';
+import { toCSVBlob } from '../utils/csv';
+import { buildGSTR3B, getGSTR3BFilename, getGSTR3BRows, getGSTR3BTaxTotals, toGSTR3BJSON } from '../utils/gstr3b';
+import type { TaxPeriod } from '../utils/taxPeriods';
+import type { Business, CreditDebitNote, Invoice } from '../types';
+
+interface GSTR3BPanelProps {
+  invoices: Invoice[];
+  notes: CreditDebitNote[];
+  business: Business;
+  period: TaxPeriod;
+}
+
+// GSTR-3B table 3.1 for a period, net of credit and debit notes, with JSON and CSV to download
+function GSTR3BPanel({ invoices, notes, business, period }: GSTR3BPanelProps) {
+  const report = useMemo(() => buildGSTR3B(invoices, notes, business, period), [invoices, notes, business, period]);
+  const totals = getGSTR3BTaxTotals(report);
+
+  const handleDownloadJSON = (): void => {
+    const blob = new Blob([JSON.stringify(toGSTR3BJSON(report), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, getGSTR3BFilename(report, 'json'));
+  };
+
+  const handleDownloadCSV = (): void => {
+    downloadBlob(toCSVBlob(getGSTR3BRows(report)), getGSTR3BFilename(report, 'csv'));
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">GSTR-3B</h2>
+          <p className="text-midnight-400 text-sm">Table 3.1, outward supplies and tax payable for the period</p>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button onClick={handleDownloadCSV} className="btn-secondary flex items-center gap-2 text-sm">
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={handleDownloadJSON} className="btn-primary flex items-center gap-2 text-sm">
+            <Download className="w-4 h-4" />
+            Download JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-midnight-400 border-b border-midnight-700">
+              <th className="text-left py-2 pr-3 font-medium">Nature of Supplies</th>
+              <th className="text-right py-2 px-3 font-medium">Taxable Value</th>
+              <th className="text-right py-2 px-3 font-medium">IGST</th>
+              <th className="text-right py-2 px-3 font-medium">CGST</th>
+              <th className="text-right py-2 px-3 font-medium">SGST/UTGST</th>
+              <th className="text-right py-2 pl-3 font-medium">Cess</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-midnight-700/50">
+            {report.rows.map((row) => (
+              <tr key={row.key} className="text-white">
+                <td className="py-2 pr-3">{row.label}</td>
+                <td className="text-right py-2 px-3 font-mono">{formatCurrency(row.taxableValue)}</td>
+                <td className="text-right py-2 px-3 font-mono">{formatCurrency(row.igst)}</td>
+                <td className="text-right py-2 px-3 font-mono">{formatCurrency(row.cgst)}</td>
+                <td className="text-right py-2 px-3 font-mono">{formatCurrency(row.sgst)}</td>
+                <td className="text-right py-2 pl-3 font-mono">{formatCurrency(row.cess)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-white font-semibold border-t border-midnight-700">
+              <td className="py-2 pr-3">Tax payable</td>
+              <td className="py-2 px-3" />
+              <td className="text-right py-2 px-3 font-mono">{formatCurrency(totals.igst)}</td>
+              <td className="text-right py-2 px-3 font-mono">{formatCurrency(totals.cgst)}</td>
+              <td className="text-right py-2 px-3 font-mono">{formatCurrency(totals.sgst)}</td>
+              <td className="text-right py-2 pl-3 font-mono">{formatCurrency(totals.cess)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default GSTR3BPanel;
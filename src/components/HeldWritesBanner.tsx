@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useSync } from '../contexts/SyncProvider';
+import { TABLES } from '../lib/supabase';
+import type { HeldWrite, SyncedTable } from '../lib/outbox';
+import type { Invoice } from '../types';
+import ConflictDialog from './ConflictDialog';
+
+const TABLE_LABELS: Record<SyncedTable, string> = {
+  [TABLES.INVOICES]: 'Invoice',
+  [TABLES.CUSTOMERS]: 'Customer',
+  [TABLES.PRODUCTS]: 'Product',
+  [TABLES.BUSINESS]: 'Business profile',
+  [TABLES.SETTINGS]: 'Settings',
+  [TABLES.PAYMENTS]: 'Payment',
+  [TABLES.ESTIMATES]: 'Estimate',
+  [TABLES.CREDIT_DEBIT_NOTES]: 'Credit/debit note',
+  [TABLES.RECURRING_PROFILES]: 'Recurring profile',
+};
+
+// What the held change is about, e.g. "Invoice INV-0042"
+const describeWrite = (write: HeldWrite): string => {
+  const record = (write.mine || write.theirs || {}) as { invoiceNumber?: string; estimateNumber?: string; noteNumber?: string; name?: string };
+  const name = record.invoiceNumber || record.estimateNumber || record.noteNumber || record.name;
+  const label = TABLE_LABELS[write.table];
+  return `${write.operation === 'delete' ? 'Deleting ' : ''}${name ? `${label} ${name}` : label}`;
+};
+
+// Offline changes that could not be saved on their own: ones that conflict with a change made on
+// another device, and ones the cloud kept rejecting. They stay queued until the user deals with them.
+function HeldWritesBanner() {
+  const { heldWrites, resolveHeldWrite, retryHeldWrite, discardHeldWrite } = useSync();
+  const [reviewing, setReviewing] = useState<HeldWrite | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState<number | null>(null);
+  const [busy, setBusy] = useState<number | null>(null);
+
+  if (heldWrites.length === 0) return null;
+
+  const run = async (seq: number, action: () => Promise<void>): Promise<void> => {
+    setBusy(seq);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update held change:', error);
+    } finally {
+      setBusy(null);
+      setConfirmDiscard(null);
+    }
+  };
+
+  const handleResolve = async (merged: Invoice): Promise<void> => {
+    if (!reviewing) return;
+    await run(reviewing.seq, () => resolveHeldWrite(reviewing.seq, merged));
+    setReviewing(null);
+  };
+
+  const handleDiscard = async (): Promise<void> => {
+    if (!reviewing) return;
+    await run(reviewing.seq, () => discardHeldWrite(reviewing.seq));
+    setReviewing(null);
+  };
+
+  return (
+    <div className="mb-6 rounded-xl border border-gold-500/30 bg-gold-500/10 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle className="w-5 h-5 text-gold-400" />
+        <p className="text-white font-medium">
+          {heldWrites.length} offline change{heldWrites.length === 1 ? '' : 's'} could not be saved and need{heldWrites.length === 1 ? 's' : ''} your review
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {heldWrites.map((write) => (
+          <div key={write.seq} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg bg-midnight-800/50 px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-white text-sm">{describeWrite(write)}</p>
+              <p className="text-midnight-400 text-xs truncate">
+                {write.theirs ? 'Changed on another device while you were offline' : write.error || 'Could not be saved'}
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {busy === write.seq ? (
+                <Loader2 className="w-4 h-4 text-teal-400 animate-spin" />
+              ) : confirmDiscard === write.seq ? (
+                <>
+                  <button onClick={() => setConfirmDiscard(null)} className="btn-secondary text-xs px-3 py-1.5">
+                    Keep
+                  </button>
+                  <button onClick={() => run(write.seq, () => discardHeldWrite(write.seq))} className="btn-secondary text-xs px-3 py-1.5 text-coral-400">
+                    Discard for good
+                  </button>
+                </>
+              ) : write.theirs && write.table === TABLES.INVOICES ? (
+                <button onClick={() => setReviewing(write)} className="btn-primary text-xs px-3 py-1.5">
+                  Review
+                </button>
+              ) : (
+                <>
+                  <button onClick={() => run(write.seq, () => retryHeldWrite(write.seq))} className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1">
+                    <RotateCcw className="w-3 h-3" />
+                    Retry
+                  </button>
+                  <button onClick={() => setConfirmDiscard(write.seq)} className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1">
+                    <Trash2 className="w-3 h-3" />
+                    Discard
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {reviewing && (
+        <ConflictDialog
+          base={reviewing.base as Invoice | undefined}
+          mine={reviewing.mine as Invoice}
+          theirs={reviewing.theirs as Invoice}
+          currency={(reviewing.mine as Invoice).currency}
+          isSaving={busy === reviewing.seq}
+          onResolve={handleResolve}
+          onDiscard={handleDiscard}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default HeldWritesBanner;
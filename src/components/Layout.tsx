@@ -3,8 +3,11 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard,
   FileText,
+  ClipboardList,
+  Repeat,
   Package,
   Users,
+  BarChart3,
   Settings,
   Menu,
   X,
@@ -22,6 +25,7 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useSync } from '../contexts/SyncProvider';
 import { isSupabaseConfigured } from '../lib/supabase';
+import HeldWritesBanner from './HeldWritesBanner';
 
 interface NavItem {
   path: string;
@@ -32,8 +36,11 @@ interface NavItem {
 const navItems: NavItem[] = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/invoices', label: 'Invoices', icon: FileText },
+  { path: '/estimates', label: 'Estimates', icon: ClipboardList },
+  { path: '/recurring', label: 'Recurring', icon: Repeat },
   { path: '/products', label: 'Products', icon: Package },
   { path: '/customers', label: 'Customers', icon: Users },
+  { path: '/reports', label: 'Reports', icon: BarChart3 },
   { path: '/settings', label: 'Settings', icon: Settings },
 ];
 
@@ -51,9 +58,9 @@ function Layout({ children }: LayoutProps) {
   });
   const [userSidebarPreference, setUserSidebarPreference] = useState<boolean | null>(null);
 
-  // Auto-collapse sidebar on invoice creation/edit pages
+  // Auto-collapse sidebar on invoice, estimate and recurring profile creation/edit pages
   useEffect(() => {
-    const isInvoicePage = location.pathname === '/invoices/new' || location.pathname.startsWith('/invoices/edit/');
+    const isInvoicePage = /^\/(invoices|estimates|recurring)\/(new$|edit\/)/.test(location.pathname);
 
     if (isInvoicePage) {
       // Save user's current preference if not already saved
@@ -73,7 +80,10 @@ function Layout({ children }: LayoutProps) {
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const { syncStatus } = useSync();
+  const { syncStatus, pendingCount, tableStatus } = useSync();
+  const realtimeSummary = Object.entries(tableStatus)
+    .map(([table, status]) => `${table}: ${status}`)
+    .join('\n');
 
   // Save sidebar state to localStorage
   useEffect(() => {
@@ -170,7 +180,7 @@ function Layout({ children }: LayoutProps) {
             {isSupabaseConfigured && user ? (
               <div className="space-y-3">
                 {/* Sync Status */}
-                <div className={`flex items-center gap-2 rounded-lg bg-midnight-800/50 transition-all duration-300 ${sidebarCollapsed ? 'lg:justify-center lg:w-12 lg:h-12 lg:mx-auto' : 'px-3 py-2'}
+                <div title={realtimeSummary || undefined} className={`flex items-center gap-2 rounded-lg bg-midnight-800/50 transition-all duration-300 ${sidebarCollapsed ? 'lg:justify-center lg:w-12 lg:h-12 lg:mx-auto' : 'px-3 py-2'}
                   }`}>
                   {syncStatus === 'synced' ? (
                     <>
@@ -186,11 +196,19 @@ function Layout({ children }: LayoutProps) {
                         Syncing...
                       </span>
                     </>
+                  ) : syncStatus === 'offline' || syncStatus === 'error' ? (
+                    <>
+                      <CloudOff className={`text-gold-400 flex-shrink-0 transition-all duration-300 ${sidebarCollapsed ? 'lg:w-5 lg:h-5' : 'w-4 h-4'}`} />
+                      <span className={`text-xs text-gold-400 transition-all duration-300 overflow-hidden whitespace-nowrap ${sidebarCollapsed ? 'lg:w-0 lg:opacity-0' : 'w-auto opacity-100'}`}>
+                        {syncStatus === 'offline' ? 'Offline' : 'Sync failed'}
+                        {pendingCount > 0 && ` · ${pendingCount} pending`}
+                      </span>
+                    </>
                   ) : (
                     <>
                       <Cloud className={`text-midnight-400 flex-shrink-0 transition-all duration-300 ${sidebarCollapsed ? 'lg:w-5 lg:h-5' : 'w-4 h-4'}`} />
                       <span className={`text-xs text-midnight-400 transition-all duration-300 overflow-hidden whitespace-nowrap ${sidebarCollapsed ? 'lg:w-0 lg:opacity-0' : 'w-auto opacity-100'}`}>
-                        Idle
+                        {pendingCount > 0 ? `${pendingCount} pending` : 'Idle'}
                       </span>
                     </>
                   )}
@@ -329,6 +347,7 @@ function Layout({ children }: LayoutProps) {
         {/* Page content */}
         <div className="flex-1 p-3 sm:p-4 lg:p-0 safe-area-bottom">
           <div className="glass rounded-2xl min-h-full p-4 sm:p-6 lg:p-8 animate-fade-in">
+            <HeldWritesBanner />
             {children}
           </div>
         </div>
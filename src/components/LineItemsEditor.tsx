@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, Receipt } from 'lucide-react';
+import { generateId, formatCurrency, calculateLineTotals, parseTaxRateInput } from '../utils/helpers';
+import type { InvoiceItem, Product } from '../types';
+
+interface LineItemsEditorProps {
+  items: InvoiceItem[];
+  products: Product[];
+  currency?: string;
+  defaultTaxRate?: number; // Applies to lines left without a tax rate
+  error?: string | null;
+  onChange: (items: InvoiceItem[]) => void;
+}
+
+export const createEmptyItem = (): InvoiceItem => ({
+  id: generateId(),
+  name: '',
+  quantity: '',
+  price: '',
+  unit: '',
+  hsnCode: '',
+  discount: '',
+  taxRate: '',
+});
+
+// Line item table shared by invoices and estimates, with product catalog lookup
+function LineItemsEditor({ items, products, currency, defaultTaxRate = 0, error, onChange }: LineItemsEditorProps) {
+  const [showProductDropdown, setShowProductDropdown] = useState<string | null>(null);
+  const [productSearch, setProductSearch] = useState('');
+
+  const filteredProducts = useMemo((): Product[] => {
+    if (!productSearch) return products.slice(0, 5);
+    return products.filter(p =>
+      p.name.toLowerCase().includes(productSearch.toLowerCase())
+    ).slice(0, 5);
+  }, [products, productSearch]);
+
+  const handleItemChange = (itemId: string, field: keyof InvoiceItem, value: string | number | boolean): void => {
+    onChange(items.map(item =>
+      item.id === itemId ? { ...item, [field]: value } : item
+    ));
+  };
+
+  const addItem = (): void => {
+    onChange([...items, createEmptyItem()]);
+  };
+
+  const removeItem = (itemId: string): void => {
+    if (items.length > 1) {
+      onChange(items.filter(item => item.id !== itemId));
+    }
+  };
+
+  const selectProduct = (product: Product, itemId: string): void => {
+    onChange(items.map(item =>
+      item.id === itemId
+        ? { ...item, name: product.name, hsnCode: product.hsnCode || '', price: product.price, priceIncludesTax: Boolean(product.priceIncludesTax), unit: product.unit || 'PCS', taxRate: product.taxRate ?? '' }
+        : item
+    ));
+    setShowProductDropdown(null);
+    setProductSearch('');
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 ring-2 ring-teal-500/20">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-teal-500/20 flex items-center justify-center">
+            <Receipt className="w-4 h-4 text-teal-400" />
+          </div>
+          <h2 className="text-lg font-semibold text-white">Items</h2>
+        </div>
+        <button
+          type="button"
+          onClick={addItem}
+          className="btn-secondary flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          Add Item
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-coral-400 text-sm mb-4">{error}</p>
+      )}
+
+      {/* Table Header */}
+      <div className="hidden sm:grid sm:grid-cols-[auto_1fr_90px_80px_60px_100px_80px_80px_100px_auto] gap-2 pb-2 border-b border-midnight-600 mb-2">
+        <div className="text-midnight-400 text-xs font-medium">#</div>
+        <div className="text-midnight-400 text-xs font-medium">Item Name</div>
+        <div className="text-midnight-400 text-xs font-medium text-center">HSN/SAC</div>
+        <div className="text-midnight-400 text-xs font-medium text-center">Qty</div>
+        <div className="text-midnight-400 text-xs font-medium text-center">Unit</div>
+        <div className="text-midnight-400 text-xs font-medium text-right">Price</div>
+        <div className="text-midnight-400 text-xs font-medium text-center">Disc %</div>
+        <div className="text-midnight-400 text-xs font-medium text-center">Tax %</div>
+        <div className="text-midnight-400 text-xs font-medium text-right">Amount</div>
+        <div className="text-midnight-400 text-xs font-medium"></div>
+      </div>
+
+      {/* Table Rows */}
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div
+            key={item.id}
+            className="grid grid-cols-1 sm:grid-cols-[auto_1fr_90px_80px_60px_100px_80px_80px_100px_auto] gap-2 py-2 border-b border-midnight-700/50 items-center"
+          >
+            {/* Row Number */}
+            <div className="hidden sm:flex text-midnight-400 text-sm items-center">
+              {index + 1}
+            </div>
+
+            {/* Item Name */}
+            <div className="relative">
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Item Name</label>
+              <input
+                type="text"
+                value={item.name}
+                onChange={(e) => {
+                  handleItemChange(item.id, 'name', e.target.value);
+                  setProductSearch(e.target.value);
+                  setShowProductDropdown(item.id);
+                }}
+                onFocus={() => setShowProductDropdown(item.id)}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all"
+                placeholder="Enter item name"
+              />
+              {showProductDropdown === item.id && filteredProducts.length > 0 && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={() => setShowProductDropdown(null)}
+                  />
+                  <div className="absolute z-20 w-full mt-1 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden">
+                    {filteredProducts.map((product) => (
+                      <button
+                        key={product.id}
+                        type="button"
+                        onClick={() => selectProduct(product, item.id)}
+                        className="w-full px-4 py-2 text-left hover:bg-midnight-700 transition-colors flex justify-between items-center"
+                      >
+                        <span className="text-white text-sm">{product.name}</span>
+                        <span className="text-teal-400 font-mono text-sm">
+                          {formatCurrency(product.price, currency)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* HSN/SAC */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">HSN/SAC</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={item.hsnCode || ''}
+                onChange={(e) => handleItemChange(item.id, 'hsnCode', e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center font-mono focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all"
+                placeholder="-"
+              />
+            </div>
+
+            {/* Quantity */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Qty</label>
+              <input
+                type="number"
+                min="1"
+                value={item.quantity}
+                onChange={(e) => handleItemChange(item.id, 'quantity', parseInt(e.target.value) || '')}
+                onKeyDown={(e) => {
+                  // Prevent non-numeric characters (except backspace, delete, arrow keys, tab)
+                  if (!/[0-9]/.test(e.key) && !['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight', 'Tab'].includes(e.key)) {
+                    e.preventDefault();
+                  }
+                }}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+              />
+            </div>
+
+            {/* Unit */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Unit</label>
+              <input
+                type="text"
+                value={item.unit || ''}
+                onChange={(e) => handleItemChange(item.id, 'unit', e.target.value)}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all"
+                placeholder=""
+              />
+            </div>
+
+            {/* Price */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Price</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={item.price}
+                onChange={(e) => handleItemChange(item.id, 'price', parseFloat(e.target.value) || '')}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-right focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                placeholder="0.00"
+              />
+              <label className="flex items-center justify-end gap-1 mt-1 text-midnight-400 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={Boolean(item.priceIncludesTax)}
+                  onChange={(e) => handleItemChange(item.id, 'priceIncludesTax', e.target.checked)}
+                  className="w-3 h-3 accent-teal-500"
+                />
+                incl. tax
+              </label>
+            </div>
+
+            {/* Discount */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Disc %</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={item.discount || ''}
+                onChange={(e) => handleItemChange(item.id, 'discount', parseFloat(e.target.value) || '')}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                placeholder="0"
+              />
+            </div>
+
+            {/* Tax Rate */}
+            <div>
+              <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Tax %</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={item.taxRate ?? ''}
+                onChange={(e) => handleItemChange(item.id, 'taxRate', parseTaxRateInput(e.target.value))}
+                className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                placeholder={String(defaultTaxRate || 0)}
+              />
+            </div>
+
+            {/* Amount & Delete */}
+            <div className="flex items-center justify-between sm:justify-end gap-2">
+              <div className="sm:hidden text-midnight-400 text-xs">Amount:</div>
+              <span className="text-white font-mono text-sm font-semibold truncate">
+                {formatCurrency(calculateLineTotals(item, defaultTaxRate).amount, currency)}
+              </span>
+              {items.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => removeItem(item.id)}
+                  className="p-1.5 text-coral-400 hover:bg-coral-500/20 rounded-lg transition-colors ml-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Item Button */}
+      <button
+        type="button"
+        onClick={addItem}
+        className="mt-4 w-full py-2.5 border-2 border-dashed border-midnight-600 rounded-xl text-midnight-400 hover:text-teal-400 hover:border-teal-500/50 transition-colors flex items-center justify-center gap-2 text-sm"
+      >
+        <Plus className="w-4 h-4" />
+        Add Item
+      </button>
+    </div>
+  );
+}
+
+export default LineItemsEditor;
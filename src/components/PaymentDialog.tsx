@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { generateId, formatCurrency, formatDate } from '../utils/helpers';
+import { PAYMENT_MODE_OPTIONS } from '../utils/payments';
+import type { Payment, PaymentMode, FormErrors } from '../types';
+import { roundMoney } from '../utils/money';
+
+interface PaymentDialogProps {
+  invoiceId: string;
+  balanceDue: number;
+  currency?: string;
+  isSaving?: boolean;
+  onSave: (payment: Payment) => void;
+  onClose: () => void;
+}
+
+function PaymentDialog({ invoiceId, balanceDue, currency, isSaving, onSave, onClose }: PaymentDialogProps) {
+  const [amount, setAmount] = useState<string>(balanceDue > 0 ? balanceDue.toFixed(2) : '');
+  const [date, setDate] = useState(formatDate(new Date(), 'input'));
+  const [mode, setMode] = useState<PaymentMode>('upi');
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleSave = (): void => {
+    const value = parseFloat(amount);
+    const newErrors: FormErrors = {};
+    if (!value || value <= 0) {
+      newErrors.amount = 'Amount must be greater than 0';
+    } else if (value > balanceDue + 0.005) {
+      newErrors.amount = `Amount cannot exceed the balance due of ${formatCurrency(balanceDue, currency)}`;
+    }
+    if (!date) {
+      newErrors.date = 'Payment date is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSave({
+      id: generateId(),
+      invoiceId,
+      amount: roundMoney(value),
+      date: new Date(date).toISOString(),
+      mode,
+      reference: reference.trim() || undefined,
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div className="glass rounded-2xl p-6 max-w-md w-full animate-scale-in">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Record Payment</h3>
+            <p className="text-midnight-400 text-sm">Balance due: {formatCurrency(balanceDue, currency)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-midnight-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Amount *</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`input-field font-mono ${errors.amount ? 'border-coral-500' : ''}`}
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="input-label">Date *</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={`input-field ${errors.date ? 'border-coral-500' : ''}`}
+              />
+            </div>
+          </div>
+          {(errors.amount || errors.date) && (
+            <p className="text-coral-400 text-sm -mt-2">{errors.amount || errors.date}</p>
+          )}
+
+          <div>
+            <label className="input-label">Payment Mode</label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as PaymentMode)}
+              className="input-field"
+            >
+              {PAYMENT_MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="input-label">Reference Number</label>
+            <input
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              className="input-field"
+              placeholder="UTR, cheque or transaction number"
+            />
+          </div>
+
+          <div>
+            <label className="input-label">Note</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="input-field min-h-[60px] resize-none"
+              placeholder="Optional note"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">Cancel</button>
+          <button onClick={handleSave} disabled={isSaving} className="btn-primary flex-1 flex items-center justify-center gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Payment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PaymentDialog;
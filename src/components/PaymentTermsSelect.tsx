@@ -0,0 +1,51 @@
+import { PAYMENT_TERMS_OPTIONS } from '../utils/paymentTerms';
+import type { PaymentTerms, PaymentTermsCode } from '../types';
+
+interface PaymentTermsSelectProps {
+  value: PaymentTerms | null | undefined;
+  onChange: (terms: PaymentTerms | null) => void;
+  // Label for the empty option; omit to require a choice
+  emptyLabel?: string;
+  label?: string;
+}
+
+function PaymentTermsSelect({ value, onChange, emptyLabel, label = 'Payment Terms' }: PaymentTermsSelectProps) {
+  const handleCodeChange = (code: string): void => {
+    if (!code) {
+      onChange(null);
+      return;
+    }
+    const termsCode = code as PaymentTermsCode;
+    onChange(termsCode === 'custom' ? { code: termsCode, days: value?.days || 45 } : { code: termsCode });
+  };
+
+  return (
+    <div>
+      <label className="input-label">{label}</label>
+      <div className="flex gap-2">
+        <select
+          value={value?.code || ''}
+          onChange={(e) => handleCodeChange(e.target.value)}
+          className="input-field flex-1"
+        >
+          {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+          {PAYMENT_TERMS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {value?.code === 'custom' && (
+          <input
+            type="number"
+            min="0"
+            value={value.days ?? ''}
+            onChange={(e) => onChange({ code: 'custom', days: parseInt(e.target.value) || 0 })}
+            className="input-field w-24"
+            placeholder="Days"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PaymentTermsSelect;
@@ -0,0 +1,80 @@
+import { X } from 'lucide-react';
+import {
+  DEFAULT_REGISTER_FILTERS,
+  REGISTER_STATUS_OPTIONS,
+  type RegisterCustomer,
+  type RegisterFilters,
+  type RegisterStatusFilter,
+} from '../utils/registers';
+
+interface RegisterFiltersBarProps {
+  value: RegisterFilters;
+  onChange: (filters: RegisterFilters) => void;
+  customers: RegisterCustomer[];
+}
+
+// Date range, status and customer for the registers on the Reports page
+function RegisterFiltersBar({ value, onChange, customers }: RegisterFiltersBarProps) {
+  const update = (changes: Partial<RegisterFilters>): void => onChange({ ...value, ...changes });
+  const isFiltered = (Object.keys(value) as (keyof RegisterFilters)[]).some(key => value[key] !== DEFAULT_REGISTER_FILTERS[key]);
+
+  return (
+    <div className="glass rounded-xl p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-[1fr_1fr_1fr_1.5fr_auto] gap-3 items-end">
+      <div>
+        <label className="input-label">From</label>
+        <input
+          type="date"
+          value={value.from}
+          max={value.to || undefined}
+          onChange={(e) => update({ from: e.target.value })}
+          className="input-field"
+        />
+      </div>
+      <div>
+        <label className="input-label">To</label>
+        <input
+          type="date"
+          value={value.to}
+          min={value.from || undefined}
+          onChange={(e) => update({ to: e.target.value })}
+          className="input-field"
+        />
+      </div>
+      <div>
+        <label className="input-label">Status</label>
+        <select
+          value={value.status}
+          onChange={(e) => update({ status: e.target.value as RegisterStatusFilter })}
+          className="input-field"
+        >
+          {REGISTER_STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="input-label">Customer</label>
+        <select
+          value={value.customer}
+          onChange={(e) => update({ customer: e.target.value })}
+          className="input-field"
+        >
+          <option value="">All customers</option>
+          {customers.map((customer) => (
+            <option key={customer.value} value={customer.value}>{customer.label}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={() => onChange(DEFAULT_REGISTER_FILTERS)}
+        disabled={!isFiltered}
+        className="btn-secondary flex items-center justify-center gap-2 text-sm disabled:opacity-40"
+      >
+        <X className="w-4 h-4" />
+        Clear
+      </button>
+    </div>
+  );
+}
+
+export default RegisterFiltersBar;
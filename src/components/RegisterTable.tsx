@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileSpreadsheet, FileText, Loader2, Sheet, SortAsc, SortDesc } from 'lucide-react';
+import { usePDFGenerator } from '../hooks/usePDFGenerator';
+import { formatCurrency, formatDate, downloadBlob } from '../utils/helpers';
+import { toCSVBlob } from '../utils/csv';
+import { toXLSXBlob } from '../utils/xlsx';
+import {
+  getRegisterFilename,
+  getRegisterPDFContent,
+  getRegisterSheet,
+  getRegisterTotals,
+  paginateRows,
+  sortRegisterRows,
+  type Register,
+  type RegisterColumnType,
+  type RegisterFilters,
+  type SortDirection,
+} from '../utils/registers';
+
+interface RegisterTableProps {
+  register: Register;
+  filters: RegisterFilters;
+}
+
+const PAGE_SIZE = 25;
+
+const isNumeric = (type: RegisterColumnType): boolean => type !== 'text' && type !== 'date';
+
+// A register with sortable columns, a page at a time, and the whole of it to download
+function RegisterTable({ register, filters }: RegisterTableProps) {
+  const { downloadReportPDF, isGenerating } = usePDFGenerator();
+  const [sort, setSort] = useState<{ key: string; direction: SortDirection } | null>(null);
+  const [page, setPage] = useState(1);
+
+  // Back to the first page whenever the rows change under it
+  useEffect(() => {
+    setPage(1);
+  }, [register]);
+
+  const sortedRows = useMemo(() => {
+    const column = sort && register.columns.find(candidate => candidate.key === sort.key);
+    return column ? sortRegisterRows(register.rows, column, sort.direction) : register.rows;
+  }, [register, sort]);
+  const current = paginateRows(sortedRows, page, PAGE_SIZE);
+  const totals = useMemo(() => getRegisterTotals(register), [register]);
+
+  const formatValue = (type: RegisterColumnType, value: string | number | null): string => {
+    if (value === null || value === '') return '';
+    if (typeof value === 'string') return type === 'date' ? formatDate(value) : value;
+    if (type === 'money') return formatCurrency(value, register.currency);
+    if (type === 'percent') return `${value}%`;
+    return value.toLocaleString('en-IN');
+  };
+
+  const toggleSort = (key: string, type: RegisterColumnType): void => {
+    if (sort?.key === key) {
+      setSort({ key, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setSort({ key, direction: isNumeric(type) ? 'desc' : 'asc' });
+    }
+  };
+
+  const handleDownloadCSV = (): void => {
+    downloadBlob(toCSVBlob(getRegisterSheet({ ...register, rows: sortedRows })), getRegisterFilename(register, filters, 'csv'));
+  };
+
+  const handleDownloadXLSX = (): void => {
+    const blob = toXLSXBlob([{ name: register.title, rows: getRegisterSheet({ ...register, rows: sortedRows }) }]);
+    downloadBlob(blob, getRegisterFilename(register, filters, 'xlsx'));
+  };
+
+  const handleDownloadPDF = async (): Promise<void> => {
+    try {
+      await downloadReportPDF(getRegisterPDFContent({ ...register, rows: sortedRows }, filters), getRegisterFilename(register, filters, 'pdf'));
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{register.title}</h2>
+          <p className="text-midnight-400 text-sm">
+            {register.rows.length} row{register.rows.length === 1 ? '' : 's'}, amounts in {register.currency}
+          </p>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button onClick={handleDownloadCSV} disabled={register.rows.length === 0} className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-40">
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={handleDownloadXLSX} disabled={register.rows.length === 0} className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-40">
+            <Sheet className="w-4 h-4" />
+            XLSX
+          </button>
+          <button onClick={handleDownloadPDF} disabled={register.rows.length === 0 || isGenerating} className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-40">
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {register.rows.length === 0 ? (
+        <p className="text-midnight-400 text-sm py-8 text-center">No invoices match these filters</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-midnight-400 border-b border-midnight-700">
+                  {register.columns.map((column) => (
+                    <th key={column.key} className={`py-2 px-3 font-medium whitespace-nowrap ${isNumeric(column.type) ? 'text-right' : 'text-left'}`}>
+                      <button
+                        onClick={() => toggleSort(column.key, column.type)}
+                        className={`inline-flex items-center gap-1 hover:text-white transition-colors ${sort?.key === column.key ? 'text-teal-400' : ''}`}
+                      >
+                        {column.label}
+                        {sort?.key === column.key && (sort.direction === 'asc' ? <SortAsc className="w-3.5 h-3.5" /> : <SortDesc className="w-3.5 h-3.5" />)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-midnight-700/50">
+                {current.rows.map((row) => (
+                  <tr key={row.id} className="text-white">
+                    {register.columns.map((column) => (
+                      <td key={column.key} className={`py-2 px-3 whitespace-nowrap ${isNumeric(column.type) ? 'text-right font-mono' : ''}`}>
+                        {formatValue(column.type, column.value(row))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="text-white font-semibold border-t border-midnight-700">
+                  {register.columns.map((column, index) => (
+                    <td key={column.key} className={`py-2 px-3 whitespace-nowrap ${isNumeric(column.type) ? 'text-right font-mono' : ''}`}>
+                      {index === 0 ? 'Total' : formatValue(column.type, totals[index])}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {current.pageCount > 1 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-midnight-400">
+              <span>
+                {(current.page - 1) * PAGE_SIZE + 1}-{Math.min(current.page * PAGE_SIZE, sortedRows.length)} of {sortedRows.length}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage(current.page - 1)}
+                  disabled={current.page === 1}
+                  className="p-1.5 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>Page {current.page} of {current.pageCount}</span>
+                <button
+                  onClick={() => setPage(current.page + 1)}
+                  disabled={current.page === current.pageCount}
+                  className="p-1.5 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RegisterTable;
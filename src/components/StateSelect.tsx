@@ -0,0 +1,28 @@
+import { INDIAN_STATES } from '../utils/gst';
+
+interface StateSelectProps {
+  value: string | undefined; // GST state code
+  onChange: (code: string | undefined) => void;
+  label?: string;
+  emptyLabel?: string;
+}
+
+function StateSelect({ value, onChange, label = 'State', emptyLabel = 'Select state' }: StateSelectProps) {
+  return (
+    <div>
+      <label className="input-label">{label}</label>
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="input-field"
+      >
+        <option value="">{emptyLabel}</option>
+        {INDIAN_STATES.map((state) => (
+          <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default StateSelect;
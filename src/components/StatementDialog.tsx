@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Download, Loader2, Share2, X } from 'lucide-react';
+import { usePDFGenerator } from '../hooks/usePDFGenerator';
+import { formatCurrency, formatDate, downloadBlob } from '../utils/helpers';
+import { getToday } from '../utils/paymentTerms';
+import { buildCustomerStatement, getFinancialYearStart, getStatementEntryLabel, getStatementFilename } from '../utils/statements';
+import type { Business, CreditDebitNote, Customer, Invoice, Payment } from '../types';
+
+interface StatementDialogProps {
+  customer: Customer;
+  invoices: Invoice[]; // The customer's own
+  payments: Payment[];
+  notes: CreditDebitNote[];
+  business: Business;
+  onClose: () => void;
+}
+
+// Statement of account for one customer over a date range, to download or share as a PDF
+function StatementDialog({ customer, invoices, payments, notes, business, onClose }: StatementDialogProps) {
+  const { generateStatementPDF, isGenerating } = usePDFGenerator();
+  const [from, setFrom] = useState(() => getFinancialYearStart());
+  const [to, setTo] = useState(() => getToday());
+  const [sharing, setSharing] = useState(false);
+
+  const statement = useMemo(
+    () => buildCustomerStatement(customer, invoices, payments, notes, business, from, to || getToday()),
+    [customer, invoices, payments, notes, business, from, to]
+  );
+  const filename = getStatementFilename(statement);
+  const money = (amount: number): string => formatCurrency(amount, statement.currency);
+
+  const handleDownload = async (): Promise<void> => {
+    try {
+      downloadBlob(await generateStatementPDF(statement, business), filename);
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
+  const handleShare = async (): Promise<void> => {
+    setSharing(true);
+    try {
+      const pdfBlob = await generateStatementPDF(statement, business);
+      const pdfFile = new File([pdfBlob], filename, { type: 'application/pdf' });
+
+      if (navigator.share && navigator.canShare({ files: [pdfFile] })) {
+        await navigator.share({
+          title: `Statement for ${customer.name}`,
+          text: `Statement of account for ${customer.name} - ${money(statement.closingBalance)} due`,
+          files: [pdfFile],
+        });
+      } else {
+        downloadBlob(pdfBlob, filename);
+      }
+    } catch (error) {
+      const err = error as Error;
+      if (err.name !== 'AbortError') {
+        console.error('Error sharing:', error);
+        try {
+          downloadBlob(await generateStatementPDF(statement, business), filename);
+        } catch (downloadError) {
+          console.error('Failed to download PDF:', downloadError);
+        }
+      }
+    }
+    setSharing(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+      <div className="glass rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Statement of Account</h3>
+            <p className="text-midnight-400 text-sm">{customer.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-midnight-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-midnight-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="input-label">From</label>
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="input-field" />
+          </div>
+          <div>
+            <label className="input-label">To</label>
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="input-field" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+          {[
+            { label: 'Opening', amount: statement.openingBalance },
+            { label: 'Debits', amount: statement.totalDebits },
+            { label: 'Credits', amount: statement.totalCredits },
+            { label: 'Closing', amount: statement.closingBalance },
+          ].map((item) => (
+            <div key={item.label} className="p-3 rounded-xl bg-midnight-800/60">
+              <p className="text-midnight-400 text-xs">{item.label}</p>
+              <p className="text-white font-mono text-sm mt-1">{money(item.amount)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-auto flex-1 min-h-0 mb-6">
+          {statement.entries.length === 0 ? (
+            <p className="text-midnight-400 text-sm py-6 text-center">No transactions in this period</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-midnight-400 border-b border-midnight-700">
+                  <th className="text-left py-2 pr-3 font-medium">Date</th>
+                  <th className="text-left py-2 px-3 font-medium">Transaction</th>
+                  <th className="text-right py-2 px-3 font-medium">Debit</th>
+                  <th className="text-right py-2 px-3 font-medium">Credit</th>
+                  <th className="text-right py-2 pl-3 font-medium">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-midnight-700/50">
+                {statement.entries.map((entry) => (
+                  <tr key={entry.id} className="text-white">
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatDate(entry.date)}</td>
+                    <td className="py-2 px-3">
+                      {getStatementEntryLabel(entry.type)}
+                      {entry.reference && <span className="font-mono text-midnight-400 ml-2">{entry.reference}</span>}
+                      {entry.description && <p className="text-midnight-500 text-xs">{entry.description}</p>}
+                    </td>
+                    <td className="text-right py-2 px-3 font-mono whitespace-nowrap">{entry.debit ? money(entry.debit) : ''}</td>
+                    <td className="text-right py-2 px-3 font-mono whitespace-nowrap">{entry.credit ? money(entry.credit) : ''}</td>
+                    <td className="text-right py-2 pl-3 font-mono whitespace-nowrap">{money(entry.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={handleDownload} disabled={isGenerating} className="btn-secondary flex-1 flex items-center justify-center gap-2 disabled:opacity-50">
+            {isGenerating && !sharing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download PDF
+          </button>
+          <button onClick={handleShare} disabled={sharing || isGenerating} className="btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50">
+            <Share2 className={`w-4 h-4 ${sharing ? 'animate-pulse' : ''}`} />
+            {sharing ? 'Sharing...' : 'Share PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StatementDialog;
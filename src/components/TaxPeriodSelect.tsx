@@ -0,0 +1,47 @@
+import {
+  TAX_PERIOD_TYPE_OPTIONS,
+  getRecentTaxPeriods,
+  getTaxPeriod,
+  getTaxPeriodKey,
+  getTaxPeriodLabel,
+  type TaxPeriod,
+  type TaxPeriodType,
+} from '../utils/taxPeriods';
+
+interface TaxPeriodSelectProps {
+  value: TaxPeriod;
+  onChange: (period: TaxPeriod) => void;
+}
+
+// Return period: monthly or quarterly, then one of the last two years' periods
+function TaxPeriodSelect({ value, onChange }: TaxPeriodSelectProps) {
+  const periods = getRecentTaxPeriods(value.type, value.type === 'quarter' ? 8 : 24);
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={value.type}
+        onChange={(e) => onChange(getTaxPeriod(e.target.value as TaxPeriodType))}
+        className="input-field w-36"
+      >
+        {TAX_PERIOD_TYPE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={getTaxPeriodKey(value)}
+        onChange={(e) => {
+          const period = periods.find(option => getTaxPeriodKey(option) === e.target.value);
+          if (period) onChange(period);
+        }}
+        className="input-field w-44"
+      >
+        {periods.map((period) => (
+          <option key={getTaxPeriodKey(period)} value={getTaxPeriodKey(period)}>{getTaxPeriodLabel(period)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default TaxPeriodSelect;
@@ -0,0 +1,141 @@
+import { Plus, Route, Trash2 } from 'lucide-react';
+import { TRANSPORT_MODE_OPTIONS } from '../utils/ewayBill';
+import type { TransportDetails, TransportMode } from '../types';
+
+interface TransportDetailsEditorProps {
+  value: TransportDetails | undefined;
+  error?: string | null;
+  onChange: (transport: TransportDetails | undefined) => void;
+}
+
+// How the goods are moved, for the invoice's e-way bill
+function TransportDetailsEditor({ value, error, onChange }: TransportDetailsEditorProps) {
+  const update = (changes: Partial<TransportDetails>): void => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-teal-500/20 flex items-center justify-center">
+            <Route className="w-4 h-4 text-teal-400" />
+          </div>
+          <h2 className="text-lg font-semibold text-white">Transport</h2>
+        </div>
+        {value ? (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="p-1.5 text-coral-400 hover:bg-coral-500/20 rounded-lg transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onChange({ mode: 'road' })}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Transport
+          </button>
+        )}
+      </div>
+
+      {!value ? (
+        <p className="text-midnight-400 text-sm">Vehicle and transporter for goods that need an e-way bill</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Mode</label>
+              <select
+                value={value.mode}
+                onChange={(e) => update({ mode: e.target.value as TransportMode })}
+                className="input-field"
+              >
+                {TRANSPORT_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="input-label">Distance (km)</label>
+              <input
+                type="number"
+                min="0"
+                max="4000"
+                step="1"
+                value={value.distance ?? ''}
+                onChange={(e) => update({ distance: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className="input-field"
+                placeholder="0 to work out from PIN codes"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Transporter ID</label>
+              <input
+                type="text"
+                value={value.transporterId || ''}
+                onChange={(e) => update({ transporterId: e.target.value })}
+                className="input-field font-mono uppercase"
+                placeholder="GSTIN or TRANSIN"
+                maxLength={15}
+              />
+            </div>
+            <div>
+              <label className="input-label">Transporter Name</label>
+              <input
+                type="text"
+                value={value.transporterName || ''}
+                onChange={(e) => update({ transporterName: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {value.mode === 'road' && (
+              <div>
+                <label className="input-label">Vehicle No.</label>
+                <input
+                  type="text"
+                  value={value.vehicleNumber || ''}
+                  onChange={(e) => update({ vehicleNumber: e.target.value })}
+                  className="input-field font-mono uppercase"
+                  placeholder="KA01AB1234"
+                />
+              </div>
+            )}
+            <div>
+              <label className="input-label">{value.mode === 'road' ? 'LR No.' : 'Transport Doc No.'}</label>
+              <input
+                type="text"
+                value={value.transportDocNumber || ''}
+                onChange={(e) => update({ transportDocNumber: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="input-label">{value.mode === 'road' ? 'LR Date' : 'Transport Doc Date'}</label>
+              <input
+                type="date"
+                value={value.transportDocDate || ''}
+                onChange={(e) => update({ transportDocDate: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-coral-400 text-sm">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TransportDetailsEditor;
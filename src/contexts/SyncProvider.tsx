@@ -1,36 +1,162 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase, isSupabaseConfigured, TABLES } from '../lib/supabase';
+import { applyRealtimeChange, type RealtimeTable, type RealtimePayload } from '../lib/realtimeCache';
+import { replayPendingWrites, runRecurringProfiles, markOverdueInvoices, markExpiredEstimates } from '../lib/database';
+import { queryKeys } from '../lib/queryKeys';
+import {
+    subscribeToOutbox,
+    getHeldWrites,
+    resolveHeldWrite,
+    retryHeldWrite,
+    discardHeldWrite,
+    type HeldWrite,
+} from '../lib/outbox';
+import { isOnline } from '../lib/network';
 import { useAuth } from './AuthContext';
 
+type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'error';
+type TableStatus = 'connecting' | 'live' | 'closed' | 'error';
+type TableStatusMap = Partial<Record<RealtimeTable, TableStatus>>;
+
+// Map Supabase channel states onto per-table status
+const CHANNEL_STATUS: Record<string, TableStatus> = {
+    SUBSCRIBED: 'live',
+    CLOSED: 'closed',
+    CHANNEL_ERROR: 'error',
+    TIMED_OUT: 'error',
+};
+
 interface SyncContextType {
     lastSyncTime: Date | null;
-    syncStatus: 'idle' | 'syncing' | 'synced' | 'error';
+    syncStatus: SyncStatus;
+    tableStatus: TableStatusMap;
+    pendingCount: number;
+    heldWrites: HeldWrite[];
+    syncNow: () => Promise<void>;
+    resolveHeldWrite: (seq: number, merged: unknown) => Promise<void>;
+    retryHeldWrite: (seq: number) => Promise<void>;
+    discardHeldWrite: (seq: number) => Promise<void>;
 }
 
 const SyncContext = createContext<SyncContextType | undefined>(undefined);
 
 export function SyncProvider({ children }: { children: ReactNode }) {
     const { user } = useAuth();
+    const queryClient = useQueryClient();
     const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
-    const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>(isOnline() ? 'idle' : 'offline');
+    const [pendingCount, setPendingCount] = useState(0);
+    const [heldWrites, setHeldWrites] = useState<HeldWrite[]>([]);
+    const [tableStatus, setTableStatus] = useState<TableStatusMap>({});
 
-    useEffect(() => {
-        if (!supabase || !isSupabaseConfigured || !user) {
+    // Track how many writes are waiting in the offline outbox, and which of them wait on the user
+    useEffect(() => subscribeToOutbox(count => {
+        setPendingCount(count);
+        getHeldWrites()
+            .then(setHeldWrites)
+            .catch(error => console.error('Failed to read held changes:', error));
+    }), []);
+
+    // Replay queued offline writes in order, then refresh cached queries
+    const syncNow = useCallback(async () => {
+        if (!isSupabaseConfigured || !user) return;
+        if (!isOnline()) {
+            setSyncStatus('offline');
             return;
         }
 
-        const handleRealtimeUpdate = () => {
-            console.log('Remote change detected, refreshing data...');
-            setSyncStatus('syncing');
-            // Brief delay to show "syncing" state then trigger refresh
-            setTimeout(() => {
+        setSyncStatus('syncing');
+        try {
+            const { replayed, remaining } = await replayPendingWrites();
+            if (replayed > 0) {
+                await queryClient.invalidateQueries();
                 setLastSyncTime(new Date());
-                setSyncStatus('synced');
-                setTimeout(() => setSyncStatus('idle'), 2000);
-            }, 500);
+            }
+            setSyncStatus(remaining > 0 ? 'error' : 'synced');
+            if (remaining === 0) setTimeout(() => setSyncStatus('idle'), 2000);
+        } catch (error) {
+            console.error('Failed to replay offline changes:', error);
+            setSyncStatus('error');
+        }
+    }, [user, queryClient]);
+
+    // A merged or retried write goes out straight away; a discarded one leaves the cloud copy
+    // to show, so cached queries are refreshed
+    const resolveHeld = useCallback(async (seq: number, merged: unknown) => {
+        await resolveHeldWrite(seq, merged);
+        await syncNow();
+    }, [syncNow]);
+
+    const retryHeld = useCallback(async (seq: number) => {
+        await retryHeldWrite(seq);
+        await syncNow();
+    }, [syncNow]);
+
+    const discardHeld = useCallback(async (seq: number) => {
+        await discardHeldWrite(seq);
+        await queryClient.invalidateQueries();
+    }, [queryClient]);
+
+    // Replay on startup, whenever connectivity returns, and when new writes are queued while online
+    useEffect(() => {
+        const handleOnline = () => {
+            syncNow();
         };
+        const handleOffline = () => setSyncStatus('offline');
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [syncNow]);
+
+    useEffect(() => {
+        if (pendingCount > 0 && isOnline()) {
+            syncNow();
+        }
+    }, [pendingCount, syncNow]);
+
+    // Generate invoices owed by recurring profiles once the user is known
+    useEffect(() => {
+        if (isSupabaseConfigured && !user) return;
+
+        runRecurringProfiles()
+            .then(created => {
+                queryClient.invalidateQueries({ queryKey: queryKeys.recurringProfiles });
+                if (created.length > 0) queryClient.invalidateQueries({ queryKey: queryKeys.invoices });
+            })
+            .catch(error => console.error('Failed to run recurring profiles:', error));
+    }, [user, queryClient]);
+
+    // Move invoices past their due date to overdue and estimates past their validity to expired,
+    // once the user is known, so reading data never writes it
+    useEffect(() => {
+        if (isSupabaseConfigured && !user) return;
+
+        markOverdueInvoices()
+            .then(marked => {
+                if (marked.length > 0) queryClient.invalidateQueries({ queryKey: queryKeys.invoices });
+            })
+            .catch(error => console.error('Failed to mark overdue invoices:', error));
+        markExpiredEstimates()
+            .then(marked => {
+                if (marked.length > 0) queryClient.invalidateQueries({ queryKey: queryKeys.estimates });
+            })
+            .catch(error => console.error('Failed to mark expired estimates:', error));
+    }, [user, queryClient]);
+
+    // Patch realtime changes straight into the cache instead of refetching
+    useEffect(() => {
+        if (!supabase || !isSupabaseConfigured || !user) {
+            return;
+        }
+
+        const tables = Object.values(TABLES);
+        setTableStatus(Object.fromEntries(tables.map(table => [table, 'connecting'])) as TableStatusMap);
 
-        const tables = ['invoices', 'customers', 'products', 'business_profile', 'settings'];
         const channels = tables.map(table =>
             supabase!
                 .channel(`${table}-changes`)
@@ -42,19 +168,33 @@ export function SyncProvider({ children }: { children: ReactNode }) {
                         table: table,
                         filter: `user_id=eq.${user.id}`,
                     },
-                    handleRealtimeUpdate
+                    (payload: RealtimePayload) => {
+                        applyRealtimeChange(queryClient, table, payload)
+                            .then(() => setLastSyncTime(new Date()))
+                            .catch(error => console.error(`Failed to apply ${table} change:`, error));
+                    }
                 )
-                .subscribe()
+                .subscribe(status => {
+                    setTableStatus(prev => ({ ...prev, [table]: CHANNEL_STATUS[status] || 'error' }));
+                })
         );
 
         return () => {
             channels.forEach(channel => channel.unsubscribe());
+            setTableStatus({});
         };
-    }, [user]);
+    }, [user, queryClient]);
 
     const value = {
         lastSyncTime,
         syncStatus,
+        tableStatus,
+        pendingCount,
+        heldWrites,
+        syncNow,
+        resolveHeldWrite: resolveHeld,
+        retryHeldWrite: retryHeld,
+        discardHeldWrite: discardHeld,
     };
 
     return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
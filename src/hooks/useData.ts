@@ -1,20 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { invoiceDB, customerDB, productDB, businessDB, settingsDB } from '../lib/database';
-import type { Invoice, Customer, Product, Business, Settings } from '../types';
-import { useSync } from '../contexts/SyncProvider';
-
-// Query keys for React Query cache management
-export const queryKeys = {
-    invoices: ['invoices'] as const,
-    invoice: (id: string) => ['invoices', id] as const,
-    customers: ['customers'] as const,
-    products: ['products'] as const,
-    business: ['business'] as const,
-    settings: ['settings'] as const,
-};
+import {
+    invoiceDB,
+    customerDB,
+    productDB,
+    paymentDB,
+    estimateDB,
+    creditDebitNoteDB,
+    recurringProfileDB,
+    businessDB,
+    settingsDB,
+    runRecurringProfiles,
+} from '../lib/database';
+import type { Invoice, Customer, Product, Payment, Estimate, CreditDebitNote, RecurringProfile, Business, Settings } from '../types';
+import { queryKeys } from '../lib/queryKeys';
+
+// Re-exported so callers can keep importing query keys from the hooks module
+export { queryKeys };
 
 export function useInvoices() {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     // Fetch all invoices with React Query
@@ -24,11 +27,6 @@ export function useInvoices() {
         staleTime: 5 * 60 * 1000, // 5 minutes
     });
 
-    // Refetch when sync happens
-    if (lastSyncTime) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.invoices });
-    }
-
     // Save invoice mutation with optimistic update
     const saveInvoiceMutation = useMutation({
         mutationFn: (invoice: Invoice) => invoiceDB.save(invoice),
@@ -100,20 +98,15 @@ export function useInvoices() {
 }
 
 export function useInvoice(id: string | undefined) {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     const { data: invoice = null, isLoading: loading, error } = useQuery({
         queryKey: queryKeys.invoice(id || ''),
-        queryFn: () => id ? invoiceDB.getById(id) : Promise.resolve(null),
+        queryFn: () => (id ? invoiceDB.getById(id) : null),
         enabled: !!id,
         staleTime: 5 * 60 * 1000,
     });
 
-    if (lastSyncTime && id) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.invoice(id) });
-    }
-
     const saveInvoiceMutation = useMutation({
         mutationFn: (data: Invoice) => invoiceDB.save(data),
         onSuccess: (saved) => {
@@ -131,7 +124,6 @@ export function useInvoice(id: string | undefined) {
 }
 
 export function useCustomers() {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     const { data: customers = [], isLoading: loading, error } = useQuery({
@@ -140,10 +132,6 @@ export function useCustomers() {
         staleTime: 5 * 60 * 1000,
     });
 
-    if (lastSyncTime) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.customers });
-    }
-
     const saveCustomerMutation = useMutation({
         mutationFn: (customer: Customer) => customerDB.save(customer),
         onMutate: async (newCustomer) => {
@@ -207,7 +195,6 @@ export function useCustomers() {
 }
 
 export function useProducts() {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     const { data: products = [], isLoading: loading, error } = useQuery({
@@ -216,10 +203,6 @@ export function useProducts() {
         staleTime: 5 * 60 * 1000,
     });
 
-    if (lastSyncTime) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.products });
-    }
-
     const saveProductMutation = useMutation({
         mutationFn: (product: Product) => productDB.save(product),
         onMutate: async (newProduct) => {
@@ -282,8 +265,334 @@ export function useProducts() {
     };
 }
 
+// All recorded payments, or only those for one invoice when invoiceId is given
+export function usePayments(invoiceId?: string) {
+    const queryClient = useQueryClient();
+
+    const { data: allPayments = [], isLoading: loading, error } = useQuery({
+        queryKey: queryKeys.payments,
+        queryFn: () => paymentDB.getAll(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const payments = invoiceId ? allPayments.filter(p => p.invoiceId === invoiceId) : allPayments;
+
+    const savePaymentMutation = useMutation({
+        mutationFn: (payment: Payment) => paymentDB.save(payment),
+        onMutate: async (newPayment) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.payments });
+            const previousPayments = queryClient.getQueryData<Payment[]>(queryKeys.payments);
+
+            queryClient.setQueryData<Payment[]>(queryKeys.payments, (old = []) => {
+                const index = old.findIndex(p => p.id === newPayment.id);
+                if (index >= 0) {
+                    const updated = [...old];
+                    updated[index] = newPayment;
+                    return updated;
+                }
+                return [...old, newPayment];
+            });
+
+            return { previousPayments };
+        },
+        onError: (_err, _newPayment, context) => {
+            if (context?.previousPayments) {
+                queryClient.setQueryData(queryKeys.payments, context.previousPayments);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.payments });
+        },
+    });
+
+    const deletePaymentMutation = useMutation({
+        mutationFn: (id: string) => paymentDB.delete(id),
+        onMutate: async (deletedId) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.payments });
+            const previousPayments = queryClient.getQueryData<Payment[]>(queryKeys.payments);
+
+            queryClient.setQueryData<Payment[]>(queryKeys.payments, (old = []) =>
+                old.filter(p => p.id !== deletedId)
+            );
+
+            return { previousPayments };
+        },
+        onError: (_err, _deletedId, context) => {
+            if (context?.previousPayments) {
+                queryClient.setQueryData(queryKeys.payments, context.previousPayments);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.payments });
+        },
+    });
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.payments });
+
+    return {
+        payments,
+        loading,
+        error: error as Error | null,
+        refresh,
+        savePayment: savePaymentMutation.mutateAsync,
+        deletePayment: deletePaymentMutation.mutateAsync
+    };
+}
+
+export function useCreditDebitNotes(invoiceId?: string) {
+    const queryClient = useQueryClient();
+
+    const { data: allNotes = [], isLoading: loading, error } = useQuery({
+        queryKey: queryKeys.creditDebitNotes,
+        queryFn: () => creditDebitNoteDB.getAll(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const notes = invoiceId ? allNotes.filter(n => n.invoiceId === invoiceId) : allNotes;
+
+    const saveNoteMutation = useMutation({
+        mutationFn: (note: CreditDebitNote) => creditDebitNoteDB.save(note),
+        onMutate: async (newNote) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.creditDebitNotes });
+            const previousNotes = queryClient.getQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes);
+
+            queryClient.setQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes, (old = []) => {
+                const index = old.findIndex(n => n.id === newNote.id);
+                if (index >= 0) {
+                    const updated = [...old];
+                    updated[index] = newNote;
+                    return updated;
+                }
+                return [...old, newNote];
+            });
+
+            return { previousNotes };
+        },
+        onError: (_err, _newNote, context) => {
+            if (context?.previousNotes) {
+                queryClient.setQueryData(queryKeys.creditDebitNotes, context.previousNotes);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.creditDebitNotes });
+        },
+    });
+
+    const deleteNoteMutation = useMutation({
+        mutationFn: (id: string) => creditDebitNoteDB.delete(id),
+        onMutate: async (deletedId) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.creditDebitNotes });
+            const previousNotes = queryClient.getQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes);
+
+            queryClient.setQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes, (old = []) =>
+                old.filter(n => n.id !== deletedId)
+            );
+
+            return { previousNotes };
+        },
+        onError: (_err, _deletedId, context) => {
+            if (context?.previousNotes) {
+                queryClient.setQueryData(queryKeys.creditDebitNotes, context.previousNotes);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.creditDebitNotes });
+        },
+    });
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.creditDebitNotes });
+
+    return {
+        notes,
+        loading,
+        error: error as Error | null,
+        refresh,
+        saveNote: saveNoteMutation.mutateAsync,
+        deleteNote: deleteNoteMutation.mutateAsync
+    };
+}
+
+export function useRecurringProfiles() {
+    const queryClient = useQueryClient();
+
+    const { data: profiles = [], isLoading: loading, error } = useQuery({
+        queryKey: queryKeys.recurringProfiles,
+        queryFn: () => recurringProfileDB.getAll(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const saveProfileMutation = useMutation({
+        mutationFn: (profile: RecurringProfile) => recurringProfileDB.save(profile),
+        onMutate: async (newProfile) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.recurringProfiles });
+            const previousProfiles = queryClient.getQueryData<RecurringProfile[]>(queryKeys.recurringProfiles);
+
+            queryClient.setQueryData<RecurringProfile[]>(queryKeys.recurringProfiles, (old = []) => {
+                const index = old.findIndex(p => p.id === newProfile.id);
+                if (index >= 0) {
+                    const updated = [...old];
+                    updated[index] = newProfile;
+                    return updated;
+                }
+                return [newProfile, ...old];
+            });
+
+            return { previousProfiles };
+        },
+        onError: (_err, _newProfile, context) => {
+            if (context?.previousProfiles) {
+                queryClient.setQueryData(queryKeys.recurringProfiles, context.previousProfiles);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.recurringProfiles });
+        },
+    });
+
+    const deleteProfileMutation = useMutation({
+        mutationFn: (id: string) => recurringProfileDB.delete(id),
+        onMutate: async (deletedId) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.recurringProfiles });
+            const previousProfiles = queryClient.getQueryData<RecurringProfile[]>(queryKeys.recurringProfiles);
+
+            queryClient.setQueryData<RecurringProfile[]>(queryKeys.recurringProfiles, (old = []) =>
+                old.filter(p => p.id !== deletedId)
+            );
+
+            return { previousProfiles };
+        },
+        onError: (_err, _deletedId, context) => {
+            if (context?.previousProfiles) {
+                queryClient.setQueryData(queryKeys.recurringProfiles, context.previousProfiles);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.recurringProfiles });
+        },
+    });
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.recurringProfiles });
+
+    // Generate whatever is due now instead of waiting for the next app start
+    const runDue = async () => {
+        const created = await runRecurringProfiles();
+        await refresh();
+        if (created.length > 0) await queryClient.invalidateQueries({ queryKey: queryKeys.invoices });
+        return created;
+    };
+
+    return {
+        profiles,
+        loading,
+        error: error as Error | null,
+        refresh,
+        runDue,
+        saveProfile: saveProfileMutation.mutateAsync,
+        deleteProfile: deleteProfileMutation.mutateAsync
+    };
+}
+
+export function useEstimates() {
+    const queryClient = useQueryClient();
+
+    const { data: estimates = [], isLoading: loading, error } = useQuery({
+        queryKey: queryKeys.estimates,
+        queryFn: () => estimateDB.getAll(),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const saveEstimateMutation = useMutation({
+        mutationFn: (estimate: Estimate) => estimateDB.save(estimate),
+        onMutate: async (newEstimate) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.estimates });
+            const previousEstimates = queryClient.getQueryData<Estimate[]>(queryKeys.estimates);
+
+            queryClient.setQueryData<Estimate[]>(queryKeys.estimates, (old = []) => {
+                const index = old.findIndex(e => e.id === newEstimate.id);
+                if (index >= 0) {
+                    const updated = [...old];
+                    updated[index] = newEstimate;
+                    return updated;
+                }
+                return [newEstimate, ...old];
+            });
+
+            return { previousEstimates };
+        },
+        onError: (_err, _newEstimate, context) => {
+            if (context?.previousEstimates) {
+                queryClient.setQueryData(queryKeys.estimates, context.previousEstimates);
+            }
+        },
+        onSuccess: (saved) => {
+            queryClient.setQueryData(queryKeys.estimate(saved.id), saved);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.estimates });
+        },
+    });
+
+    const deleteEstimateMutation = useMutation({
+        mutationFn: (id: string) => estimateDB.delete(id),
+        onMutate: async (deletedId) => {
+            await queryClient.cancelQueries({ queryKey: queryKeys.estimates });
+            const previousEstimates = queryClient.getQueryData<Estimate[]>(queryKeys.estimates);
+
+            queryClient.setQueryData<Estimate[]>(queryKeys.estimates, (old = []) =>
+                old.filter(e => e.id !== deletedId)
+            );
+
+            return { previousEstimates };
+        },
+        onError: (_err, _deletedId, context) => {
+            if (context?.previousEstimates) {
+                queryClient.setQueryData(queryKeys.estimates, context.previousEstimates);
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.estimates });
+        },
+    });
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.estimates });
+
+    return {
+        estimates,
+        loading,
+        error: error as Error | null,
+        refresh,
+        saveEstimate: saveEstimateMutation.mutateAsync,
+        deleteEstimate: deleteEstimateMutation.mutateAsync
+    };
+}
+
+export function useEstimate(id: string | undefined) {
+    const queryClient = useQueryClient();
+
+    const { data: estimate = null, isLoading: loading, error } = useQuery({
+        queryKey: queryKeys.estimate(id || ''),
+        queryFn: () => (id ? estimateDB.getById(id) : null),
+        enabled: !!id,
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const saveEstimateMutation = useMutation({
+        mutationFn: (data: Estimate) => estimateDB.save(data),
+        onSuccess: (saved) => {
+            queryClient.setQueryData(queryKeys.estimate(saved.id), saved);
+            queryClient.invalidateQueries({ queryKey: queryKeys.estimates });
+        },
+    });
+
+    return {
+        estimate,
+        loading,
+        error: error as Error | null,
+        saveEstimate: saveEstimateMutation.mutateAsync
+    };
+}
+
 export function useBusiness() {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     const { data: business = {} as Business, isLoading: loading, error } = useQuery({
@@ -295,10 +604,6 @@ export function useBusiness() {
         staleTime: 5 * 60 * 1000,
     });
 
-    if (lastSyncTime) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.business });
-    }
-
     const saveBusinessMutation = useMutation({
         mutationFn: (data: Business) => businessDB.save(data),
         onSuccess: (saved) => {
@@ -318,7 +623,6 @@ export function useBusiness() {
 }
 
 export function useSettings() {
-    const { lastSyncTime } = useSync();
     const queryClient = useQueryClient();
 
     const { data: settings = {} as Settings, isLoading: loading, error } = useQuery({
@@ -330,10 +634,6 @@ export function useSettings() {
         staleTime: 5 * 60 * 1000,
     });
 
-    if (lastSyncTime) {
-        queryClient.invalidateQueries({ queryKey: queryKeys.settings });
-    }
-
     const saveSettingsMutation = useMutation({
         mutationFn: (data: Settings) => settingsDB.save(data),
         onSuccess: (saved) => {
@@ -1,5 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Invoice, Business, Settings } from '../types';
+import { downloadBlob } from '../utils/helpers';
+import type { CustomerStatement } from '../utils/statements';
+import type { Invoice, Business, Settings, InvoicePDFOptions, ReportPDFContent } from '../types';
 
 interface PDFGenerationState {
     isGenerating: boolean;
@@ -9,8 +11,11 @@ interface PDFGenerationState {
 }
 
 interface UsePDFGeneratorReturn {
-    generatePDF: (invoice: Invoice, business: Business, settings: Partial<Settings>) => Promise<Blob>;
-    downloadPDF: (invoice: Invoice, business: Business, settings: Partial<Settings>, filename: string) => Promise<void>;
+    generatePDF: (invoice: Invoice, business: Business, settings: Partial<Settings>, options?: InvoicePDFOptions) => Promise<Blob>;
+    downloadPDF: (invoice: Invoice, business: Business, settings: Partial<Settings>, filename: string, options?: InvoicePDFOptions) => Promise<void>;
+    generateReportPDF: (report: ReportPDFContent) => Promise<Blob>;
+    downloadReportPDF: (report: ReportPDFContent, filename: string) => Promise<void>;
+    generateStatementPDF: (statement: CustomerStatement, business: Business) => Promise<Blob>;
     isGenerating: boolean;
     progress: number;
     message: string;
@@ -52,8 +57,9 @@ export const usePDFGenerator = (): UsePDFGeneratorReturn => {
         }));
     }, []);
 
-    const generatePDF = useCallback(
-        (invoice: Invoice, business: Business, settings: Partial<Settings>): Promise<Blob> => {
+    // Sends one request to the worker and resolves with the PDF it sends back
+    const runWorker = useCallback(
+        (request: object): Promise<Blob> => {
             return new Promise((resolve, reject) => {
                 if (!workerRef.current) {
                     reject(new Error('PDF Worker not initialized'));
@@ -130,31 +136,34 @@ export const usePDFGenerator = (): UsePDFGeneratorReturn => {
                 workerRef.current.addEventListener('error', handleError);
 
                 // Send generation request to worker
-                workerRef.current.postMessage({
-                    type: 'generate',
-                    invoice,
-                    business,
-                    settings,
-                });
+                workerRef.current.postMessage(request);
             });
         },
         []
     );
 
+    const generatePDF = useCallback(
+        (invoice: Invoice, business: Business, settings: Partial<Settings>, options?: InvoicePDFOptions): Promise<Blob> =>
+            runWorker({
+                type: 'generate',
+                invoice,
+                business,
+                settings,
+                options,
+            }),
+        [runWorker]
+    );
+
+    const generateReportPDF = useCallback(
+        (report: ReportPDFContent): Promise<Blob> => runWorker({ type: 'generate-report', report }),
+        [runWorker]
+    );
+
     const downloadPDF = useCallback(
-        async (invoice: Invoice, business: Business, settings: Partial<Settings>, filename: string): Promise<void> => {
+        async (invoice: Invoice, business: Business, settings: Partial<Settings>, filename: string, options?: InvoicePDFOptions): Promise<void> => {
             try {
-                const blob = await generatePDF(invoice, business, settings);
-
-                // Create download link
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = filename;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-                URL.revokeObjectURL(url);
+                const blob = await generatePDF(invoice, business, settings, options);
+                downloadBlob(blob, filename);
             } catch (error) {
                 console.error('Error downloading PDF:', error);
                 throw error;
@@ -163,9 +172,31 @@ export const usePDFGenerator = (): UsePDFGeneratorReturn => {
         [generatePDF]
     );
 
+    const generateStatementPDF = useCallback(
+        (statement: CustomerStatement, business: Business): Promise<Blob> =>
+            runWorker({ type: 'generate-statement', statement, business }),
+        [runWorker]
+    );
+
+    const downloadReportPDF = useCallback(
+        async (report: ReportPDFContent, filename: string): Promise<void> => {
+            try {
+                const blob = await generateReportPDF(report);
+                downloadBlob(blob, filename);
+            } catch (error) {
+                console.error('Error downloading PDF:', error);
+                throw error;
+            }
+        },
+        [generateReportPDF]
+    );
+
     return {
         generatePDF,
         downloadPDF,
+        generateReportPDF,
+        downloadReportPDF,
+        generateStatementPDF,
         isGenerating: state.isGenerating,
         progress: state.progress,
         message: state.message,
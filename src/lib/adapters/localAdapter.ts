@@ -0,0 +1,110 @@
+import { TABLES } from '../supabase';
+import {
+  getAllRecords,
+  getRecord,
+  putRecord,
+  deleteRecord,
+  replaceAllRecords,
+  type LocalStoreName,
+} from '../indexedDB';
+import { generateId } from '../../utils/helpers';
+import type { Invoice, Customer, Product, Business, Settings, Payment, Estimate, CreditDebitNote, RecurringProfile } from '../../types';
+import type { CollectionAdapter, SingletonAdapter, StorageAdapter } from './types';
+
+// ============================================
+// LOCAL ADAPTER - IndexedDB storage
+// ============================================
+
+export interface LocalCollectionAdapter<T> extends CollectionAdapter<T> {
+  replaceAll(records: T[]): Promise<void>;
+}
+
+export interface LocalSingletonAdapter<T> extends SingletonAdapter<T> {
+  replace(record: T | null): Promise<void>;
+}
+
+function createCollection<T extends { id: string }>(
+  store: LocalStoreName,
+  compare: (a: T, b: T) => number,
+  prepare: (record: T) => T = record => record
+): LocalCollectionAdapter<T> {
+  return {
+    async getAll(): Promise<T[]> {
+      const records = await getAllRecords<T>(store);
+      return records.sort(compare);
+    },
+
+    getById(id: string): Promise<T | null> {
+      return getRecord<T>(store, id);
+    },
+
+    save(record: T): Promise<T> {
+      return putRecord(store, prepare(record));
+    },
+
+    delete(id: string): Promise<void> {
+      return deleteRecord(store, id);
+    },
+
+    replaceAll(records: T[]): Promise<void> {
+      return replaceAllRecords(store, records);
+    },
+  };
+}
+
+// Business profile and settings are stored as a single row per device
+function createSingleton<T extends { id?: string }>(store: LocalStoreName): LocalSingletonAdapter<T> {
+  return {
+    async get(): Promise<T | null> {
+      const records = await getAllRecords<T>(store);
+      return records[0] || null;
+    },
+
+    async save(record: T): Promise<T> {
+      const withId = { ...record, id: record.id || generateId() };
+      await replaceAllRecords(store, [withId]);
+      return withId;
+    },
+
+    replace(record: T | null): Promise<void> {
+      if (!record) return replaceAllRecords(store, []);
+      return replaceAllRecords(store, [{ ...record, id: record.id || generateId() }]);
+    },
+  };
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// Newest first, matching the cloud query order
+const byCreatedAtDesc = (a: { createdAt?: string }, b: { createdAt?: string }) =>
+  new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
+
+// Oldest first, matching the cloud query order
+const byDateAsc = (a: { date: string }, b: { date: string }) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Soonest run first
+const byNextRunAsc = (a: RecurringProfile, b: RecurringProfile) => a.nextRunDate.localeCompare(b.nextRunDate);
+
+const stampInvoice = (invoice: Invoice): Invoice => {
+  const now = new Date().toISOString();
+  return { ...invoice, createdAt: invoice.createdAt || now, updatedAt: invoice.updatedAt || now };
+};
+
+const stampEstimate = (estimate: Estimate): Estimate => {
+  const now = new Date().toISOString();
+  return { ...estimate, createdAt: estimate.createdAt || now, updatedAt: now };
+};
+
+export const localAdapter = {
+  name: 'local',
+  invoices: createCollection<Invoice>(TABLES.INVOICES, byCreatedAtDesc, stampInvoice),
+  customers: createCollection<Customer>(TABLES.CUSTOMERS, byName),
+  products: createCollection<Product>(TABLES.PRODUCTS, byName),
+  business: createSingleton<Business>(TABLES.BUSINESS),
+  settings: createSingleton<Settings>(TABLES.SETTINGS),
+  payments: createCollection<Payment>(TABLES.PAYMENTS, byDateAsc),
+  estimates: createCollection<Estimate>(TABLES.ESTIMATES, byCreatedAtDesc, stampEstimate),
+  creditDebitNotes: createCollection<CreditDebitNote>(TABLES.CREDIT_DEBIT_NOTES, byDateAsc),
+  recurringProfiles: createCollection<RecurringProfile>(TABLES.RECURRING_PROFILES, byNextRunAsc),
+} satisfies StorageAdapter;
@@ -0,0 +1,431 @@
+import { supabase, TABLES } from '../supabase';
+import {
+  mapFromDB,
+  mapToDB,
+  mapCustomerFromDB,
+  mapCustomerToDB,
+  mapProductFromDB,
+  mapProductToDB,
+  mapPaymentFromDB,
+  mapPaymentToDB,
+  mapEstimateFromDB,
+  mapEstimateToDB,
+  mapCreditDebitNoteFromDB,
+  mapCreditDebitNoteToDB,
+  mapRecurringProfileFromDB,
+  mapRecurringProfileToDB,
+  mapBusinessFromDB,
+  mapBusinessToDB,
+  mapSettingsFromDB,
+  mapSettingsToDB,
+} from '../mappers';
+import type { Invoice, Customer, Product, Business, Settings, Payment, Estimate, CreditDebitNote, RecurringProfile } from '../../types';
+import type { StorageAdapter } from './types';
+import { ConflictError } from '../errors';
+
+// ============================================
+// SUPABASE ADAPTER - Cloud storage
+// ============================================
+
+// Get the configured client or fail loudly
+function getClient() {
+  if (!supabase) throw new Error('Database not configured');
+  return supabase;
+}
+
+// Get current user ID
+async function getCurrentUserId(): Promise<string | null> {
+  if (!supabase) return null;
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id || null;
+}
+
+async function requireUserId(): Promise<string> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('User not authenticated');
+  return userId;
+}
+
+export const supabaseAdapter: StorageAdapter = {
+  name: 'supabase',
+
+  invoices: {
+    async getAll(): Promise<Invoice[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.INVOICES)
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapFromDB);
+    },
+
+    async getById(id: string): Promise<Invoice | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.INVOICES)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapFromDB(data) : null;
+    },
+
+    // Optimistic concurrency: an invoice that carries updatedAt is only written if the
+    // stored row still has that version; otherwise the current row is returned in a ConflictError
+    async save(invoice: Invoice): Promise<Invoice> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbInvoice = { ...mapToDB(invoice), user_id: userId };
+
+      if (invoice.updatedAt) {
+        const { data, error } = await client
+          .from(TABLES.INVOICES)
+          .update(dbInvoice)
+          .eq('id', invoice.id)
+          .eq('updated_at', invoice.updatedAt)
+          .select();
+        if (error) throw error;
+        if (data && data.length > 0) return mapFromDB(data[0]);
+
+        const current = await supabaseAdapter.invoices.getById(invoice.id);
+        if (current) throw new ConflictError(current);
+      }
+
+      const { data, error } = await client
+        .from(TABLES.INVOICES)
+        .insert(dbInvoice)
+        .select()
+        .single();
+      if (error?.code === '23505') {
+        const current = await supabaseAdapter.invoices.getById(invoice.id);
+        if (current) throw new ConflictError(current);
+      }
+      if (error) throw error;
+      return mapFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.INVOICES)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  customers: {
+    async getAll(): Promise<Customer[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.CUSTOMERS)
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return (data || []).map(mapCustomerFromDB);
+    },
+
+    async getById(id: string): Promise<Customer | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.CUSTOMERS)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapCustomerFromDB(data) : null;
+    },
+
+    async save(customer: Customer): Promise<Customer> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const customerWithUserId = { ...mapCustomerToDB(customer), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.CUSTOMERS)
+        .upsert(customerWithUserId, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapCustomerFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.CUSTOMERS)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  products: {
+    async getAll(): Promise<Product[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.PRODUCTS)
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return (data || []).map(mapProductFromDB);
+    },
+
+    async getById(id: string): Promise<Product | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.PRODUCTS)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapProductFromDB(data) : null;
+    },
+
+    async save(product: Product): Promise<Product> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const productWithUserId = { ...mapProductToDB(product), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.PRODUCTS)
+        .upsert(productWithUserId, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapProductFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.PRODUCTS)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  business: {
+    async get(): Promise<Business | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.BUSINESS)
+        .select('*')
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapBusinessFromDB(data) : null;
+    },
+
+    async save(business: Business): Promise<Business> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbBusiness = {
+        ...mapBusinessToDB(business),
+        user_id: userId
+      };
+
+      const { data, error } = await client
+        .from(TABLES.BUSINESS)
+        .upsert(dbBusiness, { onConflict: 'user_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapBusinessFromDB(data);
+    },
+  },
+
+  settings: {
+    async get(): Promise<Settings | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.SETTINGS)
+        .select('*')
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapSettingsFromDB(data) : null;
+    },
+
+    async save(settings: Settings): Promise<Settings> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbSettings = {
+        ...mapSettingsToDB(settings),
+        user_id: userId
+      };
+
+      const { data, error } = await client
+        .from(TABLES.SETTINGS)
+        .upsert(dbSettings, { onConflict: 'user_id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapSettingsFromDB(data);
+    },
+  },
+
+  payments: {
+    async getAll(): Promise<Payment[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.PAYMENTS)
+        .select('*')
+        .order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(mapPaymentFromDB);
+    },
+
+    async getById(id: string): Promise<Payment | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.PAYMENTS)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapPaymentFromDB(data) : null;
+    },
+
+    async save(payment: Payment): Promise<Payment> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbPayment = { ...mapPaymentToDB(payment), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.PAYMENTS)
+        .upsert(dbPayment, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapPaymentFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.PAYMENTS)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  estimates: {
+    async getAll(): Promise<Estimate[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.ESTIMATES)
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapEstimateFromDB);
+    },
+
+    async getById(id: string): Promise<Estimate | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.ESTIMATES)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapEstimateFromDB(data) : null;
+    },
+
+    async save(estimate: Estimate): Promise<Estimate> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbEstimate = { ...mapEstimateToDB(estimate), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.ESTIMATES)
+        .upsert(dbEstimate, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapEstimateFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.ESTIMATES)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  creditDebitNotes: {
+    async getAll(): Promise<CreditDebitNote[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.CREDIT_DEBIT_NOTES)
+        .select('*')
+        .order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(mapCreditDebitNoteFromDB);
+    },
+
+    async getById(id: string): Promise<CreditDebitNote | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.CREDIT_DEBIT_NOTES)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapCreditDebitNoteFromDB(data) : null;
+    },
+
+    async save(note: CreditDebitNote): Promise<CreditDebitNote> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbNote = { ...mapCreditDebitNoteToDB(note), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.CREDIT_DEBIT_NOTES)
+        .upsert(dbNote, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapCreditDebitNoteFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.CREDIT_DEBIT_NOTES)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  recurringProfiles: {
+    async getAll(): Promise<RecurringProfile[]> {
+      const { data, error } = await getClient()
+        .from(TABLES.RECURRING_PROFILES)
+        .select('*')
+        .order('next_run_date', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(mapRecurringProfileFromDB);
+    },
+
+    async getById(id: string): Promise<RecurringProfile | null> {
+      const { data, error } = await getClient()
+        .from(TABLES.RECURRING_PROFILES)
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? mapRecurringProfileFromDB(data) : null;
+    },
+
+    async save(profile: RecurringProfile): Promise<RecurringProfile> {
+      const client = getClient();
+      const userId = await requireUserId();
+
+      const dbProfile = { ...mapRecurringProfileToDB(profile), user_id: userId };
+      const { data, error } = await client
+        .from(TABLES.RECURRING_PROFILES)
+        .upsert(dbProfile, { onConflict: 'id' })
+        .select()
+        .single();
+      if (error) throw error;
+      return mapRecurringProfileFromDB(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await getClient()
+        .from(TABLES.RECURRING_PROFILES)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+};
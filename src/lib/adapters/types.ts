@@ -0,0 +1,29 @@
+import type { Invoice, Customer, Product, Business, Settings, Payment, Estimate, CreditDebitNote, RecurringProfile } from '../../types';
+
+// A list-shaped table (invoices, customers, products, payments, estimates, notes, recurring profiles)
+export interface CollectionAdapter<T> {
+  getAll(): Promise<T[]>;
+  getById(id: string): Promise<T | null>;
+  save(record: T): Promise<T>;
+  delete(id: string): Promise<void>;
+}
+
+// A one-row-per-user table (business profile, settings)
+export interface SingletonAdapter<T> {
+  get(): Promise<T | null>;
+  save(record: T): Promise<T>;
+}
+
+// A storage backend the data layer in database.ts can read from and write to
+export interface StorageAdapter {
+  name: 'supabase' | 'local';
+  invoices: CollectionAdapter<Invoice>;
+  customers: CollectionAdapter<Customer>;
+  products: CollectionAdapter<Product>;
+  business: SingletonAdapter<Business>;
+  settings: SingletonAdapter<Settings>;
+  payments: CollectionAdapter<Payment>;
+  estimates: CollectionAdapter<Estimate>;
+  creditDebitNotes: CollectionAdapter<CreditDebitNote>;
+  recurringProfiles: CollectionAdapter<RecurringProfile>;
+}
@@ -1,206 +1,291 @@
 import { supabase, isSupabaseConfigured, TABLES } from './supabase';
-import type { Invoice, Customer, Product, Business, Settings } from '../types';
+import { isOnline, isNetworkError } from './network';
+import {
+  enqueue,
+  applyPendingEntries,
+  getPendingCount,
+  replayOutbox,
+  type SyncedTable,
+  type ReplayResult,
+} from './outbox';
+import { supabaseAdapter } from './adapters/supabaseAdapter';
+import { localAdapter, type LocalCollectionAdapter, type LocalSingletonAdapter } from './adapters/localAdapter';
+import type { CollectionAdapter, SingletonAdapter, StorageAdapter } from './adapters/types';
+import type { Invoice, Customer, Product, Business, Settings, Payment, Estimate, CreditDebitNote, RecurringProfile } from '../types';
+import { isPastDue, getToday } from '../utils/paymentTerms';
+import { isEstimateExpired } from '../utils/estimates';
+import { isRecurringDue, advanceRecurringProfile, buildRecurringInvoice, getRecurringInvoiceId } from '../utils/recurring';
+import { getNextDocumentNumber } from '../utils/numbering';
+import { ConflictError } from './errors';
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
-// Get current user ID
-async function getCurrentUserId(): Promise<string | null> {
-  if (!supabase) return null;
-  const { data: { user } } = await supabase.auth.getUser();
-  return user?.id || null;
+// Get the adapter that should serve the next request. The cloud is used only
+// when a Supabase project is configured and the device is online.
+export function getActiveAdapter(): StorageAdapter {
+  return isSupabaseConfigured && isOnline() ? supabaseAdapter : localAdapter;
+}
+
+// Writes go straight to the cloud unless the device is offline or earlier
+// offline writes are still waiting, in which case they join the queue
+async function shouldQueue(): Promise<boolean> {
+  return getActiveAdapter() !== supabaseAdapter || (await getPendingCount()) > 0;
+}
+
+// Build a collection API that reads and writes through to the cloud when it can,
+// mirrors every cloud result into IndexedDB, and otherwise works against IndexedDB,
+// queueing writes in the outbox for replay once connectivity returns
+function createCollectionDB<T extends { id: string }>(
+  table: SyncedTable,
+  remote: CollectionAdapter<T>,
+  local: LocalCollectionAdapter<T>,
+  prepareLocal: (record: T) => T = record => record
+) {
+  // When the cloud is configured the record keeps the version it was based on,
+  // so the replayed write can still be checked for conflicts, and the copy it replaces
+  // is queued with it to merge against if it does conflict
+  const saveOffline = async (record: T): Promise<T> => {
+    if (!isSupabaseConfigured) return local.save(prepareLocal(record));
+    const base = await local.getById(record.id);
+    const saved = await local.save(record);
+    await enqueue(table, 'save', record.id, saved, base ?? undefined);
+    return saved;
+  };
+
+  const deleteOffline = async (id: string): Promise<void> => {
+    await local.delete(id);
+    if (isSupabaseConfigured) await enqueue(table, 'delete', id);
+  };
+
+  return {
+    async getAll(): Promise<T[]> {
+      if (getActiveAdapter() !== supabaseAdapter) return local.getAll();
+      try {
+        const records = await applyPendingEntries(table, await remote.getAll());
+        await local.replaceAll(records);
+        return records;
+      } catch (error) {
+        if (isNetworkError(error)) return local.getAll();
+        throw error;
+      }
+    },
+
+    async getById(id: string): Promise<T | null> {
+      if (getActiveAdapter() !== supabaseAdapter) return local.getById(id);
+      try {
+        const remoteRecord = await remote.getById(id);
+        const records = await applyPendingEntries(table, remoteRecord ? [remoteRecord] : []);
+        const record = records.find(r => r.id === id) ?? null;
+        if (record) await local.save(record);
+        return record;
+      } catch (error) {
+        if (isNetworkError(error)) return local.getById(id);
+        throw error;
+      }
+    },
+
+    async save(record: T): Promise<T> {
+      if (await shouldQueue()) return saveOffline(record);
+      try {
+        const saved = await remote.save(record);
+        await local.save(saved);
+        return saved;
+      } catch (error) {
+        if (isNetworkError(error)) return saveOffline(record);
+        throw error;
+      }
+    },
+
+    async delete(id: string): Promise<void> {
+      if (await shouldQueue()) return deleteOffline(id);
+      try {
+        await remote.delete(id);
+        await local.delete(id);
+      } catch (error) {
+        if (isNetworkError(error)) return deleteOffline(id);
+        throw error;
+      }
+    },
+  };
+}
+
+// Same as createCollectionDB for the one-row-per-user tables
+function createSingletonDB<T extends { id?: string }>(
+  table: SyncedTable,
+  remote: SingletonAdapter<T>,
+  local: LocalSingletonAdapter<T>
+) {
+  const saveOffline = async (record: T): Promise<T> => {
+    const saved = await local.save(record);
+    if (isSupabaseConfigured) await enqueue(table, 'save', saved.id!, saved);
+    return saved;
+  };
+
+  return {
+    async get(): Promise<T | null> {
+      if (getActiveAdapter() !== supabaseAdapter) return local.get();
+      try {
+        const remoteRecord = await remote.get();
+        const [record = null] = await applyPendingEntries(table, remoteRecord ? [remoteRecord] : []);
+        await local.replace(record);
+        return record;
+      } catch (error) {
+        if (isNetworkError(error)) return local.get();
+        throw error;
+      }
+    },
+
+    async save(record: T): Promise<T> {
+      if (await shouldQueue()) return saveOffline(record);
+      try {
+        const saved = await remote.save(record);
+        await local.replace(saved);
+        return saved;
+      } catch (error) {
+        if (isNetworkError(error)) return saveOffline(record);
+        throw error;
+      }
+    },
+  };
 }
 
 // ============================================
-// DATABASE SERVICE - Cloud Sync Operations
+// DATABASE SERVICE - Offline-first Operations
 // ============================================
 
 // Invoices
-export const invoiceDB = {
-  async getAll(): Promise<Invoice[]> {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from(TABLES.INVOICES)
-      .select('*')
-      .order('created_at', { ascending: false });
-    if (error) throw error;
-    return (data || []).map(mapFromDB);
-  },
-
-  async getById(id: string): Promise<Invoice | null> {
-    if (!supabase) return null;
-    const { data, error } = await supabase
-      .from(TABLES.INVOICES)
-      .select('*')
-      .eq('id', id)
-      .single();
-    if (error && error.code !== 'PGRST116') throw error;
-    return data ? mapFromDB(data) : null;
-  },
-
-  async save(invoice: Invoice): Promise<Invoice> {
-    if (!supabase) throw new Error('Database not configured');
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('User not authenticated');
-
-    const dbInvoice = { ...mapToDB(invoice), user_id: userId };
-    const { data, error } = await supabase
-      .from(TABLES.INVOICES)
-      .upsert(dbInvoice, { onConflict: 'id' })
-      .select()
-      .single();
-    if (error) throw error;
-    return mapFromDB(data);
-  },
-
-  async delete(id: string): Promise<void> {
-    if (!supabase) throw new Error('Database not configured');
-    const { error } = await supabase
-      .from(TABLES.INVOICES)
-      .delete()
-      .eq('id', id);
-    if (error) throw error;
-  },
-};
+export const invoiceDB = createCollectionDB<Invoice>(
+  TABLES.INVOICES,
+  supabaseAdapter.invoices,
+  localAdapter.invoices,
+  invoice => ({ ...invoice, updatedAt: new Date().toISOString() })
+);
 
 // Customers
-export const customerDB = {
-  async getAll(): Promise<Customer[]> {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from(TABLES.CUSTOMERS)
-      .select('*')
-      .order('name');
-    if (error) throw error;
-    return data || [];
-  },
-
-  async save(customer: Customer): Promise<Customer> {
-    if (!supabase) throw new Error('Database not configured');
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('User not authenticated');
-
-    const customerWithUserId = { ...customer, user_id: userId };
-    const { data, error } = await supabase
-      .from(TABLES.CUSTOMERS)
-      .upsert(customerWithUserId, { onConflict: 'id' })
-      .select()
-      .single();
-    if (error) throw error;
-    return data;
-  },
-
-  async delete(id: string): Promise<void> {
-    if (!supabase) throw new Error('Database not configured');
-    const { error } = await supabase
-      .from(TABLES.CUSTOMERS)
-      .delete()
-      .eq('id', id);
-    if (error) throw error;
-  },
-};
+export const customerDB = createCollectionDB<Customer>(TABLES.CUSTOMERS, supabaseAdapter.customers, localAdapter.customers);
 
 // Products
-export const productDB = {
-  async getAll(): Promise<Product[]> {
-    if (!supabase) return [];
-    const { data, error } = await supabase
-      .from(TABLES.PRODUCTS)
-      .select('*')
-      .order('name');
-    if (error) throw error;
-    return data || [];
-  },
-
-  async save(product: Product): Promise<Product> {
-    if (!supabase) throw new Error('Database not configured');
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('User not authenticated');
-
-    const productWithUserId = { ...product, user_id: userId };
-    const { data, error } = await supabase
-      .from(TABLES.PRODUCTS)
-      .upsert(productWithUserId, { onConflict: 'id' })
-      .select()
-      .single();
-    if (error) throw error;
-    return data;
-  },
-
-  async delete(id: string): Promise<void> {
-    if (!supabase) throw new Error('Database not configured');
-    const { error } = await supabase
-      .from(TABLES.PRODUCTS)
-      .delete()
-      .eq('id', id);
-    if (error) throw error;
-  },
-};
+export const productDB = createCollectionDB<Product>(TABLES.PRODUCTS, supabaseAdapter.products, localAdapter.products);
 
-// Business Profile
-export const businessDB = {
-  async get(): Promise<Business | null> {
-    if (!supabase) return null;
-    const { data, error } = await supabase
-      .from(TABLES.BUSINESS)
-      .select('*')
-      .single();
-    if (error && error.code !== 'PGRST116') throw error;
-    return data ? mapBusinessFromDB(data) : null;
-  },
-
-  async save(business: Business): Promise<Business> {
-    if (!supabase) throw new Error('Database not configured');
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('User not authenticated');
-
-    const dbBusiness = {
-      ...mapBusinessToDB(business),
-      user_id: userId
-    };
+// Payments
+export const paymentDB = createCollectionDB<Payment>(TABLES.PAYMENTS, supabaseAdapter.payments, localAdapter.payments);
+
+// Estimates
+export const estimateDB = createCollectionDB<Estimate>(TABLES.ESTIMATES, supabaseAdapter.estimates, localAdapter.estimates);
+
+// Credit and debit notes
+export const creditDebitNoteDB = createCollectionDB<CreditDebitNote>(
+  TABLES.CREDIT_DEBIT_NOTES,
+  supabaseAdapter.creditDebitNotes,
+  localAdapter.creditDebitNotes
+);
 
-    const { data, error } = await supabase
-      .from(TABLES.BUSINESS)
-      .upsert(dbBusiness, { onConflict: 'user_id' })
-      .select()
-      .single();
-    if (error) throw error;
-    return mapBusinessFromDB(data);
-  },
-};
+// Recurring invoice profiles
+export const recurringProfileDB = createCollectionDB<RecurringProfile>(
+  TABLES.RECURRING_PROFILES,
+  supabaseAdapter.recurringProfiles,
+  localAdapter.recurringProfiles
+);
+
+// Business Profile
+export const businessDB = createSingletonDB<Business>(TABLES.BUSINESS, supabaseAdapter.business, localAdapter.business);
 
 // Settings
-export const settingsDB = {
-  async get(): Promise<Settings | null> {
-    if (!supabase) return null;
-    const { data, error } = await supabase
-      .from(TABLES.SETTINGS)
-      .select('*')
-      .single();
-    if (error && error.code !== 'PGRST116') throw error;
-    return data ? mapSettingsFromDB(data) : null;
-  },
-
-  async save(settings: Settings): Promise<Settings> {
-    if (!supabase) throw new Error('Database not configured');
-    const userId = await getCurrentUserId();
-    if (!userId) throw new Error('User not authenticated');
-
-    const dbSettings = {
-      ...mapSettingsToDB(settings),
-      user_id: userId
-    };
+export const settingsDB = createSingletonDB<Settings>(TABLES.SETTINGS, supabaseAdapter.settings, localAdapter.settings);
+
+// Move unpaid invoices whose due date has passed to overdue and persist the change. Runs from the
+// app on startup, like runRecurringProfiles, rather than on every read.
+// Returns the invoices it marked; ones that fail to save keep their old status.
+export async function markOverdueInvoices(today: string = getToday()): Promise<Invoice[]> {
+  const pastDue = (await invoiceDB.getAll()).filter(invoice => isPastDue(invoice, today));
+  const marked = await Promise.all(
+    pastDue.map(async invoice => {
+      try {
+        return await invoiceDB.save({ ...invoice, status: 'overdue' });
+      } catch (error) {
+        // Someone else changed it first; their version wins and is checked again next time
+        if (!(error instanceof ConflictError)) console.error('Failed to mark invoice overdue:', error);
+        return null;
+      }
+    })
+  );
+  return marked.filter((invoice): invoice is Invoice => invoice !== null);
+}
+
+// Move sent estimates past their validity date to expired and persist the change.
+// Runs alongside markOverdueInvoices and returns the estimates it marked.
+export async function markExpiredEstimates(today: string = getToday()): Promise<Estimate[]> {
+  const expired = (await estimateDB.getAll()).filter(estimate => isEstimateExpired(estimate, today));
+  const marked = await Promise.all(
+    expired.map(async estimate => {
+      try {
+        return await estimateDB.save({ ...estimate, status: 'expired' });
+      } catch (error) {
+        console.error('Failed to mark estimate expired:', error);
+        return null;
+      }
+    })
+  );
+  return marked.filter((estimate): estimate is Estimate => estimate !== null);
+}
+
+// Generate every invoice active recurring profiles owe up to `today` and move each profile past
+// the runs it made. Runs from the app on startup and can be called the same way by a scheduled job.
+// Generated invoices have ids derived from profile and run date, so a run made twice is only written once.
+export async function runRecurringProfiles(today: string = getToday()): Promise<Invoice[]> {
+  const [profiles, invoices, settings] = await Promise.all([
+    recurringProfileDB.getAll(),
+    invoiceDB.getAll(),
+    settingsDB.get(),
+  ]);
+  const prefix = settings?.invoicePrefix || 'INV';
+  const usedNumbers = invoices.map(invoice => invoice.invoiceNumber);
+  const existingIds = new Set(invoices.map(invoice => invoice.id));
+  const created: Invoice[] = [];
+
+  for (const profile of profiles) {
+    let current = profile;
+    while (isRecurringDue(current, today)) {
+      const runDate = current.nextRunDate;
+      if (!existingIds.has(getRecurringInvoiceId(profile.id, runDate))) {
+        const invoiceNumber = getNextDocumentNumber(prefix, usedNumbers, new Date(runDate));
+        try {
+          const saved = await invoiceDB.save(buildRecurringInvoice(current, runDate, invoiceNumber));
+          usedNumbers.push(saved.invoiceNumber);
+          existingIds.add(saved.id);
+          created.push(saved);
+        } catch (error) {
+          // A conflict means another device already generated this run
+          if (!(error instanceof ConflictError)) {
+            console.error(`Failed to generate invoice for recurring profile ${profile.name}:`, error);
+            break;
+          }
+        }
+      }
+      current = advanceRecurringProfile(current, runDate);
+    }
+
+    if (current !== profile) {
+      try {
+        await recurringProfileDB.save(current);
+      } catch (error) {
+        console.error(`Failed to update recurring profile ${profile.name}:`, error);
+      }
+    }
+  }
+
+  return created;
+}
 
-    const { data, error } = await supabase
-      .from(TABLES.SETTINGS)
-      .upsert(dbSettings, { onConflict: 'user_id' })
-      .select()
-      .single();
-    if (error) throw error;
-    return mapSettingsFromDB(data);
-  },
-};
+// Push queued offline writes to the cloud
+export async function replayPendingWrites(): Promise<ReplayResult> {
+  if (!isSupabaseConfigured || !isOnline()) {
+    return { replayed: 0, held: 0, remaining: await getPendingCount() };
+  }
+  return replayOutbox();
+}
 
 // ============================================
 // SYNC FUNCTIONS
@@ -285,123 +370,6 @@ export async function syncFromCloud(): Promise<{
   }
 }
 
-// ============================================
-// DATA MAPPING HELPERS
-// ============================================
-
-// Map database record to Invoice type
-function mapFromDB(data: Record<string, unknown>): Invoice {
-  return {
-    id: data.id as string,
-    invoiceNumber: data.invoice_number as string,
-    date: data.date as string,
-    customerName: data.customer_name as string,
-    customerEmail: data.customer_email as string,
-    customerPhone: data.customer_phone as string,
-    customerAddress: data.customer_address as string,
-    items: (data.items as InvoiceItem[]) || [],
-    taxRate: data.tax_rate as number,
-    discount: data.discount as number,
-    notes: data.notes as string,
-    status: data.status as Invoice['status'],
-    createdAt: data.created_at as string,
-    updatedAt: data.updated_at as string,
-  };
-}
-
-// Map Invoice to database record
-function mapToDB(invoice: Invoice): Record<string, unknown> {
-  return {
-    id: invoice.id,
-    invoice_number: invoice.invoiceNumber,
-    date: invoice.date,
-    customer_name: invoice.customerName,
-    customer_email: invoice.customerEmail,
-    customer_phone: invoice.customerPhone,
-    customer_address: invoice.customerAddress,
-    items: invoice.items,
-    tax_rate: invoice.taxRate,
-    discount: invoice.discount,
-    notes: invoice.notes,
-    status: invoice.status,
-    created_at: invoice.createdAt || new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  };
-}
-
-// Map database record to Business type
-function mapBusinessFromDB(data: Record<string, unknown>): Business {
-  return {
-    id: data.id as string,
-    name: data.name as string,
-    address: data.address as string,
-    city: data.city as string,
-    state: data.state as string,
-    pincode: data.pincode as string,
-    phone: data.phone as string,
-    email: data.email as string,
-    taxId: data.tax_id as string,
-    logo: data.logo as string | null,
-    signature: data.signature as string | null,
-    currency: data.currency as string,
-    taxRate: data.tax_rate as number,
-  };
-}
-
-// Map Business to database record
-function mapBusinessToDB(business: Business): Record<string, unknown> {
-  return {
-    id: business.id,
-    name: business.name,
-    address: business.address,
-    city: business.city,
-    state: business.state,
-    pincode: business.pincode,
-    phone: business.phone,
-    email: business.email,
-    tax_id: business.taxId,
-    logo: business.logo,
-    signature: business.signature,
-    currency: business.currency,
-    tax_rate: business.taxRate,
-    updated_at: new Date().toISOString(),
-  };
-}
-
-// Map database record to Settings type
-function mapSettingsFromDB(data: Record<string, unknown>): Settings {
-  return {
-    id: data.id as string,
-    currency: data.currency as string,
-    taxRate: data.tax_rate as number,
-    invoicePrefix: data.invoice_prefix as string,
-    defaultPaymentTerms: data.default_payment_terms as string,
-    showLogo: data.show_logo as boolean,
-    taxLabel: data.tax_label as string,
-  };
-}
-
-// Map Settings to database record
-function mapSettingsToDB(settings: Settings): Record<string, unknown> {
-  return {
-    id: settings.id,
-    currency: settings.currency,
-    tax_rate: settings.taxRate,
-    invoice_prefix: settings.invoicePrefix,
-    default_payment_terms: settings.defaultPaymentTerms,
-    show_logo: settings.showLogo,
-    tax_label: settings.taxLabel,
-    updated_at: new Date().toISOString(),
-  };
-}
-
 // Re-export for convenience
 export { isSupabaseConfigured };
-
-// Missing type for mapFromDB
-interface InvoiceItem {
-  id: string;
-  name: string;
-  quantity: number;
-  price: number;
-}
+export { ConflictError } from './errors';
@@ -0,0 +1,10 @@
+import type { Invoice } from '../types';
+
+// Thrown when a save was based on a version of the record that has since been
+// changed elsewhere. Carries the current stored version so the caller can merge.
+export class ConflictError extends Error {
+  constructor(public readonly remote: Invoice) {
+    super('This invoice was changed on another device');
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,119 @@
+import { TABLES } from './supabase';
+
+// ============================================
+// INDEXEDDB - Local persistence for offline use
+// ============================================
+
+const DB_NAME = 'businezz';
+const DB_VERSION = 6;
+
+// One object store per Supabase table, keyed by record id
+export const LOCAL_STORES = Object.values(TABLES);
+
+// Pending offline writes, keyed by an auto-incrementing sequence so reads come back in order
+export const OUTBOX_STORE = 'outbox';
+
+export type LocalStoreName = (typeof LOCAL_STORES)[number] | typeof OUTBOX_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open (and upgrade if needed) the local database
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Create any store that does not exist yet, so bumping DB_VERSION
+        // after adding a table is all that is needed to migrate
+        for (const store of LOCAL_STORES) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+// Run a callback inside a transaction and resolve once it has committed
+async function withStore<T>(
+  store: LocalStoreName,
+  mode: IDBTransactionMode,
+  callback: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = callback(transaction.objectStore(store));
+    let result: T | undefined;
+
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result;
+      };
+    }
+
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getAllRecords<T>(store: LocalStoreName): Promise<T[]> {
+  const db = await openDatabase();
+  const records = await promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+  return records as T[];
+}
+
+export async function getRecord<T>(store: LocalStoreName, id: IDBValidKey): Promise<T | null> {
+  const db = await openDatabase();
+  const record = await promisify(db.transaction(store, 'readonly').objectStore(store).get(id));
+  return (record as T | undefined) ?? null;
+}
+
+export async function putRecord<T>(store: LocalStoreName, record: T): Promise<T> {
+  await withStore(store, 'readwrite', objectStore => objectStore.put(record));
+  return record;
+}
+
+export async function countRecords(store: LocalStoreName): Promise<number> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).count());
+}
+
+export async function deleteRecord(store: LocalStoreName, id: IDBValidKey): Promise<void> {
+  await withStore(store, 'readwrite', objectStore => objectStore.delete(id));
+}
+
+// Replace the whole contents of a store (used to mirror cloud data locally)
+export async function replaceAllRecords<T extends { id?: string }>(store: LocalStoreName, records: T[]): Promise<void> {
+  await withStore(store, 'readwrite', objectStore => {
+    objectStore.clear();
+    records.forEach(record => objectStore.put(record));
+  });
+}
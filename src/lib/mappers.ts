@@ -0,0 +1,394 @@
+import type { AdditionalCharge, Invoice, InvoiceItem, Customer, Product, Payment, Estimate, CreditDebitNote, RecurringProfile, RecurringTemplate, Business, Settings } from '../types';
+import { parsePaymentTerms, DEFAULT_PAYMENT_TERMS } from '../utils/paymentTerms';
+import { DEFAULT_ROUNDING } from '../utils/money';
+
+// ============================================
+// DATA MAPPING HELPERS
+// ============================================
+
+// Map database record to Invoice type
+export function mapFromDB(data: Record<string, unknown>): Invoice {
+  return {
+    id: data.id as string,
+    invoiceNumber: data.invoice_number as string,
+    date: data.date as string,
+    customerId: (data.customer_id as string) || undefined,
+    customerName: data.customer_name as string,
+    customerEmail: data.customer_email as string,
+    customerPhone: data.customer_phone as string,
+    customerAddress: data.customer_address as string,
+    customerStateCode: (data.customer_state_code as string) || undefined,
+    customerGstin: (data.customer_gstin as string) || undefined,
+    placeOfSupply: (data.place_of_supply as string) || undefined,
+    supplyType: (data.supply_type as Invoice['supplyType']) || undefined,
+    portCode: (data.port_code as string) || undefined,
+    shippingBillNumber: (data.shipping_bill_number as string) || undefined,
+    shippingBillDate: (data.shipping_bill_date as string) || undefined,
+    transport: (data.transport as Invoice['transport']) || undefined,
+    items: (data.items as InvoiceItem[]) || [],
+    taxRate: data.tax_rate as number,
+    discount: data.discount as number,
+    discountType: (data.discount_type as Invoice['discountType']) || 'percent',
+    charges: (data.charges as AdditionalCharge[]) || [],
+    currency: (data.currency as string) || undefined,
+    exchangeRate: data.exchange_rate != null ? Number(data.exchange_rate) : undefined,
+    notes: data.notes as string,
+    status: data.status as Invoice['status'],
+    paymentTerms: parsePaymentTerms(data.payment_terms, data.payment_terms_days),
+    dueDate: (data.due_date as string) || undefined,
+    rounding: (data.rounding as Invoice['rounding']) || undefined,
+    irn: (data.irn as string) || undefined,
+    ackNumber: (data.ack_number as string) || undefined,
+    ackDate: (data.ack_date as string) || undefined,
+    signedQrCode: (data.signed_qr_code as string) || undefined,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+// Map Invoice to database record
+export function mapToDB(invoice: Invoice): Record<string, unknown> {
+  return {
+    id: invoice.id,
+    invoice_number: invoice.invoiceNumber,
+    date: invoice.date,
+    customer_id: invoice.customerId ?? null,
+    customer_name: invoice.customerName,
+    customer_email: invoice.customerEmail,
+    customer_phone: invoice.customerPhone,
+    customer_address: invoice.customerAddress,
+    customer_state_code: invoice.customerStateCode ?? null,
+    customer_gstin: invoice.customerGstin ?? null,
+    place_of_supply: invoice.placeOfSupply ?? null,
+    supply_type: invoice.supplyType ?? null,
+    port_code: invoice.portCode ?? null,
+    shipping_bill_number: invoice.shippingBillNumber ?? null,
+    shipping_bill_date: invoice.shippingBillDate ?? null,
+    transport: invoice.transport ?? null,
+    items: invoice.items,
+    tax_rate: invoice.taxRate,
+    discount: invoice.discount,
+    discount_type: invoice.discountType || 'percent',
+    charges: invoice.charges || [],
+    currency: invoice.currency ?? null,
+    exchange_rate: invoice.exchangeRate ?? null,
+    notes: invoice.notes,
+    status: invoice.status,
+    payment_terms: invoice.paymentTerms?.code ?? null,
+    payment_terms_days: invoice.paymentTerms?.days ?? null,
+    due_date: invoice.dueDate ?? null,
+    rounding: invoice.rounding ?? null,
+    irn: invoice.irn ?? null,
+    ack_number: invoice.ackNumber ?? null,
+    ack_date: invoice.ackDate ?? null,
+    signed_qr_code: invoice.signedQrCode ?? null,
+    created_at: invoice.createdAt || new Date().toISOString(),
+  };
+}
+
+// Map database record to Customer type
+export function mapCustomerFromDB(data: Record<string, unknown>): Customer {
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    email: data.email as string | undefined,
+    phone: data.phone as string | undefined,
+    address: data.address as string | undefined,
+    stateCode: (data.state_code as string) || undefined,
+    gstin: (data.gstin as string) || undefined,
+    paymentTerms: parsePaymentTerms(data.payment_terms, data.payment_terms_days),
+  };
+}
+
+// Map Customer to database record
+export function mapCustomerToDB(customer: Customer): Record<string, unknown> {
+  return {
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    phone: customer.phone,
+    address: customer.address,
+    state_code: customer.stateCode ?? null,
+    gstin: customer.gstin ?? null,
+    payment_terms: customer.paymentTerms?.code ?? null,
+    payment_terms_days: customer.paymentTerms?.days ?? null,
+  };
+}
+
+// Map database record to Product type
+export function mapProductFromDB(data: Record<string, unknown>): Product {
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    description: (data.description as string) || undefined,
+    price: Number(data.price) || 0,
+    unit: (data.unit as string) || undefined,
+    hsnCode: (data.hsn_code as string) || undefined,
+    taxRate: data.tax_rate != null ? Number(data.tax_rate) : undefined,
+    priceIncludesTax: Boolean(data.price_includes_tax),
+  };
+}
+
+// Map Product to database record
+export function mapProductToDB(product: Product): Record<string, unknown> {
+  return {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    unit: product.unit,
+    hsn_code: product.hsnCode ?? null,
+    tax_rate: product.taxRate ?? null,
+    price_includes_tax: Boolean(product.priceIncludesTax),
+  };
+}
+
+// Map database record to Estimate type
+export function mapEstimateFromDB(data: Record<string, unknown>): Estimate {
+  return {
+    id: data.id as string,
+    estimateNumber: data.estimate_number as string,
+    date: data.date as string,
+    validUntil: data.valid_until as string,
+    customerId: (data.customer_id as string) || undefined,
+    customerName: data.customer_name as string,
+    customerEmail: data.customer_email as string,
+    customerPhone: data.customer_phone as string,
+    customerAddress: data.customer_address as string,
+    customerStateCode: (data.customer_state_code as string) || undefined,
+    customerGstin: (data.customer_gstin as string) || undefined,
+    placeOfSupply: (data.place_of_supply as string) || undefined,
+    supplyType: (data.supply_type as Estimate['supplyType']) || undefined,
+    items: (data.items as InvoiceItem[]) || [],
+    taxRate: data.tax_rate as number,
+    discount: data.discount as number,
+    discountType: (data.discount_type as Estimate['discountType']) || 'percent',
+    charges: (data.charges as AdditionalCharge[]) || [],
+    currency: (data.currency as string) || undefined,
+    exchangeRate: data.exchange_rate != null ? Number(data.exchange_rate) : undefined,
+    notes: data.notes as string,
+    status: data.status as Estimate['status'],
+    convertedInvoiceId: (data.converted_invoice_id as string) || undefined,
+    rounding: (data.rounding as Estimate['rounding']) || undefined,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+// Map Estimate to database record
+export function mapEstimateToDB(estimate: Estimate): Record<string, unknown> {
+  return {
+    id: estimate.id,
+    estimate_number: estimate.estimateNumber,
+    date: estimate.date,
+    valid_until: estimate.validUntil,
+    customer_id: estimate.customerId ?? null,
+    customer_name: estimate.customerName,
+    customer_email: estimate.customerEmail,
+    customer_phone: estimate.customerPhone,
+    customer_address: estimate.customerAddress,
+    customer_state_code: estimate.customerStateCode ?? null,
+    customer_gstin: estimate.customerGstin ?? null,
+    place_of_supply: estimate.placeOfSupply ?? null,
+    supply_type: estimate.supplyType ?? null,
+    items: estimate.items,
+    tax_rate: estimate.taxRate,
+    discount: estimate.discount,
+    discount_type: estimate.discountType || 'percent',
+    charges: estimate.charges || [],
+    currency: estimate.currency ?? null,
+    exchange_rate: estimate.exchangeRate ?? null,
+    notes: estimate.notes,
+    status: estimate.status,
+    converted_invoice_id: estimate.convertedInvoiceId ?? null,
+    rounding: estimate.rounding ?? null,
+    created_at: estimate.createdAt || new Date().toISOString(),
+  };
+}
+
+// Map database record to CreditDebitNote type
+export function mapCreditDebitNoteFromDB(data: Record<string, unknown>): CreditDebitNote {
+  return {
+    id: data.id as string,
+    noteNumber: data.note_number as string,
+    type: data.type as CreditDebitNote['type'],
+    invoiceId: data.invoice_id as string,
+    date: data.date as string,
+    reason: (data.reason as string) || '',
+    items: (data.items as InvoiceItem[]) || [],
+    taxRate: Number(data.tax_rate) || 0,
+    discount: Number(data.discount) || 0,
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+// Map CreditDebitNote to database record
+export function mapCreditDebitNoteToDB(note: CreditDebitNote): Record<string, unknown> {
+  return {
+    id: note.id,
+    note_number: note.noteNumber,
+    type: note.type,
+    invoice_id: note.invoiceId,
+    date: note.date,
+    reason: note.reason,
+    items: note.items,
+    tax_rate: note.taxRate,
+    discount: note.discount,
+    created_at: note.createdAt || new Date().toISOString(),
+  };
+}
+
+// Map database record to RecurringProfile type
+export function mapRecurringProfileFromDB(data: Record<string, unknown>): RecurringProfile {
+  const template = (data.template as RecurringTemplate) || {};
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    template: { ...template, items: template.items || [] },
+    frequency: data.frequency as RecurringProfile['frequency'],
+    startDate: data.start_date as string,
+    endDate: (data.end_date as string) || undefined,
+    nextRunDate: data.next_run_date as string,
+    lastRunDate: (data.last_run_date as string) || undefined,
+    autoSend: Boolean(data.auto_send),
+    status: data.status as RecurringProfile['status'],
+    createdAt: data.created_at as string,
+    updatedAt: data.updated_at as string,
+  };
+}
+
+// Map RecurringProfile to database record
+export function mapRecurringProfileToDB(profile: RecurringProfile): Record<string, unknown> {
+  return {
+    id: profile.id,
+    name: profile.name,
+    template: profile.template,
+    frequency: profile.frequency,
+    start_date: profile.startDate,
+    end_date: profile.endDate ?? null,
+    next_run_date: profile.nextRunDate,
+    last_run_date: profile.lastRunDate ?? null,
+    auto_send: profile.autoSend,
+    status: profile.status,
+    created_at: profile.createdAt || new Date().toISOString(),
+  };
+}
+
+// Map database record to Payment type
+export function mapPaymentFromDB(data: Record<string, unknown>): Payment {
+  return {
+    id: data.id as string,
+    invoiceId: data.invoice_id as string,
+    amount: Number(data.amount) || 0,
+    date: data.date as string,
+    mode: data.mode as Payment['mode'],
+    reference: (data.reference as string) || undefined,
+    note: (data.note as string) || undefined,
+    createdAt: data.created_at as string,
+  };
+}
+
+// Map Payment to database record
+export function mapPaymentToDB(payment: Payment): Record<string, unknown> {
+  return {
+    id: payment.id,
+    invoice_id: payment.invoiceId,
+    amount: payment.amount,
+    date: payment.date,
+    mode: payment.mode,
+    reference: payment.reference ?? null,
+    note: payment.note ?? null,
+    created_at: payment.createdAt || new Date().toISOString(),
+  };
+}
+
+// Map database record to Business type
+export function mapBusinessFromDB(data: Record<string, unknown>): Business {
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    address: data.address as string,
+    city: data.city as string,
+    state: data.state as string,
+    stateCode: (data.state_code as string) || undefined,
+    pincode: data.pincode as string,
+    phone: data.phone as string,
+    email: data.email as string,
+    taxId: data.tax_id as string,
+    lutNumber: (data.lut_number as string) || undefined,
+    logo: data.logo as string | null,
+    signature: data.signature as string | null,
+    currency: data.currency as string,
+    taxRate: data.tax_rate as number,
+  };
+}
+
+// Map Business to database record
+export function mapBusinessToDB(business: Business): Record<string, unknown> {
+  return {
+    id: business.id,
+    name: business.name,
+    address: business.address,
+    city: business.city,
+    state: business.state,
+    state_code: business.stateCode ?? null,
+    pincode: business.pincode,
+    phone: business.phone,
+    email: business.email,
+    tax_id: business.taxId,
+    lut_number: business.lutNumber ?? null,
+    logo: business.logo,
+    signature: business.signature,
+    currency: business.currency,
+    tax_rate: business.taxRate,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Map database record to Settings type
+export function mapSettingsFromDB(data: Record<string, unknown>): Settings {
+  return {
+    id: data.id as string,
+    currency: data.currency as string,
+    taxRate: data.tax_rate as number,
+    invoicePrefix: data.invoice_prefix as string,
+    estimatePrefix: (data.estimate_prefix as string) || 'EST',
+    estimateValidityDays: (data.estimate_validity_days as number) ?? 30,
+    creditNotePrefix: (data.credit_note_prefix as string) || 'CN',
+    debitNotePrefix: (data.debit_note_prefix as string) || 'DN',
+    defaultPaymentTerms:
+      parsePaymentTerms(data.default_payment_terms, data.default_payment_terms_days) || DEFAULT_PAYMENT_TERMS,
+    showLogo: data.show_logo as boolean,
+    taxLabel: data.tax_label as string,
+    rounding: {
+      mode: (data.rounding_mode as Settings['rounding']['mode']) || DEFAULT_ROUNDING.mode,
+      increment: data.rounding_increment != null ? Number(data.rounding_increment) : DEFAULT_ROUNDING.increment,
+      taxRounding: (data.tax_rounding as Settings['rounding']['taxRounding']) || DEFAULT_ROUNDING.taxRounding,
+    },
+    exchangeRates: (data.exchange_rates as Record<string, number>) || {},
+  };
+}
+
+// Map Settings to database record
+export function mapSettingsToDB(settings: Settings): Record<string, unknown> {
+  return {
+    id: settings.id,
+    currency: settings.currency,
+    tax_rate: settings.taxRate,
+    invoice_prefix: settings.invoicePrefix,
+    estimate_prefix: settings.estimatePrefix,
+    estimate_validity_days: settings.estimateValidityDays,
+    credit_note_prefix: settings.creditNotePrefix,
+    debit_note_prefix: settings.debitNotePrefix,
+    default_payment_terms: settings.defaultPaymentTerms?.code,
+    default_payment_terms_days: settings.defaultPaymentTerms?.days ?? null,
+    show_logo: settings.showLogo,
+    tax_label: settings.taxLabel,
+    rounding_mode: settings.rounding?.mode ?? DEFAULT_ROUNDING.mode,
+    rounding_increment: settings.rounding?.increment ?? DEFAULT_ROUNDING.increment,
+    tax_rounding: settings.rounding?.taxRounding ?? DEFAULT_ROUNDING.taxRounding,
+    exchange_rates: settings.exchangeRates || {},
+    updated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,17 @@
+// ============================================
+// NETWORK HELPERS
+// ============================================
+
+// The browser's view of connectivity (always "online" outside a browser)
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+// Detect failures caused by connectivity rather than by the request itself
+export function isNetworkError(error: unknown): boolean {
+  if (!isOnline()) return true;
+  const message = error instanceof Error
+    ? error.message
+    : String((error as { message?: string } | null)?.message ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
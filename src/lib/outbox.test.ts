@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TABLES } from './supabase';
+import { ConflictError } from './errors';
+import {
+  applyPendingEntries,
+  discardHeldWrite,
+  enqueue,
+  getHeldWrites,
+  getPendingEntries,
+  replayOutbox,
+  resolveHeldWrite,
+  retryHeldWrite,
+} from './outbox';
+import type { Invoice } from '../types';
+
+// The outbox store kept in memory, keyed by an auto-incrementing seq as IndexedDB does
+const { outbox, writers } = vi.hoisted(() => {
+  const records = new Map<number, object>();
+  let nextSeq = 1;
+  const writer = () => ({ save: vi.fn(async (record: object) => record), delete: vi.fn(async () => {}) });
+  return {
+    outbox: {
+      records,
+      reset: () => {
+        records.clear();
+        nextSeq = 1;
+      },
+      put: (record: { seq?: number }) => {
+        const seq = record.seq ?? nextSeq++;
+        records.set(seq, { ...record, seq });
+      },
+    },
+    writers: { invoices: writer(), customers: writer() },
+  };
+});
+
+vi.mock('./indexedDB', () => ({
+  OUTBOX_STORE: 'outbox',
+  getAllRecords: async () => [...outbox.records.entries()].sort(([a], [b]) => a - b).map(([, record]) => record),
+  putRecord: async (_store: string, record: { seq?: number }) => {
+    outbox.put(record);
+    return record;
+  },
+  deleteRecord: async (_store: string, seq: number) => {
+    outbox.records.delete(seq);
+  },
+  countRecords: async () => outbox.records.size,
+}));
+
+vi.mock('./adapters/supabaseAdapter', () => ({ supabaseAdapter: writers }));
+
+const invoice = (id: string, fields: Partial<Invoice> = {}): Invoice => ({
+  id,
+  invoiceNumber: `INV-${id}`,
+  date: '2026-04-10',
+  customerName: 'Customer',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  items: [],
+  taxRate: 18,
+  discount: 0,
+  notes: '',
+  status: 'pending',
+  updatedAt: 'v1',
+  ...fields,
+});
+
+const savedRecords = (): Invoice[] => writers.invoices.save.mock.calls.map(([record]) => record as Invoice);
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  outbox.reset();
+  writers.invoices.save.mockReset().mockImplementation(async (record: object) => record);
+  writers.customers.save.mockReset().mockImplementation(async (record: object) => record);
+});
+
+describe('replayOutbox', () => {
+  it('sends queued writes in order and clears them', async () => {
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a'));
+    await enqueue(TABLES.CUSTOMERS, 'save', 'c', { id: 'c', name: 'Customer' });
+    await enqueue(TABLES.INVOICES, 'save', 'b', invoice('b'));
+
+    expect(await replayOutbox()).toEqual({ replayed: 3, held: 0, remaining: 0 });
+    expect(savedRecords().map(record => record.id)).toEqual(['a', 'b']);
+    expect(writers.customers.save).toHaveBeenCalledWith({ id: 'c', name: 'Customer' });
+  });
+
+  it('moves later edits of a record onto the version the cloud returned', async () => {
+    writers.invoices.save.mockImplementation(async (record: object) => ({ ...record, updatedAt: 'v2' }));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'first' }));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'second' }));
+
+    await replayOutbox();
+    expect(savedRecords().map(record => [record.notes, record.updatedAt])).toEqual([['first', 'v1'], ['second', 'v2']]);
+  });
+
+  it('stops at a network failure so later writes never overtake earlier ones', async () => {
+    writers.invoices.save.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a'));
+    await enqueue(TABLES.INVOICES, 'save', 'b', invoice('b'));
+
+    expect(await replayOutbox()).toEqual({ replayed: 0, held: 0, remaining: 2 });
+    expect(writers.invoices.save).toHaveBeenCalledTimes(1);
+    expect((await getPendingEntries())[0]).toMatchObject({ attempts: 0, recordId: 'a' });
+  });
+
+  it('holds a conflicting write and every later write to the record, but carries on with others', async () => {
+    const theirs = invoice('a', { notes: 'theirs', updatedAt: 'v2' });
+    writers.invoices.save.mockRejectedValueOnce(new ConflictError(theirs));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'mine' }), invoice('a'));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'mine again' }));
+    await enqueue(TABLES.INVOICES, 'save', 'b', invoice('b'));
+
+    expect(await replayOutbox()).toEqual({ replayed: 1, held: 2, remaining: 2 });
+    expect(savedRecords().map(record => record.id)).toEqual(['a', 'b']);
+
+    const held = await getHeldWrites();
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ recordId: 'a', operation: 'save', base: invoice('a'), theirs, error: undefined });
+    expect((held[0].mine as Invoice).notes).toBe('mine again');
+
+    // Held writes stay put until the user deals with them
+    expect(await replayOutbox()).toEqual({ replayed: 0, held: 2, remaining: 2 });
+    expect(writers.invoices.save).toHaveBeenCalledTimes(2);
+  });
+
+  it('holds a write after it keeps failing for other reasons', async () => {
+    writers.customers.save.mockRejectedValue(new Error('permission denied'));
+    await enqueue(TABLES.CUSTOMERS, 'save', 'c', { id: 'c' });
+
+    expect(await replayOutbox()).toMatchObject({ replayed: 0, held: 0, remaining: 1 });
+    expect(await replayOutbox()).toMatchObject({ held: 0 });
+    expect(await replayOutbox()).toMatchObject({ held: 1, remaining: 1 });
+    expect(await getHeldWrites()).toEqual([
+      expect.objectContaining({ table: TABLES.CUSTOMERS, recordId: 'c', theirs: undefined, error: 'permission denied' }),
+    ]);
+  });
+});
+
+describe('held writes', () => {
+  const holdConflict = async () => {
+    writers.invoices.save.mockRejectedValueOnce(new ConflictError(invoice('a', { notes: 'theirs', updatedAt: 'v2' })));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'mine' }), invoice('a'));
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'mine again' }));
+    await replayOutbox();
+    return (await getHeldWrites())[0];
+  };
+
+  it('sends the merged version in place of the conflicting writes', async () => {
+    const held = await holdConflict();
+    await resolveHeldWrite(held.seq, invoice('a', { notes: 'merged', updatedAt: 'v2' }));
+
+    const entries = await getPendingEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ conflict: undefined, failed: false, base: held.theirs });
+
+    expect(await replayOutbox()).toEqual({ replayed: 1, held: 0, remaining: 0 });
+    expect(savedRecords().pop()).toMatchObject({ notes: 'merged', updatedAt: 'v2' });
+  });
+
+  it('sends a failed write again when retried', async () => {
+    writers.customers.save.mockRejectedValue(new Error('permission denied'));
+    await enqueue(TABLES.CUSTOMERS, 'save', 'c', { id: 'c' });
+    await replayOutbox();
+    await replayOutbox();
+    await replayOutbox();
+
+    writers.customers.save.mockReset().mockImplementation(async (record: object) => record);
+    await retryHeldWrite((await getHeldWrites())[0].seq);
+    expect(await replayOutbox()).toEqual({ replayed: 1, held: 0, remaining: 0 });
+  });
+
+  it('drops a discarded write with the saves built on it', async () => {
+    const held = await holdConflict();
+    await enqueue(TABLES.INVOICES, 'save', 'b', invoice('b'));
+    await discardHeldWrite(held.seq);
+
+    expect((await getPendingEntries()).map(entry => entry.recordId)).toEqual(['b']);
+  });
+});
+
+describe('applyPendingEntries', () => {
+  it('overlays queued writes on records fetched from the cloud', async () => {
+    await enqueue(TABLES.INVOICES, 'save', 'a', invoice('a', { notes: 'offline edit' }));
+    await enqueue(TABLES.INVOICES, 'save', 'c', invoice('c'));
+    await enqueue(TABLES.INVOICES, 'delete', 'b');
+
+    const records = await applyPendingEntries(TABLES.INVOICES, [invoice('a'), invoice('b')]);
+    expect(records.map(record => [record.id, record.notes])).toEqual([['c', ''], ['a', 'offline edit']]);
+  });
+});
@@ -0,0 +1,281 @@
+import { TABLES } from './supabase';
+import { supabaseAdapter } from './adapters/supabaseAdapter';
+import { getAllRecords, putRecord, deleteRecord, countRecords, OUTBOX_STORE } from './indexedDB';
+import { isNetworkError } from './network';
+import { ConflictError } from './errors';
+
+// ============================================
+// OUTBOX - Durable queue of offline writes
+// ============================================
+
+export type SyncedTable = (typeof TABLES)[keyof typeof TABLES];
+
+export interface OutboxEntry {
+  seq?: number;
+  table: SyncedTable;
+  operation: 'save' | 'delete';
+  recordId: string;
+  payload?: unknown;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  base?: unknown; // The record as it was before this write, to merge against
+  conflict?: unknown; // The cloud copy, when it changed while this write was queued
+  failed?: boolean; // Kept failing for non-network reasons
+}
+
+// A queued write the user has to look at before it can go anywhere. Nothing typed offline is
+// thrown away: it waits here until the user merges it, retries it or discards it.
+export interface HeldWrite {
+  seq: number;
+  table: SyncedTable;
+  recordId: string;
+  operation: OutboxEntry['operation'];
+  base?: unknown;
+  mine?: unknown; // The latest queued version of the record
+  theirs?: unknown; // Set for conflicts: the cloud copy
+  error?: string; // Set for failed writes
+}
+
+export interface ReplayResult {
+  replayed: number;
+  held: number; // Waiting on the user, with every later write to the same record
+  remaining: number;
+}
+
+// Entries that keep failing for non-network reasons are held for the user after this many tries
+const MAX_ATTEMPTS = 3;
+
+type CountListener = (count: number) => void;
+const listeners = new Set<CountListener>();
+
+async function notify(): Promise<void> {
+  const count = await countRecords(OUTBOX_STORE);
+  listeners.forEach(listener => listener(count));
+}
+
+// Subscribe to pending-count changes; returns an unsubscribe function
+export function subscribeToOutbox(listener: CountListener): () => void {
+  listeners.add(listener);
+  countRecords(OUTBOX_STORE).then(listener).catch(() => listener(0));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getPendingEntries(table?: SyncedTable): Promise<OutboxEntry[]> {
+  const entries = await getAllRecords<OutboxEntry>(OUTBOX_STORE);
+  return table ? entries.filter(entry => entry.table === table) : entries;
+}
+
+export async function getPendingCount(): Promise<number> {
+  return countRecords(OUTBOX_STORE);
+}
+
+export async function enqueue(
+  table: SyncedTable,
+  operation: OutboxEntry['operation'],
+  recordId: string,
+  payload?: unknown,
+  base?: unknown
+): Promise<void> {
+  await putRecord<OutboxEntry>(OUTBOX_STORE, {
+    table,
+    operation,
+    recordId,
+    payload,
+    base,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  });
+  await notify();
+}
+
+// Overlay queued writes on top of records fetched from the cloud, so a refetch
+// before replay does not hide changes made offline
+export async function applyPendingEntries<T extends { id?: string }>(table: SyncedTable, records: T[]): Promise<T[]> {
+  const entries = await getPendingEntries(table);
+  if (entries.length === 0) return records;
+
+  const result = [...records];
+  for (const entry of entries) {
+    const index = result.findIndex(record => record.id === entry.recordId);
+    if (entry.operation === 'delete') {
+      if (index >= 0) result.splice(index, 1);
+    } else if (index >= 0) {
+      result[index] = entry.payload as T;
+    } else {
+      result.unshift(entry.payload as T);
+    }
+  }
+  return result;
+}
+
+// Cloud writers for every table that can be queued
+const remoteWriters: Record<SyncedTable, {
+  save(record: never): Promise<unknown>;
+  delete?(id: string): Promise<void>;
+}> = {
+  [TABLES.INVOICES]: supabaseAdapter.invoices,
+  [TABLES.CUSTOMERS]: supabaseAdapter.customers,
+  [TABLES.PRODUCTS]: supabaseAdapter.products,
+  [TABLES.BUSINESS]: supabaseAdapter.business,
+  [TABLES.SETTINGS]: supabaseAdapter.settings,
+  [TABLES.PAYMENTS]: supabaseAdapter.payments,
+  [TABLES.ESTIMATES]: supabaseAdapter.estimates,
+  [TABLES.CREDIT_DEBIT_NOTES]: supabaseAdapter.creditDebitNotes,
+  [TABLES.RECURRING_PROFILES]: supabaseAdapter.recurringProfiles,
+};
+
+async function send(entry: OutboxEntry): Promise<unknown> {
+  const writer = remoteWriters[entry.table];
+  if (entry.operation === 'delete') {
+    return writer.delete?.(entry.recordId);
+  }
+  return writer.save(entry.payload as never);
+}
+
+// Later queued edits of a record were based on the version that existed before
+// the earlier edit was sent; move them onto the version the cloud just returned
+function rebaseLaterEntries(entries: OutboxEntry[], from: number, saved: unknown): void {
+  const updatedAt = (saved as { updatedAt?: string } | undefined)?.updatedAt;
+  if (!updatedAt) return;
+  const { table, recordId } = entries[from];
+  for (let i = from + 1; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.table === table && entry.recordId === recordId && entry.operation === 'save') {
+      entries[i] = { ...entry, payload: { ...(entry.payload as object), updatedAt } };
+    }
+  }
+}
+
+const isHeld = (entry: OutboxEntry): boolean => Boolean(entry.conflict || entry.failed);
+
+const recordKey = (entry: OutboxEntry): string => `${entry.table}:${entry.recordId}`;
+
+// `entry` and the writes queued after it for the same record, oldest first
+const getRecordEntries = (entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] =>
+  entries.filter(other => recordKey(other) === recordKey(entry) && other.seq! >= entry.seq!);
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Send queued writes to the cloud in the order they were made. Stops at the first
+// network failure so later writes never overtake earlier ones. A write that conflicts
+// with the cloud copy, or keeps failing, is held for the user along with every later
+// write to the same record; writes to other records carry on.
+export function replayOutbox(): Promise<ReplayResult> {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const entries = await getPendingEntries();
+    const heldRecords = new Set<string>();
+    let replayed = 0;
+    let held = 0;
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (isHeld(entry) || heldRecords.has(recordKey(entry))) {
+        heldRecords.add(recordKey(entry));
+        held++;
+        continue;
+      }
+
+      try {
+        const saved = await send(entry);
+        rebaseLaterEntries(entries, i, saved);
+        await deleteRecord(OUTBOX_STORE, entry.seq!);
+        replayed++;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        const lastError = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+        // The record changed in the cloud while this edit was queued; the user decides how to merge
+        if (error instanceof ConflictError) {
+          await putRecord<OutboxEntry>(OUTBOX_STORE, { ...entry, conflict: error.remote, lastError });
+          heldRecords.add(recordKey(entry));
+          held++;
+          continue;
+        }
+
+        const attempts = entry.attempts + 1;
+        if (attempts >= MAX_ATTEMPTS) {
+          console.error(`Holding queued ${entry.operation} on ${entry.table} after ${attempts} attempts:`, lastError);
+          await putRecord<OutboxEntry>(OUTBOX_STORE, { ...entry, attempts, lastError, failed: true });
+          heldRecords.add(recordKey(entry));
+          held++;
+        } else {
+          await putRecord<OutboxEntry>(OUTBOX_STORE, { ...entry, attempts, lastError });
+          break;
+        }
+      } finally {
+        await notify();
+      }
+    }
+
+    return { replayed, held, remaining: await getPendingCount() };
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+}
+
+// Held writes, first write per record
+export async function getHeldWrites(): Promise<HeldWrite[]> {
+  const entries = await getPendingEntries();
+  return entries.filter(isHeld).map(entry => {
+    const saves = getRecordEntries(entries, entry).filter(other => other.operation === 'save');
+    return {
+      seq: entry.seq!,
+      table: entry.table,
+      recordId: entry.recordId,
+      operation: entry.operation,
+      base: entry.base,
+      mine: saves[saves.length - 1]?.payload,
+      theirs: entry.conflict,
+      error: entry.failed ? entry.lastError : undefined,
+    };
+  });
+}
+
+async function getPendingEntry(seq: number): Promise<{ entries: OutboxEntry[]; entry: OutboxEntry }> {
+  const entries = await getPendingEntries();
+  const entry = entries.find(other => other.seq === seq);
+  if (!entry) throw new Error('This change is no longer waiting to be saved');
+  return { entries, entry };
+}
+
+// Replace a conflicting write, and the saves queued after it for the same record, with the
+// version the user merged. It is sent again on the next replay.
+export async function resolveHeldWrite(seq: number, merged: unknown): Promise<void> {
+  const { entries, entry } = await getPendingEntry(seq);
+  const later = getRecordEntries(entries, entry).filter(other => other !== entry && other.operation === 'save');
+  for (const other of later) await deleteRecord(OUTBOX_STORE, other.seq!);
+  await putRecord<OutboxEntry>(OUTBOX_STORE, {
+    ...entry,
+    payload: merged,
+    base: entry.conflict ?? entry.base,
+    conflict: undefined,
+    failed: false,
+    attempts: 0,
+    lastError: undefined,
+  });
+  await notify();
+}
+
+// Try a write that kept failing again on the next replay
+export async function retryHeldWrite(seq: number): Promise<void> {
+  const { entry } = await getPendingEntry(seq);
+  await putRecord<OutboxEntry>(OUTBOX_STORE, { ...entry, failed: false, attempts: 0, lastError: undefined });
+  await notify();
+}
+
+// Drop a held write and the saves queued after it for the same record, which built on it.
+// Only ever called when the user chooses to throw the change away.
+export async function discardHeldWrite(seq: number): Promise<void> {
+  const { entries, entry } = await getPendingEntry(seq);
+  const discarded = getRecordEntries(entries, entry).filter(other => other === entry || other.operation === 'save');
+  for (const other of discarded) await deleteRecord(OUTBOX_STORE, other.seq!);
+  await notify();
+}
@@ -0,0 +1,14 @@
+// Query keys for React Query cache management
+export const queryKeys = {
+  invoices: ['invoices'] as const,
+  invoice: (id: string) => ['invoices', id] as const,
+  customers: ['customers'] as const,
+  products: ['products'] as const,
+  business: ['business'] as const,
+  settings: ['settings'] as const,
+  payments: ['payments'] as const,
+  estimates: ['estimates'] as const,
+  estimate: (id: string) => ['estimates', id] as const,
+  creditDebitNotes: ['credit_debit_notes'] as const,
+  recurringProfiles: ['recurring_profiles'] as const,
+};
@@ -0,0 +1,173 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { TABLES } from './supabase';
+import { queryKeys } from './queryKeys';
+import {
+  mapFromDB,
+  mapCustomerFromDB,
+  mapProductFromDB,
+  mapPaymentFromDB,
+  mapEstimateFromDB,
+  mapCreditDebitNoteFromDB,
+  mapRecurringProfileFromDB,
+  mapBusinessFromDB,
+  mapSettingsFromDB,
+} from './mappers';
+import { localAdapter } from './adapters/localAdapter';
+import type { Invoice, Customer, Product, Payment, Estimate, CreditDebitNote, RecurringProfile } from '../types';
+
+// ============================================
+// REALTIME CACHE - Patch React Query from postgres_changes
+// ============================================
+
+export type RealtimeTable = (typeof TABLES)[keyof typeof TABLES];
+export type RealtimePayload = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+// Insert or replace a record in a cached list, keeping the list's sort order
+function upsertById<T extends { id: string }>(
+  list: T[] | undefined,
+  record: T,
+  compare: (a: T, b: T) => number
+): T[] | undefined {
+  if (!list) return list;
+  const index = list.findIndex(item => item.id === record.id);
+  if (index >= 0) {
+    const updated = [...list];
+    updated[index] = record;
+    return updated;
+  }
+  return [...list, record].sort(compare);
+}
+
+function removeById<T extends { id: string }>(list: T[] | undefined, id: string): T[] | undefined {
+  return list?.filter(item => item.id !== id);
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+const byCreatedAtDesc = (a: { createdAt?: string }, b: { createdAt?: string }) =>
+  new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
+const byNextRunAsc = (a: RecurringProfile, b: RecurringProfile) => a.nextRunDate.localeCompare(b.nextRunDate);
+const byDateAsc = (a: { date: string }, b: { date: string }) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Apply one change event to the exact cache entries it affects and mirror it into IndexedDB
+export async function applyRealtimeChange(
+  queryClient: QueryClient,
+  table: RealtimeTable,
+  payload: RealtimePayload
+): Promise<void> {
+  const row = payload.new as Record<string, unknown>;
+  const deletedId = (payload.old as Record<string, unknown> | undefined)?.id as string | undefined;
+
+  switch (table) {
+    case TABLES.INVOICES: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<Invoice[]>(queryKeys.invoices, old => removeById(old, deletedId));
+        queryClient.setQueryData(queryKeys.invoice(deletedId), null);
+        await localAdapter.invoices.delete(deletedId);
+        return;
+      }
+      const invoice = mapFromDB(row);
+      queryClient.setQueryData<Invoice[]>(queryKeys.invoices, old => upsertById(old, invoice, byCreatedAtDesc));
+      queryClient.setQueryData(queryKeys.invoice(invoice.id), invoice);
+      await localAdapter.invoices.save(invoice);
+      return;
+    }
+
+    case TABLES.CUSTOMERS: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<Customer[]>(queryKeys.customers, old => removeById(old, deletedId));
+        await localAdapter.customers.delete(deletedId);
+        return;
+      }
+      const customer = mapCustomerFromDB(row);
+      queryClient.setQueryData<Customer[]>(queryKeys.customers, old => upsertById(old, customer, byName));
+      await localAdapter.customers.save(customer);
+      return;
+    }
+
+    case TABLES.PRODUCTS: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<Product[]>(queryKeys.products, old => removeById(old, deletedId));
+        await localAdapter.products.delete(deletedId);
+        return;
+      }
+      const product = mapProductFromDB(row);
+      queryClient.setQueryData<Product[]>(queryKeys.products, old => upsertById(old, product, byName));
+      await localAdapter.products.save(product);
+      return;
+    }
+
+    case TABLES.PAYMENTS: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<Payment[]>(queryKeys.payments, old => removeById(old, deletedId));
+        await localAdapter.payments.delete(deletedId);
+        return;
+      }
+      const payment = mapPaymentFromDB(row);
+      queryClient.setQueryData<Payment[]>(queryKeys.payments, old => upsertById(old, payment, byDateAsc));
+      await localAdapter.payments.save(payment);
+      return;
+    }
+
+    case TABLES.CREDIT_DEBIT_NOTES: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes, old => removeById(old, deletedId));
+        await localAdapter.creditDebitNotes.delete(deletedId);
+        return;
+      }
+      const note = mapCreditDebitNoteFromDB(row);
+      queryClient.setQueryData<CreditDebitNote[]>(queryKeys.creditDebitNotes, old => upsertById(old, note, byDateAsc));
+      await localAdapter.creditDebitNotes.save(note);
+      return;
+    }
+
+    case TABLES.RECURRING_PROFILES: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<RecurringProfile[]>(queryKeys.recurringProfiles, old => removeById(old, deletedId));
+        await localAdapter.recurringProfiles.delete(deletedId);
+        return;
+      }
+      const profile = mapRecurringProfileFromDB(row);
+      queryClient.setQueryData<RecurringProfile[]>(queryKeys.recurringProfiles, old => upsertById(old, profile, byNextRunAsc));
+      await localAdapter.recurringProfiles.save(profile);
+      return;
+    }
+
+    case TABLES.ESTIMATES: {
+      if (payload.eventType === 'DELETE') {
+        if (!deletedId) return;
+        queryClient.setQueryData<Estimate[]>(queryKeys.estimates, old => removeById(old, deletedId));
+        queryClient.setQueryData(queryKeys.estimate(deletedId), null);
+        await localAdapter.estimates.delete(deletedId);
+        return;
+      }
+      const estimate = mapEstimateFromDB(row);
+      queryClient.setQueryData<Estimate[]>(queryKeys.estimates, old => upsertById(old, estimate, byCreatedAtDesc));
+      queryClient.setQueryData(queryKeys.estimate(estimate.id), estimate);
+      await localAdapter.estimates.save(estimate);
+      return;
+    }
+
+    case TABLES.BUSINESS: {
+      if (payload.eventType === 'DELETE') return;
+      const business = mapBusinessFromDB(row);
+      queryClient.setQueryData(queryKeys.business, business);
+      await localAdapter.business.replace(business);
+      return;
+    }
+
+    case TABLES.SETTINGS: {
+      if (payload.eventType === 'DELETE') return;
+      const settings = mapSettingsFromDB(row);
+      queryClient.setQueryData(queryKeys.settings, settings);
+      await localAdapter.settings.replace(settings);
+      return;
+    }
+  }
+}
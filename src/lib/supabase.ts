@@ -19,4 +19,8 @@ export const TABLES = {
   PRODUCTS: 'products',
   BUSINESS: 'business_profile',
   SETTINGS: 'settings',
+  PAYMENTS: 'payments',
+  ESTIMATES: 'estimates',
+  CREDIT_DEBIT_NOTES: 'credit_debit_notes',
+  RECURRING_PROFILES: 'recurring_profiles',
 } as const;
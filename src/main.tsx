@@ -16,9 +16,11 @@ const queryClient = new QueryClient({
       refetchOnReconnect: true, // Refetch when internet reconnects
       retry: 1, // Retry failed requests once
       retryDelay: 1000, // Wait 1s before retry
+      networkMode: 'always', // The data layer falls back to IndexedDB when offline
     },
     mutations: {
       retry: 1,
+      networkMode: 'always',
     },
   },
 });
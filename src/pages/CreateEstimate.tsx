@@ -0,0 +1,426 @@
+import { useState, useEffect, useMemo, type ChangeEvent } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Save,
+  Eye,
+  ArrowLeft,
+  Loader2,
+} from 'lucide-react';
+import { generateId, formatCurrency, formatDate, getInvoiceTotals, getChargesAt } from '../utils/helpers';
+import type { Estimate, Customer, FormErrors, SupplyType } from '../types';
+import { useEstimates, useEstimate, useCustomers, useProducts, useBusiness, useSettings } from '../hooks/useData';
+import CustomerDetailsForm from '../components/CustomerDetailsForm';
+import LineItemsEditor, { createEmptyItem } from '../components/LineItemsEditor';
+import StateSelect from '../components/StateSelect';
+import DiscountInput from '../components/DiscountInput';
+import CurrencySelect from '../components/CurrencySelect';
+import ChargesEditor from '../components/ChargesEditor';
+import { getNextDocumentNumber } from '../utils/numbering';
+import { calculateDueDate } from '../utils/paymentTerms';
+import { resolveRounding } from '../utils/money';
+import { findInvoiceCustomer } from '../utils/invoiceCustomer';
+import {
+  EXPORT_STATE_CODE,
+  SUPPLY_TYPE_OPTIONS,
+  formatState,
+  getBusinessStateCode,
+  getGSTSummaryRows,
+  getInvoiceGSTRegime,
+  getSupplyType,
+  isExportSupply,
+  isValidGSTIN,
+  requiresCustomerGSTIN,
+} from '../utils/gst';
+import { getBaseCurrency, getInvoiceCurrency } from '../utils/currency';
+
+const DEFAULT_VALIDITY_DAYS = 30;
+
+// Last day an estimate dated `date` can be accepted
+const getValidUntil = (date: string, validityDays: number): string =>
+  calculateDueDate(date, { code: 'custom', days: validityDays }) || date;
+
+function CreateEstimate() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+
+  const { estimate: existingEstimate, loading: estimateLoading } = useEstimate(id);
+  const { estimates, saveEstimate } = useEstimates();
+  const { customers } = useCustomers();
+  const { products } = useProducts();
+  const { business } = useBusiness();
+  const { settings } = useSettings();
+
+  const today = formatDate(new Date(), 'input');
+  const [estimate, setEstimate] = useState<Estimate>({
+    id: generateId(),
+    estimateNumber: '',
+    date: today,
+    validUntil: getValidUntil(today, DEFAULT_VALIDITY_DAYS),
+    customerName: '',
+    customerEmail: '',
+    customerPhone: '',
+    customerAddress: '',
+    items: [createEmptyItem()],
+    taxRate: 0,
+    discount: 0,
+    notes: '',
+    status: 'draft',
+  });
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Initialize form data
+  useEffect(() => {
+    if (isEditing) {
+      if (existingEstimate) {
+        setEstimate({
+          ...existingEstimate,
+          date: formatDate(existingEstimate.date, 'input'),
+        });
+      }
+    } else if (business && settings && estimates) {
+      const nextEstimateNumber = getNextDocumentNumber(
+        settings.estimatePrefix || 'EST',
+        estimates.map(est => est.estimateNumber)
+      );
+
+      setEstimate(prev => ({
+        ...prev,
+        estimateNumber: prev.estimateNumber || nextEstimateNumber,
+        validUntil: getValidUntil(prev.date, settings.estimateValidityDays || DEFAULT_VALIDITY_DAYS),
+        taxRate: prev.taxRate || business.taxRate || settings.taxRate || 0,
+        rounding: resolveRounding(settings.rounding),
+      }));
+    }
+  }, [isEditing, existingEstimate, business, settings, estimates]);
+
+  const gstRegime = getInvoiceGSTRegime(estimate, business);
+  const supplyType = getSupplyType(estimate);
+  const baseCurrency = getBaseCurrency(business);
+  const currency = getInvoiceCurrency(estimate, business);
+
+  const totals = useMemo(() => {
+    return getInvoiceTotals(estimate, gstRegime);
+  }, [estimate.items, estimate.taxRate, estimate.discount, estimate.discountType, estimate.charges, estimate.supplyType, gstRegime, estimate.rounding]);
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void => {
+    const { name, value } = e.target;
+    // A retyped name is no longer the saved customer that was picked; saving links it again if it matches one
+    setEstimate(prev => ({ ...prev, [name]: value, ...(name === 'customerName' && { customerId: undefined }) }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: null }));
+    }
+  };
+
+  const handleDateChange = (e: ChangeEvent<HTMLInputElement>): void => {
+    const date = e.target.value;
+    // Keep the validity window when the estimate date moves
+    setEstimate(prev => ({
+      ...prev,
+      date,
+      validUntil: isEditing ? prev.validUntil : getValidUntil(date, settings.estimateValidityDays || DEFAULT_VALIDITY_DAYS),
+    }));
+  };
+
+  const selectCustomer = (customer: Customer): void => {
+    setEstimate(prev => ({
+      ...prev,
+      customerId: customer.id,
+      customerName: customer.name,
+      customerEmail: customer.email || '',
+      customerPhone: customer.phone || '',
+      customerAddress: customer.address || '',
+      customerStateCode: customer.stateCode,
+      customerGstin: customer.gstin,
+      placeOfSupply: customer.stateCode || prev.placeOfSupply,
+    }));
+  };
+
+  // Place of supply follows the customer's state unless it was picked separately
+  const changeCustomerState = (code: string | undefined): void => {
+    setEstimate(prev => ({
+      ...prev,
+      customerStateCode: code,
+      placeOfSupply: !prev.placeOfSupply || prev.placeOfSupply === prev.customerStateCode ? code : prev.placeOfSupply,
+    }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    if (!estimate.customerName.trim()) {
+      newErrors.customerName = 'Customer name is required';
+    }
+    if (currency !== baseCurrency && !estimate.exchangeRate) {
+      newErrors.exchangeRate = `Exchange rate to ${baseCurrency} is required`;
+    }
+    if (estimate.customerGstin?.trim() && !isValidGSTIN(estimate.customerGstin)) {
+      newErrors.customerGstin = 'Enter a valid 15-character GSTIN';
+    } else if (requiresCustomerGSTIN(supplyType) && !estimate.customerGstin?.trim()) {
+      newErrors.customerGstin = 'Customer GSTIN is required for this supply type';
+    }
+    if (estimate.items.some(item => !item.name.trim())) {
+      newErrors.items = 'All items must have a name';
+    }
+    if (estimate.items.some(item => typeof item.quantity === 'string' || item.quantity <= 0)) {
+      newErrors.items = 'Quantity must be greater than 0';
+    }
+    if (!estimate.validUntil || estimate.validUntil < estimate.date) {
+      newErrors.validUntil = 'Valid until must be on or after the estimate date';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async (status: 'draft' | 'sent' = 'draft') => {
+    if (!validateForm()) return;
+
+    setIsSaving(true);
+    try {
+      await saveEstimate({
+        ...estimate,
+        // Editing an accepted or declined estimate keeps its outcome
+        status: estimate.status === 'draft' || estimate.status === 'sent' || estimate.status === 'expired' ? status : estimate.status,
+        customerId: findInvoiceCustomer(estimate, customers)?.id,
+        date: new Date(estimate.date).toISOString(),
+        currency,
+        exchangeRate: currency === baseCurrency ? undefined : estimate.exchangeRate,
+        customerGstin: estimate.customerGstin?.trim().toUpperCase() || undefined,
+        supplyType,
+        items: estimate.items.map(item => ({
+          ...item,
+          quantity: Number(item.quantity) || 0,
+          price: Number(item.price) || 0,
+        })),
+        charges: (estimate.charges || [])
+          .filter(charge => charge.name.trim() && Number(charge.amount) > 0)
+          .map(charge => ({ ...charge, name: charge.name.trim(), amount: Number(charge.amount) })),
+      });
+      navigate(`/estimates/view/${estimate.id}`);
+    } catch (error) {
+      console.error('Failed to save estimate:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing && estimateLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-teal-400 animate-spin mx-auto mb-4" />
+          <p className="text-midnight-400">Loading estimate...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2.5 -ml-1 rounded-lg hover:bg-midnight-700 active:bg-midnight-600 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5 text-midnight-300" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-xl sm:text-2xl font-display font-bold text-white truncate">
+            {isEditing ? 'Edit Estimate' : 'Create Estimate'}
+          </h1>
+          <p className="text-midnight-400 text-sm">{estimate.estimateNumber || 'Generating number...'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Form */}
+        <div className="lg:col-span-2 space-y-6">
+          <CustomerDetailsForm
+            value={estimate}
+            customers={customers}
+            error={errors.customerName}
+            gstinError={errors.customerGstin}
+            onChange={handleInputChange}
+            onSelect={selectCustomer}
+            onStateChange={changeCustomerState}
+          />
+
+          <LineItemsEditor
+            items={estimate.items}
+            products={products}
+            currency={currency}
+            defaultTaxRate={estimate.taxRate}
+            error={errors.items}
+            onChange={(items) => setEstimate(prev => ({ ...prev, items }))}
+          />
+
+          <ChargesEditor
+            charges={estimate.charges || []}
+            currency={currency}
+            defaultTaxRate={estimate.taxRate}
+            onChange={(charges) => setEstimate(prev => ({ ...prev, charges }))}
+          />
+
+          {/* Notes */}
+          <div className="glass rounded-2xl p-6">
+            <label className="input-label">Notes</label>
+            <textarea
+              name="notes"
+              value={estimate.notes}
+              onChange={handleInputChange}
+              className="input-field min-h-[80px] resize-none"
+              placeholder="Scope, assumptions or terms of this quote..."
+            />
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="glass rounded-2xl p-6 sticky top-4">
+            <h2 className="text-lg font-semibold text-white mb-4">Estimate Details</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="input-label">Estimate Number</label>
+                <input
+                  type="text"
+                  name="estimateNumber"
+                  value={estimate.estimateNumber}
+                  onChange={handleInputChange}
+                  className="input-field font-mono"
+                />
+              </div>
+
+              <div>
+                <label className="input-label">Estimate Date</label>
+                <input
+                  type="date"
+                  name="date"
+                  value={estimate.date}
+                  onChange={handleDateChange}
+                  className="input-field"
+                />
+              </div>
+
+              <div>
+                <label className="input-label">Valid Until</label>
+                <input
+                  type="date"
+                  name="validUntil"
+                  value={estimate.validUntil}
+                  onChange={handleInputChange}
+                  className={`input-field ${errors.validUntil ? 'border-coral-500' : ''}`}
+                />
+                {errors.validUntil && <p className="text-coral-400 text-sm mt-1">{errors.validUntil}</p>}
+              </div>
+
+              <div>
+                <label className="input-label">Supply Type</label>
+                <select
+                  value={supplyType}
+                  onChange={(e) => setEstimate(prev => ({ ...prev, supplyType: e.target.value as SupplyType }))}
+                  className="input-field"
+                >
+                  {SUPPLY_TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {isExportSupply(supplyType) ? (
+                <p className="text-midnight-400 text-sm -mt-2">
+                  Place of supply <span className="text-white">{formatState(EXPORT_STATE_CODE)}</span>
+                </p>
+              ) : (
+                <StateSelect
+                  label="Place of Supply"
+                  value={estimate.placeOfSupply}
+                  onChange={(code) => setEstimate(prev => ({ ...prev, placeOfSupply: code }))}
+                  emptyLabel={formatState(getBusinessStateCode(business)) || 'Same as business'}
+                />
+              )}
+
+              <CurrencySelect
+                currency={currency}
+                exchangeRate={estimate.exchangeRate}
+                baseCurrency={baseCurrency}
+                rates={settings.exchangeRates}
+                error={errors.exchangeRate}
+                onChange={(code, exchangeRate) => setEstimate(prev => ({ ...prev, currency: code, exchangeRate }))}
+              />
+
+              <DiscountInput
+                value={estimate.discount}
+                type={estimate.discountType}
+                currency={currency}
+                onChange={(discount, discountType) => setEstimate(prev => ({ ...prev, discount, discountType }))}
+              />
+            </div>
+
+            {/* Totals */}
+            <div className="mt-6 pt-6 border-t border-midnight-600 space-y-3">
+              <div className="flex justify-between text-midnight-300">
+                <span>Subtotal</span>
+                <span className="font-mono">{formatCurrency(totals.subtotal, currency)}</span>
+              </div>
+              {totals.discountAmount > 0 && (
+                <div className="flex justify-between text-midnight-300">
+                  <span>Discount{estimate.discountType !== 'amount' && ` (${estimate.discount}%)`}</span>
+                  <span className="font-mono text-coral-400">-{formatCurrency(totals.discountAmount, currency)}</span>
+                </div>
+              )}
+              {getChargesAt(totals, 'before_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
+              {getGSTSummaryRows(totals).map((row) => (
+                <div key={`${row.label}-${row.rate}`} className="flex justify-between text-midnight-300">
+                  <span>{row.label} ({row.rate.toFixed(1)}%)</span>
+                  <span className="font-mono">{formatCurrency(row.amount, currency)}</span>
+                </div>
+              ))}
+              {getChargesAt(totals, 'after_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-xl font-bold pt-3 border-t border-midnight-600">
+                <span className="text-white">Total</span>
+                <span className="font-mono text-teal-400">{formatCurrency(totals.total, currency)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Sticky Bottom Action Bar */}
+      <div className="sticky bottom-0 z-10 mt-6 -mx-6 px-6 py-4 bg-midnight-900/95 backdrop-blur-lg border-t border-midnight-700">
+        <div className="flex items-center gap-3 max-w-7xl mx-auto">
+          <button
+            onClick={() => handleSave('draft')}
+            disabled={isSaving}
+            className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none sm:min-w-[140px]"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>Save Draft</span>
+          </button>
+          <button
+            onClick={() => handleSave('sent')}
+            disabled={isSaving}
+            className="btn-primary flex items-center justify-center gap-2 flex-1 sm:flex-none sm:min-w-[160px]"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+            <span>Save & Preview</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CreateEstimate;
@@ -1,23 +1,53 @@
 import { useState, useEffect, useMemo, type ChangeEvent } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
-  Plus,
-  Trash2,
   Save,
   Eye,
   ArrowLeft,
-  User,
   Loader2,
-  Receipt,
+  AlertTriangle,
 } from 'lucide-react';
-import { generateId, formatCurrency, formatDate, calculateInvoiceTotals } from '../utils/helpers';
-import type { Invoice, InvoiceItem, Customer, Product, FormErrors } from '../types';
-import { useInvoices, useInvoice, useCustomers, useProducts, useBusiness, useSettings } from '../hooks/useData';
+import { generateId, formatCurrency, formatDate, getInvoiceTotals, getChargesAt } from '../utils/helpers';
+import type { Invoice, Customer, FormErrors, SupplyType } from '../types';
+import { useInvoices, useInvoice, useEstimate, useCustomers, useProducts, useBusiness, useSettings, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import { ConflictError } from '../lib/database';
+import ConflictDialog from '../components/ConflictDialog';
+import PaymentTermsSelect from '../components/PaymentTermsSelect';
+import CustomerDetailsForm from '../components/CustomerDetailsForm';
+import StateSelect from '../components/StateSelect';
+import DiscountInput from '../components/DiscountInput';
+import CurrencySelect from '../components/CurrencySelect';
+import ChargesEditor from '../components/ChargesEditor';
+import TransportDetailsEditor from '../components/TransportDetailsEditor';
+import LineItemsEditor, { createEmptyItem } from '../components/LineItemsEditor';
+import { getNextDocumentNumber } from '../utils/numbering';
+import { calculateDueDate, DEFAULT_PAYMENT_TERMS } from '../utils/paymentTerms';
+import { getStatusFromPayments } from '../utils/payments';
+import { estimateToInvoiceFields } from '../utils/estimates';
+import { findInvoiceCustomer } from '../utils/invoiceCustomer';
+import { normalizeTransport, validateTransport } from '../utils/ewayBill';
+import {
+  EXPORT_STATE_CODE,
+  SUPPLY_TYPE_OPTIONS,
+  formatState,
+  getBusinessStateCode,
+  getGSTSummaryRows,
+  getInvoiceGSTRegime,
+  getSupplyType,
+  isExportSupply,
+  isSupplyWithoutTax,
+  isValidGSTIN,
+  requiresCustomerGSTIN,
+} from '../utils/gst';
+import { resolveRounding } from '../utils/money';
+import { getBaseCurrency, getInvoiceCurrency } from '../utils/currency';
 
 function CreateInvoice() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  const fromEstimateId = isEditing ? undefined : searchParams.get('fromEstimate') || undefined;
 
   const { invoice: existingInvoice, loading: invoiceLoading } = useInvoice(id);
   const { invoices } = useInvoices(); // For next number calculation
@@ -26,6 +56,9 @@ function CreateInvoice() {
   const { business } = useBusiness();
   const { settings } = useSettings();
   const { saveInvoice } = useInvoices();
+  const { estimate: sourceEstimate, saveEstimate } = useEstimate(fromEstimateId);
+  const { payments: invoicePayments } = usePayments(id);
+  const { notes: invoiceNotes } = useCreditDebitNotes(id);
 
   const [invoice, setInvoice] = useState<Invoice>({
     id: generateId(),
@@ -35,7 +68,7 @@ function CreateInvoice() {
     customerEmail: '',
     customerPhone: '',
     customerAddress: '',
-    items: [{ id: generateId(), name: '', quantity: '', price: '', unit: '', discount: '', taxRate: '' }],
+    items: [createEmptyItem()],
     taxRate: 0,
     discount: 0,
     notes: '',
@@ -43,17 +76,18 @@ function CreateInvoice() {
     user_id: '', // Will be set by Supabase
   });
 
-  const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
-  const [showProductDropdown, setShowProductDropdown] = useState<string | null>(null);
-  const [customerSearch, setCustomerSearch] = useState('');
-  const [productSearch, setProductSearch] = useState('');
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSaving, setIsSaving] = useState(false);
+  // The version being edited as it was loaded, to tell my changes from theirs when saving conflicts.
+  // The form is filled once per invoice; later realtime updates are their side of the merge.
+  const [baseInvoice, setBaseInvoice] = useState<Invoice | null>(null);
+  const [conflict, setConflict] = useState<{ base: Invoice | null; mine: Invoice; theirs: Invoice } | null>(null);
 
   // Initialize form data
   useEffect(() => {
     if (isEditing) {
-      if (existingInvoice) {
+      if (existingInvoice && existingInvoice.id !== baseInvoice?.id) {
+        setBaseInvoice(existingInvoice);
         setInvoice({
           ...existingInvoice,
           date: formatDate(existingInvoice.date, 'input'),
@@ -63,106 +97,78 @@ function CreateInvoice() {
       // Create mode: Set defaults once dependencies are loaded
       if (business && settings && invoices) {
         // Calculate next invoice number
-        const prefix = settings.invoicePrefix || 'INV';
-        const currentYear = new Date().getFullYear();
-        const yearPrefix = `${prefix}-${currentYear}-`;
-
-        // Simple auto-increment logic based on existing invoices
-        // This might not be perfect in concurrent environments but works for single user
-        const existingNumbers = invoices
-          .map(inv => inv.invoiceNumber)
-          .filter(num => num.startsWith(yearPrefix))
-          .map(num => parseInt(num.split('-').pop() || '0'))
-          .filter(n => !isNaN(n));
-
-        const maxNum = existingNumbers.length > 0 ? Math.max(...existingNumbers) : 0;
-        const nextNum = (maxNum + 1).toString().padStart(4, '0');
-        const nextInvoiceNumber = `${yearPrefix}${nextNum}`;
+        const nextInvoiceNumber = getNextDocumentNumber(
+          settings.invoicePrefix || 'INV',
+          invoices.map(inv => inv.invoiceNumber)
+        );
 
         setInvoice(prev => ({
           ...prev,
           invoiceNumber: prev.invoiceNumber || nextInvoiceNumber,
           taxRate: prev.taxRate || business.taxRate || settings.taxRate || 0,
+          paymentTerms: prev.paymentTerms || settings.defaultPaymentTerms || DEFAULT_PAYMENT_TERMS,
+          rounding: resolveRounding(settings.rounding),
         }));
       }
     }
-  }, [isEditing, existingInvoice, business, settings, invoices]);
+  }, [isEditing, existingInvoice, baseInvoice, business, settings, invoices]);
+
+  // Saved on another device since the form was loaded
+  const remoteInvoice = isEditing && existingInvoice && baseInvoice && existingInvoice.updatedAt !== baseInvoice.updatedAt
+    ? existingInvoice
+    : null;
+
+  // Converting an estimate: copy its customer, items and terms once it loads
+  useEffect(() => {
+    if (!sourceEstimate) return;
+    setInvoice(prev => ({ ...prev, ...estimateToInvoiceFields(sourceEstimate) }));
+  }, [sourceEstimate]);
+
+  const gstRegime = getInvoiceGSTRegime(invoice, business);
+  const supplyType = getSupplyType(invoice);
+  const baseCurrency = getBaseCurrency(business);
+  const currency = getInvoiceCurrency(invoice, business);
 
   const totals = useMemo(() => {
-    return calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
-  }, [invoice.items, invoice.taxRate, invoice.discount]);
-
-  const filteredCustomers = useMemo((): Customer[] => {
-    if (!customerSearch) return customers.slice(0, 5);
-    return customers.filter(c =>
-      c.name.toLowerCase().includes(customerSearch.toLowerCase()) ||
-      c.phone?.includes(customerSearch)
-    ).slice(0, 5);
-  }, [customers, customerSearch]);
-
-  const filteredProducts = useMemo((): Product[] => {
-    if (!productSearch) return products.slice(0, 5);
-    return products.filter(p =>
-      p.name.toLowerCase().includes(productSearch.toLowerCase())
-    ).slice(0, 5);
-  }, [products, productSearch]);
+    return getInvoiceTotals(invoice, gstRegime);
+  }, [invoice.items, invoice.taxRate, invoice.discount, invoice.discountType, invoice.charges, invoice.supplyType, gstRegime, invoice.rounding]);
+
+  const dueDate = useMemo(
+    () => calculateDueDate(invoice.date, invoice.paymentTerms),
+    [invoice.date, invoice.paymentTerms]
+  );
 
   const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void => {
     const { name, value } = e.target;
-    setInvoice(prev => ({ ...prev, [name]: value }));
+    // A retyped name is no longer the saved customer that was picked; saving links it again if it matches one
+    setInvoice(prev => ({ ...prev, [name]: value, ...(name === 'customerName' && { customerId: undefined }) }));
     if (errors[name]) {
       setErrors(prev => ({ ...prev, [name]: null }));
     }
   };
 
-  const handleItemChange = (itemId: string, field: keyof InvoiceItem, value: string | number): void => {
-    setInvoice(prev => ({
-      ...prev,
-      items: prev.items.map(item =>
-        item.id === itemId ? { ...item, [field]: value } : item
-      ),
-    }));
-  };
-
-  const addItem = (): void => {
-    setInvoice(prev => ({
-      ...prev,
-      items: [...prev.items, { id: generateId(), name: '', quantity: '', price: '', unit: '', discount: '', taxRate: '' }],
-    }));
-  };
-
-  const removeItem = (itemId: string): void => {
-    if (invoice.items.length > 1) {
-      setInvoice(prev => ({
-        ...prev,
-        items: prev.items.filter(item => item.id !== itemId),
-      }));
-    }
-  };
-
   const selectCustomer = (customer: Customer): void => {
     setInvoice(prev => ({
       ...prev,
+      customerId: customer.id,
       customerName: customer.name,
       customerEmail: customer.email || '',
       customerPhone: customer.phone || '',
       customerAddress: customer.address || '',
+      customerStateCode: customer.stateCode,
+      customerGstin: customer.gstin,
+      placeOfSupply: customer.stateCode || prev.placeOfSupply,
+      paymentTerms: customer.paymentTerms || settings.defaultPaymentTerms || prev.paymentTerms,
     }));
-    setShowCustomerDropdown(false);
-    setCustomerSearch('');
   };
 
-  const selectProduct = (product: Product, itemId: string): void => {
+  // Place of supply follows the customer's state unless it was picked separately
+  const changeCustomerState = (code: string | undefined): void => {
     setInvoice(prev => ({
       ...prev,
-      items: prev.items.map(item =>
-        item.id === itemId
-          ? { ...item, name: product.name, price: product.price, unit: product.unit || 'PCS', taxRate: product.taxRate || '' }
-          : item
-      ),
+      customerStateCode: code,
+      placeOfSupply: !prev.placeOfSupply || prev.placeOfSupply === prev.customerStateCode ? code : prev.placeOfSupply,
     }));
-    setShowProductDropdown(null);
-    setProductSearch('');
   };
 
   const validateForm = (): boolean => {
@@ -176,28 +182,72 @@ function CreateInvoice() {
     if (invoice.items.some(item => typeof item.quantity === 'string' || item.quantity <= 0)) {
       newErrors.items = 'Quantity must be greater than 0';
     }
+    if (currency !== baseCurrency && !invoice.exchangeRate) {
+      newErrors.exchangeRate = `Exchange rate to ${baseCurrency} is required`;
+    }
+    if (invoice.customerGstin?.trim() && !isValidGSTIN(invoice.customerGstin)) {
+      newErrors.customerGstin = 'Enter a valid 15-character GSTIN';
+    } else if (requiresCustomerGSTIN(supplyType) && !invoice.customerGstin?.trim()) {
+      newErrors.customerGstin = 'Customer GSTIN is required for this supply type';
+    }
+    if (isSupplyWithoutTax(supplyType) && !business.lutNumber) {
+      newErrors.supplyType = 'Add your LUT number in Settings to supply without tax';
+    }
+    const transportErrors = invoice.transport ? validateTransport(normalizeTransport(invoice.transport)) : [];
+    if (transportErrors.length > 0) {
+      newErrors.transport = transportErrors[0];
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // A draft takes the status of the button pressed. An issued invoice keeps its status, brought in
+  // line with the payments and notes recorded against it, so editing never loses paid or overdue.
   const handleSave = async (status: 'draft' | 'pending' = 'draft') => {
     if (!validateForm()) return;
 
     setIsSaving(true);
-    try {
-      const invoiceToSave: Invoice = {
-        ...invoice,
-        status,
-        date: new Date(invoice.date).toISOString(),
-        items: invoice.items.map(item => ({
-          ...item,
-          quantity: Number(item.quantity) || 0,
-          price: Number(item.price) || 0,
-        })),
-      };
+    const invoiceToSave: Invoice = {
+      ...invoice,
+      status: invoice.status === 'draft' ? status : invoice.status,
+      customerId: findInvoiceCustomer(invoice, customers)?.id,
+      date: new Date(invoice.date).toISOString(),
+      dueDate,
+      currency,
+      exchangeRate: currency === baseCurrency ? undefined : invoice.exchangeRate,
+      customerGstin: invoice.customerGstin?.trim().toUpperCase() || undefined,
+      supplyType,
+      portCode: isExportSupply(supplyType) ? invoice.portCode?.trim().toUpperCase() || undefined : undefined,
+      shippingBillNumber: isExportSupply(supplyType) ? invoice.shippingBillNumber?.trim() || undefined : undefined,
+      shippingBillDate: isExportSupply(supplyType) ? invoice.shippingBillDate || undefined : undefined,
+      transport: normalizeTransport(invoice.transport),
+      items: invoice.items.map(item => ({
+        ...item,
+        quantity: Number(item.quantity) || 0,
+        price: Number(item.price) || 0,
+      })),
+      charges: (invoice.charges || [])
+        .filter(charge => charge.name.trim() && Number(charge.amount) > 0)
+        .map(charge => ({ ...charge, name: charge.name.trim(), amount: Number(charge.amount) })),
+    };
+    if (isEditing && invoiceToSave.status !== 'draft') {
+      invoiceToSave.status = getStatusFromPayments(invoiceToSave, invoicePayments, invoiceNotes);
+    }
 
+    // Merge with their version straight away instead of sending a save that is bound to conflict
+    if (remoteInvoice) {
+      setConflict({ base: baseInvoice, mine: invoiceToSave, theirs: remoteInvoice });
+      setIsSaving(false);
+      return;
+    }
+
+    try {
       await saveInvoice(invoiceToSave);
 
+      if (sourceEstimate && !sourceEstimate.convertedInvoiceId) {
+        await saveEstimate({ ...sourceEstimate, status: 'accepted', convertedInvoiceId: invoiceToSave.id });
+      }
+
       // Note: Customer saving is implicitly handled if you want to reuse them, 
       // but here we are just saving the invoice. 
       // If we want to auto-save new customers to the 'customers' table, 
@@ -208,12 +258,42 @@ function CreateInvoice() {
 
       navigate(`/invoices/view/${invoice.id}`);
     } catch (error) {
-      console.error('Failed to save invoice:', error);
+      if (error instanceof ConflictError) {
+        setConflict({ base: baseInvoice, mine: invoiceToSave, theirs: error.remote });
+      } else {
+        console.error('Failed to save invoice:', error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolveConflict = async (merged: Invoice) => {
+    if (!conflict) return;
+    setIsSaving(true);
+    try {
+      await saveInvoice(merged);
+      setConflict(null);
+      navigate(`/invoices/view/${merged.id}`);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // Changed again while merging; compare against the newest version
+        setConflict({ base: conflict.theirs, mine: merged, theirs: error.remote });
+      } else {
+        console.error('Failed to save merged invoice:', error);
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleDiscardChanges = (): void => {
+    if (!conflict) return;
+    setBaseInvoice(conflict.theirs);
+    setInvoice({ ...conflict.theirs, date: formatDate(conflict.theirs.date, 'input') });
+    setConflict(null);
+  };
+
   if (isEditing && invoiceLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -243,301 +323,51 @@ function CreateInvoice() {
         </div>
       </div>
 
+      {remoteInvoice && (
+        <div className="flex items-start gap-3 rounded-xl border border-gold-500/30 bg-gold-500/10 p-4">
+          <AlertTriangle className="w-5 h-5 text-gold-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-white">
+            This invoice was changed on another device. Your edits are kept; when you save you can choose which changes to keep.
+          </p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Form */}
         <div className="lg:col-span-2 space-y-6">
           {/* Customer Details */}
-          <div className="glass rounded-2xl p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <User className="w-5 h-5 text-teal-400" />
-              <h2 className="text-lg font-semibold text-white">Customer Details</h2>
-            </div>
-
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <div className="relative sm:col-span-2">
-                <label className="input-label">Customer Name *</label>
-                <div className="relative">
-                  <input
-                    type="text"
-                    name="customerName"
-                    value={invoice.customerName}
-                    onChange={(e) => {
-                      handleInputChange(e);
-                      setCustomerSearch(e.target.value);
-                      setShowCustomerDropdown(true);
-                    }}
-                    onFocus={() => setShowCustomerDropdown(true)}
-                    className={`input-field ${errors.customerName ? 'border-coral-500' : ''}`}
-                    placeholder="Enter customer name"
-                  />
-                  {showCustomerDropdown && filteredCustomers.length > 0 && (
-                    <>
-                      <div
-                        className="fixed inset-0 z-10"
-                        onClick={() => setShowCustomerDropdown(false)}
-                      />
-                      <div className="absolute z-20 w-full mt-1 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden">
-                        {filteredCustomers.map((customer) => (
-                          <button
-                            key={customer.id}
-                            type="button"
-                            onClick={() => selectCustomer(customer)}
-                            className="w-full px-4 py-3 text-left hover:bg-midnight-700 transition-colors"
-                          >
-                            <p className="text-white font-medium">{customer.name}</p>
-                            {customer.phone && (
-                              <p className="text-midnight-400 text-sm">{customer.phone}</p>
-                            )}
-                          </button>
-                        ))}
-                      </div>
-                    </>
-                  )}
-                </div>
-                {errors.customerName && (
-                  <p className="text-coral-400 text-sm mt-1">{errors.customerName}</p>
-                )}
-              </div>
-
-              <div>
-                <label className="input-label">Phone</label>
-                <input
-                  type="tel"
-                  name="customerPhone"
-                  value={invoice.customerPhone}
-                  onChange={handleInputChange}
-                  className="input-field"
-                  placeholder="Phone number"
-                />
-              </div>
-
-              <div>
-                <label className="input-label">Email</label>
-                <input
-                  type="email"
-                  name="customerEmail"
-                  value={invoice.customerEmail}
-                  onChange={handleInputChange}
-                  className="input-field"
-                  placeholder="Email address"
-                />
-              </div>
-
-              <div className="sm:col-span-2">
-                <label className="input-label">Address</label>
-                <textarea
-                  name="customerAddress"
-                  value={invoice.customerAddress}
-                  onChange={handleInputChange}
-                  className="input-field min-h-[60px] resize-none"
-                  placeholder="Customer address"
-                />
-              </div>
-            </div>
-          </div>
+          <CustomerDetailsForm
+            value={invoice}
+            customers={customers}
+            error={errors.customerName}
+            gstinError={errors.customerGstin}
+            onChange={handleInputChange}
+            onSelect={selectCustomer}
+            onStateChange={changeCustomerState}
+          />
 
           {/* Invoice Items - Enhanced Visibility */}
-          <div className="glass rounded-2xl p-6 ring-2 ring-teal-500/20">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center gap-2">
-                <div className="w-8 h-8 rounded-lg bg-teal-500/20 flex items-center justify-center">
-                  <Receipt className="w-4 h-4 text-teal-400" />
-                </div>
-                <h2 className="text-lg font-semibold text-white">Items</h2>
-              </div>
-              <button
-                type="button"
-                onClick={addItem}
-                className="btn-secondary flex items-center gap-2 text-sm"
-              >
-                <Plus className="w-4 h-4" />
-                Add Item
-              </button>
-            </div>
-
-            {errors.items && (
-              <p className="text-coral-400 text-sm mb-4">{errors.items}</p>
-            )}
-
-            {/* Table Header */}
-            <div className="hidden sm:grid sm:grid-cols-[auto_1fr_80px_60px_100px_80px_80px_100px_auto] gap-2 pb-2 border-b border-midnight-600 mb-2">
-              <div className="text-midnight-400 text-xs font-medium">#</div>
-              <div className="text-midnight-400 text-xs font-medium">Item Name</div>
-              <div className="text-midnight-400 text-xs font-medium text-center">Qty</div>
-              <div className="text-midnight-400 text-xs font-medium text-center">Unit</div>
-              <div className="text-midnight-400 text-xs font-medium text-right">Price</div>
-              <div className="text-midnight-400 text-xs font-medium text-center">Disc %</div>
-              <div className="text-midnight-400 text-xs font-medium text-center">Tax %</div>
-              <div className="text-midnight-400 text-xs font-medium text-right">Amount</div>
-              <div className="text-midnight-400 text-xs font-medium"></div>
-            </div>
-
-            {/* Table Rows */}
-            <div className="space-y-2">
-              {invoice.items.map((item, index) => (
-                <div
-                  key={item.id}
-                  className="grid grid-cols-1 sm:grid-cols-[auto_1fr_80px_60px_100px_80px_80px_100px_auto] gap-2 py-2 border-b border-midnight-700/50 items-center"
-                >
-                  {/* Row Number */}
-                  <div className="hidden sm:flex text-midnight-400 text-sm items-center">
-                    {index + 1}
-                  </div>
-
-                  {/* Item Name */}
-                  <div className="relative">
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Item Name</label>
-                    <input
-                      type="text"
-                      value={item.name}
-                      onChange={(e) => {
-                        handleItemChange(item.id, 'name', e.target.value);
-                        setProductSearch(e.target.value);
-                        setShowProductDropdown(item.id);
-                      }}
-                      onFocus={() => setShowProductDropdown(item.id)}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all"
-                      placeholder="Enter item name"
-                    />
-                    {showProductDropdown === item.id && filteredProducts.length > 0 && (
-                      <>
-                        <div
-                          className="fixed inset-0 z-10"
-                          onClick={() => setShowProductDropdown(null)}
-                        />
-                        <div className="absolute z-20 w-full mt-1 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden">
-                          {filteredProducts.map((product) => (
-                            <button
-                              key={product.id}
-                              type="button"
-                              onClick={() => selectProduct(product, item.id)}
-                              className="w-full px-4 py-2 text-left hover:bg-midnight-700 transition-colors flex justify-between items-center"
-                            >
-                              <span className="text-white text-sm">{product.name}</span>
-                              <span className="text-teal-400 font-mono text-sm">
-                                {formatCurrency(product.price, business.currency)}
-                              </span>
-                            </button>
-                          ))}
-                        </div>
-                      </>
-                    )}
-                  </div>
-
-                  {/* Quantity */}
-                  <div>
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Qty</label>
-                    <input
-                      type="number"
-                      min="1"
-                      value={item.quantity}
-                      onChange={(e) => handleItemChange(item.id, 'quantity', parseInt(e.target.value) || '')}
-                      onKeyDown={(e) => {
-                        // Prevent non-numeric characters (except backspace, delete, arrow keys, tab)
-                        if (!/[0-9]/.test(e.key) && !['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight', 'Tab'].includes(e.key)) {
-                          e.preventDefault();
-                        }
-                      }}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                    />
-                  </div>
-
-                  {/* Unit */}
-                  <div>
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Unit</label>
-                    <input
-                      type="text"
-                      value={item.unit || ''}
-                      onChange={(e) => handleItemChange(item.id, 'unit', e.target.value)}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all"
-                      placeholder=""
-                    />
-                  </div>
-
-                  {/* Price */}
-                  <div>
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Price</label>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      value={item.price}
-                      onChange={(e) => handleItemChange(item.id, 'price', parseFloat(e.target.value) || '')}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-right focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                      placeholder="0.00"
-                    />
-                  </div>
-
-                  {/* Discount */}
-                  <div>
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Disc %</label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="100"
-                      step="0.01"
-                      value={item.discount || ''}
-                      onChange={(e) => handleItemChange(item.id, 'discount', parseFloat(e.target.value) || '')}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                      placeholder="0"
-                    />
-                  </div>
-
-                  {/* Tax Rate */}
-                  <div>
-                    <label className="sm:hidden text-midnight-400 text-xs mb-1 block">Tax %</label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="100"
-                      step="0.01"
-                      value={item.taxRate || ''}
-                      onChange={(e) => handleItemChange(item.id, 'taxRate', parseFloat(e.target.value) || '')}
-                      className="w-full bg-midnight-800/50 border border-midnight-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:border-teal-500 focus:ring-1 focus:ring-teal-500/20 transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                      placeholder="0"
-                    />
-                  </div>
-
-                  {/* Amount & Delete */}
-                  <div className="flex items-center justify-between sm:justify-end gap-2">
-                    <div className="sm:hidden text-midnight-400 text-xs">Amount:</div>
-                    <span className="text-white font-mono text-sm font-semibold truncate">
-                      {(() => {
-                        const qty = Number(item.quantity) || 0;
-                        const price = Number(item.price) || 0;
-                        const discount = Number(item.discount) || 0;
-                        const taxRate = Number(item.taxRate) || 0;
-                        const subtotal = qty * price;
-                        const discountAmt = (subtotal * discount) / 100;
-                        const taxable = subtotal - discountAmt;
-                        const taxAmt = (taxable * taxRate) / 100;
-                        return formatCurrency(taxable + taxAmt, business.currency);
-                      })()}
-                    </span>
-                    {invoice.items.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => removeItem(item.id)}
-                        className="p-1.5 text-coral-400 hover:bg-coral-500/20 rounded-lg transition-colors ml-2"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    )}
-                  </div>
-                </div>
-              ))}
-            </div>
-
-            {/* Add Item Button */}
-            <button
-              type="button"
-              onClick={addItem}
-              className="mt-4 w-full py-2.5 border-2 border-dashed border-midnight-600 rounded-xl text-midnight-400 hover:text-teal-400 hover:border-teal-500/50 transition-colors flex items-center justify-center gap-2 text-sm"
-            >
-              <Plus className="w-4 h-4" />
-              Add Item
-            </button>
-          </div>
+          <LineItemsEditor
+            items={invoice.items}
+            products={products}
+            currency={currency}
+            defaultTaxRate={invoice.taxRate}
+            error={errors.items}
+            onChange={(items) => setInvoice(prev => ({ ...prev, items }))}
+          />
+
+          <ChargesEditor
+            charges={invoice.charges || []}
+            currency={currency}
+            defaultTaxRate={invoice.taxRate}
+            onChange={(charges) => setInvoice(prev => ({ ...prev, charges }))}
+          />
+
+          <TransportDetailsEditor
+            value={invoice.transport}
+            error={errors.transport}
+            onChange={(transport) => setInvoice(prev => ({ ...prev, transport }))}
+          />
 
           {/* Notes */}
           <div className="glass rounded-2xl p-6">
@@ -580,41 +410,130 @@ function CreateInvoice() {
                 />
               </div>
 
+              <PaymentTermsSelect
+                value={invoice.paymentTerms}
+                onChange={(terms) => setInvoice(prev => ({ ...prev, paymentTerms: terms || undefined }))}
+                emptyLabel="No due date"
+              />
+
+              {dueDate && (
+                <p className="text-midnight-400 text-sm -mt-2">
+                  Due on <span className="text-white">{formatDate(dueDate)}</span>
+                </p>
+              )}
+
               <div>
-                <label className="input-label">Discount (%)</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  name="discount"
-                  value={invoice.discount}
-                  onChange={handleInputChange}
-                  className="input-field"
-                />
+                <label className="input-label">Supply Type</label>
+                <select
+                  value={supplyType}
+                  onChange={(e) => setInvoice(prev => ({ ...prev, supplyType: e.target.value as SupplyType }))}
+                  className={`input-field ${errors.supplyType ? 'border-coral-500' : ''}`}
+                >
+                  {SUPPLY_TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {errors.supplyType && <p className="text-coral-400 text-sm mt-1">{errors.supplyType}</p>}
               </div>
+
+              {isExportSupply(supplyType) ? (
+                <>
+                  <p className="text-midnight-400 text-sm -mt-2">
+                    Place of supply <span className="text-white">{formatState(EXPORT_STATE_CODE)}</span>
+                  </p>
+                  <div>
+                    <label className="input-label">Port Code</label>
+                    <input
+                      type="text"
+                      name="portCode"
+                      value={invoice.portCode || ''}
+                      onChange={handleInputChange}
+                      className="input-field font-mono uppercase"
+                      placeholder="e.g., INNSA1"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="input-label">Shipping Bill No.</label>
+                      <input
+                        type="text"
+                        name="shippingBillNumber"
+                        value={invoice.shippingBillNumber || ''}
+                        onChange={handleInputChange}
+                        className="input-field font-mono"
+                      />
+                    </div>
+                    <div>
+                      <label className="input-label">Shipping Bill Date</label>
+                      <input
+                        type="date"
+                        name="shippingBillDate"
+                        value={invoice.shippingBillDate || ''}
+                        onChange={handleInputChange}
+                        className="input-field"
+                      />
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <StateSelect
+                  label="Place of Supply"
+                  value={invoice.placeOfSupply}
+                  onChange={(code) => setInvoice(prev => ({ ...prev, placeOfSupply: code }))}
+                  emptyLabel={formatState(getBusinessStateCode(business)) || 'Same as business'}
+                />
+              )}
+
+              <CurrencySelect
+                currency={currency}
+                exchangeRate={invoice.exchangeRate}
+                baseCurrency={baseCurrency}
+                rates={settings.exchangeRates}
+                error={errors.exchangeRate}
+                onChange={(code, exchangeRate) => setInvoice(prev => ({ ...prev, currency: code, exchangeRate }))}
+              />
+
+              <DiscountInput
+                value={invoice.discount}
+                type={invoice.discountType}
+                currency={currency}
+                onChange={(discount, discountType) => setInvoice(prev => ({ ...prev, discount, discountType }))}
+              />
             </div>
 
             {/* Totals */}
             <div className="mt-6 pt-6 border-t border-midnight-600 space-y-3">
               <div className="flex justify-between text-midnight-300">
                 <span>Subtotal</span>
-                <span className="font-mono">{formatCurrency(totals.subtotal, business.currency)}</span>
+                <span className="font-mono">{formatCurrency(totals.subtotal, currency)}</span>
               </div>
-              {invoice.discount > 0 && (
+              {totals.discountAmount > 0 && (
                 <div className="flex justify-between text-midnight-300">
-                  <span>Discount ({invoice.discount}%)</span>
-                  <span className="font-mono text-coral-400">-{formatCurrency(totals.discountAmount, business.currency)}</span>
+                  <span>Discount{invoice.discountType !== 'amount' && ` (${invoice.discount}%)`}</span>
+                  <span className="font-mono text-coral-400">-{formatCurrency(totals.discountAmount, currency)}</span>
                 </div>
               )}
-              {invoice.taxRate > 0 && (
-                <div className="flex justify-between text-midnight-300">
-                  <span>{settings.taxLabel || 'Tax'} ({invoice.taxRate}%)</span>
-                  <span className="font-mono">{formatCurrency(totals.taxAmount, business.currency)}</span>
+              {getChargesAt(totals, 'before_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
                 </div>
-              )}
+              ))}
+              {getGSTSummaryRows(totals).map((row) => (
+                <div key={`${row.label}-${row.rate}`} className="flex justify-between text-midnight-300">
+                  <span>{row.label} ({row.rate.toFixed(1)}%)</span>
+                  <span className="font-mono">{formatCurrency(row.amount, currency)}</span>
+                </div>
+              ))}
+              {getChargesAt(totals, 'after_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
               <div className="flex justify-between text-xl font-bold pt-3 border-t border-midnight-600">
                 <span className="text-white">Total</span>
-                <span className="font-mono text-teal-400">{formatCurrency(totals.total, business.currency)}</span>
+                <span className="font-mono text-teal-400">{formatCurrency(totals.total, currency)}</span>
               </div>
             </div>
           </div>
@@ -624,14 +543,16 @@ function CreateInvoice() {
       {/* Sticky Bottom Action Bar */}
       <div className="sticky bottom-0 z-10 mt-6 -mx-6 px-6 py-4 bg-midnight-900/95 backdrop-blur-lg border-t border-midnight-700">
         <div className="flex items-center gap-3 max-w-7xl mx-auto">
-          <button
-            onClick={() => handleSave('draft')}
-            disabled={isSaving}
-            className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none sm:min-w-[140px]"
-          >
-            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-            <span>Save Draft</span>
-          </button>
+          {invoice.status === 'draft' && (
+            <button
+              onClick={() => handleSave('draft')}
+              disabled={isSaving}
+              className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none sm:min-w-[140px]"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              <span>Save Draft</span>
+            </button>
+          )}
           <button
             onClick={() => handleSave('pending')}
             disabled={isSaving}
@@ -643,6 +564,19 @@ function CreateInvoice() {
         </div>
       </div>
 
+      {/* Conflict Resolution */}
+      {conflict && (
+        <ConflictDialog
+          base={conflict.base}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          currency={currency}
+          isSaving={isSaving}
+          onResolve={handleResolveConflict}
+          onDiscard={handleDiscardChanges}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,498 @@
+import { useState, useEffect, useMemo, type ChangeEvent } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Save, ArrowLeft, Loader2 } from 'lucide-react';
+import { generateId, formatCurrency, formatDate, getInvoiceTotals, getChargesAt } from '../utils/helpers';
+import type { RecurringProfile, RecurringFrequency, Customer, FormErrors, SupplyType } from '../types';
+import { useRecurringProfiles, useInvoice, useCustomers, useProducts, useBusiness, useSettings } from '../hooks/useData';
+import CustomerDetailsForm from '../components/CustomerDetailsForm';
+import LineItemsEditor, { createEmptyItem } from '../components/LineItemsEditor';
+import PaymentTermsSelect from '../components/PaymentTermsSelect';
+import DiscountInput from '../components/DiscountInput';
+import ChargesEditor from '../components/ChargesEditor';
+import CurrencySelect from '../components/CurrencySelect';
+import { getToday } from '../utils/paymentTerms';
+import { RECURRING_FREQUENCY_OPTIONS, getRunDateAfter, getUpcomingRuns } from '../utils/recurring';
+import { resolveRounding } from '../utils/money';
+import { findInvoiceCustomer } from '../utils/invoiceCustomer';
+import { getBaseCurrency, getInvoiceCurrency } from '../utils/currency';
+import { SUPPLY_TYPE_OPTIONS, getSupplyType, isSupplyWithoutTax, isValidGSTIN, requiresCustomerGSTIN } from '../utils/gst';
+
+function CreateRecurringProfile() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  const fromInvoiceId = isEditing ? undefined : searchParams.get('fromInvoice') || undefined;
+
+  const { profiles, loading: profilesLoading, saveProfile } = useRecurringProfiles();
+  const { invoice: sourceInvoice } = useInvoice(fromInvoiceId);
+  const { customers } = useCustomers();
+  const { products } = useProducts();
+  const { business } = useBusiness();
+  const { settings } = useSettings();
+
+  const existingProfile = isEditing ? profiles.find(p => p.id === id) : undefined;
+
+  const [profile, setProfile] = useState<RecurringProfile>(() => {
+    const today = getToday();
+    return {
+      id: generateId(),
+      name: '',
+      template: {
+        customerName: '',
+        customerEmail: '',
+        customerPhone: '',
+        customerAddress: '',
+        items: [createEmptyItem()],
+        taxRate: 0,
+        discount: 0,
+        notes: '',
+      },
+      frequency: 'monthly',
+      startDate: today,
+      nextRunDate: today,
+      autoSend: false,
+      status: 'active',
+    };
+  });
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Initialize form data
+  useEffect(() => {
+    if (existingProfile) {
+      setProfile(existingProfile);
+    }
+  }, [existingProfile]);
+
+  useEffect(() => {
+    if (isEditing || !business || !settings) return;
+    setProfile(prev => ({
+      ...prev,
+      template: {
+        ...prev.template,
+        taxRate: prev.template.taxRate || business.taxRate || settings.taxRate || 0,
+        paymentTerms: prev.template.paymentTerms || settings.defaultPaymentTerms,
+        rounding: resolveRounding(settings.rounding),
+      },
+    }));
+  }, [isEditing, business, settings]);
+
+  // Start from an existing invoice instead of re-typing it
+  useEffect(() => {
+    if (!sourceInvoice) return;
+    setProfile(prev => ({
+      ...prev,
+      name: prev.name || `${sourceInvoice.customerName} retainer`,
+      template: {
+        customerId: sourceInvoice.customerId,
+        customerName: sourceInvoice.customerName,
+        customerEmail: sourceInvoice.customerEmail,
+        customerPhone: sourceInvoice.customerPhone,
+        customerAddress: sourceInvoice.customerAddress,
+        customerStateCode: sourceInvoice.customerStateCode,
+        customerGstin: sourceInvoice.customerGstin,
+        placeOfSupply: sourceInvoice.placeOfSupply,
+        supplyType: sourceInvoice.supplyType,
+        items: sourceInvoice.items.map(item => ({ ...item, id: generateId() })),
+        taxRate: sourceInvoice.taxRate,
+        discount: sourceInvoice.discount,
+        discountType: sourceInvoice.discountType,
+        charges: (sourceInvoice.charges || []).map(charge => ({ ...charge, id: generateId() })),
+        currency: sourceInvoice.currency,
+        exchangeRate: sourceInvoice.exchangeRate,
+        notes: sourceInvoice.notes,
+        paymentTerms: sourceInvoice.paymentTerms,
+        rounding: prev.template.rounding,
+      },
+    }));
+  }, [sourceInvoice]);
+
+  // Schedule edits apply from the first run after the last one made; skipped runs stay skipped otherwise
+  const scheduled = useMemo((): RecurringProfile => {
+    const scheduleChanged = !existingProfile ||
+      existingProfile.startDate !== profile.startDate ||
+      existingProfile.frequency !== profile.frequency;
+    let nextRunDate = profile.nextRunDate;
+    if (scheduleChanged) {
+      nextRunDate = profile.lastRunDate
+        ? getRunDateAfter(profile.startDate, profile.frequency, profile.lastRunDate)
+        : profile.startDate;
+    }
+    const ended = Boolean(profile.endDate) && nextRunDate > (profile.endDate as string);
+    const status = ended ? 'ended' : profile.status === 'ended' ? 'active' : profile.status;
+    return { ...profile, nextRunDate, status };
+  }, [profile, existingProfile]);
+
+  const baseCurrency = getBaseCurrency(business);
+  const currency = getInvoiceCurrency(profile.template, business);
+  const supplyType = getSupplyType(profile.template);
+
+  const totals = useMemo(() => {
+    return getInvoiceTotals(profile.template);
+  }, [profile.template]);
+
+  const upcoming = getUpcomingRuns({ ...scheduled, status: scheduled.status === 'paused' ? 'active' : scheduled.status }, 5);
+
+  const handleTemplateChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void => {
+    const { name, value } = e.target;
+    // Typing over the name drops the picked customer, as on the invoice form
+    setProfile(prev => ({
+      ...prev,
+      template: { ...prev.template, [name]: value, ...(name === 'customerName' && { customerId: undefined }) },
+    }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: null }));
+    }
+  };
+
+  const handleScheduleChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>): void => {
+    const { name, value } = e.target;
+    setProfile(prev => ({ ...prev, [name]: name === 'endDate' ? value || undefined : value }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: null }));
+    }
+  };
+
+  const selectCustomer = (customer: Customer): void => {
+    setProfile(prev => ({
+      ...prev,
+      name: prev.name || `${customer.name} retainer`,
+      template: {
+        ...prev.template,
+        customerId: customer.id,
+        customerName: customer.name,
+        customerEmail: customer.email || '',
+        customerPhone: customer.phone || '',
+        customerAddress: customer.address || '',
+        customerStateCode: customer.stateCode,
+        customerGstin: customer.gstin,
+        placeOfSupply: customer.stateCode,
+        paymentTerms: customer.paymentTerms || settings.defaultPaymentTerms || prev.template.paymentTerms,
+      },
+    }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    if (!profile.name.trim()) {
+      newErrors.name = 'Profile name is required';
+    }
+    if (!profile.template.customerName.trim()) {
+      newErrors.customerName = 'Customer name is required';
+    }
+    if (profile.template.items.some(item => !item.name.trim())) {
+      newErrors.items = 'All items must have a name';
+    }
+    if (profile.template.items.some(item => typeof item.quantity === 'string' || item.quantity <= 0)) {
+      newErrors.items = 'Quantity must be greater than 0';
+    }
+    if (currency !== baseCurrency && !profile.template.exchangeRate) {
+      newErrors.exchangeRate = `Exchange rate to ${baseCurrency} is required`;
+    }
+    if (profile.template.customerGstin?.trim() && !isValidGSTIN(profile.template.customerGstin)) {
+      newErrors.customerGstin = 'Enter a valid 15-character GSTIN';
+    } else if (requiresCustomerGSTIN(supplyType) && !profile.template.customerGstin?.trim()) {
+      newErrors.customerGstin = 'Customer GSTIN is required for this supply type';
+    }
+    if (isSupplyWithoutTax(supplyType) && !business.lutNumber) {
+      newErrors.supplyType = 'Add your LUT number in Settings to supply without tax';
+    }
+    if (!profile.startDate) {
+      newErrors.startDate = 'Start date is required';
+    } else if (profile.endDate && profile.endDate < profile.startDate) {
+      newErrors.startDate = 'End date must be on or after the start date';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) return;
+
+    setIsSaving(true);
+    try {
+      await saveProfile({
+        ...scheduled,
+        name: scheduled.name.trim(),
+        template: {
+          ...scheduled.template,
+          customerId: findInvoiceCustomer(scheduled.template, customers)?.id,
+          discount: Number(scheduled.template.discount) || 0,
+          currency,
+          exchangeRate: currency === baseCurrency ? undefined : scheduled.template.exchangeRate,
+          customerGstin: scheduled.template.customerGstin?.trim().toUpperCase() || undefined,
+          supplyType,
+          charges: (scheduled.template.charges || [])
+            .filter(charge => charge.name.trim() && Number(charge.amount) > 0)
+            .map(charge => ({ ...charge, name: charge.name.trim(), amount: Number(charge.amount) })),
+          items: scheduled.template.items.map(item => ({
+            ...item,
+            quantity: Number(item.quantity) || 0,
+            price: Number(item.price) || 0,
+          })),
+        },
+      });
+      navigate('/recurring');
+    } catch (error) {
+      console.error('Failed to save recurring profile:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing && profilesLoading && !existingProfile) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-teal-400 animate-spin mx-auto mb-4" />
+          <p className="text-midnight-400">Loading recurring profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2.5 -ml-1 rounded-lg hover:bg-midnight-700 active:bg-midnight-600 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5 text-midnight-300" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-xl sm:text-2xl font-display font-bold text-white truncate">
+            {isEditing ? 'Edit Recurring Invoice' : 'New Recurring Invoice'}
+          </h1>
+          <p className="text-midnight-400 text-sm">Invoices are generated with the next invoice number on each run</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Form */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="glass rounded-2xl p-6">
+            <label className="input-label">Profile Name *</label>
+            <input
+              type="text"
+              name="name"
+              value={profile.name}
+              onChange={(e) => {
+                setProfile(prev => ({ ...prev, name: e.target.value }));
+                if (errors.name) setErrors(prev => ({ ...prev, name: null }));
+              }}
+              className={`input-field ${errors.name ? 'border-coral-500' : ''}`}
+              placeholder="e.g. Acme monthly retainer"
+            />
+            {errors.name && <p className="text-coral-400 text-sm mt-1">{errors.name}</p>}
+          </div>
+
+          <CustomerDetailsForm
+            value={profile.template}
+            customers={customers}
+            error={errors.customerName}
+            gstinError={errors.customerGstin}
+            onChange={handleTemplateChange}
+            onSelect={selectCustomer}
+            onStateChange={(code) => setProfile(prev => ({
+              ...prev,
+              template: { ...prev.template, customerStateCode: code, placeOfSupply: code },
+            }))}
+          />
+
+          <LineItemsEditor
+            items={profile.template.items}
+            products={products}
+            currency={currency}
+            defaultTaxRate={profile.template.taxRate}
+            error={errors.items}
+            onChange={(items) => setProfile(prev => ({ ...prev, template: { ...prev.template, items } }))}
+          />
+
+          <ChargesEditor
+            charges={profile.template.charges || []}
+            currency={currency}
+            defaultTaxRate={profile.template.taxRate}
+            onChange={(charges) => setProfile(prev => ({ ...prev, template: { ...prev.template, charges } }))}
+          />
+
+          {/* Notes */}
+          <div className="glass rounded-2xl p-6">
+            <label className="input-label">Notes</label>
+            <textarea
+              name="notes"
+              value={profile.template.notes}
+              onChange={handleTemplateChange}
+              className="input-field min-h-[80px] resize-none"
+              placeholder="Printed on every generated invoice..."
+            />
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="glass rounded-2xl p-6 sticky top-4">
+            <h2 className="text-lg font-semibold text-white mb-4">Schedule</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="input-label">Frequency</label>
+                <select
+                  name="frequency"
+                  value={profile.frequency}
+                  onChange={(e) => setProfile(prev => ({ ...prev, frequency: e.target.value as RecurringFrequency }))}
+                  className="input-field"
+                >
+                  {RECURRING_FREQUENCY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">Start Date</label>
+                  <input
+                    type="date"
+                    name="startDate"
+                    value={profile.startDate}
+                    onChange={handleScheduleChange}
+                    className={`input-field ${errors.startDate ? 'border-coral-500' : ''}`}
+                  />
+                </div>
+                <div>
+                  <label className="input-label">End Date</label>
+                  <input
+                    type="date"
+                    name="endDate"
+                    value={profile.endDate || ''}
+                    onChange={handleScheduleChange}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+              {errors.startDate && <p className="text-coral-400 text-sm -mt-2">{errors.startDate}</p>}
+
+              <PaymentTermsSelect
+                value={profile.template.paymentTerms}
+                onChange={(terms) => setProfile(prev => ({ ...prev, template: { ...prev.template, paymentTerms: terms || undefined } }))}
+                emptyLabel="No due date"
+              />
+
+              <div>
+                <label className="input-label">Supply Type</label>
+                <select
+                  value={supplyType}
+                  onChange={(e) => setProfile(prev => ({ ...prev, template: { ...prev.template, supplyType: e.target.value as SupplyType } }))}
+                  className={`input-field ${errors.supplyType ? 'border-coral-500' : ''}`}
+                >
+                  {SUPPLY_TYPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {errors.supplyType && <p className="text-coral-400 text-sm mt-1">{errors.supplyType}</p>}
+              </div>
+
+              <CurrencySelect
+                currency={currency}
+                exchangeRate={profile.template.exchangeRate}
+                baseCurrency={baseCurrency}
+                rates={settings.exchangeRates}
+                error={errors.exchangeRate}
+                onChange={(code, exchangeRate) => setProfile(prev => ({ ...prev, template: { ...prev.template, currency: code, exchangeRate } }))}
+              />
+
+              <DiscountInput
+                value={profile.template.discount}
+                type={profile.template.discountType}
+                currency={currency}
+                onChange={(discount, discountType) => setProfile(prev => ({ ...prev, template: { ...prev.template, discount, discountType } }))}
+              />
+
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={profile.autoSend}
+                  onChange={(e) => setProfile(prev => ({ ...prev, autoSend: e.target.checked }))}
+                  className="w-4 h-4 mt-1 accent-teal-500"
+                />
+                <span>
+                  <span className="text-white text-sm">Auto-send</span>
+                  <span className="block text-midnight-400 text-xs">
+                    Issue generated invoices as pending. Otherwise they are saved as drafts for review.
+                  </span>
+                </span>
+              </label>
+
+              <div className="pt-2">
+                <p className="input-label">Upcoming runs</p>
+                {upcoming.length === 0 ? (
+                  <p className="text-midnight-400 text-sm">No runs before the end date</p>
+                ) : (
+                  <ul className="text-sm text-midnight-300 space-y-1">
+                    {upcoming.map(date => <li key={date}>{formatDate(date)}</li>)}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Totals */}
+            <div className="mt-6 pt-6 border-t border-midnight-600 space-y-3">
+              <div className="flex justify-between text-midnight-300">
+                <span>Subtotal</span>
+                <span className="font-mono">{formatCurrency(totals.subtotal, currency)}</span>
+              </div>
+              {totals.discountAmount > 0 && (
+                <div className="flex justify-between text-midnight-300">
+                  <span>Discount</span>
+                  <span className="font-mono text-coral-400">-{formatCurrency(totals.discountAmount, currency)}</span>
+                </div>
+              )}
+              {getChargesAt(totals, 'before_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
+              {totals.taxAmount > 0 && (
+                <div className="flex justify-between text-midnight-300">
+                  <span>{settings.taxLabel || 'Tax'}</span>
+                  <span className="font-mono">{formatCurrency(totals.taxAmount, currency)}</span>
+                </div>
+              )}
+              {getChargesAt(totals, 'after_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between text-midnight-300">
+                  <span>{charge.name || 'Charge'}</span>
+                  <span className="font-mono">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-xl font-bold pt-3 border-t border-midnight-600">
+                <span className="text-white">Per invoice</span>
+                <span className="font-mono text-teal-400">{formatCurrency(totals.total, currency)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Sticky Bottom Action Bar */}
+      <div className="sticky bottom-0 z-10 mt-6 -mx-6 px-6 py-4 bg-midnight-900/95 backdrop-blur-lg border-t border-midnight-700">
+        <div className="flex items-center gap-3 max-w-7xl mx-auto">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn-primary flex items-center justify-center gap-2 flex-1 sm:flex-none sm:min-w-[160px]"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>Save Profile</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CreateRecurringProfile;
@@ -13,14 +13,25 @@ import {
   MapPin,
   FileText,
   Loader2,
+  CalendarClock,
+  ScrollText,
 } from 'lucide-react';
 import { generateId } from '../utils/helpers';
 import type { Customer, CustomerFormData, FormErrors } from '../types';
-import { useCustomers, useInvoices } from '../hooks/useData';
+import { useCustomers, useInvoices, useBusiness, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import PaymentTermsSelect from '../components/PaymentTermsSelect';
+import StateSelect from '../components/StateSelect';
+import StatementDialog from '../components/StatementDialog';
+import { getPaymentTermsLabel } from '../utils/paymentTerms';
+import { formatState, isValidGSTIN } from '../utils/gst';
+import { getCustomerInvoices } from '../utils/customers';
 
 function Customers() {
   const { customers, loading, saveCustomer, deleteCustomer } = useCustomers();
-  const { invoices } = useInvoices(); // Used for stats
+  const { invoices } = useInvoices(); // Used for stats and statements
+  const { business } = useBusiness();
+  const { payments } = usePayments();
+  const { notes } = useCreditDebitNotes();
 
   const [searchQuery, setSearchQuery] = useState('');
   const [showModal, setShowModal] = useState(false);
@@ -28,17 +39,21 @@ function Customers() {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
 
   const [formData, setFormData] = useState<CustomerFormData>({
     name: '',
     phone: '',
     email: '',
     address: '',
+    stateCode: '',
+    gstin: '',
+    paymentTerms: null,
   });
   const [errors, setErrors] = useState<FormErrors>({});
 
-  const getCustomerInvoiceCount = (customerName: string): number => {
-    return invoices.filter((inv) => inv.customerName === customerName).length;
+  const getCustomerInvoiceCount = (customer: Customer): number => {
+    return getCustomerInvoices(customer, invoices, customers).length;
   };
 
   const filteredCustomers = customers.filter(
@@ -56,10 +71,13 @@ function Customers() {
         phone: customer.phone || '',
         email: customer.email || '',
         address: customer.address || '',
+        stateCode: customer.stateCode || '',
+        gstin: customer.gstin || '',
+        paymentTerms: customer.paymentTerms || null,
       });
     } else {
       setEditingCustomer(null);
-      setFormData({ name: '', phone: '', email: '', address: '' });
+      setFormData({ name: '', phone: '', email: '', address: '', stateCode: '', gstin: '', paymentTerms: null });
     }
     setErrors({});
     setShowModal(true);
@@ -68,7 +86,7 @@ function Customers() {
   const closeModal = (): void => {
     setShowModal(false);
     setEditingCustomer(null);
-    setFormData({ name: '', phone: '', email: '', address: '' });
+    setFormData({ name: '', phone: '', email: '', address: '', stateCode: '', gstin: '', paymentTerms: null });
     setErrors({});
   };
 
@@ -85,6 +103,9 @@ function Customers() {
     if (!formData.name.trim()) {
       newErrors.name = 'Customer name is required';
     }
+    if (formData.gstin.trim() && !isValidGSTIN(formData.gstin)) {
+      newErrors.gstin = 'Enter a valid 15-character GSTIN';
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -100,6 +121,9 @@ function Customers() {
         phone: formData.phone.trim(),
         email: formData.email.trim(),
         address: formData.address.trim(),
+        stateCode: formData.stateCode || undefined,
+        gstin: formData.gstin.trim().toUpperCase() || undefined,
+        paymentTerms: formData.paymentTerms || undefined,
       };
 
       await saveCustomer(customerData);
@@ -180,7 +204,7 @@ function Customers() {
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
           {filteredCustomers.map((customer) => {
-            const invoiceCount = getCustomerInvoiceCount(customer.name);
+            const invoiceCount = getCustomerInvoiceCount(customer);
             return (
               <div key={customer.id} className="glass rounded-xl p-5 card-hover animate-fade-in">
                 <div className="flex items-start justify-between">
@@ -190,10 +214,12 @@ function Customers() {
                         <span className="text-teal-400 font-semibold">{customer.name.charAt(0).toUpperCase()}</span>
                       </div>
                       <div className="flex-1 min-w-0">
-                        <h3 className="text-lg font-semibold text-white truncate">{customer.name}</h3>
+                        <h3 className="text-lg font-semibold text-white truncate">
+                          <Link to={`/customers/${customer.id}`} className="hover:text-teal-400 transition-colors">{customer.name}</Link>
+                        </h3>
                         {invoiceCount > 0 && (
                           <Link
-                            to={`/invoices?search=${encodeURIComponent(customer.name)}`}
+                            to={`/customers/${customer.id}`}
                             className="text-teal-400 text-sm hover:text-teal-300 flex items-center gap-1"
                           >
                             <FileText className="w-3 h-3" />
@@ -222,10 +248,35 @@ function Customers() {
                           <span className="line-clamp-2">{customer.address}</span>
                         </div>
                       )}
+                      {customer.stateCode && (
+                        <div className="flex items-center gap-2 text-midnight-400 text-sm">
+                          <MapPin className="w-4 h-4" />
+                          <span>{formatState(customer.stateCode)}</span>
+                        </div>
+                      )}
+                      {customer.gstin && (
+                        <div className="flex items-center gap-2 text-midnight-400 text-sm">
+                          <FileText className="w-4 h-4" />
+                          <span className="font-mono">GSTIN {customer.gstin}</span>
+                        </div>
+                      )}
+                      {customer.paymentTerms && (
+                        <div className="flex items-center gap-2 text-midnight-400 text-sm">
+                          <CalendarClock className="w-4 h-4" />
+                          <span>{getPaymentTermsLabel(customer.paymentTerms)}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   <div className="flex gap-1 ml-2">
+                    <button
+                      onClick={() => setStatementCustomer(customer)}
+                      className="p-2 text-midnight-400 hover:text-teal-400 hover:bg-teal-500/10 rounded-lg transition-colors"
+                      title="Statement of account"
+                    >
+                      <ScrollText className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => openModal(customer)}
                       className="p-2 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors"
@@ -307,6 +358,30 @@ function Customers() {
                   placeholder="Full address"
                 />
               </div>
+
+              <StateSelect
+                value={formData.stateCode}
+                onChange={(code) => setFormData((prev) => ({ ...prev, stateCode: code || '' }))}
+              />
+
+              <div>
+                <label className="input-label">GSTIN</label>
+                <input
+                  type="text"
+                  name="gstin"
+                  value={formData.gstin}
+                  onChange={handleInputChange}
+                  className={`input-field font-mono uppercase ${errors.gstin ? 'border-coral-500' : ''}`}
+                  placeholder="Leave blank for unregistered customers"
+                />
+                {errors.gstin && <p className="text-coral-400 text-sm mt-1">{errors.gstin}</p>}
+              </div>
+
+              <PaymentTermsSelect
+                value={formData.paymentTerms}
+                onChange={(terms) => setFormData((prev) => ({ ...prev, paymentTerms: terms }))}
+                emptyLabel="Use default terms"
+              />
             </div>
 
             <div className="flex gap-3 mt-6">
@@ -320,6 +395,18 @@ function Customers() {
         </div>
       )}
 
+      {/* Statement of Account */}
+      {statementCustomer && (
+        <StatementDialog
+          customer={statementCustomer}
+          invoices={getCustomerInvoices(statementCustomer, invoices, customers)}
+          payments={payments}
+          notes={notes}
+          business={business}
+          onClose={() => setStatementCustomer(null)}
+        />
+      )}
+
       {/* Delete Confirmation */}
       {deleteConfirm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
@@ -12,9 +12,14 @@ import {
   Loader2,
   type LucideIcon,
 } from 'lucide-react';
-import { formatCurrency, getRelativeTime, calculateInvoiceTotals, getStatusColor, getStatusLabel } from '../utils/helpers';
+import { formatCurrency, getRelativeTime, getInvoiceTotals, getStatusColor, getStatusLabel } from '../utils/helpers';
 import type { DashboardStats, Invoice } from '../types';
-import { useInvoices, useBusiness } from '../hooks/useData';
+import { useInvoices, useCustomers, useBusiness, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import { getInvoicePayments, getAmountPaid } from '../utils/payments';
+import { getInvoiceNotes, getNotesAdjustment } from '../utils/creditDebitNotes';
+import { addMoney } from '../utils/money';
+import { getBaseCurrency, getInvoiceCurrency, toBaseAmount } from '../utils/currency';
+import { buildAgingReport, getPastDueAmount } from '../utils/aging';
 
 interface StatCardProps {
   icon: LucideIcon;
@@ -23,29 +28,43 @@ interface StatCardProps {
   subtext?: string;
   color: string;
   delay: number;
+  to?: string; // Page with the detail behind the figure
 }
 
-function StatCard({ icon: Icon, label, value, subtext, color, delay }: StatCardProps) {
-  return (
-    <div className="glass rounded-2xl p-6 card-hover animate-slide-up" style={{ animationDelay: `${delay}ms` }}>
-      <div className="flex items-start justify-between">
-        <div>
-          <p className="text-midnight-400 text-sm font-medium">{label}</p>
-          <p className="text-3xl font-display font-bold text-white mt-2">{value}</p>
-          {subtext && <p className="text-midnight-400 text-sm mt-1">{subtext}</p>}
-        </div>
-        <div className={`p-3 rounded-xl ${color}`}>
-          <Icon className="w-6 h-6" />
-        </div>
+function StatCard({ icon: Icon, label, value, subtext, color, delay, to }: StatCardProps) {
+  const content = (
+    <div className="flex items-start justify-between">
+      <div>
+        <p className="text-midnight-400 text-sm font-medium">{label}</p>
+        <p className="text-3xl font-display font-bold text-white mt-2">{value}</p>
+        {subtext && <p className="text-midnight-400 text-sm mt-1">{subtext}</p>}
+      </div>
+      <div className={`p-3 rounded-xl ${color}`}>
+        <Icon className="w-6 h-6" />
       </div>
     </div>
   );
+
+  return to ? (
+    <Link to={to} className="block glass rounded-2xl p-6 card-hover animate-slide-up" style={{ animationDelay: `${delay}ms` }}>
+      {content}
+    </Link>
+  ) : (
+    <div className="glass rounded-2xl p-6 card-hover animate-slide-up" style={{ animationDelay: `${delay}ms` }}>
+      {content}
+    </div>
+  );
 }
 
 function Dashboard() {
   const { business, loading: businessLoading } = useBusiness();
   const { invoices, loading: invoicesLoading } = useInvoices();
-  const loading = businessLoading || invoicesLoading;
+  const { customers, loading: customersLoading } = useCustomers();
+  const { payments, loading: paymentsLoading } = usePayments();
+  const { notes, loading: notesLoading } = useCreditDebitNotes();
+  // Revenue, outstanding amounts and aging all depend on payments and notes, so wait for them too
+  const loading = businessLoading || invoicesLoading || customersLoading || paymentsLoading || notesLoading;
+  const baseCurrency = getBaseCurrency(business);
 
   const stats = useMemo((): DashboardStats => {
     const now = new Date();
@@ -53,41 +72,50 @@ function Dashboard() {
     const thisYear = now.getFullYear();
 
     let totalRevenue = 0;
-    let pendingAmount = 0;
     let paidCount = 0;
-    let pendingCount = 0;
     let overdueCount = 0;
     let thisMonthRevenue = 0;
 
+    // Everything is added up in base currency, at each invoice's own exchange rate
     invoices.forEach((invoice) => {
-      const totals = calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
+      const totals = getInvoiceTotals(invoice);
       const invoiceDate = new Date(invoice.date);
+      const invoiceNotes = getInvoiceNotes(notes, invoice.id);
 
       if (invoice.status === 'paid') {
-        totalRevenue += totals.total;
+        // Credit and debit notes change what a paid invoice was finally worth
+        const netTotal = toBaseAmount(addMoney(totals.total, getNotesAdjustment(invoiceNotes, invoice.rounding)), invoice);
+        totalRevenue = addMoney(totalRevenue, netTotal);
         paidCount++;
         if (invoiceDate.getMonth() === thisMonth && invoiceDate.getFullYear() === thisYear) {
-          thisMonthRevenue += totals.total;
+          thisMonthRevenue = addMoney(thisMonthRevenue, netTotal);
+        }
+      } else {
+        // Count what has been received as revenue, overdue or not; the rest is in the aging report
+        const received = toBaseAmount(getAmountPaid(getInvoicePayments(payments, invoice.id)), invoice);
+        totalRevenue = addMoney(totalRevenue, received);
+        if (invoiceDate.getMonth() === thisMonth && invoiceDate.getFullYear() === thisYear) {
+          thisMonthRevenue = addMoney(thisMonthRevenue, received);
         }
-      } else if (invoice.status === 'pending') {
-        pendingAmount += totals.total;
-        pendingCount++;
-      } else if (invoice.status === 'overdue') {
-        pendingAmount += totals.total;
-        overdueCount++;
+        if (invoice.status === 'overdue') overdueCount++;
       }
     });
 
     return {
       totalInvoices: invoices.length,
       totalRevenue,
-      pendingAmount,
       paidCount,
-      pendingCount,
       overdueCount,
       thisMonthRevenue,
     };
-  }, [invoices]);
+  }, [invoices, payments, notes]);
+
+  // Outstanding balances come from the aging report so both always show the same figure
+  const aging = useMemo(
+    () => buildAgingReport(invoices, customers, payments, notes, business),
+    [invoices, customers, payments, notes, business]
+  );
+  const outstandingCount = aging.customers.reduce((sum, row) => sum + row.invoices.length, 0);
 
   const recentInvoices = useMemo((): Invoice[] => {
     return [...invoices]
@@ -95,7 +123,7 @@ function Dashboard() {
       .slice(0, 5);
   }, [invoices]);
 
-  if (loading && invoices.length === 0) {
+  if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
@@ -137,18 +165,19 @@ function Dashboard() {
         <StatCard
           icon={IndianRupee}
           label="Total Revenue"
-          value={formatCurrency(stats.totalRevenue, business.currency)}
-          subtext={`This month: ${formatCurrency(stats.thisMonthRevenue, business.currency)}`}
+          value={formatCurrency(stats.totalRevenue, baseCurrency)}
+          subtext={`This month: ${formatCurrency(stats.thisMonthRevenue, baseCurrency)}`}
           color="bg-gold-500/20 text-gold-400"
           delay={100}
         />
         <StatCard
           icon={Clock}
-          label="Pending"
-          value={stats.pendingCount}
-          subtext={formatCurrency(stats.pendingAmount, business.currency)}
+          label="Outstanding"
+          value={formatCurrency(aging.totals.total, baseCurrency)}
+          subtext={`${outstandingCount} invoice${outstandingCount === 1 ? '' : 's'}, ${formatCurrency(getPastDueAmount(aging.totals), baseCurrency)} past due`}
           color="bg-midnight-500/50 text-midnight-300"
           delay={200}
+          to="/reports?tab=aging"
         />
         <StatCard
           icon={AlertCircle}
@@ -228,7 +257,7 @@ function Dashboard() {
           ) : (
             <div className="space-y-3">
               {recentInvoices.map((invoice) => {
-                const totals = calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
+                const totals = getInvoiceTotals(invoice);
                 return (
                   <Link
                     key={invoice.id}
@@ -247,7 +276,7 @@ function Dashboard() {
                       </p>
                     </div>
                     <p className="font-mono font-semibold text-white">
-                      {formatCurrency(totals.total, business.currency)}
+                      {formatCurrency(totals.total, getInvoiceCurrency(invoice, business))}
                     </p>
                   </Link>
                 );
@@ -0,0 +1,270 @@
+import { useState, useMemo, type ChangeEvent } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Plus,
+  Search,
+  ClipboardList,
+  Eye,
+  Edit,
+  Trash2,
+  MoreVertical,
+  Download,
+  Loader2,
+} from 'lucide-react';
+import { useEstimates, useBusiness, useSettings } from '../hooks/useData';
+import { usePDFGenerator } from '../hooks/usePDFGenerator';
+import { formatDate, formatCurrency, getInvoiceTotals } from '../utils/helpers';
+import { getInvoiceCurrency } from '../utils/currency';
+import { ESTIMATE_STATUS_OPTIONS, estimateToPrintable, getEstimateStatusColor, getEstimateStatusLabel } from '../utils/estimates';
+import type { Estimate, EstimateStatus } from '../types';
+
+type StatusFilter = 'all' | EstimateStatus;
+
+function Estimates() {
+  const { estimates, loading: estimatesLoading, deleteEstimate } = useEstimates();
+  const { business, loading: businessLoading } = useBusiness();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { downloadPDF } = usePDFGenerator();
+
+  const loading = estimatesLoading || businessLoading || settingsLoading;
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [activeMenu, setActiveMenu] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const filteredEstimates = useMemo((): Estimate[] => {
+    let result = [...estimates];
+
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      result = result.filter(
+        (est) =>
+          est.customerName?.toLowerCase().includes(query) ||
+          est.estimateNumber?.toLowerCase().includes(query) ||
+          est.customerEmail?.toLowerCase().includes(query)
+      );
+    }
+
+    if (statusFilter !== 'all') {
+      result = result.filter((est) => est.status === statusFilter);
+    }
+
+    return result.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [estimates, searchQuery, statusFilter]);
+
+  const handleDelete = async (id: string): Promise<void> => {
+    setDeletingId(id);
+    try {
+      await deleteEstimate(id);
+    } catch (error) {
+      console.error('Failed to delete estimate:', error);
+    } finally {
+      setDeletingId(null);
+      setDeleteConfirm(null);
+      setActiveMenu(null);
+    }
+  };
+
+  const handleDownloadPDF = async (estimate: Estimate): Promise<void> => {
+    try {
+      await downloadPDF(estimateToPrintable(estimate), business, settings, `${estimate.estimateNumber}.pdf`, {
+        title: 'Estimate',
+        documentLabel: 'Estimate',
+        validUntil: estimate.validUntil,
+      });
+      setActiveMenu(null);
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
+  const handleSearchChange = (e: ChangeEvent<HTMLInputElement>): void => {
+    setSearchQuery(e.target.value);
+  };
+
+  if (loading && estimates.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-teal-400 animate-spin mx-auto mb-4" />
+          <p className="text-midnight-400">Loading estimates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Estimates</h1>
+          <p className="text-midnight-400">{filteredEstimates.length} of {estimates.length} estimates</p>
+        </div>
+        <Link to="/estimates/new" className="btn-primary flex items-center gap-2 self-start">
+          <Plus className="w-5 h-5" />
+          <span>New Estimate</span>
+        </Link>
+      </div>
+
+      {/* Status Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {[{ value: 'all' as const, label: 'All' }, ...ESTIMATE_STATUS_OPTIONS].map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setStatusFilter(tab.value)}
+            className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors ${statusFilter === tab.value
+              ? 'bg-teal-500/20 text-teal-400'
+              : 'bg-midnight-700/50 text-midnight-300 hover:bg-midnight-700'
+              }`}
+          >
+            {tab.label}
+            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-midnight-800">
+              {tab.value === 'all' ? estimates.length : estimates.filter((e) => e.status === tab.value).length}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className={`absolute left-3.5 top-1/2 -translate-y-1/2 w-5 h-5 text-midnight-400 pointer-events-none transition-opacity duration-200 ${searchQuery ? 'opacity-0' : 'opacity-100'}`} />
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={handleSearchChange}
+          className="input-field pl-11"
+        />
+      </div>
+
+      {/* Estimates List */}
+      {filteredEstimates.length === 0 ? (
+        <div className="text-center py-16">
+          <ClipboardList className="w-16 h-16 text-midnight-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No estimates found</h3>
+          <p className="text-midnight-400 mb-6">
+            {searchQuery || statusFilter !== 'all' ? 'Try adjusting your search or filters' : 'Create an estimate to quote a customer'}
+          </p>
+          {!searchQuery && statusFilter === 'all' && (
+            <Link to="/estimates/new" className="btn-primary inline-flex items-center gap-2">
+              <Plus className="w-5 h-5" />
+              Create Estimate
+            </Link>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredEstimates.map((estimate) => {
+            const totals = getInvoiceTotals(estimate);
+            return (
+              <div key={estimate.id} className={`glass rounded-xl p-4 sm:p-6 card-hover animate-fade-in ${activeMenu === estimate.id ? 'relative z-30' : ''}`}>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-2">
+                      <Link
+                        to={`/estimates/view/${estimate.id}`}
+                        className="text-lg font-semibold text-white hover:text-teal-400 transition-colors truncate"
+                      >
+                        {estimate.customerName}
+                      </Link>
+                      <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getEstimateStatusColor(estimate.status)}`}>
+                        {getEstimateStatusLabel(estimate.status)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-midnight-400">
+                      <span className="font-mono">{estimate.estimateNumber}</span>
+                      <span>•</span>
+                      <span>{formatDate(estimate.date)}</span>
+                      {estimate.validUntil && (
+                        <>
+                          <span>•</span>
+                          <span>Valid until {formatDate(estimate.validUntil)}</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <p className="text-2xl font-mono font-bold text-white">
+                      {formatCurrency(totals.total, getInvoiceCurrency(estimate, business))}
+                    </p>
+
+                    <div className="relative">
+                      <button
+                        onClick={() => setActiveMenu(activeMenu === estimate.id ? null : estimate.id)}
+                        className="p-2 rounded-lg hover:bg-midnight-700 transition-colors"
+                      >
+                        <MoreVertical className="w-5 h-5 text-midnight-400" />
+                      </button>
+
+                      {activeMenu === estimate.id && (
+                        <>
+                          <div className="fixed inset-0 z-10" onClick={() => setActiveMenu(null)} />
+                          <div className="absolute right-0 top-full mt-2 w-48 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden z-50">
+                            <Link
+                              to={`/estimates/view/${estimate.id}`}
+                              className="flex items-center gap-3 px-4 py-3 text-white hover:bg-midnight-700 transition-colors"
+                              onClick={() => setActiveMenu(null)}
+                            >
+                              <Eye className="w-4 h-4 text-midnight-400" />
+                              View Estimate
+                            </Link>
+                            <Link
+                              to={`/estimates/edit/${estimate.id}`}
+                              className="flex items-center gap-3 px-4 py-3 text-white hover:bg-midnight-700 transition-colors"
+                              onClick={() => setActiveMenu(null)}
+                            >
+                              <Edit className="w-4 h-4 text-midnight-400" />
+                              Edit Estimate
+                            </Link>
+                            <button
+                              onClick={() => handleDownloadPDF(estimate)}
+                              className="flex items-center gap-3 px-4 py-3 text-white hover:bg-midnight-700 transition-colors w-full"
+                            >
+                              <Download className="w-4 h-4 text-midnight-400" />
+                              Download PDF
+                            </button>
+                            <button
+                              onClick={() => {
+                                setDeleteConfirm(estimate.id);
+                                setActiveMenu(null);
+                              }}
+                              className="flex items-center gap-3 px-4 py-3 text-coral-400 hover:bg-coral-500/10 transition-colors w-full"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              Delete
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+          <div className="glass rounded-2xl p-6 max-w-md w-full animate-scale-in">
+            <h3 className="text-xl font-semibold text-white mb-2">Delete Estimate?</h3>
+            <p className="text-midnight-400 mb-6">This action cannot be undone.</p>
+            <div className="flex gap-3 justify-end">
+              <button onClick={() => setDeleteConfirm(null)} className="btn-secondary" disabled={deletingId !== null}>Cancel</button>
+              <button onClick={() => handleDelete(deleteConfirm)} className="btn-danger" disabled={deletingId !== null}>
+                {deletingId ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Estimates;
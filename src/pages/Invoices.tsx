@@ -13,20 +13,28 @@ import {
   SortAsc,
   SortDesc,
   Loader2,
+  Truck,
 } from 'lucide-react';
-import { useInvoices, useBusiness, useSettings } from '../hooks/useData';
+import { useInvoices, useBusiness, useSettings, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import { getInvoicePayments, isPartlyPaidOverdue } from '../utils/payments';
+import { getInvoiceNotes } from '../utils/creditDebitNotes';
 import { usePDFGenerator } from '../hooks/usePDFGenerator';
-import { formatDate, formatCurrency, calculateInvoiceTotals, getStatusColor, getStatusLabel } from '../utils/helpers';
+import { formatDate, formatCurrency, getInvoiceTotals, getStatusColor, getStatusLabel, downloadBlob } from '../utils/helpers';
+import { buildEWayBillExport, getEWayBillFilename, type EWayBillBulk, type EWayBillProblem } from '../utils/ewayBill';
 import type { Invoice, InvoiceStats } from '../types';
+import { sumMoney } from '../utils/money';
+import { getInvoiceCurrency, toBaseAmount } from '../utils/currency';
 
 type SortField = 'date' | 'amount' | 'customer' | 'number';
 type SortOrder = 'asc' | 'desc';
-type StatusFilter = 'all' | 'draft' | 'pending' | 'paid' | 'overdue';
+type StatusFilter = 'all' | 'draft' | 'pending' | 'partially_paid' | 'paid' | 'overdue';
 
 function Invoices() {
   const { invoices, loading: invoicesLoading, deleteInvoice } = useInvoices();
   const { business, loading: businessLoading } = useBusiness();
   const { settings, loading: settingsLoading } = useSettings();
+  const { payments } = usePayments();
+  const { notes } = useCreditDebitNotes();
   const { downloadPDF } = usePDFGenerator();
 
   const loading = invoicesLoading || businessLoading || settingsLoading;
@@ -38,6 +46,8 @@ function Invoices() {
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [eWayBillExport, setEWayBillExport] = useState<{ bulk: EWayBillBulk; problems: EWayBillProblem[] } | null>(null);
 
   const filteredInvoices = useMemo((): Invoice[] => {
     let result = [...invoices];
@@ -64,8 +74,8 @@ function Invoices() {
           comparison = new Date(a.date).getTime() - new Date(b.date).getTime();
           break;
         case 'amount': {
-          const aTotal = calculateInvoiceTotals(a.items, a.taxRate, a.discount).total;
-          const bTotal = calculateInvoiceTotals(b.items, b.taxRate, b.discount).total;
+          const aTotal = toBaseAmount(getInvoiceTotals(a).total, a);
+          const bTotal = toBaseAmount(getInvoiceTotals(b).total, b);
           comparison = aTotal - bTotal;
           break;
         }
@@ -85,9 +95,12 @@ function Invoices() {
 
   const stats = useMemo((): InvoiceStats => {
     return {
-      total: invoices.reduce((sum, i) => sum + calculateInvoiceTotals(i.items, i.taxRate, i.discount).total, 0),
+      total: sumMoney(invoices.map((i) => toBaseAmount(getInvoiceTotals(i).total, i))),
       draft: invoices.filter((i) => i.status === 'draft').length,
-      pending: invoices.reduce((sum, i) => i.status === 'pending' ? sum + calculateInvoiceTotals(i.items, i.taxRate, i.discount).total : sum, 0),
+      pending: sumMoney(invoices
+        .filter((i) => i.status === 'pending')
+        .map((i) => toBaseAmount(getInvoiceTotals(i).total, i))),
+      partiallyPaid: invoices.filter((i) => i.status === 'partially_paid').length,
       paid: invoices.filter((i) => i.status === 'paid').length,
       overdue: invoices.filter((i) => i.status === 'overdue').length,
     };
@@ -97,6 +110,7 @@ function Invoices() {
     setDeletingId(id);
     try {
       await deleteInvoice(id);
+      setSelectedIds(prev => prev.filter(selectedId => selectedId !== id));
     } catch (error) {
       console.error('Failed to delete invoice:', error);
     } finally {
@@ -108,13 +122,38 @@ function Invoices() {
 
   const handleDownloadPDF = async (invoice: Invoice): Promise<void> => {
     try {
-      await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`);
+      await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`, {
+        payments: getInvoicePayments(payments, invoice.id),
+        notes: getInvoiceNotes(notes, invoice.id),
+      });
       setActiveMenu(null);
     } catch (error) {
       console.error('Failed to download PDF:', error);
     }
   };
 
+  const toggleSelected = (id: string): void => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  };
+
+  const downloadEWayBills = (bulk: EWayBillBulk): void => {
+    const blob = new Blob([JSON.stringify(bulk, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, getEWayBillFilename());
+    setEWayBillExport(null);
+    setSelectedIds([]);
+  };
+
+  // Problems are listed per invoice before anything is downloaded
+  const handleExportEWayBills = (): void => {
+    const selected = invoices.filter(invoice => selectedIds.includes(invoice.id));
+    const result = buildEWayBillExport(selected, business);
+    if (result.problems.length > 0) {
+      setEWayBillExport(result);
+    } else {
+      downloadEWayBills(result.bulk);
+    }
+  };
+
   const toggleSort = (field: SortField): void => {
     if (sortBy === field) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
@@ -159,6 +198,7 @@ function Invoices() {
           { key: 'all' as const, label: 'All', count: stats.total },
           { key: 'draft' as const, label: 'Draft', count: stats.draft },
           { key: 'pending' as const, label: 'Pending', count: stats.pending },
+          { key: 'partially_paid' as const, label: 'Partially Paid', count: stats.partiallyPaid },
           { key: 'paid' as const, label: 'Paid', count: stats.paid },
           { key: 'overdue' as const, label: 'Overdue', count: stats.overdue },
         ]).map((tab) => (
@@ -207,6 +247,25 @@ function Invoices() {
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedIds.length > 0 && (
+        <div className="glass rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span className="text-white text-sm">{selectedIds.length} selected</span>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setSelectedIds(filteredInvoices.map((inv) => inv.id))} className="btn-secondary text-sm">
+              Select All
+            </button>
+            <button onClick={() => setSelectedIds([])} className="btn-secondary text-sm">
+              Clear
+            </button>
+            <button onClick={handleExportEWayBills} className="btn-primary flex items-center gap-2 text-sm">
+              <Truck className="w-4 h-4" />
+              E-Way Bill JSON
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Invoices List */}
       {filteredInvoices.length === 0 ? (
         <div className="text-center py-16">
@@ -225,12 +284,19 @@ function Invoices() {
       ) : (
         <div className="space-y-3">
           {filteredInvoices.map((invoice) => {
-            const totals = calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
+            const totals = getInvoiceTotals(invoice);
             return (
               <div key={invoice.id} className={`glass rounded-xl p-4 sm:p-6 card-hover animate-fade-in ${activeMenu === invoice.id ? 'relative z-30' : ''}`}>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-4">
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-3 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(invoice.id)}
+                        onChange={() => toggleSelected(invoice.id)}
+                        className="w-4 h-4 accent-teal-500 shrink-0 cursor-pointer"
+                        aria-label={`Select ${invoice.invoiceNumber}`}
+                      />
                       <Link
                         to={`/invoices/view/${invoice.id}`}
                         className="text-lg font-semibold text-white hover:text-teal-400 transition-colors truncate"
@@ -240,6 +306,11 @@ function Invoices() {
                       <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)}`}>
                         {getStatusLabel(invoice.status)}
                       </span>
+                      {isPartlyPaidOverdue(invoice, getInvoicePayments(payments, invoice.id)) && (
+                        <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor('partially_paid')}`}>
+                          Partly paid
+                        </span>
+                      )}
                     </div>
                     <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-midnight-400">
                       <span className="font-mono">{invoice.invoiceNumber}</span>
@@ -257,7 +328,7 @@ function Invoices() {
                   <div className="flex items-center gap-4">
                     <div className="text-right">
                       <p className="text-2xl font-mono font-bold text-white">
-                        {formatCurrency(totals.total, business.currency)}
+                        {formatCurrency(totals.total, getInvoiceCurrency(invoice, business))}
                       </p>
                     </div>
 
@@ -318,6 +389,41 @@ function Invoices() {
         </div>
       )}
 
+      {/* E-Way Bill Problems */}
+      {eWayBillExport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+          <div className="glass rounded-2xl p-6 max-w-lg w-full max-h-[80vh] flex flex-col animate-scale-in">
+            <h3 className="text-xl font-semibold text-white mb-2">E-Way Bill Problems</h3>
+            <p className="text-midnight-400 mb-4">
+              {eWayBillExport.problems.length} of {selectedIds.length} invoices need fixing before their e-way bills can be generated.
+            </p>
+            <div className="overflow-y-auto space-y-4 mb-6">
+              {eWayBillExport.problems.map((problem) => (
+                <div key={problem.invoiceId}>
+                  <Link
+                    to={`/invoices/edit/${problem.invoiceId}`}
+                    className="font-mono text-white hover:text-teal-400 transition-colors"
+                  >
+                    {problem.invoiceNumber}
+                  </Link>
+                  <ul className="list-disc list-inside text-coral-300 text-sm mt-1 space-y-0.5">
+                    {problem.errors.map((error) => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 justify-end">
+              <button onClick={() => setEWayBillExport(null)} className="btn-secondary">Close</button>
+              {eWayBillExport.bulk.billLists.length > 0 && (
+                <button onClick={() => downloadEWayBills(eWayBillExport.bulk)} className="btn-primary">
+                  Download {eWayBillExport.bulk.billLists.length} Valid
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
@@ -10,6 +10,7 @@ import {
   Loader2,
 } from 'lucide-react';
 import { generateId, formatCurrency } from '../utils/helpers';
+import { isValidHSN } from '../utils/gst';
 import type { Product, ProductFormData, FormErrors } from '../types';
 import { useProducts, useBusiness } from '../hooks/useData';
 
@@ -32,7 +33,9 @@ function Products() {
     description: '',
     price: '',
     unit: 'piece',
+    hsnCode: '',
     taxRate: '',
+    priceIncludesTax: false,
   });
   const [errors, setErrors] = useState<FormErrors>({});
 
@@ -50,11 +53,13 @@ function Products() {
         description: product.description || '',
         price: product.price.toString(),
         unit: product.unit || 'piece',
+        hsnCode: product.hsnCode || '',
         taxRate: product.taxRate?.toString() || '',
+        priceIncludesTax: Boolean(product.priceIncludesTax),
       });
     } else {
       setEditingProduct(null);
-      setFormData({ name: '', description: '', price: '', unit: 'piece', taxRate: '' });
+      setFormData({ name: '', description: '', price: '', unit: 'piece', hsnCode: '', taxRate: '', priceIncludesTax: false });
     }
     setErrors({});
     setShowModal(true);
@@ -63,7 +68,7 @@ function Products() {
   const closeModal = (): void => {
     setShowModal(false);
     setEditingProduct(null);
-    setFormData({ name: '', description: '', price: '', unit: 'piece', taxRate: '' });
+    setFormData({ name: '', description: '', price: '', unit: 'piece', hsnCode: '', taxRate: '', priceIncludesTax: false });
     setErrors({});
   };
 
@@ -83,6 +88,9 @@ function Products() {
     if (!formData.price || parseFloat(formData.price) < 0) {
       newErrors.price = 'Valid price is required';
     }
+    if (formData.hsnCode.trim() && !isValidHSN(formData.hsnCode)) {
+      newErrors.hsnCode = 'HSN/SAC must be 4, 6 or 8 digits';
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -98,7 +106,9 @@ function Products() {
         description: formData.description.trim(),
         price: parseFloat(formData.price),
         unit: formData.unit,
+        hsnCode: formData.hsnCode.trim() || undefined,
         taxRate: formData.taxRate ? parseFloat(formData.taxRate) : undefined,
+        priceIncludesTax: formData.priceIncludesTax,
       };
 
       await saveProduct(productData);
@@ -194,11 +204,18 @@ function Products() {
                       <span className="text-midnight-400 text-sm">/ {product.unit}</span>
                     )}
                   </div>
-                  {product.taxRate !== undefined && product.taxRate > 0 && (
-                    <div className="mt-2">
-                      <span className="text-xs px-2 py-1 rounded-full bg-teal-500/20 text-teal-400">
-                        GST: {product.taxRate}%
-                      </span>
+                  {(product.taxRate !== undefined || product.hsnCode) && (
+                    <div className="mt-2 flex gap-2">
+                      {product.taxRate !== undefined && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-teal-500/20 text-teal-400">
+                          GST: {product.taxRate}%
+                        </span>
+                      )}
+                      {product.hsnCode && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-midnight-700 text-midnight-300 font-mono">
+                          HSN/SAC: {product.hsnCode}
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
@@ -291,20 +308,47 @@ function Products() {
                 </div>
               </div>
 
-              <div>
-                <label className="input-label">GST/Tax Rate (%)</label>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">HSN/SAC Code</label>
+                  <input
+                    type="text"
+                    name="hsnCode"
+                    inputMode="numeric"
+                    maxLength={8}
+                    value={formData.hsnCode}
+                    onChange={handleInputChange}
+                    className={`input-field font-mono ${errors.hsnCode ? 'border-coral-500' : ''}`}
+                    placeholder="e.g., 998314"
+                  />
+                  {errors.hsnCode && <p className="text-coral-400 text-sm mt-1">{errors.hsnCode}</p>}
+                </div>
+
+                <div>
+                  <label className="input-label">GST/Tax Rate (%)</label>
+                  <input
+                    type="number"
+                    name="taxRate"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.taxRate}
+                    onChange={handleInputChange}
+                    className="input-field"
+                    placeholder="e.g., 18"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-midnight-300 text-sm cursor-pointer">
                 <input
-                  type="number"
-                  name="taxRate"
-                  min="0"
-                  max="100"
-                  step="0.01"
-                  value={formData.taxRate}
-                  onChange={handleInputChange}
-                  className="input-field"
-                  placeholder="e.g., 18"
+                  type="checkbox"
+                  checked={formData.priceIncludesTax}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, priceIncludesTax: e.target.checked }))}
+                  className="w-4 h-4 accent-teal-500"
                 />
-              </div>
+                Price includes tax
+              </label>
             </div>
 
             <div className="flex gap-3 mt-6">
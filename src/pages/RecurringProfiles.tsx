@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Plus,
+  Repeat,
+  Edit,
+  Trash2,
+  Pause,
+  Play,
+  SkipForward,
+  RefreshCw,
+  Send,
+  Loader2,
+} from 'lucide-react';
+import { useRecurringProfiles, useBusiness } from '../hooks/useData';
+import { formatDate, formatCurrency, getInvoiceTotals } from '../utils/helpers';
+import {
+  getFrequencyLabel,
+  getRecurringStatusColor,
+  getRecurringStatusLabel,
+  getUpcomingRuns,
+  skipNextRun,
+} from '../utils/recurring';
+import { getInvoiceCurrency } from '../utils/currency';
+import type { RecurringProfile } from '../types';
+
+function RecurringProfiles() {
+  const { profiles, loading, saveProfile, deleteProfile, runDue } = useRecurringProfiles();
+  const { business } = useBusiness();
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runMessage, setRunMessage] = useState<string | null>(null);
+
+  const updateProfile = async (profile: RecurringProfile): Promise<void> => {
+    setBusyId(profile.id);
+    try {
+      await saveProfile(profile);
+    } catch (error) {
+      console.error('Failed to update recurring profile:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (id: string): Promise<void> => {
+    setBusyId(id);
+    try {
+      await deleteProfile(id);
+    } catch (error) {
+      console.error('Failed to delete recurring profile:', error);
+    } finally {
+      setBusyId(null);
+      setDeleteConfirm(null);
+    }
+  };
+
+  const handleRunDue = async (): Promise<void> => {
+    setIsRunning(true);
+    try {
+      const created = await runDue();
+      setRunMessage(created.length > 0
+        ? `Generated ${created.length} invoice${created.length > 1 ? 's' : ''}`
+        : 'Nothing is due yet');
+    } catch (error) {
+      console.error('Failed to run recurring profiles:', error);
+      setRunMessage('Could not generate invoices, try again later');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (loading && profiles.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-teal-400 animate-spin mx-auto mb-4" />
+          <p className="text-midnight-400">Loading recurring invoices...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Recurring Invoices</h1>
+          <p className="text-midnight-400">
+            {profiles.filter(p => p.status === 'active').length} active of {profiles.length} profiles
+          </p>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button onClick={handleRunDue} disabled={isRunning} className="btn-secondary flex items-center gap-2">
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <span>Run Due Now</span>
+          </button>
+          <Link to="/recurring/new" className="btn-primary flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            <span>New Profile</span>
+          </Link>
+        </div>
+      </div>
+
+      {runMessage && <p className="text-midnight-300 text-sm">{runMessage}</p>}
+
+      {profiles.length === 0 ? (
+        <div className="text-center py-16">
+          <Repeat className="w-16 h-16 text-midnight-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-white mb-2">No recurring invoices</h3>
+          <p className="text-midnight-400 mb-6">Set up a profile to bill retainer clients automatically</p>
+          <Link to="/recurring/new" className="btn-primary inline-flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            Create Profile
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {profiles.map((profile) => {
+            const { total } = getInvoiceTotals(profile.template);
+            const upcoming = getUpcomingRuns(profile);
+            const busy = busyId === profile.id;
+            return (
+              <div key={profile.id} className="glass rounded-xl p-4 sm:p-6 animate-fade-in">
+                <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-2">
+                      <Link
+                        to={`/recurring/edit/${profile.id}`}
+                        className="text-lg font-semibold text-white hover:text-teal-400 transition-colors truncate"
+                      >
+                        {profile.name}
+                      </Link>
+                      <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getRecurringStatusColor(profile.status)}`}>
+                        {getRecurringStatusLabel(profile.status)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-midnight-400">
+                      <span>{profile.template.customerName}</span>
+                      <span>•</span>
+                      <span>{getFrequencyLabel(profile.frequency)}</span>
+                      {profile.autoSend && (
+                        <>
+                          <span>•</span>
+                          <span className="flex items-center gap-1"><Send className="w-3.5 h-3.5" /> Auto-send</span>
+                        </>
+                      )}
+                      {profile.lastRunDate && (
+                        <>
+                          <span>•</span>
+                          <span>Last run {formatDate(profile.lastRunDate)}</span>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-sm text-midnight-300 mt-2">
+                      {profile.status === 'paused' && 'Paused · '}
+                      {upcoming.length > 0
+                        ? `Upcoming: ${upcoming.map(date => formatDate(date)).join(', ')}`
+                        : 'No more runs scheduled'}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-col items-end gap-3">
+                    <p className="text-2xl font-mono font-bold text-white">{formatCurrency(total, getInvoiceCurrency(profile.template, business))}</p>
+                    <div className="flex items-center gap-1">
+                      {profile.status !== 'ended' && (
+                        <>
+                          <button
+                            onClick={() => updateProfile({ ...profile, status: profile.status === 'active' ? 'paused' : 'active' })}
+                            disabled={busy}
+                            title={profile.status === 'active' ? 'Pause' : 'Resume'}
+                            className="p-2 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors"
+                          >
+                            {profile.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => updateProfile(skipNextRun(profile))}
+                            disabled={busy}
+                            title="Skip next run"
+                            className="p-2 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors"
+                          >
+                            <SkipForward className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      <Link
+                        to={`/recurring/edit/${profile.id}`}
+                        title="Edit"
+                        className="p-2 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Link>
+                      <button
+                        onClick={() => setDeleteConfirm(profile.id)}
+                        disabled={busy}
+                        title="Delete"
+                        className="p-2 text-midnight-400 hover:text-coral-400 hover:bg-coral-500/10 rounded-lg transition-colors"
+                      >
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+          <div className="glass rounded-2xl p-6 max-w-md w-full animate-scale-in">
+            <h3 className="text-xl font-semibold text-white mb-2">Delete Recurring Profile?</h3>
+            <p className="text-midnight-400 mb-6">Invoices it already generated are kept.</p>
+            <div className="flex gap-3 justify-end">
+              <button onClick={() => setDeleteConfirm(null)} className="btn-secondary" disabled={busyId !== null}>Cancel</button>
+              <button onClick={() => handleDelete(deleteConfirm)} className="btn-danger" disabled={busyId !== null}>
+                {busyId ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecurringProfiles;
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useInvoices, useCustomers, useBusiness, useCreditDebitNotes, usePayments } from '../hooks/useData';
+import { getTaxPeriod, type TaxPeriod } from '../utils/taxPeriods';
+import {
+  DEFAULT_REGISTER_FILTERS,
+  REGISTER_TYPE_OPTIONS,
+  buildRegister,
+  getRegisterCustomers,
+  type RegisterFilters,
+  type RegisterType,
+} from '../utils/registers';
+import { buildAgingReport } from '../utils/aging';
+import TaxPeriodSelect from '../components/TaxPeriodSelect';
+import GSTR1Panel from '../components/GSTR1Panel';
+import GSTR3BPanel from '../components/GSTR3BPanel';
+import RegisterFiltersBar from '../components/RegisterFiltersBar';
+import RegisterTable from '../components/RegisterTable';
+import AgingPanel from '../components/AgingPanel';
+
+type ReportTab = 'gst' | 'aging' | RegisterType;
+
+const REPORT_TABS: { value: ReportTab; label: string }[] = [
+  { value: 'gst', label: 'GST Returns' },
+  ...REGISTER_TYPE_OPTIONS,
+  { value: 'aging', label: 'Receivables Aging' },
+];
+
+function Reports() {
+  const { invoices, loading: invoicesLoading } = useInvoices();
+  const { customers: savedCustomers } = useCustomers();
+  const { business, loading: businessLoading } = useBusiness();
+  const { notes } = useCreditDebitNotes();
+  const { payments } = usePayments();
+  const [searchParams] = useSearchParams();
+  // Other pages link straight to a report with ?tab=
+  const [tab, setTab] = useState<ReportTab>(
+    () => REPORT_TABS.find(option => option.value === searchParams.get('tab'))?.value || 'gst'
+  );
+  const [period, setPeriod] = useState<TaxPeriod>(() => getTaxPeriod('month'));
+  const [filters, setFilters] = useState<RegisterFilters>(DEFAULT_REGISTER_FILTERS);
+
+  const customers = useMemo(() => getRegisterCustomers(invoices, savedCustomers), [invoices, savedCustomers]);
+  const register = useMemo(
+    () => (tab === 'gst' || tab === 'aging' ? null : buildRegister(tab, invoices, notes, savedCustomers, business, filters)),
+    [tab, invoices, notes, savedCustomers, business, filters]
+  );
+  const aging = useMemo(
+    () => (tab === 'aging' ? buildAgingReport(invoices, savedCustomers, payments, notes, business) : null),
+    [tab, invoices, savedCustomers, payments, notes, business]
+  );
+
+  const loading = invoicesLoading || businessLoading;
+
+  if (loading && invoices.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-teal-400 animate-spin mx-auto mb-4" />
+          <p className="text-midnight-400">Loading reports...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Reports</h1>
+          <p className="text-midnight-400">GST returns, sales registers and receivables worked out from your invoices</p>
+        </div>
+        {tab === 'gst' && <TaxPeriodSelect value={period} onChange={setPeriod} />}
+      </div>
+
+      {/* Report Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {REPORT_TABS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setTab(option.value)}
+            className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors ${tab === option.value
+              ? 'bg-teal-500/20 text-teal-400'
+              : 'bg-midnight-700/50 text-midnight-300 hover:bg-midnight-700'
+              }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {aging && <AgingPanel report={aging} />}
+
+      {register && (
+        <>
+          <RegisterFiltersBar value={filters} onChange={setFilters} customers={customers} />
+          <RegisterTable key={register.type} register={register} filters={filters} />
+        </>
+      )}
+
+      {tab === 'gst' && (
+        <>
+          <GSTR1Panel invoices={invoices} notes={notes} business={business} period={period} />
+          <GSTR3BPanel invoices={invoices} notes={notes} business={business} period={period} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Reports;
@@ -9,8 +9,14 @@ import {
   Loader2,
   type LucideIcon,
 } from 'lucide-react';
-import type { Business, Settings as SettingsType } from '../types';
+import type { Business, RoundingSettings, Settings as SettingsType } from '../types';
 import { useBusiness, useSettings } from '../hooks/useData';
+import PaymentTermsSelect from '../components/PaymentTermsSelect';
+import StateSelect from '../components/StateSelect';
+import { DEFAULT_PAYMENT_TERMS } from '../utils/paymentTerms';
+import { getBusinessStateCode, getStateName } from '../utils/gst';
+import { resolveRounding, ROUNDING_INCREMENT_OPTIONS, ROUNDING_MODE_OPTIONS, TAX_ROUNDING_OPTIONS } from '../utils/money';
+import { CURRENCIES, getBaseCurrency } from '../utils/currency';
 
 
 interface Tab {
@@ -61,6 +67,24 @@ function Settings() {
     }));
   };
 
+  const rounding = resolveRounding(settings.rounding);
+
+  const handleRoundingChange = (changes: Partial<RoundingSettings>): void => {
+    setSettings((prev) => ({ ...prev, rounding: { ...resolveRounding(prev.rounding), ...changes } }));
+  };
+
+  const baseCurrency = getBaseCurrency(business);
+
+  const handleExchangeRateChange = (code: string, value: string): void => {
+    setSettings((prev) => {
+      const exchangeRates = { ...prev.exchangeRates };
+      const rate = parseFloat(value);
+      if (rate > 0) exchangeRates[code] = rate;
+      else delete exchangeRates[code];
+      return { ...prev, exchangeRates };
+    });
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -294,17 +318,10 @@ function Settings() {
                       placeholder="City"
                     />
                   </div>
-                  <div>
-                    <label className="input-label">State</label>
-                    <input
-                      type="text"
-                      name="state"
-                      value={business.state || ''}
-                      onChange={handleBusinessChange}
-                      className="input-field"
-                      placeholder="State"
-                    />
-                  </div>
+                  <StateSelect
+                    value={getBusinessStateCode(business)}
+                    onChange={(code) => setBusiness((prev) => ({ ...prev, stateCode: code, state: getStateName(code) }))}
+                  />
                   <div>
                     <label className="input-label">PIN Code</label>
                     <input
@@ -354,6 +371,21 @@ function Settings() {
                     placeholder="Tax registration number"
                   />
                 </div>
+
+                <div>
+                  <label className="input-label">LUT Number</label>
+                  <input
+                    type="text"
+                    name="lutNumber"
+                    value={business.lutNumber || ''}
+                    onChange={handleBusinessChange}
+                    className="input-field font-mono"
+                    placeholder="ARN of your letter of undertaking"
+                  />
+                  <p className="text-midnight-500 text-xs mt-1">
+                    Needed to export or supply to SEZs without paying IGST; printed on those invoices
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -436,6 +468,56 @@ function Settings() {
                 </p>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">Estimate Prefix</label>
+                  <input
+                    type="text"
+                    name="estimatePrefix"
+                    value={settings.estimatePrefix || ''}
+                    onChange={handleSettingsChange}
+                    className="input-field font-mono"
+                    placeholder="EST"
+                  />
+                </div>
+                <div>
+                  <label className="input-label">Estimate Validity (days)</label>
+                  <input
+                    type="number"
+                    name="estimateValidityDays"
+                    min="1"
+                    value={settings.estimateValidityDays || 30}
+                    onChange={handleSettingsChange}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">Credit Note Prefix</label>
+                  <input
+                    type="text"
+                    name="creditNotePrefix"
+                    value={settings.creditNotePrefix || ''}
+                    onChange={handleSettingsChange}
+                    className="input-field font-mono"
+                    placeholder="CN"
+                  />
+                </div>
+                <div>
+                  <label className="input-label">Debit Note Prefix</label>
+                  <input
+                    type="text"
+                    name="debitNotePrefix"
+                    value={settings.debitNotePrefix || ''}
+                    onChange={handleSettingsChange}
+                    className="input-field font-mono"
+                    placeholder="DN"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="input-label">Default Tax Rate (%)</label>
                 <input
@@ -460,6 +542,60 @@ function Settings() {
                   placeholder="e.g., GST, VAT, Tax"
                 />
               </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">Round Invoice Total To</label>
+                  <select
+                    value={rounding.increment}
+                    onChange={(e) => handleRoundingChange({ increment: parseFloat(e.target.value) })}
+                    className="input-field"
+                  >
+                    {ROUNDING_INCREMENT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="input-label">Rounding Direction</label>
+                  <select
+                    value={rounding.mode}
+                    onChange={(e) => handleRoundingChange({ mode: e.target.value as RoundingSettings['mode'] })}
+                    className="input-field"
+                  >
+                    {ROUNDING_MODE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="input-label">Tax Rounding</label>
+                <select
+                  value={rounding.taxRounding}
+                  onChange={(e) => handleRoundingChange({ taxRounding: e.target.value as RoundingSettings['taxRounding'] })}
+                  className="input-field"
+                >
+                  {TAX_ROUNDING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-midnight-500 text-xs mt-1">
+                  Applies to new invoices and estimates; existing ones keep the rounding they were issued with
+                </p>
+              </div>
+
+              <div>
+                <PaymentTermsSelect
+                  label="Default Payment Terms"
+                  value={settings.defaultPaymentTerms || DEFAULT_PAYMENT_TERMS}
+                  onChange={(terms) => setSettings((prev) => ({ ...prev, defaultPaymentTerms: terms || DEFAULT_PAYMENT_TERMS }))}
+                />
+                <p className="text-midnight-500 text-xs mt-1">
+                  Used for new invoices unless the customer has its own terms
+                </p>
+              </div>
             </div>
           </div>
 
@@ -480,6 +616,30 @@ function Settings() {
             </label>
           </div>
 
+          <div className="lg:col-span-2 glass rounded-2xl p-6">
+            <h2 className="text-lg font-semibold text-white mb-1">Exchange Rates</h2>
+            <p className="text-midnight-400 text-sm mb-4">
+              Value of one unit in {baseCurrency}, filled in when an invoice is raised in that currency.
+              Each invoice keeps the rate it was issued with.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {CURRENCIES.filter((info) => info.code !== baseCurrency).map((info) => (
+                <div key={info.code}>
+                  <label className="input-label">{info.code} ({info.name})</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={settings.exchangeRates?.[info.code] || ''}
+                    onChange={(e) => handleExchangeRateChange(info.code, e.target.value)}
+                    className="input-field"
+                    placeholder="0.0000"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Preview Section */}
           <div className="lg:col-span-2 glass rounded-2xl p-6">
             <h2 className="text-lg font-semibold text-white mb-4">Invoice Preview</h2>
@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Phone,
+  Mail,
+  MapPin,
+  FileText,
+  Wallet,
+  CalendarClock,
+  ScrollText,
+  Loader2,
+  type LucideIcon,
+} from 'lucide-react';
+import { formatCurrency, formatDate, getInvoiceTotals, getStatusColor, getStatusLabel } from '../utils/helpers';
+import { toBaseAmount } from '../utils/currency';
+import { formatState } from '../utils/gst';
+import { buildAgingReport } from '../utils/aging';
+import { getCustomerInvoices, getCustomerSummary } from '../utils/customers';
+import { getInvoicePayments, isPartlyPaidOverdue } from '../utils/payments';
+import { useCustomers, useInvoices, useBusiness, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import StatementDialog from '../components/StatementDialog';
+
+interface SummaryCardProps {
+  icon: LucideIcon;
+  label: string;
+  value: string;
+  subtext?: string;
+}
+
+function SummaryCard({ icon: Icon, label, value, subtext }: SummaryCardProps) {
+  return (
+    <div className="glass rounded-2xl p-5">
+      <div className="flex items-center gap-2 text-midnight-400 text-sm">
+        <Icon className="w-4 h-4" />
+        {label}
+      </div>
+      <p className="text-2xl font-display font-bold text-white mt-2">{value}</p>
+      {subtext && <p className="text-midnight-400 text-sm mt-1">{subtext}</p>}
+    </div>
+  );
+}
+
+// One saved customer: contact details, what they have been billed and owe, and every invoice linked to them
+function ViewCustomer() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { customers, loading: customersLoading } = useCustomers();
+  const { invoices, loading: invoicesLoading } = useInvoices();
+  const { business } = useBusiness();
+  const { payments } = usePayments();
+  const { notes } = useCreditDebitNotes();
+  const [showStatement, setShowStatement] = useState(false);
+
+  const customer = customers.find(c => c.id === id);
+
+  // Newest first
+  const customerInvoices = useMemo(
+    () => (customer
+      ? getCustomerInvoices(customer, invoices, customers).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      : []),
+    [customer, invoices, customers]
+  );
+  const summary = useMemo(
+    () => getCustomerSummary(customerInvoices, customers, payments, notes, business),
+    [customerInvoices, customers, payments, notes, business]
+  );
+  // Balance still owed on each invoice, by invoice id
+  const balances = useMemo(() => {
+    const aging = buildAgingReport(customerInvoices, customers, payments, notes, business);
+    return new Map(aging.customers.flatMap(row => row.invoices.map(item => [item.invoice.id, item.balance] as const)));
+  }, [customerInvoices, customers, payments, notes, business]);
+
+  const loading = customersLoading || invoicesLoading;
+  const money = (amount: number): string => formatCurrency(amount, summary.currency);
+
+  if (loading && !customer) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="animate-spin w-8 h-8 text-teal-400" />
+          <p className="text-midnight-400">Loading customer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-white mb-4">Customer Not Found</h2>
+        <Link to="/customers" className="btn-primary inline-flex items-center gap-2">
+          <ArrowLeft className="w-5 h-5" />
+          Back to Customers
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/customers')}
+            className="p-2 rounded-lg hover:bg-midnight-700 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-midnight-300" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-display font-bold text-white">{customer.name}</h1>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-midnight-400 text-sm">
+              {customer.phone && (
+                <a href={`tel:${customer.phone}`} className="flex items-center gap-1 hover:text-white">
+                  <Phone className="w-4 h-4" />
+                  {customer.phone}
+                </a>
+              )}
+              {customer.email && (
+                <a href={`mailto:${customer.email}`} className="flex items-center gap-1 hover:text-white">
+                  <Mail className="w-4 h-4" />
+                  {customer.email}
+                </a>
+              )}
+              {customer.stateCode && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-4 h-4" />
+                  {formatState(customer.stateCode)}
+                </span>
+              )}
+              {customer.gstin && <span className="font-mono">GSTIN {customer.gstin}</span>}
+            </div>
+          </div>
+        </div>
+
+        <button onClick={() => setShowStatement(true)} className="btn-secondary flex items-center gap-2 self-start sm:self-auto">
+          <ScrollText className="w-4 h-4" />
+          Statement
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <SummaryCard
+          icon={FileText}
+          label="Total Billed"
+          value={money(summary.totalBilled)}
+          subtext={`${summary.invoiceCount} invoice${summary.invoiceCount === 1 ? '' : 's'}`}
+        />
+        <SummaryCard
+          icon={Wallet}
+          label="Outstanding"
+          value={money(summary.outstanding)}
+          subtext={summary.pastDue > 0 ? `${money(summary.pastDue)} past due` : undefined}
+        />
+        <SummaryCard
+          icon={CalendarClock}
+          label="Last Invoice"
+          value={summary.lastInvoiceDate ? formatDate(summary.lastInvoiceDate) : '-'}
+        />
+      </div>
+
+      {/* Invoices */}
+      <div className="glass rounded-2xl p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Invoices</h2>
+        {customerInvoices.length === 0 ? (
+          <p className="text-midnight-400 text-sm py-8 text-center">No invoices for this customer yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-midnight-400 border-b border-midnight-700">
+                  <th className="text-left py-2 pr-3 font-medium">Invoice</th>
+                  <th className="text-left py-2 px-3 font-medium">Date</th>
+                  <th className="text-left py-2 px-3 font-medium">Due</th>
+                  <th className="text-left py-2 px-3 font-medium">Status</th>
+                  <th className="text-right py-2 px-3 font-medium">Total</th>
+                  <th className="text-right py-2 pl-3 font-medium">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-midnight-700/50">
+                {customerInvoices.map((invoice) => (
+                  <tr key={invoice.id} className="text-white">
+                    <td className="py-2 pr-3">
+                      <Link to={`/invoices/view/${invoice.id}`} className="font-mono hover:text-teal-400 transition-colors">
+                        {invoice.invoiceNumber}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 whitespace-nowrap">{formatDate(invoice.date)}</td>
+                    <td className="py-2 px-3 whitespace-nowrap">{invoice.dueDate ? formatDate(invoice.dueDate) : '-'}</td>
+                    <td className="py-2 px-3">
+                      <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(invoice.status)}`}>
+                        {getStatusLabel(invoice.status)}
+                      </span>
+                      {isPartlyPaidOverdue(invoice, getInvoicePayments(payments, invoice.id)) && (
+                        <span className={`ml-1 px-2.5 py-1 rounded-full text-xs font-medium whitespace-nowrap ${getStatusColor('partially_paid')}`}>Partly paid</span>
+                      )}
+                    </td>
+                    <td className="text-right py-2 px-3 font-mono whitespace-nowrap">
+                      {money(toBaseAmount(getInvoiceTotals(invoice).total, invoice))}
+                    </td>
+                    <td className="text-right py-2 pl-3 font-mono whitespace-nowrap">
+                      {balances.has(invoice.id) ? money(balances.get(invoice.id) as number) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showStatement && (
+        <StatementDialog
+          customer={customer}
+          invoices={customerInvoices}
+          payments={payments}
+          notes={notes}
+          business={business}
+          onClose={() => setShowStatement(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default ViewCustomer;
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Edit,
+  Download,
+  Printer,
+  Share2,
+  Check,
+  Send,
+  ThumbsUp,
+  ThumbsDown,
+  Hourglass,
+  FileText,
+  ArrowRightCircle,
+  Loader2,
+  type LucideIcon,
+} from 'lucide-react';
+import { formatCurrency, formatDate, getInvoiceTotals, getChargesAt } from '../utils/helpers';
+import { usePDFGenerator } from '../hooks/usePDFGenerator';
+import { estimateToPrintable, getEstimateStatusColor, getEstimateStatusLabel } from '../utils/estimates';
+import type { EstimateStatus, InvoicePDFOptions } from '../types';
+import { useEstimate, useBusiness, useSettings } from '../hooks/useData';
+import { formatState, getGSTSummaryRows, getInvoiceGSTRegime, getPlaceOfSupply } from '../utils/gst';
+import { getInvoiceCurrency } from '../utils/currency';
+
+interface StatusOption {
+  value: EstimateStatus;
+  label: string;
+  icon: LucideIcon;
+  color: string;
+}
+
+const statusOptions: StatusOption[] = [
+  { value: 'draft', label: 'Draft', icon: Edit, color: 'text-midnight-400' },
+  { value: 'sent', label: 'Sent', icon: Send, color: 'text-gold-400' },
+  { value: 'accepted', label: 'Accepted', icon: ThumbsUp, color: 'text-teal-400' },
+  { value: 'declined', label: 'Declined', icon: ThumbsDown, color: 'text-coral-400' },
+  { value: 'expired', label: 'Expired', icon: Hourglass, color: 'text-midnight-400' },
+];
+
+function ViewEstimate() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { estimate, loading: estimateLoading, saveEstimate } = useEstimate(id);
+  const { business, loading: businessLoading } = useBusiness();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { generatePDF, downloadPDF } = usePDFGenerator();
+
+  const [showStatusMenu, setShowStatusMenu] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+
+  const loading = estimateLoading || businessLoading || settingsLoading;
+
+  if (loading && !estimate) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="animate-spin w-8 h-8 text-teal-400" />
+          <p className="text-midnight-400">Loading estimate...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!estimate) {
+    if (!loading) {
+      return (
+        <div className="text-center py-12">
+          <h2 className="text-2xl font-bold text-white mb-4">Estimate Not Found</h2>
+          <Link to="/estimates" className="btn-primary inline-flex items-center gap-2">
+            <ArrowLeft className="w-5 h-5" />
+            Back to Estimates
+          </Link>
+        </div>
+      );
+    }
+    return null;
+  }
+
+  const totals = getInvoiceTotals(estimate, getInvoiceGSTRegime(estimate, business));
+  const placeOfSupply = formatState(getPlaceOfSupply(estimate, business));
+  const currency = getInvoiceCurrency(estimate, business);
+  const printable = estimateToPrintable(estimate);
+  const fileName = `${estimate.estimateNumber}.pdf`;
+  const pdfOptions: InvoicePDFOptions = {
+    title: 'Estimate',
+    documentLabel: 'Estimate',
+    validUntil: estimate.validUntil,
+  };
+
+  const handleDownloadPDF = async (): Promise<void> => {
+    try {
+      await downloadPDF(printable, business, settings, fileName, pdfOptions);
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
+  const handlePrint = async (): Promise<void> => {
+    try {
+      const blob = await generatePDF(printable, business, settings, pdfOptions);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      // Cleanup URL after a delay
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+    } catch (error) {
+      console.error('Failed to open PDF:', error);
+    }
+  };
+
+  const handleStatusChange = async (newStatus: EstimateStatus): Promise<void> => {
+    setIsUpdatingStatus(true);
+    try {
+      await saveEstimate({ ...estimate, status: newStatus });
+      setShowStatusMenu(false);
+    } catch (error) {
+      console.error('Failed to update status', error);
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  // Sharing a draft sends it to the customer
+  const markSent = async (): Promise<void> => {
+    if (estimate.status === 'draft') {
+      await saveEstimate({ ...estimate, status: 'sent' });
+    }
+  };
+
+  const handleSharePDF = async (): Promise<void> => {
+    setSharing(true);
+    try {
+      const pdfBlob = await generatePDF(printable, business, settings, pdfOptions);
+      const pdfFile = new File([pdfBlob], fileName, { type: 'application/pdf' });
+
+      if (navigator.share && navigator.canShare({ files: [pdfFile] })) {
+        await navigator.share({
+          title: `Estimate ${estimate.estimateNumber}`,
+          text: `Estimate for ${estimate.customerName} - ${formatCurrency(totals.total, currency)}`,
+          files: [pdfFile],
+        });
+      } else {
+        await downloadPDF(printable, business, settings, fileName, pdfOptions);
+      }
+      await markSent();
+    } catch (error) {
+      const err = error as Error;
+      if (err.name !== 'AbortError') {
+        console.error('Error sharing:', error);
+        try {
+          await downloadPDF(printable, business, settings, fileName, pdfOptions);
+          await markSent();
+        } catch (downloadError) {
+          console.error('Failed to download PDF:', downloadError);
+        }
+      }
+    }
+    setSharing(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/estimates')}
+            className="p-2 rounded-lg hover:bg-midnight-700 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-midnight-300" />
+          </button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-display font-bold text-white">
+                {estimate.estimateNumber}
+              </h1>
+              <div className="relative">
+                <button
+                  onClick={() => setShowStatusMenu(!showStatusMenu)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${getEstimateStatusColor(estimate.status)} hover:opacity-80 transition-opacity flex items-center gap-2`}
+                  disabled={isUpdatingStatus}
+                >
+                  {isUpdatingStatus ? <Loader2 className="w-3 h-3 animate-spin" /> : getEstimateStatusLabel(estimate.status)}
+                </button>
+                {showStatusMenu && (
+                  <>
+                    <div className="fixed inset-0 z-10" onClick={() => setShowStatusMenu(false)} />
+                    <div className="absolute left-0 top-full mt-2 w-40 bg-midnight-800 border border-midnight-600 rounded-xl shadow-lg overflow-hidden z-20">
+                      {statusOptions.map((option) => {
+                        const Icon = option.icon;
+                        return (
+                          <button
+                            key={option.value}
+                            onClick={() => handleStatusChange(option.value)}
+                            className={`flex items-center gap-3 px-4 py-3 w-full hover:bg-midnight-700 transition-colors ${estimate.status === option.value ? 'bg-midnight-700' : ''
+                              }`}
+                          >
+                            <Icon className={`w-4 h-4 ${option.color}`} />
+                            <span className="text-white">{option.label}</span>
+                            {estimate.status === option.value && (
+                              <Check className="w-4 h-4 text-teal-400 ml-auto" />
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+            <p className="text-midnight-400">{estimate.customerName}</p>
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
+          <Link to={`/estimates/edit/${estimate.id}`} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+            <Edit className="w-4 h-4" />
+            <span className="hidden xs:inline">Edit</span>
+          </Link>
+          <button onClick={handleDownloadPDF} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+            <Download className="w-4 h-4" />
+            <span className="hidden xs:inline">Download</span>
+          </button>
+          <button onClick={handlePrint} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+            <Printer className="w-4 h-4" />
+            <span className="hidden xs:inline">Print</span>
+          </button>
+          <button
+            onClick={handleSharePDF}
+            disabled={sharing}
+            className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none disabled:opacity-50"
+          >
+            <Share2 className={`w-4 h-4 ${sharing ? 'animate-pulse' : ''}`} />
+            {sharing ? 'Sharing...' : 'Share PDF'}
+          </button>
+          {estimate.convertedInvoiceId ? (
+            <Link to={`/invoices/view/${estimate.convertedInvoiceId}`} className="btn-primary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+              <FileText className="w-4 h-4" />
+              View Invoice
+            </Link>
+          ) : (
+            <Link to={`/invoices/new?fromEstimate=${estimate.id}`} className="btn-primary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+              <ArrowRightCircle className="w-4 h-4" />
+              Convert to Invoice
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {/* Estimate Preview */}
+      <div className="bg-white rounded-2xl shadow-soft overflow-hidden">
+        <div className="text-center py-4 border-b border-gray-300">
+          <h2 className="text-xl font-bold text-gray-900">Estimate</h2>
+        </div>
+
+        <div className="grid grid-cols-2 border-b-2 border-gray-900">
+          <div className="px-6 py-4 border-r-2 border-gray-900">
+            <p className="text-gray-900 font-bold mb-2">Estimate For</p>
+            <p className="text-gray-900 font-semibold text-base">{estimate.customerName}</p>
+            {estimate.customerAddress && <p className="text-gray-700 text-sm mt-1">{estimate.customerAddress}</p>}
+            {estimate.customerPhone && <p className="text-gray-700 text-sm mt-1">Phone: {estimate.customerPhone}</p>}
+            {estimate.customerGstin && <p className="text-gray-700 text-sm mt-1">GSTIN: {estimate.customerGstin}</p>}
+          </div>
+          <div className="px-6 py-4">
+            <p className="text-gray-900 font-bold mb-2">Estimate Details</p>
+            <p className="text-gray-700 text-sm">Estimate No.: {estimate.estimateNumber}</p>
+            <p className="text-gray-700 text-sm mt-1">Date: {formatDate(estimate.date)}</p>
+            {estimate.validUntil && (
+              <p className={`text-sm mt-1 ${estimate.status === 'expired' ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                Valid Until: {formatDate(estimate.validUntil)}
+              </p>
+            )}
+            {placeOfSupply && <p className="text-gray-700 text-sm mt-1">Place of Supply: {placeOfSupply}</p>}
+          </div>
+        </div>
+
+        {/* Items Table */}
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-900">
+                <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-12">#</th>
+                <th className="text-left py-3 px-3 text-gray-900 font-bold border-r border-gray-300">Item name</th>
+                <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-20">Qty</th>
+                <th className="text-right py-3 px-3 text-gray-900 font-bold border-r border-gray-300 w-24">Price/Unit</th>
+                <th className="text-right py-3 px-3 text-gray-900 font-bold w-28">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.items.map((item, index) => (
+                <tr key={item.id} className="border-b border-gray-300">
+                  <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">{index + 1}</td>
+                  <td className="py-3 px-3 text-gray-900 font-medium border-r border-gray-300">{item.name}</td>
+                  <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">{item.quantity} {item.unit || 'PCS'}</td>
+                  <td className="py-3 px-3 text-gray-900 text-right border-r border-gray-300">{formatCurrency(Number(item.price), currency)}</td>
+                  <td className="py-3 px-3 text-gray-900 text-right font-medium">
+                    {formatCurrency(Number(item.quantity) * Number(item.price), currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 border-t-2 border-gray-900">
+          <div className="px-6 py-4 border-r-2 border-gray-900">
+            {estimate.notes && (
+              <>
+                <p className="text-gray-900 font-bold mb-2">Notes</p>
+                <p className="text-gray-700 text-sm whitespace-pre-line">{estimate.notes}</p>
+              </>
+            )}
+          </div>
+          <div className="px-6 py-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-700">Sub Total</span>
+              <span className="text-gray-900 font-medium">{formatCurrency(totals.subtotal, currency)}</span>
+            </div>
+            {totals.discountAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">Discount</span>
+                <span className="text-gray-900 font-medium">- {formatCurrency(totals.discountAmount, currency)}</span>
+              </div>
+            )}
+            {getChargesAt(totals, 'before_tax').map((charge) => (
+              <div key={charge.id} className="flex justify-between">
+                <span className="text-gray-700">{charge.name || 'Charge'}</span>
+                <span className="text-gray-900 font-medium">{formatCurrency(charge.grossAmount, currency)}</span>
+              </div>
+            ))}
+            {getGSTSummaryRows(totals).map((row) => (
+              <div key={`${row.label}-${row.rate}`} className="flex justify-between">
+                <span className="text-gray-700">{row.label} ({row.rate.toFixed(1)}%)</span>
+                <span className="text-gray-900 font-medium">{formatCurrency(row.amount, currency)}</span>
+              </div>
+            ))}
+            {getChargesAt(totals, 'after_tax').map((charge) => (
+              <div key={charge.id} className="flex justify-between">
+                <span className="text-gray-700">{charge.name || 'Charge'}</span>
+                <span className="text-gray-900 font-medium">{formatCurrency(charge.grossAmount, currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-gray-300">
+              <span className="text-gray-900 font-bold text-base">Total</span>
+              <span className="text-gray-900 font-bold text-base">{formatCurrency(totals.total, currency)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ViewEstimate;
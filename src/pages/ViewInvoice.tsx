@@ -11,12 +11,39 @@ import {
   Clock,
   AlertCircle,
   Loader2,
+  Wallet,
+  Plus,
+  Trash2,
+  FileMinus,
+  Repeat,
+  FileCode,
   type LucideIcon,
 } from 'lucide-react';
-import { formatCurrency, formatDate, calculateInvoiceTotals, numberToWords, getStatusColor, getStatusLabel } from '../utils/helpers';
+import { formatCurrency, formatDate, getInvoiceTotals, getChargesAt, numberToWords, getStatusColor, getStatusLabel, downloadBlob } from '../utils/helpers';
 import { usePDFGenerator } from '../hooks/usePDFGenerator';
-import type { Invoice, InvoiceStatus } from '../types';
-import { useInvoice, useBusiness, useSettings } from '../hooks/useData';
+import { getPaymentTermsLabel } from '../utils/paymentTerms';
+import { getInvoicePayments, getAmountPaid, getBalanceDue, getStatusFromPayments, getPaymentModeLabel, isPartlyPaidOverdue } from '../utils/payments';
+import { getInvoiceNotes, getNoteTotal, getNoteTypeLabel, getNotesAdjustment, noteToPrintable, getNotePDFOptions } from '../utils/creditDebitNotes';
+import {
+  formatState,
+  getBusinessStateCode,
+  getPlaceOfSupply,
+  getInvoiceGSTRegime,
+  getGSTSummaryRows,
+  getTaxComponents,
+  getSupplyDeclaration,
+  getSupplyType,
+  getSupplyTypeLabel,
+  isExportSupply,
+} from '../utils/gst';
+import { getTransportModeLabel } from '../utils/ewayBill';
+import { buildEInvoice, validateEInvoice, isEInvoiceSupply, getEInvoiceFilename } from '../utils/eInvoice';
+import { formatExchangeRate, getBaseCurrency, getCurrencyInfo, getInvoiceCurrency, toBaseAmount } from '../utils/currency';
+import type { Invoice, InvoiceStatus, Payment, CreditDebitNote } from '../types';
+import { useInvoice, useBusiness, useSettings, usePayments, useCreditDebitNotes } from '../hooks/useData';
+import PaymentDialog from '../components/PaymentDialog';
+import CreditDebitNoteDialog from '../components/CreditDebitNoteDialog';
+import EInvoiceDialog, { type EInvoiceRegistration } from '../components/EInvoiceDialog';
 
 interface StatusOption {
   value: InvoiceStatus;
@@ -31,12 +58,23 @@ function ViewInvoice() {
   const { invoice, loading: invoiceLoading, saveInvoice } = useInvoice(id);
   const { business, loading: businessLoading } = useBusiness();
   const { settings, loading: settingsLoading } = useSettings();
+  const { payments, savePayment, deletePayment } = usePayments(id);
+  const { notes: allNotes, saveNote, deleteNote } = useCreditDebitNotes();
   const { generatePDF, downloadPDF } = usePDFGenerator();
 
   const printRef = useRef<HTMLDivElement>(null);
   const [showStatusMenu, setShowStatusMenu] = useState(false);
   const [sharing, setSharing] = useState(false);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  const [isSavingPayment, setIsSavingPayment] = useState(false);
+  const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(null);
+  const [showNoteDialog, setShowNoteDialog] = useState(false);
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [deletingNoteId, setDeletingNoteId] = useState<string | null>(null);
+  const [showEInvoiceDialog, setShowEInvoiceDialog] = useState(false);
+  const [isSavingEInvoice, setIsSavingEInvoice] = useState(false);
+  const [eInvoiceErrors, setEInvoiceErrors] = useState<string[]>([]);
 
   const loading = invoiceLoading || businessLoading || settingsLoading;
 
@@ -66,11 +104,19 @@ function ViewInvoice() {
     return null;
   }
 
-  const totals = calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
+  const totals = getInvoiceTotals(invoice, getInvoiceGSTRegime(invoice, business));
+  const currency = getInvoiceCurrency(invoice, business);
+  const baseCurrency = getBaseCurrency(business);
+  const invoicePayments = getInvoicePayments(payments, invoice.id);
+  const amountPaid = getAmountPaid(invoicePayments);
+  const invoiceNotes = getInvoiceNotes(allNotes, invoice.id);
+  const notesAdjustment = getNotesAdjustment(invoiceNotes, invoice.rounding);
+  const balanceDue = getBalanceDue(invoice, invoicePayments, invoiceNotes);
+  const pdfOptions = { payments: invoicePayments, notes: invoiceNotes };
 
   const handleDownloadPDF = async (): Promise<void> => {
     try {
-      await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`);
+      await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`, pdfOptions);
     } catch (error) {
       console.error('Failed to download PDF:', error);
     }
@@ -78,7 +124,7 @@ function ViewInvoice() {
 
   const handlePrint = async (): Promise<void> => {
     try {
-      const blob = await generatePDF(invoice, business, settings);
+      const blob = await generatePDF(invoice, business, settings, pdfOptions);
       const url = URL.createObjectURL(blob);
       window.open(url, '_blank');
       // Cleanup URL after a delay
@@ -101,27 +147,117 @@ function ViewInvoice() {
     }
   };
 
+  // Keep the invoice status in step with its payment and note history
+  const syncStatusWithPayments = async (
+    nextPayments: Payment[],
+    nextNotes: CreditDebitNote[] = invoiceNotes
+  ): Promise<void> => {
+    const nextStatus = getStatusFromPayments(invoice, nextPayments, nextNotes);
+    if (nextStatus !== invoice.status) {
+      await saveInvoice({ ...invoice, status: nextStatus });
+    }
+  };
+
+  const handleRecordPayment = async (payment: Payment): Promise<void> => {
+    setIsSavingPayment(true);
+    try {
+      await savePayment(payment);
+      await syncStatusWithPayments([...invoicePayments, payment]);
+      setShowPaymentDialog(false);
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+    } finally {
+      setIsSavingPayment(false);
+    }
+  };
+
+  const handleDownloadEInvoice = (): void => {
+    const eInvoice = buildEInvoice(invoice, business);
+    const errors = validateEInvoice(eInvoice);
+    setEInvoiceErrors(errors);
+    if (errors.length > 0) return;
+    const blob = new Blob([JSON.stringify([eInvoice], null, 2)], { type: 'application/json' });
+    downloadBlob(blob, getEInvoiceFilename(invoice));
+  };
+
+  const handleRecordIRN = async (registration: EInvoiceRegistration): Promise<void> => {
+    setIsSavingEInvoice(true);
+    try {
+      await saveInvoice({ ...invoice, ...registration });
+      setShowEInvoiceDialog(false);
+    } catch (error) {
+      console.error('Failed to record IRN:', error);
+    } finally {
+      setIsSavingEInvoice(false);
+    }
+  };
+
+  const handleDeletePayment = async (paymentId: string): Promise<void> => {
+    setDeletingPaymentId(paymentId);
+    try {
+      await deletePayment(paymentId);
+      await syncStatusWithPayments(invoicePayments.filter(p => p.id !== paymentId));
+    } catch (error) {
+      console.error('Failed to delete payment:', error);
+    } finally {
+      setDeletingPaymentId(null);
+    }
+  };
+
+  const handleIssueNote = async (note: CreditDebitNote): Promise<void> => {
+    setIsSavingNote(true);
+    try {
+      await saveNote(note);
+      await syncStatusWithPayments(invoicePayments, [...invoiceNotes, note]);
+      setShowNoteDialog(false);
+    } catch (error) {
+      console.error('Failed to issue note:', error);
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string): Promise<void> => {
+    setDeletingNoteId(noteId);
+    try {
+      await deleteNote(noteId);
+      await syncStatusWithPayments(invoicePayments, invoiceNotes.filter(n => n.id !== noteId));
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+    } finally {
+      setDeletingNoteId(null);
+    }
+  };
+
+  const handleDownloadNote = async (note: CreditDebitNote): Promise<void> => {
+    try {
+      await downloadPDF(noteToPrintable(note, invoice), business, settings, `${note.noteNumber}.pdf`, getNotePDFOptions(note, invoice));
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+    }
+  };
+
   const handleSharePDF = async (): Promise<void> => {
     setSharing(true);
     try {
-      const pdfBlob = await generatePDF(invoice, business, settings);
+      const pdfBlob = await generatePDF(invoice, business, settings, pdfOptions);
       const pdfFile = new File([pdfBlob], `${invoice.invoiceNumber}.pdf`, { type: 'application/pdf' });
 
       if (navigator.share && navigator.canShare({ files: [pdfFile] })) {
         await navigator.share({
           title: `Invoice ${invoice.invoiceNumber}`,
-          text: `Invoice for ${invoice.customerName} - ${formatCurrency(totals.total, business.currency)}`,
+          text: `Invoice for ${invoice.customerName} - ${formatCurrency(totals.total, currency)}`,
           files: [pdfFile],
         });
 
-        if (invoice.status !== 'paid') {
+        if (invoice.status !== 'paid' && invoice.status !== 'partially_paid') {
           const updatedInvoice: Invoice = { ...invoice, status: 'paid' };
           await saveInvoice(updatedInvoice);
         }
       } else {
-        await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`);
+        await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`, pdfOptions);
 
-        if (invoice.status !== 'paid') {
+        if (invoice.status !== 'paid' && invoice.status !== 'partially_paid') {
           const updatedInvoice: Invoice = { ...invoice, status: 'paid' };
           await saveInvoice(updatedInvoice);
         }
@@ -131,9 +267,9 @@ function ViewInvoice() {
       if (err.name !== 'AbortError') {
         console.error('Error sharing:', error);
         try {
-          await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`);
+          await downloadPDF(invoice, business, settings, `${invoice.invoiceNumber}.pdf`, pdfOptions);
 
-          if (invoice.status !== 'paid') {
+          if (invoice.status !== 'paid' && invoice.status !== 'partially_paid') {
             const updatedInvoice: Invoice = { ...invoice, status: 'paid' };
             await saveInvoice(updatedInvoice);
           }
@@ -148,15 +284,16 @@ function ViewInvoice() {
   const statusOptions: StatusOption[] = [
     { value: 'draft', label: 'Draft', icon: Edit, color: 'text-midnight-400' },
     { value: 'pending', label: 'Pending', icon: Clock, color: 'text-gold-400' },
+    { value: 'partially_paid', label: 'Partially Paid', icon: Wallet, color: 'text-blue-400' },
     { value: 'paid', label: 'Paid', icon: CheckCircle, color: 'text-teal-400' },
     { value: 'overdue', label: 'Overdue', icon: AlertCircle, color: 'text-coral-400' },
   ];
 
-  // Calculate SGST and CGST (split tax equally)
-  const sgstRate = invoice.taxRate / 2;
-  const cgstRate = invoice.taxRate / 2;
-  const sgstAmount = totals.taxAmount / 2;
-  const cgstAmount = totals.taxAmount / 2;
+  const gstRows = getGSTSummaryRows(totals);
+  const businessState = formatState(getBusinessStateCode(business)) || business.state;
+  const placeOfSupply = formatState(getPlaceOfSupply(invoice, business));
+  const supplyType = getSupplyType(invoice);
+  const declaration = getSupplyDeclaration(invoice, business);
 
   return (
     <div className="space-y-6">
@@ -207,8 +344,19 @@ function ViewInvoice() {
                   </>
                 )}
               </div>
+              {isPartlyPaidOverdue(invoice, invoicePayments) && (
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor('partially_paid')}`}>
+                  Partly paid
+                </span>
+              )}
             </div>
-            <p className="text-midnight-400">{invoice.customerName}</p>
+            {invoice.customerId ? (
+              <Link to={`/customers/${invoice.customerId}`} className="text-midnight-400 hover:text-teal-400 transition-colors">
+                {invoice.customerName}
+              </Link>
+            ) : (
+              <p className="text-midnight-400">{invoice.customerName}</p>
+            )}
           </div>
         </div>
 
@@ -218,6 +366,16 @@ function ViewInvoice() {
             <Edit className="w-4 h-4" />
             <span className="hidden xs:inline">Edit</span>
           </Link>
+          {invoice.status !== 'cancelled' && balanceDue > 0 && (
+            <button onClick={() => setShowPaymentDialog(true)} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+              <Wallet className="w-4 h-4" />
+              <span className="hidden xs:inline">Record Payment</span>
+            </button>
+          )}
+          <Link to={`/recurring/new?fromInvoice=${invoice.id}`} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
+            <Repeat className="w-4 h-4" />
+            <span className="hidden xs:inline">Make Recurring</span>
+          </Link>
           <button onClick={handleDownloadPDF} className="btn-secondary flex items-center justify-center gap-2 flex-1 sm:flex-none">
             <Download className="w-4 h-4" />
             <span className="hidden xs:inline">Download</span>
@@ -267,7 +425,7 @@ function ViewInvoice() {
               {business.city && <p className="text-gray-700 text-sm">{business.city}{business.state && `, ${business.state}`} {business.pincode}</p>}
               {business.phone && <p className="text-gray-700 text-sm">Phone no.: {business.phone}</p>}
               {business.email && <p className="text-gray-700 text-sm">Email: {business.email}</p>}
-              {business.taxId && <p className="text-gray-700 text-sm">GSTIN: {business.taxId}, State: {business.state || '09-Uttar Pradesh'}</p>}
+              {business.taxId && <p className="text-gray-700 text-sm">GSTIN: {business.taxId}{businessState && `, State: ${businessState}`}</p>}
             </div>
           </div>
         </div>
@@ -278,13 +436,39 @@ function ViewInvoice() {
             <p className="text-gray-900 font-bold mb-2">Bill To</p>
             <p className="text-gray-900 font-semibold text-base">{invoice.customerName}</p>
             {invoice.customerAddress && <p className="text-gray-700 text-sm mt-1">{invoice.customerAddress}</p>}
-            <p className="text-gray-700 text-sm mt-1">State: {business.state || '09-Uttar Pradesh'}</p>
+            {invoice.customerStateCode && <p className="text-gray-700 text-sm mt-1">State: {formatState(invoice.customerStateCode)}</p>}
+            {invoice.customerGstin && <p className="text-gray-700 text-sm mt-1">GSTIN: {invoice.customerGstin}</p>}
           </div>
           <div className="px-6 py-4">
             <p className="text-gray-900 font-bold mb-2">Invoice Details</p>
             <p className="text-gray-700 text-sm">Invoice No.: {invoice.invoiceNumber}</p>
             <p className="text-gray-700 text-sm mt-1">Date: {formatDate(invoice.date)}</p>
-            <p className="text-gray-700 text-sm mt-1">Place of Supply: {business.state || '09-Uttar Pradesh'}</p>
+            {invoice.dueDate && (
+              <p className={`text-sm mt-1 ${invoice.status === 'overdue' ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                Due Date: {formatDate(invoice.dueDate)}
+                {invoice.paymentTerms && ` (${getPaymentTermsLabel(invoice.paymentTerms)})`}
+              </p>
+            )}
+            {placeOfSupply && <p className="text-gray-700 text-sm mt-1">Place of Supply: {placeOfSupply}</p>}
+            {supplyType !== 'b2b' && supplyType !== 'b2c' && (
+              <p className="text-gray-700 text-sm mt-1">Supply Type: {getSupplyTypeLabel(supplyType)}</p>
+            )}
+            {isExportSupply(supplyType) && invoice.portCode && (
+              <p className="text-gray-700 text-sm mt-1">Port Code: {invoice.portCode}</p>
+            )}
+            {isExportSupply(supplyType) && invoice.shippingBillNumber && (
+              <p className="text-gray-700 text-sm mt-1">
+                Shipping Bill: {invoice.shippingBillNumber}
+                {invoice.shippingBillDate && ` dated ${formatDate(invoice.shippingBillDate)}`}
+              </p>
+            )}
+            {invoice.transport && (
+              <p className="text-gray-700 text-sm mt-1">
+                Transport: {getTransportModeLabel(invoice.transport.mode)}
+                {invoice.transport.vehicleNumber && ` · ${invoice.transport.vehicleNumber}`}
+                {invoice.transport.transporterName && ` · ${invoice.transport.transporterName}`}
+              </p>
+            )}
           </div>
         </div>
 
@@ -295,6 +479,7 @@ function ViewInvoice() {
               <tr className="border-b-2 border-gray-900">
                 <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-12">#</th>
                 <th className="text-left py-3 px-3 text-gray-900 font-bold border-r border-gray-300">Item name</th>
+                <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-24">HSN/SAC</th>
                 <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-20">Qty</th>
                 <th className="text-center py-3 px-2 text-gray-900 font-bold border-r border-gray-300 w-16">Unit</th>
                 <th className="text-right py-3 px-3 text-gray-900 font-bold border-r border-gray-300 w-24">Price/Unit</th>
@@ -305,32 +490,28 @@ function ViewInvoice() {
             </thead>
             <tbody>
               {invoice.items.map((item, index) => {
-
-                const qty = Number(item.quantity);
+                const line = totals.lines[index];
                 const price = Number(item.price);
-                const itemDiscount = Number(item.discount) || 0;
-                const itemTaxRate = Number(item.taxRate) || 0;
-
-                const itemSubtotal = qty * price;
-                const itemDiscountAmount = (itemSubtotal * itemDiscount) / 100;
-                const itemTaxable = itemSubtotal - itemDiscountAmount;
-                const itemTaxAmount = (itemTaxable * itemTaxRate) / 100;
-                const itemTotal = itemTaxable + itemTaxAmount;
+                const discountPercent = line.grossAmount > 0 ? (line.discountAmount / line.grossAmount) * 100 : 0;
 
                 return (
                   <tr key={item.id} className="border-b border-gray-300">
                     <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">{index + 1}</td>
                     <td className="py-3 px-3 text-gray-900 font-medium border-r border-gray-300">{item.name}</td>
+                    <td className="py-3 px-2 text-gray-900 text-center font-mono border-r border-gray-300">{item.hsnCode || '-'}</td>
                     <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">{item.quantity}</td>
                     <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">{item.unit || 'PCS'}</td>
-                    <td className="py-3 px-3 text-gray-900 text-right border-r border-gray-300">{formatCurrency(price, business.currency)}</td>
+                    <td className="py-3 px-3 text-gray-900 text-right border-r border-gray-300">
+                      {formatCurrency(price, currency)}
+                      {item.priceIncludesTax && <span className="block text-xs text-gray-500">incl. tax</span>}
+                    </td>
                     <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">
-                      {itemDiscount > 0 ? `${itemDiscount.toFixed(1)}%` : '-'}
+                      {discountPercent > 0 ? `${discountPercent.toFixed(1)}%` : '-'}
                     </td>
                     <td className="py-3 px-2 text-gray-900 text-center border-r border-gray-300">
-                      {itemTaxRate > 0 ? `${itemTaxRate.toFixed(1)}%` : '-'}
+                      {line.taxRate > 0 ? `${line.taxRate.toFixed(1)}%` : '-'}
                     </td>
-                    <td className="py-3 px-3 text-gray-900 text-right font-medium">{formatCurrency(itemTotal, business.currency)}</td>
+                    <td className="py-3 px-3 text-gray-900 text-right font-medium">{formatCurrency(line.amount, currency)}</td>
                   </tr>
                 );
               })}
@@ -349,48 +530,139 @@ function ViewInvoice() {
               <div className="col-span-4 text-right">Tax amount</div>
             </div>
 
-            {/* SGST Row */}
-            <div className="grid grid-cols-12 gap-3 border-b border-gray-300 py-2 text-xs text-gray-900">
-              <div className="col-span-2 text-left">SGST</div>
-              <div className="col-span-4 text-right">{formatCurrency(totals.taxableAmount, business.currency)}</div>
-              <div className="col-span-2 text-center">{sgstRate.toFixed(1)}%</div>
-              <div className="col-span-4 text-right">{formatCurrency(sgstAmount, business.currency)}</div>
-            </div>
-
-            {/* CGST Row */}
-            <div className="grid grid-cols-12 gap-3 py-2 text-xs text-gray-900">
-              <div className="col-span-2 text-left">CGST</div>
-              <div className="col-span-4 text-right">{formatCurrency(totals.taxableAmount, business.currency)}</div>
-              <div className="col-span-2 text-center">{cgstRate.toFixed(1)}%</div>
-              <div className="col-span-4 text-right">{formatCurrency(cgstAmount, business.currency)}</div>
-            </div>
+            {/* One row per tax component: IGST, or CGST with SGST/UTGST */}
+            {gstRows.map((row, index) => (
+              <div
+                key={`${row.label}-${row.rate}`}
+                className={`grid grid-cols-12 gap-3 py-2 text-xs text-gray-900 ${index < gstRows.length - 1 ? 'border-b border-gray-300' : ''}`}
+              >
+                <div className="col-span-2 text-left">{row.label}</div>
+                <div className="col-span-4 text-right">{formatCurrency(row.taxableValue, currency)}</div>
+                <div className="col-span-2 text-center">{row.rate.toFixed(1)}%</div>
+                <div className="col-span-4 text-right">{formatCurrency(row.amount, currency)}</div>
+              </div>
+            ))}
           </div>
           <div className="px-6 py-4">
             <p className="text-gray-900 font-bold mb-3">Amounts</p>
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-gray-700">Sub Total</span>
-                <span className="text-gray-900 font-medium">{formatCurrency(totals.taxableAmount, business.currency)}</span>
+                <span className="text-gray-900 font-medium">{formatCurrency(totals.subtotal, currency)}</span>
               </div>
+              {totals.discountAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-700">Discount{invoice.discountType !== 'amount' && ` (${invoice.discount}%)`}</span>
+                  <span className="text-gray-900 font-medium">- {formatCurrency(totals.discountAmount, currency)}</span>
+                </div>
+              )}
+              {getChargesAt(totals, 'before_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between">
+                  <span className="text-gray-700">{charge.name}</span>
+                  <span className="text-gray-900 font-medium">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
+              {totals.taxAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-700">{settings.taxLabel || 'Tax'}</span>
+                  <span className="text-gray-900 font-medium">{formatCurrency(totals.taxAmount, currency)}</span>
+                </div>
+              )}
+              {getChargesAt(totals, 'after_tax').map((charge) => (
+                <div key={charge.id} className="flex justify-between">
+                  <span className="text-gray-700">{charge.name}</span>
+                  <span className="text-gray-900 font-medium">{formatCurrency(charge.grossAmount, currency)}</span>
+                </div>
+              ))}
               <div className="flex justify-between">
                 <span className="text-gray-700">Round off</span>
-                <span className="text-gray-900 font-medium">{totals.roundOff >= 0 ? '' : '- '}{formatCurrency(Math.abs(totals.roundOff), business.currency)}</span>
+                <span className="text-gray-900 font-medium">{totals.roundOff >= 0 ? '' : '- '}{formatCurrency(Math.abs(totals.roundOff), currency)}</span>
               </div>
               <div className="flex justify-between pt-2 border-t border-gray-300">
                 <span className="text-gray-900 font-bold text-base">Total</span>
-                <span className="text-gray-900 font-bold text-base">{formatCurrency(totals.total, business.currency)}</span>
+                <span className="text-gray-900 font-bold text-base">{formatCurrency(totals.total, currency)}</span>
               </div>
+              {currency !== baseCurrency && invoice.exchangeRate && (
+                <div className="flex justify-between">
+                  <span className="text-gray-700">
+                    Total in {baseCurrency}
+                    <span className="block text-xs text-gray-500">{formatExchangeRate(currency, invoice.exchangeRate, baseCurrency)}</span>
+                  </span>
+                  <span className="text-gray-900 font-medium">{formatCurrency(toBaseAmount(totals.total, invoice), baseCurrency)}</span>
+                </div>
+              )}
+              {(invoicePayments.length > 0 || invoiceNotes.length > 0) && (
+                <>
+                  {invoiceNotes.length > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">Credit/Debit Notes</span>
+                      <span className="text-gray-900 font-medium">
+                        {notesAdjustment < 0 ? '- ' : '+ '}{formatCurrency(Math.abs(notesAdjustment), currency)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Received</span>
+                    <span className="text-gray-900 font-medium">{formatCurrency(amountPaid, currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-900 font-bold">Balance Due</span>
+                    <span className="text-gray-900 font-bold">{formatCurrency(balanceDue, currency)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
 
+        {/* HSN/SAC Summary */}
+        {totals.hsnSummary.length > 0 && (
+          <div className="overflow-x-auto border-t-2 border-gray-900">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="border-b border-gray-300">
+                  <th className="text-left py-2 px-3 text-gray-900 font-bold border-r border-gray-300">HSN/SAC</th>
+                  <th className="text-right py-2 px-3 text-gray-900 font-bold border-r border-gray-300">Taxable value</th>
+                  <th className="text-center py-2 px-2 text-gray-900 font-bold border-r border-gray-300">Rate</th>
+                  {getTaxComponents(totals.gst.regime, totals.gst).map((component) => (
+                    <th key={component.label} className="text-right py-2 px-3 text-gray-900 font-bold border-r border-gray-300">{component.label}</th>
+                  ))}
+                  <th className="text-right py-2 px-3 text-gray-900 font-bold">Total tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {totals.hsnSummary.map((group) => (
+                  <tr key={`${group.hsnCode}-${group.rate}`} className="border-b border-gray-300 last:border-b-0">
+                    <td className="py-2 px-3 text-gray-900 font-mono border-r border-gray-300">{group.hsnCode}</td>
+                    <td className="py-2 px-3 text-gray-900 text-right border-r border-gray-300">{formatCurrency(group.taxableValue, currency)}</td>
+                    <td className="py-2 px-2 text-gray-900 text-center border-r border-gray-300">{group.rate.toFixed(1)}%</td>
+                    {getTaxComponents(totals.gst.regime, group).map((component) => (
+                      <td key={component.label} className="py-2 px-3 text-gray-900 text-right border-r border-gray-300">{formatCurrency(component.amount, currency)}</td>
+                    ))}
+                    <td className="py-2 px-3 text-gray-900 text-right">{formatCurrency(group.total, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Declaration for exports, SEZ supplies and deemed exports */}
+        {declaration.length > 0 && (
+          <div className="px-6 py-3 border-t-2 border-gray-900">
+            {declaration.map((line) => (
+              <p key={line} className="text-gray-900 text-xs font-bold">{line}</p>
+            ))}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="grid grid-cols-2 border-t-2 border-gray-900">
           <div className="px-6 py-4 border-r-2 border-gray-900">
             {/* Amount in words */}
             <div className="mb-4 pb-4 border-b border-gray-300">
               <p className="text-gray-900 font-bold mb-1">Invoice Amount In Words</p>
-              <p className="text-gray-700 text-sm">{numberToWords(Math.floor(totals.total))} Rupees only</p>
+              <p className="text-gray-700 text-sm">{numberToWords(Math.floor(totals.total))} {getCurrencyInfo(currency)?.unitName || currency} only</p>
             </div>
 
             {/* Terms and conditions */}
@@ -419,6 +691,186 @@ function ViewInvoice() {
           </div>
         </div>
       </div>
+
+      {/* Payments */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-teal-400" />
+            <h2 className="text-lg font-semibold text-white">Payments</h2>
+          </div>
+          {invoice.status !== 'cancelled' && balanceDue > 0 && (
+            <button onClick={() => setShowPaymentDialog(true)} className="btn-secondary flex items-center gap-2 text-sm">
+              <Plus className="w-4 h-4" />
+              Record Payment
+            </button>
+          )}
+        </div>
+
+        {invoicePayments.length === 0 ? (
+          <p className="text-midnight-400 text-sm">No payments recorded yet.</p>
+        ) : (
+          <div className="divide-y divide-midnight-700">
+            {invoicePayments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-white font-medium">
+                    {formatCurrency(payment.amount, currency)}
+                    <span className="text-midnight-400 font-normal text-sm"> · {getPaymentModeLabel(payment.mode)}</span>
+                  </p>
+                  <p className="text-midnight-400 text-sm truncate">
+                    {formatDate(payment.date)}
+                    {payment.reference && ` · Ref: ${payment.reference}`}
+                    {payment.note && ` · ${payment.note}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeletePayment(payment.id)}
+                  disabled={deletingPaymentId === payment.id}
+                  className="p-2 text-midnight-400 hover:text-coral-400 hover:bg-coral-500/10 rounded-lg transition-colors"
+                >
+                  {deletingPaymentId === payment.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between pt-4 mt-2 border-t border-midnight-600 text-sm">
+          <span className="text-midnight-300">Received {formatCurrency(amountPaid, currency)}</span>
+          <span className="text-white font-semibold">Balance Due {formatCurrency(balanceDue, currency)}</span>
+        </div>
+      </div>
+
+      {/* E-Invoice */}
+      {isEInvoiceSupply(invoice) && invoice.status !== 'cancelled' && (
+        <div className="glass rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <FileCode className="w-5 h-5 text-teal-400" />
+              <h2 className="text-lg font-semibold text-white">E-Invoice</h2>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleDownloadEInvoice} className="btn-secondary flex items-center gap-2 text-sm">
+                <Download className="w-4 h-4" />
+                Download JSON
+              </button>
+              <button onClick={() => setShowEInvoiceDialog(true)} className="btn-secondary flex items-center gap-2 text-sm">
+                {invoice.irn ? <Edit className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                {invoice.irn ? 'Edit IRN' : 'Record IRN'}
+              </button>
+            </div>
+          </div>
+
+          {eInvoiceErrors.length > 0 && (
+            <div className="mb-4 p-4 rounded-xl bg-coral-500/10 border border-coral-500/30">
+              <p className="text-coral-400 text-sm font-medium mb-2">Fix these before uploading to the IRP:</p>
+              <ul className="list-disc list-inside space-y-1 text-coral-300 text-sm">
+                {eInvoiceErrors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {invoice.irn ? (
+            <div className="space-y-1 text-sm">
+              <p className="text-midnight-400">IRN: <span className="text-white font-mono break-all">{invoice.irn}</span></p>
+              <p className="text-midnight-400">
+                Ack No: <span className="text-white font-mono">{invoice.ackNumber}</span>
+                {invoice.ackDate && <> · Ack Date: <span className="text-white font-mono">{invoice.ackDate}</span></>}
+              </p>
+            </div>
+          ) : (
+            <p className="text-midnight-400 text-sm">Download the JSON, upload it to the IRP, then record the IRN it returns.</p>
+          )}
+        </div>
+      )}
+
+      {/* Credit & Debit Notes */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <FileMinus className="w-5 h-5 text-teal-400" />
+            <h2 className="text-lg font-semibold text-white">Credit & Debit Notes</h2>
+          </div>
+          {invoice.status !== 'draft' && invoice.status !== 'cancelled' && (
+            <button onClick={() => setShowNoteDialog(true)} className="btn-secondary flex items-center gap-2 text-sm">
+              <Plus className="w-4 h-4" />
+              Issue Note
+            </button>
+          )}
+        </div>
+
+        {invoiceNotes.length === 0 ? (
+          <p className="text-midnight-400 text-sm">No notes issued against this invoice.</p>
+        ) : (
+          <div className="divide-y divide-midnight-700">
+            {invoiceNotes.map((note) => (
+              <div key={note.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-white font-medium">
+                    <span className="font-mono">{note.noteNumber}</span>
+                    <span className="text-midnight-400 font-normal text-sm"> · {getNoteTypeLabel(note.type)}</span>
+                  </p>
+                  <p className="text-midnight-400 text-sm truncate">
+                    {formatDate(note.date)}
+                    {note.reason && ` · ${note.reason}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`font-mono ${note.type === 'credit' ? 'text-coral-400' : 'text-teal-400'}`}>
+                    {note.type === 'credit' ? '- ' : '+ '}{formatCurrency(getNoteTotal(note, invoice.rounding), currency)}
+                  </span>
+                  <button
+                    onClick={() => handleDownloadNote(note)}
+                    className="p-2 text-midnight-400 hover:text-white hover:bg-midnight-700 rounded-lg transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteNote(note.id)}
+                    disabled={deletingNoteId === note.id}
+                    className="p-2 text-midnight-400 hover:text-coral-400 hover:bg-coral-500/10 rounded-lg transition-colors"
+                  >
+                    {deletingNoteId === note.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showNoteDialog && (
+        <CreditDebitNoteDialog
+          invoice={invoice}
+          allNotes={allNotes}
+          prefixes={{ credit: settings.creditNotePrefix || 'CN', debit: settings.debitNotePrefix || 'DN' }}
+          currency={currency}
+          isSaving={isSavingNote}
+          onSave={handleIssueNote}
+          onClose={() => setShowNoteDialog(false)}
+        />
+      )}
+
+      {showEInvoiceDialog && (
+        <EInvoiceDialog
+          invoice={invoice}
+          isSaving={isSavingEInvoice}
+          onSave={handleRecordIRN}
+          onClose={() => setShowEInvoiceDialog(false)}
+        />
+      )}
+
+      {showPaymentDialog && (
+        <PaymentDialog
+          invoiceId={invoice.id}
+          balanceDue={balanceDue}
+          currency={currency}
+          isSaving={isSavingPayment}
+          onSave={handleRecordPayment}
+          onClose={() => setShowPaymentDialog(false)}
+        />
+      )}
     </div>
   );
 }
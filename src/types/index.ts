@@ -2,33 +2,206 @@
 export interface InvoiceItem {
   id: string;
   name: string;
+  hsnCode?: string; // HSN for goods, SAC for services
   quantity: number | '';
   unit?: string;
   price: number | '';
+  priceIncludesTax?: boolean; // Price is what the customer pays, tax included
   discount?: number | ''; // Percentage (0-100)
   taxRate?: number | ''; // Percentage (0-100)
 }
 
-export type InvoiceStatus = 'draft' | 'pending' | 'paid' | 'overdue' | 'cancelled';
+// Invoice-level discount: a percentage of the items, or a fixed amount spread over them
+export type DiscountType = 'percent' | 'amount';
+
+// Shipping, packing and similar charges added to an invoice. Before-tax charges are part of the
+// value of supply and taxed when `taxable`; after-tax charges are added to the total untaxed.
+export type ChargePlacement = 'before_tax' | 'after_tax';
+
+export interface AdditionalCharge {
+  id: string;
+  name: string;
+  amount: number | '';
+  placement: ChargePlacement;
+  taxable: boolean;
+  taxRate?: number | ''; // Defaults to the invoice rate
+  hsnCode?: string; // SAC of the service charged for
+}
+
+export type InvoiceStatus = 'draft' | 'pending' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+
+// Payment Terms
+export type PaymentTermsCode =
+  | 'due_on_receipt'
+  | 'net_7'
+  | 'net_15'
+  | 'net_30'
+  | 'net_60'
+  | 'end_of_month'
+  | 'custom';
+
+export interface PaymentTerms {
+  code: PaymentTermsCode;
+  days?: number; // Only used by 'custom'
+}
+
+// Kind of supply an invoice is for. Exports and supplies to SEZs are zero-rated: either IGST is
+// paid and refunded later, or no tax is charged under a letter of undertaking (LUT) or bond.
+export type SupplyType =
+  | 'b2b'
+  | 'b2c'
+  | 'export_with_payment'
+  | 'export_without_payment'
+  | 'sez_with_payment'
+  | 'sez_without_payment'
+  | 'deemed_export';
+
+// How the goods on an invoice are moved, for its e-way bill
+export type TransportMode = 'road' | 'rail' | 'air' | 'ship';
+
+export interface TransportDetails {
+  mode: TransportMode;
+  distance?: number; // Kilometres; 0 lets the portal work it out from the PIN codes
+  transporterId?: string; // Transporter's GSTIN or TRANSIN
+  transporterName?: string;
+  vehicleNumber?: string; // Road only
+  transportDocNumber?: string; // Lorry receipt, railway receipt, airway bill or bill of lading number
+  transportDocDate?: string; // YYYY-MM-DD
+}
 
 export interface Invoice {
   id: string;
   invoiceNumber: string;
   date: string;
+  customerId?: string; // Saved customer billed; the customer* fields are the snapshot printed on the invoice
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   customerAddress: string;
+  customerStateCode?: string; // GST state code, e.g. '09'
+  customerGstin?: string;
+  placeOfSupply?: string; // GST state code; decides CGST + SGST vs IGST
+  supplyType?: SupplyType; // B2B with a customer GSTIN and B2C without when missing
+  portCode?: string; // Exports: port the goods leave from
+  shippingBillNumber?: string;
+  shippingBillDate?: string; // YYYY-MM-DD
+  transport?: TransportDetails; // Goods consignments that need an e-way bill
   items: InvoiceItem[];
   taxRate: number;
   discount: number;
+  discountType?: DiscountType; // 'percent' when missing
+  charges?: AdditionalCharge[];
+  currency?: string; // ISO 4217 code; the business's base currency when missing
+  exchangeRate?: number; // Base currency per unit of `currency`, fixed when the invoice is issued
   notes: string;
   status: InvoiceStatus;
+  paymentTerms?: PaymentTerms;
+  dueDate?: string; // YYYY-MM-DD, derived from date and paymentTerms
+  rounding?: RoundingSettings; // Settings the invoice was issued under, so later changes leave its total alone
+  // Returned by the invoice registration portal (IRP) once the e-invoice is registered
+  irn?: string;
+  ackNumber?: string;
+  ackDate?: string; // As the IRP returns it, e.g. '2024-04-01 10:15:00'
+  signedQrCode?: string; // Signed JWT the invoice prints as a QR code
+  createdAt?: string;
+  updatedAt?: string;
+  user_id?: string;
+}
+
+// Estimate Types
+export type EstimateStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export interface Estimate {
+  id: string;
+  estimateNumber: string;
+  date: string;
+  validUntil: string; // YYYY-MM-DD
+  customerId?: string; // Saved customer quoted; the customer* fields are the snapshot printed on the estimate
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  customerAddress: string;
+  customerStateCode?: string; // GST state code, e.g. '09'
+  customerGstin?: string;
+  placeOfSupply?: string; // GST state code; decides CGST + SGST vs IGST
+  supplyType?: SupplyType;
+  items: InvoiceItem[];
+  taxRate: number;
+  discount: number;
+  discountType?: DiscountType; // 'percent' when missing
+  charges?: AdditionalCharge[];
+  currency?: string; // ISO 4217 code; the business's base currency when missing
+  exchangeRate?: number; // Base currency per unit of `currency`
+  notes: string;
+  status: EstimateStatus;
+  convertedInvoiceId?: string;
+  rounding?: RoundingSettings;
+  createdAt?: string;
+  updatedAt?: string;
+  user_id?: string;
+}
+
+// Credit / Debit Note Types
+export type NoteType = 'credit' | 'debit';
+
+// A correction issued against an invoice: credit notes reduce what the customer owes, debit notes add to it
+export interface CreditDebitNote {
+  id: string;
+  noteNumber: string;
+  type: NoteType;
+  invoiceId: string;
+  date: string;
+  reason: string;
+  items: InvoiceItem[]; // Returned invoice lines and/or free-form adjustments
+  taxRate: number;
+  discount: number;
   createdAt?: string;
   updatedAt?: string;
   user_id?: string;
 }
 
+// Recurring Invoice Types
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+export type RecurringStatus = 'active' | 'paused' | 'ended';
+
+// The parts of an invoice copied into every generated invoice
+export type RecurringTemplate = Pick<
+  Invoice,
+  | 'customerId' | 'customerName' | 'customerEmail' | 'customerPhone' | 'customerAddress' | 'customerStateCode' | 'customerGstin' | 'placeOfSupply' | 'supplyType'
+  | 'items' | 'taxRate' | 'discount' | 'discountType' | 'charges' | 'currency' | 'exchangeRate' | 'notes' | 'paymentTerms' | 'rounding'
+>;
+
+export interface RecurringProfile {
+  id: string;
+  name: string;
+  template: RecurringTemplate;
+  frequency: RecurringFrequency;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, last day a run may fall on
+  nextRunDate: string; // YYYY-MM-DD
+  lastRunDate?: string;
+  autoSend: boolean; // Issue generated invoices as pending instead of leaving them as drafts
+  status: RecurringStatus;
+  createdAt?: string;
+  updatedAt?: string;
+  user_id?: string;
+}
+
+// Payment Types
+export type PaymentMode = 'cash' | 'upi' | 'bank' | 'cheque' | 'card';
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  date: string;
+  mode: PaymentMode;
+  reference?: string; // UTR, cheque or transaction number
+  note?: string;
+  createdAt?: string;
+  user_id?: string;
+}
+
 // Customer Types
 export interface Customer {
   id: string;
@@ -36,6 +209,9 @@ export interface Customer {
   email?: string;
   phone?: string;
   address?: string;
+  stateCode?: string; // GST state code, e.g. '09'
+  gstin?: string;
+  paymentTerms?: PaymentTerms;
 }
 
 // Product Types
@@ -45,7 +221,9 @@ export interface Product {
   description?: string;
   price: number;
   unit?: string;
+  hsnCode?: string; // HSN for goods, SAC for services
   taxRate?: number; // GST/Tax percentage (0-100)
+  priceIncludesTax?: boolean;
 }
 
 // Business Profile Types
@@ -55,10 +233,12 @@ export interface Business {
   address: string;
   city: string;
   state: string;
+  stateCode?: string; // GST state code of the registration; falls back to the GSTIN prefix
   pincode: string;
   phone: string;
   email: string;
   taxId: string;
+  lutNumber?: string; // ARN of the letter of undertaking for zero-rated supplies without tax
   logo: string | null;
   signature: string | null;
   currency: string;
@@ -75,21 +255,105 @@ export interface Settings {
   currency: string;
   taxRate: number;
   invoicePrefix: string;
-  defaultPaymentTerms: string;
+  estimatePrefix: string;
+  estimateValidityDays: number;
+  creditNotePrefix: string;
+  debitNotePrefix: string;
+  defaultPaymentTerms: PaymentTerms;
   showLogo: boolean;
   taxLabel: string;
+  rounding: RoundingSettings;
+  exchangeRates: Record<string, number>; // Base currency per unit, keyed by ISO code
+}
+
+// Money rounding: 'up' and 'down' move away from and toward zero
+export type RoundingMode = 'nearest' | 'up' | 'down';
+export type TaxRoundingLevel = 'line' | 'invoice';
+
+export interface RoundingSettings {
+  mode: RoundingMode;
+  increment: number; // The invoice total is rounded to a multiple of this: 0.01, 0.05, 0.10 or 1.00
+  taxRounding: TaxRoundingLevel; // Round tax on every line, or once per tax rate on the invoice
+}
+
+// How GST is split: intra-state supplies pay central + state (or union territory) tax, inter-state pay integrated tax
+export type GSTRegime = 'cgst_sgst' | 'cgst_utgst' | 'igst';
+
+export interface GSTBreakdown {
+  regime: GSTRegime;
+  cgst: number;
+  sgst: number;
+  utgst: number;
+  igst: number;
+  total: number;
+}
+
+// One invoice line after its own and the invoice-level discount
+export interface LineTotals {
+  id: string;
+  hsnCode?: string;
+  quantity: number;
+  grossAmount: number; // Quantity x price, less any tax included in the price
+  discountAmount: number;
+  taxableValue: number;
+  taxRate: number; // The line's own rate, else the invoice rate
+  taxAmount: number;
+  amount: number;
+}
+
+// Tax on every line charged at one rate
+export interface TaxRateSummary extends Omit<GSTBreakdown, 'regime'> {
+  rate: number;
+  taxableValue: number;
+}
+
+// Tax on the lines sharing one HSN/SAC code and rate
+export interface HSNSummary extends TaxRateSummary {
+  hsnCode: string;
+  quantity: number;
 }
 
 // Invoice Totals
+// A charge with its tax worked out; only taxable before-tax charges carry a rate
+export interface ChargeTotals extends LineTotals {
+  name: string;
+  placement: ChargePlacement;
+}
+
 export interface InvoiceTotals {
-  subtotal: number;
+  subtotal: number; // Line values before the invoice discount and tax
   discountAmount: number;
-  taxableAmount: number;
+  charges: ChargeTotals[];
+  taxableAmount: number; // Lines after discounts plus taxable charges: the value tax is charged on
   taxAmount: number;
+  lines: LineTotals[];
+  taxBreakdown: TaxRateSummary[]; // Ascending by rate
+  hsnSummary: HSNSummary[]; // Lines without a code are left out
+  gst: GSTBreakdown;
   roundOff: number;
   total: number;
 }
 
+// Extra data printed alongside an invoice PDF
+export interface InvoicePDFOptions {
+  title?: string; // Heading at the top of the page, defaults to "Tax Invoice"
+  documentLabel?: string; // Used in "<label> No." and "<label> Details", defaults to "Invoice"
+  validUntil?: string;
+  reference?: { number: string; date: string; reason?: string }; // Original invoice a note is issued against
+  payments?: Payment[];
+  notes?: CreditDebitNote[];
+}
+
+// A titled table for report exports, cells already formatted
+export interface ReportPDFContent {
+  title: string;
+  subtitle?: string;
+  head: string[];
+  body: string[][];
+  foot?: string[]; // Totals row
+  alignments?: ('left' | 'center' | 'right')[]; // Per column, left when missing
+}
+
 // Date Format Types
 export type DateFormat = 'short' | 'long' | 'input';
 
@@ -100,6 +364,10 @@ export interface Tables {
   PRODUCTS: string;
   BUSINESS: string;
   SETTINGS: string;
+  PAYMENTS: string;
+  ESTIMATES: string;
+  CREDIT_DEBIT_NOTES: string;
+  RECURRING_PROFILES: string;
 }
 
 // Form Errors
@@ -126,9 +394,7 @@ export interface StatusOption {
 export interface DashboardStats {
   totalInvoices: number;
   totalRevenue: number;
-  pendingAmount: number;
   paidCount: number;
-  pendingCount: number;
   overdueCount: number;
   thisMonthRevenue: number;
 }
@@ -137,6 +403,7 @@ export interface InvoiceStats {
   total: number;
   draft: number;
   pending: number;
+  partiallyPaid: number;
   paid: number;
   overdue: number;
 }
@@ -147,7 +414,9 @@ export interface ProductFormData {
   description: string;
   price: string;
   unit: string;
+  hsnCode: string;
   taxRate: string;
+  priceIncludesTax: boolean;
 }
 
 // Customer Form Data
@@ -156,4 +425,7 @@ export interface CustomerFormData {
   phone: string;
   email: string;
   address: string;
+  stateCode: string;
+  gstin: string;
+  paymentTerms: PaymentTerms | null;
 }
@@ -0,0 +1,151 @@
+import { formatDate } from './helpers';
+import { sumMoney } from './money';
+import { getBaseCurrency, toBaseAmount } from './currency';
+import { getToday } from './paymentTerms';
+import { getBalanceDue, getInvoicePayments } from './payments';
+import { getInvoiceNotes } from './creditDebitNotes';
+import { findInvoiceCustomer, normalizeName } from './invoiceCustomer';
+import type { CSVValue } from './csv';
+import type { Business, CreditDebitNote, Customer, Invoice, Payment, ReportPDFContent } from '../types';
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 Days' },
+  { key: 'days31to60', label: '31-60 Days' },
+  { key: 'days61to90', label: '61-90 Days' },
+  { key: 'days90plus', label: '90+ Days' },
+];
+
+// Outstanding amounts in each bucket, and in all of them
+export type AgingAmounts = Record<AgingBucket, number> & { total: number };
+
+// An invoice with money still owed on it, amounts in the base currency
+export interface AgingInvoice {
+  invoice: Invoice;
+  dueDate: string; // YYYY-MM-DD
+  daysPastDue: number; // 0 until the due date has passed
+  bucket: AgingBucket;
+  balance: number;
+}
+
+export interface AgingCustomerRow {
+  id: string; // The saved customer's id, or `name:` and the billed name for invoices not matched to one
+  customerName: string;
+  invoices: AgingInvoice[]; // Oldest due date first
+  amounts: AgingAmounts;
+}
+
+export interface AgingReport {
+  asOf: string; // YYYY-MM-DD
+  currency: string;
+  customers: AgingCustomerRow[]; // Most owed first
+  totals: AgingAmounts;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only these can still be owed: a paid invoice is settled and a draft or cancelled one never was
+const isReceivable = (invoice: Invoice): boolean =>
+  invoice.status === 'pending' || invoice.status === 'partially_paid' || invoice.status === 'overdue';
+
+const emptyAmounts = (): AgingAmounts => ({ current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0, total: 0 });
+
+const addAmount = (amounts: AgingAmounts, bucket: AgingBucket, amount: number): void => {
+  amounts[bucket] = sumMoney([amounts[bucket], amount]);
+  amounts.total = sumMoney([amounts.total, amount]);
+};
+
+// Invoices without a due date are due on receipt
+export const getInvoiceDueDate = (invoice: Invoice): string =>
+  invoice.dueDate || formatDate(invoice.date, 'input');
+
+// Whole calendar days from `dueDate` to `asOf`, both YYYY-MM-DD; never negative
+export const getDaysPastDue = (dueDate: string, asOf: string = getToday()): number =>
+  Math.max(0, Math.round((Date.parse(asOf) - Date.parse(dueDate)) / DAY_MS));
+
+export const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'days90plus';
+};
+
+// What each customer owes on `asOf`, bucketed by how long past due each invoice is. Balances are
+// net of recorded payments and credit/debit notes, converted at each invoice's exchange rate.
+// Invoices are grouped by the saved customer they were billed to, so a renamed customer stays one row.
+export const buildAgingReport = (
+  invoices: Invoice[],
+  customers: Customer[],
+  payments: Payment[],
+  notes: CreditDebitNote[],
+  business: Business,
+  asOf: string = getToday()
+): AgingReport => {
+  const rows = new Map<string, AgingCustomerRow>();
+  const totals = emptyAmounts();
+
+  invoices.filter(isReceivable).forEach(invoice => {
+    const balance = toBaseAmount(
+      getBalanceDue(invoice, getInvoicePayments(payments, invoice.id), getInvoiceNotes(notes, invoice.id)),
+      invoice
+    );
+    if (balance <= 0) return;
+
+    const dueDate = getInvoiceDueDate(invoice);
+    const daysPastDue = getDaysPastDue(dueDate, asOf);
+    const bucket = getAgingBucket(daysPastDue);
+    const customer = findInvoiceCustomer(invoice, customers);
+    const id = customer ? customer.id : `name:${normalizeName(invoice.customerName)}`;
+    const customerName = customer ? customer.name : (invoice.customerName || '').trim();
+    const row = rows.get(id) || { id, customerName, invoices: [], amounts: emptyAmounts() };
+
+    row.invoices.push({ invoice, dueDate, daysPastDue, bucket, balance });
+    addAmount(row.amounts, bucket, balance);
+    addAmount(totals, bucket, balance);
+    rows.set(id, row);
+  });
+
+  return {
+    asOf,
+    currency: getBaseCurrency(business),
+    customers: [...rows.values()]
+      .map(row => ({ ...row, invoices: row.invoices.sort((a, b) => a.dueDate.localeCompare(b.dueDate)) }))
+      .sort((a, b) => b.amounts.total - a.amounts.total),
+    totals,
+  };
+};
+
+// Outstanding amount that is past its due date
+export const getPastDueAmount = (amounts: AgingAmounts): number =>
+  sumMoney([amounts.total, -amounts.current]);
+
+// One row per customer and a totals row, header first
+export const getAgingRows = (report: AgingReport): CSVValue[][] => [
+  ['Customer', 'Invoices', ...AGING_BUCKETS.map(bucket => `${bucket.label} (${report.currency})`), `Total (${report.currency})`],
+  ...report.customers.map(row => [row.customerName, row.invoices.length, ...AGING_BUCKETS.map(bucket => row.amounts[bucket.key]), row.amounts.total]),
+  ['Total', report.customers.reduce((sum, row) => sum + row.invoices.length, 0), ...AGING_BUCKETS.map(bucket => report.totals[bucket.key]), report.totals.total],
+];
+
+const formatPDFAmount = (amount: number): string =>
+  amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const getAgingPDFContent = (report: AgingReport): ReportPDFContent => {
+  const [, ...rows] = getAgingRows(report);
+  const head = ['Customer', 'Invoices', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total'];
+  const toCells = (row: CSVValue[]): string[] =>
+    row.map((value, index) => (typeof value === 'number' && index > 1 ? formatPDFAmount(value) : String(value ?? '')));
+  return {
+    title: 'Receivables Aging',
+    subtitle: `As of ${formatDate(report.asOf)} | Days past the due date | Amounts in ${report.currency}`,
+    head,
+    body: rows.slice(0, -1).map(toCells),
+    foot: toCells(rows[rows.length - 1]),
+    alignments: head.map((_, index) => (index === 0 ? 'left' : 'right')),
+  };
+};
+
+export const getAgingFilename = (report: AgingReport, extension: string): string =>
+  `receivables-aging-${report.asOf}.${extension}`;
@@ -0,0 +1,73 @@
+import { calculateInvoiceTotals, getInvoiceTotals } from './helpers';
+import { sumMoney } from './money';
+import type { CreditDebitNote, Invoice, InvoiceItem, InvoicePDFOptions, NoteType, RoundingSettings } from '../types';
+
+export const NOTE_TYPE_OPTIONS: { value: NoteType; label: string }[] = [
+  { value: 'credit', label: 'Credit Note' },
+  { value: 'debit', label: 'Debit Note' },
+];
+
+export const getNoteTypeLabel = (type: NoteType): string =>
+  NOTE_TYPE_OPTIONS.find(option => option.value === type)?.label || type;
+
+// Notes issued against one invoice, oldest first
+export const getInvoiceNotes = (notes: CreditDebitNote[], invoiceId: string): CreditDebitNote[] =>
+  notes
+    .filter(note => note.invoiceId === invoiceId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Notes carry the invoice's tax rate for lines without one, and are rounded with the invoice's
+// `rounding`, so they total the same way the invoice does. Notes issued before returned lines
+// carried the invoice discount themselves still have it in `discount`.
+export const getNoteTotal = (note: CreditDebitNote, rounding?: RoundingSettings): number =>
+  calculateInvoiceTotals(note.items, note.taxRate, note.discount, undefined, rounding).total;
+
+// Invoice discount on the invoice's lines, as a percentage. A fixed-amount discount becomes the
+// share of the items it took off, so returned lines are credited at what they were actually billed for.
+export const getNoteDiscount = (invoice: Invoice): number => {
+  if (invoice.discountType !== 'amount') return Number(invoice.discount) || 0;
+  const { subtotal, discountAmount } = getInvoiceTotals(invoice);
+  return subtotal > 0 ? (discountAmount / subtotal) * 100 : 0;
+};
+
+// An invoice line as it goes on a note, with the invoice discount folded into its own. The
+// discount only ever applied to the invoice's lines, never to adjustments added to the note.
+export const toReturnedLine = (item: InvoiceItem, quantity: number, invoiceDiscount: number): InvoiceItem => {
+  const lineDiscount = Number(item.discount) || 0;
+  return { ...item, quantity, discount: 100 - ((100 - lineDiscount) * (100 - invoiceDiscount)) / 100 };
+};
+
+// Net change to what the customer owes: debit notes add, credit notes subtract
+export const getNotesAdjustment = (notes: CreditDebitNote[], rounding?: RoundingSettings): number =>
+  sumMoney(notes.map(note => (note.type === 'debit' ? 1 : -1) * getNoteTotal(note, rounding)));
+
+// Quantity of an invoice line already returned through credit notes.
+// Returned lines keep the id of the invoice line they came from.
+export const getCreditedQuantity = (notes: CreditDebitNote[], itemId: string): number =>
+  notes
+    .filter(note => note.type === 'credit')
+    .flatMap(note => note.items)
+    .filter(item => item.id === itemId)
+    .reduce((sum, item) => sum + (Number(item.quantity) || 0), 0);
+
+// Invoice-shaped copy of a note so the invoice PDF code can render it
+export const noteToPrintable = (note: CreditDebitNote, invoice: Invoice): Invoice => ({
+  ...invoice,
+  id: note.id,
+  invoiceNumber: note.noteNumber,
+  date: note.date,
+  items: note.items,
+  taxRate: note.taxRate,
+  discount: note.discount,
+  discountType: 'percent',
+  charges: [],
+  notes: '',
+  dueDate: undefined,
+  paymentTerms: undefined,
+});
+
+export const getNotePDFOptions = (note: CreditDebitNote, invoice: Invoice): InvoicePDFOptions => ({
+  title: getNoteTypeLabel(note.type),
+  documentLabel: getNoteTypeLabel(note.type),
+  reference: { number: invoice.invoiceNumber, date: invoice.date, reason: note.reason },
+});
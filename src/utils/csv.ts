@@ -0,0 +1,15 @@
+export type CSVValue = string | number | null | undefined;
+
+// Quote a cell when it holds a comma, quote or line break, doubling any quotes inside
+const toCell = (value: CSVValue): string => {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows as CSV text, header row first. Line endings are CRLF, as spreadsheet programs expect.
+export const toCSV = (rows: CSVValue[][]): string =>
+  rows.map(row => row.map(toCell).join(',')).join('\r\n');
+
+// A CSV file that opens as UTF-8 in Excel, which needs the byte order mark
+export const toCSVBlob = (rows: CSVValue[][]): Blob =>
+  new Blob(['\uFEFF', toCSV(rows)], { type: 'text/csv;charset=utf-8' });
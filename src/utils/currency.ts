@@ -0,0 +1,84 @@
+import { roundMoney } from './money';
+import type { Business, Invoice, Settings } from '../types';
+
+export interface CurrencyInfo {
+  code: string; // ISO 4217
+  name: string;
+  symbol: string;
+  locale: string; // How amounts in this currency are usually written
+  unitName: string; // For amounts in words, e.g. "Rupees"
+}
+
+export const BASE_CURRENCY = 'INR';
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', locale: 'en-IN', unitName: 'Rupees' },
+  { code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', unitName: 'US Dollars' },
+  { code: 'EUR', name: 'Euro', symbol: '€', locale: 'en-IE', unitName: 'Euros' },
+  { code: 'GBP', name: 'British Pound', symbol: '£', locale: 'en-GB', unitName: 'Pounds' },
+  { code: 'AED', name: 'UAE Dirham', symbol: 'AED', locale: 'en-AE', unitName: 'Dirhams' },
+  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', locale: 'en-SG', unitName: 'Singapore Dollars' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', locale: 'en-AU', unitName: 'Australian Dollars' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', locale: 'en-CA', unitName: 'Canadian Dollars' },
+  { code: 'SAR', name: 'Saudi Riyal', symbol: 'SAR', locale: 'en-SA', unitName: 'Riyals' },
+];
+
+export const getCurrencyInfo = (code: string): CurrencyInfo | undefined =>
+  CURRENCIES.find(currency => currency.code === code);
+
+// ISO code for a currency given as a code or, as `Business.currency` stores it, a symbol
+export const toCurrencyCode = (currency: string | undefined): string | undefined => {
+  if (!currency) return undefined;
+  const value = currency.trim();
+  if (/^[A-Z]{3}$/.test(value)) return value;
+  return CURRENCIES.find(info => info.symbol === value)?.code;
+};
+
+// The currency the books are kept in; reports and the dashboard add up in it
+export const getBaseCurrency = (business: Partial<Business>): string =>
+  toCurrencyCode(business.currency) || BASE_CURRENCY;
+
+export const getInvoiceCurrency = (invoice: Pick<Invoice, 'currency'>, business: Partial<Business>): string =>
+  invoice.currency || getBaseCurrency(business);
+
+export const isForeignCurrency = (invoice: Pick<Invoice, 'currency'>, business: Partial<Business>): boolean =>
+  getInvoiceCurrency(invoice, business) !== getBaseCurrency(business);
+
+// Rate saved in the settings rates table for `code`, in base currency per unit
+export const getStoredRate = (settings: Partial<Settings>, code: string): number | undefined => {
+  const rate = Number(settings.exchangeRates?.[code]);
+  return rate > 0 ? rate : undefined;
+};
+
+// An invoice amount in base currency. Invoices in the base currency, and older ones without a
+// currency, have a rate of 1.
+export const toBaseAmount = (amount: number, invoice: Pick<Invoice, 'currency' | 'exchangeRate'>): number => {
+  const rate = invoice.currency && invoice.exchangeRate ? invoice.exchangeRate : 1;
+  return rate === 1 ? amount : roundMoney(amount * rate);
+};
+
+// Amount written the way its currency is, e.g. "$1,234.50" or "₹1,23,450.00". Symbols and codes
+// outside the table fall back to prefixing the amount.
+export const formatMoney = (amount: number, currency: string = BASE_CURRENCY): string => {
+  const code = toCurrencyCode(currency);
+  const info = code ? getCurrencyInfo(code) : undefined;
+  if (!code || !info) {
+    return `${currency}${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+  return new Intl.NumberFormat(info.locale, { style: 'currency', currency: code }).format(amount);
+};
+
+// Amount for the PDF: jsPDF's built-in fonts lack symbols like ₹, so the code is printed instead
+export const formatPDFMoney = (amount: number, currency: string = BASE_CURRENCY): string => {
+  const code = toCurrencyCode(currency);
+  const info = code ? getCurrencyInfo(code) : undefined;
+  const prefix = code === 'INR' ? 'Rs.' : code || currency;
+  return `${prefix} ${amount.toLocaleString(info?.locale || 'en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+};
+
+// "1 USD = 83.2500 INR"
+export const formatExchangeRate = (code: string, rate: number, baseCode: string): string =>
+  `1 ${code} = ${rate.toFixed(4)} ${baseCode}`;
@@ -0,0 +1,47 @@
+import { formatDate, getInvoiceTotals } from './helpers';
+import { sumMoney } from './money';
+import { getBaseCurrency, toBaseAmount } from './currency';
+import { getInvoiceNotes, getNotesAdjustment } from './creditDebitNotes';
+import { buildAgingReport, getPastDueAmount } from './aging';
+import { findInvoiceCustomer } from './invoiceCustomer';
+import type { Business, CreditDebitNote, Customer, Invoice, Payment } from '../types';
+
+// What a customer has been billed and still owes, in the base currency
+export interface CustomerSummary {
+  currency: string;
+  invoiceCount: number; // Issued invoices; drafts and cancelled ones are left out
+  totalBilled: number; // Net of credit/debit notes
+  outstanding: number;
+  pastDue: number;
+  lastInvoiceDate: string; // YYYY-MM-DD, '' before the first invoice
+}
+
+export const getCustomerInvoices = (customer: Customer, invoices: Invoice[], customers: Customer[]): Invoice[] =>
+  invoices.filter(invoice => findInvoiceCustomer(invoice, customers)?.id === customer.id);
+
+// Totals over one customer's invoices, as returned by getCustomerInvoices
+export const getCustomerSummary = (
+  invoices: Invoice[],
+  customers: Customer[],
+  payments: Payment[],
+  notes: CreditDebitNote[],
+  business: Business
+): CustomerSummary => {
+  const issued = invoices.filter(invoice => invoice.status !== 'draft' && invoice.status !== 'cancelled');
+  const aging = buildAgingReport(invoices, customers, payments, notes, business);
+
+  return {
+    currency: getBaseCurrency(business),
+    invoiceCount: issued.length,
+    totalBilled: sumMoney(issued.map(invoice => toBaseAmount(
+      sumMoney([getInvoiceTotals(invoice).total, getNotesAdjustment(getInvoiceNotes(notes, invoice.id), invoice.rounding)]),
+      invoice
+    ))),
+    outstanding: aging.totals.total,
+    pastDue: getPastDueAmount(aging.totals),
+    lastInvoiceDate: issued.reduce((latest, invoice) => {
+      const date = formatDate(invoice.date, 'input');
+      return date > latest ? date : latest;
+    }, ''),
+  };
+};
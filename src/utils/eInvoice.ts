@@ -0,0 +1,367 @@
+import { getInvoiceTotals, splitGST } from './helpers';
+import { roundMoney, sumMoney } from './money';
+import { getBaseCurrency, getInvoiceCurrency, toBaseAmount } from './currency';
+import {
+  EXPORT_STATE_CODE,
+  getBusinessStateCode,
+  getInvoiceGSTRegime,
+  getPlaceOfSupply,
+  getStateCodeFromGSTIN,
+  getStateName,
+  getSupplyType,
+  isExportSupply,
+  isValidGSTIN,
+  isValidHSN,
+} from './gst';
+import type { Business, Invoice, SupplyType } from '../types';
+
+// GST e-invoice in the IRP's schema version 1.1. Amounts are in rupees, whatever the invoice currency.
+export interface EInvoice {
+  Version: '1.1';
+  TranDtls: {
+    TaxSch: 'GST';
+    SupTyp: string;
+    RegRev: 'Y' | 'N'; // Reverse charge
+    IgstOnIntra: 'Y' | 'N';
+  };
+  DocDtls: {
+    Typ: 'INV' | 'CRN' | 'DBN';
+    No: string;
+    Dt: string; // DD/MM/YYYY
+  };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: EInvoiceValues;
+  ExpDtls?: EInvoiceExport;
+}
+
+export interface EInvoiceParty {
+  Gstin: string; // 'URP' for an unregistered foreign buyer
+  LglNm: string;
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string; // Unit quantity code (UQC)
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number; // SGST or UTGST
+  CesRt: number;
+  CesAmt: number;
+  CesNonAdvlAmt: number;
+  StateCesRt: number;
+  StateCesAmt: number;
+  StateCesNonAdvlAmt: number;
+  OthChrg: number;
+  TotItemVal: number;
+}
+
+export interface EInvoiceValues {
+  AssVal: number;
+  CgstVal: number;
+  SgstVal: number;
+  IgstVal: number;
+  CesVal: number;
+  StCesVal: number;
+  Discount: number;
+  OthChrg: number;
+  RndOffAmt: number;
+  TotInvVal: number;
+  TotInvValFc?: number; // Total in the invoice's foreign currency
+}
+
+export interface EInvoiceExport {
+  ShipBNo?: string;
+  ShipBDt?: string; // DD/MM/YYYY
+  Port?: string;
+  RefClm: 'Y' | 'N'; // Whether a refund of the IGST paid will be claimed
+  ForCur?: string;
+}
+
+// Supply type codes of the schema; B2C supplies are not e-invoiced
+const SUPPLY_TYPE_CODES: Partial<Record<SupplyType, string>> = {
+  b2b: 'B2B',
+  sez_with_payment: 'SEZWP',
+  sez_without_payment: 'SEZWOP',
+  export_with_payment: 'EXPWP',
+  export_without_payment: 'EXPWOP',
+  deemed_export: 'DEXP',
+};
+
+export const isEInvoiceSupply = (invoice: Pick<Invoice, 'supplyType' | 'customerGstin'>): boolean =>
+  Boolean(SUPPLY_TYPE_CODES[getSupplyType(invoice)]);
+
+// Unit quantity codes for the units products are usually sold in; anything else is 'OTH'
+const UNIT_CODES: Record<string, string> = {
+  piece: 'PCS',
+  pcs: 'PCS',
+  nos: 'NOS',
+  unit: 'NOS',
+  kg: 'KGS',
+  kgs: 'KGS',
+  g: 'GMS',
+  gms: 'GMS',
+  liter: 'LTR',
+  litre: 'LTR',
+  ltr: 'LTR',
+  ml: 'MLT',
+  dozen: 'DOZ',
+  doz: 'DOZ',
+  box: 'BOX',
+  pack: 'PAC',
+  pac: 'PAC',
+  set: 'SET',
+  mtr: 'MTR',
+};
+
+export const toUnitCode = (unit: string | undefined): string => UNIT_CODES[(unit || '').trim().toLowerCase()] || 'OTH';
+
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// Differences up to a rupee are accepted by the IRP
+const TOLERANCE = 1;
+
+const PIN_CODE = /\b[1-9]\d{5}\b/;
+
+// DD/MM/YYYY, as the GST portals write dates
+export const toPortalDate = (date: string): string => {
+  const d = new Date(date);
+  return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}/${d.getFullYear()}`;
+};
+
+// Phone numbers are 6 to 12 digits without punctuation
+const toPhone = (phone: string | undefined): string | undefined => {
+  const digits = (phone || '').replace(/\D/g, '').slice(-12);
+  return digits.length >= 6 ? digits : undefined;
+};
+
+// A free-text address as address lines, locality and PIN code. The last part is taken as the locality.
+export const splitAddress = (address: string | undefined): Pick<EInvoiceParty, 'Addr1' | 'Addr2' | 'Loc' | 'Pin'> => {
+  const parts = (address || '')
+    .split(/[\n,]/)
+    .map(part => part.replace(PIN_CODE, '').replace(/[\s-]+$/, '').trim())
+    .filter(Boolean);
+  return {
+    Addr1: parts[0] || '',
+    Addr2: parts.slice(1, -1).join(', ') || undefined,
+    Loc: parts[parts.length - 1] || '',
+    Pin: Number((address || '').match(PIN_CODE)?.[0]) || 0,
+  };
+};
+
+// The e-invoice for `invoice`, built from the same totals the invoice prints. Foreign-currency
+// amounts are converted at the invoice's exchange rate.
+export const buildEInvoice = (invoice: Invoice, business: Business): EInvoice => {
+  const supplyType = getSupplyType(invoice);
+  const exported = isExportSupply(supplyType);
+  const regime = getInvoiceGSTRegime(invoice, business);
+  const totals = getInvoiceTotals(invoice, regime);
+  const toRupees = (amount: number): number => toBaseAmount(amount, invoice);
+  const currency = getInvoiceCurrency(invoice, business);
+  const foreign = currency !== getBaseCurrency(business);
+
+  const itemLines = invoice.items.map((item, index) => ({
+    line: totals.lines[index],
+    name: item.name,
+    unit: toUnitCode(item.unit),
+  }));
+  // Taxable charges are supplies of their own and are listed as service lines; the rest are other charges
+  const chargeLines = totals.charges
+    .filter(charge => charge.taxableValue > 0)
+    .map(charge => ({ line: charge, name: charge.name, unit: 'OTH' }));
+  const otherCharges = totals.charges.filter(charge => charge.taxableValue === 0);
+
+  const items: EInvoiceItem[] = [...itemLines, ...chargeLines].map(({ line, name, unit }, index) => {
+    const tax = splitGST(toRupees(roundMoney(line.taxAmount)), regime);
+    const assessable = toRupees(line.taxableValue);
+    const hsnCode = line.hsnCode || '';
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: name.trim(),
+      IsServc: hsnCode.startsWith('99') || index >= itemLines.length ? 'Y' : 'N',
+      HsnCd: hsnCode,
+      Qty: line.quantity,
+      Unit: unit,
+      UnitPrice: line.quantity > 0 ? roundMoney(toRupees(line.grossAmount) / line.quantity) : 0,
+      TotAmt: toRupees(line.grossAmount),
+      Discount: toRupees(line.discountAmount),
+      AssAmt: assessable,
+      GstRt: line.taxRate,
+      IgstAmt: tax.igst,
+      CgstAmt: tax.cgst,
+      SgstAmt: sumMoney([tax.sgst, tax.utgst]),
+      CesRt: 0,
+      CesAmt: 0,
+      CesNonAdvlAmt: 0,
+      StateCesRt: 0,
+      StateCesAmt: 0,
+      StateCesNonAdvlAmt: 0,
+      OthChrg: 0,
+      TotItemVal: sumMoney([assessable, tax.total]),
+    };
+  });
+
+  const buyerGstin = invoice.customerGstin?.trim().toUpperCase() || '';
+  const buyerAddress = splitAddress(invoice.customerAddress);
+  const sellerAddress = splitAddress(business.address);
+
+  const eInvoice: EInvoice = {
+    Version: '1.1',
+    TranDtls: {
+      TaxSch: 'GST',
+      SupTyp: SUPPLY_TYPE_CODES[supplyType] || '',
+      RegRev: 'N',
+      IgstOnIntra: 'N',
+    },
+    DocDtls: {
+      Typ: 'INV',
+      No: invoice.invoiceNumber.trim().toUpperCase(),
+      Dt: toPortalDate(invoice.date),
+    },
+    SellerDtls: {
+      Gstin: (business.taxId || '').trim().toUpperCase(),
+      LglNm: (business.name || '').trim(),
+      Addr1: sellerAddress.Addr1,
+      Addr2: sellerAddress.Addr2,
+      Loc: (business.city || '').trim() || sellerAddress.Loc,
+      Pin: Number(business.pincode) || sellerAddress.Pin,
+      Stcd: getBusinessStateCode(business) || '',
+      Ph: toPhone(business.phone),
+      Em: business.email?.trim() || undefined,
+    },
+    BuyerDtls: {
+      Gstin: exported ? 'URP' : buyerGstin,
+      LglNm: invoice.customerName.trim(),
+      Pos: getPlaceOfSupply(invoice, business) || '',
+      ...buyerAddress,
+      Pin: exported ? 999999 : buyerAddress.Pin,
+      Stcd: exported ? EXPORT_STATE_CODE : getStateCodeFromGSTIN(buyerGstin) || invoice.customerStateCode || '',
+      Ph: toPhone(invoice.customerPhone),
+      Em: invoice.customerEmail?.trim() || undefined,
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sumMoney(items.map(item => item.AssAmt)),
+      CgstVal: sumMoney(items.map(item => item.CgstAmt)),
+      SgstVal: sumMoney(items.map(item => item.SgstAmt)),
+      IgstVal: sumMoney(items.map(item => item.IgstAmt)),
+      CesVal: 0,
+      StCesVal: 0,
+      Discount: 0,
+      OthChrg: toRupees(sumMoney(otherCharges.map(charge => charge.grossAmount))),
+      RndOffAmt: toRupees(totals.roundOff),
+      TotInvVal: toRupees(totals.total),
+      TotInvValFc: foreign ? totals.total : undefined,
+    },
+  };
+
+  if (exported) {
+    eInvoice.ExpDtls = {
+      ShipBNo: invoice.shippingBillNumber || undefined,
+      ShipBDt: invoice.shippingBillDate ? toPortalDate(invoice.shippingBillDate) : undefined,
+      Port: invoice.portCode || undefined,
+      RefClm: supplyType === 'export_with_payment' ? 'Y' : 'N',
+      ForCur: foreign ? currency : undefined,
+    };
+  }
+
+  return eInvoice;
+};
+
+const hasLength = (value: string | undefined, min: number, max: number): boolean =>
+  Boolean(value) && (value as string).length >= min && (value as string).length <= max;
+
+const isClose = (a: number, b: number): boolean => Math.abs(a - b) <= TOLERANCE;
+
+const validateParty = (label: string, party: EInvoiceParty, errors: string[], allowUnregistered: boolean): void => {
+  if (!(allowUnregistered && party.Gstin === 'URP') && !isValidGSTIN(party.Gstin)) {
+    errors.push(`${label} GSTIN is missing or invalid`);
+  }
+  if (!hasLength(party.LglNm, 3, 100)) errors.push(`${label} name must be 3 to 100 characters`);
+  if (!hasLength(party.Addr1, 1, 100)) errors.push(`${label} address must be 1 to 100 characters`);
+  if (party.Addr2 && party.Addr2.length > 100) errors.push(`${label} address line 2 must be at most 100 characters`);
+  if (!hasLength(party.Loc, 3, 50)) errors.push(`${label} city or locality must be 3 to 50 characters`);
+  if (party.Pin < 100000 || party.Pin > 999999) errors.push(`${label} PIN code must be 6 digits`);
+  if (party.Stcd !== EXPORT_STATE_CODE && !getStateName(party.Stcd)) errors.push(`${label} state code is missing or invalid`);
+  if (party.Em && !hasLength(party.Em, 6, 100)) errors.push(`${label} email must be 6 to 100 characters`);
+};
+
+// Checks the IRP makes on upload, so problems can be fixed before the JSON is uploaded. Returns one
+// message per problem; an empty list means the e-invoice is ready.
+export const validateEInvoice = (eInvoice: EInvoice): string[] => {
+  const errors: string[] = [];
+  const { TranDtls, DocDtls, SellerDtls, BuyerDtls, ItemList, ValDtls } = eInvoice;
+
+  if (!TranDtls.SupTyp) {
+    errors.push('Only B2B, SEZ, export and deemed export supplies are e-invoiced');
+  }
+  if (!/^[A-Z1-9][A-Z0-9/-]{0,15}$/.test(DocDtls.No)) {
+    errors.push('Invoice number must be at most 16 characters of letters, digits, "/" and "-", not starting with 0, "/" or "-"');
+  }
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(DocDtls.Dt)) {
+    errors.push('Invoice date is invalid');
+  }
+
+  validateParty('Seller', SellerDtls, errors, false);
+  validateParty('Buyer', BuyerDtls, errors, TranDtls.SupTyp.startsWith('EXP'));
+  if (SellerDtls.Gstin && SellerDtls.Gstin === BuyerDtls.Gstin) {
+    errors.push('Seller and buyer GSTIN cannot be the same');
+  }
+  if (!/^\d{2}$/.test(BuyerDtls.Pos)) {
+    errors.push('Place of supply is missing');
+  }
+
+  if (ItemList.length === 0 || ItemList.length > 1000) {
+    errors.push('An e-invoice must have between 1 and 1000 lines');
+  }
+  ItemList.forEach(item => {
+    const label = `Line ${item.SlNo} (${item.PrdDesc || 'unnamed'})`;
+    if (!hasLength(item.PrdDesc, 3, 300)) errors.push(`${label}: description must be 3 to 300 characters`);
+    if (!isValidHSN(item.HsnCd)) errors.push(`${label}: HSN/SAC code must be 4, 6 or 8 digits`);
+    if (!GST_RATES.includes(item.GstRt)) errors.push(`${label}: ${item.GstRt}% is not a GST rate`);
+    if (!isClose(item.AssAmt, item.TotAmt - item.Discount)) errors.push(`${label}: assessable value does not match amount less discount`);
+    if (!isClose(item.TotItemVal, item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt + item.OthChrg)) {
+      errors.push(`${label}: line total does not match assessable value plus tax`);
+    }
+  });
+
+  const itemSum = (pick: (item: EInvoiceItem) => number): number => sumMoney(ItemList.map(pick));
+  if (!isClose(ValDtls.AssVal, itemSum(item => item.AssAmt))) errors.push('Total assessable value does not match the lines');
+  if (!isClose(ValDtls.IgstVal, itemSum(item => item.IgstAmt))) errors.push('Total IGST does not match the lines');
+  if (!isClose(ValDtls.CgstVal, itemSum(item => item.CgstAmt))) errors.push('Total CGST does not match the lines');
+  if (!isClose(ValDtls.SgstVal, itemSum(item => item.SgstAmt))) errors.push('Total SGST does not match the lines');
+  const expectedTotal = ValDtls.AssVal + ValDtls.IgstVal + ValDtls.CgstVal + ValDtls.SgstVal
+    + ValDtls.OthChrg - ValDtls.Discount + ValDtls.RndOffAmt;
+  if (!isClose(ValDtls.TotInvVal, expectedTotal)) errors.push('Invoice total does not match its values, taxes and charges');
+  if (Math.abs(ValDtls.RndOffAmt) >= 100) errors.push('Round off must be less than 100');
+
+  const interState = ['SEZWP', 'SEZWOP', 'EXPWP', 'EXPWOP'].includes(TranDtls.SupTyp);
+  if (interState && (ValDtls.CgstVal > 0 || ValDtls.SgstVal > 0)) {
+    errors.push('Exports and SEZ supplies are charged IGST only');
+  }
+  if ((TranDtls.SupTyp === 'SEZWOP' || TranDtls.SupTyp === 'EXPWOP') && ValDtls.IgstVal > 0) {
+    errors.push('Supplies under LUT or bond cannot carry tax');
+  }
+
+  return errors;
+};
+
+export const getEInvoiceFilename = (invoice: Pick<Invoice, 'invoiceNumber'>): string =>
+  `${invoice.invoiceNumber.replace(/[^\w-]+/g, '_')}-einvoice.json`;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { estimateToInvoiceFields, estimateToPrintable } from './estimates';
+import { getInvoiceTotals } from './helpers';
+import { getInvoiceGSTRegime } from './gst';
+import type { Estimate } from '../types';
+
+// Quoted from Karnataka (29) to a customer in Maharashtra (27)
+const estimate: Estimate = {
+  id: 'e1',
+  estimateNumber: 'EST-001',
+  date: '2026-05-15',
+  validUntil: '2026-06-14',
+  customerId: 'c1',
+  customerName: 'Customer',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  customerStateCode: '27',
+  customerGstin: '27AAAAA1111A1Z5',
+  placeOfSupply: '27',
+  items: [{ id: 'a', name: 'Item', quantity: 1, price: 1000, taxRate: 18 }],
+  taxRate: 18,
+  discount: 100,
+  discountType: 'amount',
+  charges: [{ id: 'f', name: 'Freight', amount: 50, placement: 'before_tax', taxable: true }],
+  currency: 'USD',
+  exchangeRate: 83.25,
+  notes: '',
+  status: 'sent',
+};
+
+const business = { stateCode: '29' };
+
+describe('estimateToPrintable', () => {
+  it('taxes an estimate for another state as IGST', () => {
+    const printable = estimateToPrintable(estimate);
+    const totals = getInvoiceTotals(printable, getInvoiceGSTRegime(printable, business));
+    expect(totals.gst).toMatchObject({ igst: 171, cgst: 0, sgst: 0 });
+  });
+});
+
+describe('estimateToInvoiceFields', () => {
+  it('carries the customer GST details and place of supply', () => {
+    expect(estimateToInvoiceFields(estimate)).toMatchObject({ customerStateCode: '27', customerGstin: '27AAAAA1111A1Z5', placeOfSupply: '27' });
+  });
+
+  it('carries the saved customer, discount, charges and currency', () => {
+    expect(estimateToInvoiceFields(estimate)).toMatchObject({
+      customerId: 'c1',
+      discount: 100,
+      discountType: 'amount',
+      currency: 'USD',
+      exchangeRate: 83.25,
+    });
+  });
+
+  it('gives the items and charges fresh ids', () => {
+    const fields = estimateToInvoiceFields(estimate);
+    expect(fields.items?.[0]).toMatchObject({ name: 'Item', price: 1000 });
+    expect(fields.items?.[0].id).not.toBe('a');
+    expect(fields.charges?.[0]).toMatchObject({ name: 'Freight', amount: 50 });
+    expect(fields.charges?.[0].id).not.toBe('f');
+  });
+});
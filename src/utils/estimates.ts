@@ -0,0 +1,78 @@
+import { generateId } from './helpers';
+import { getToday } from './paymentTerms';
+import type { Estimate, EstimateStatus, Invoice } from '../types';
+
+export const ESTIMATE_STATUS_OPTIONS: { value: EstimateStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'declined', label: 'Declined' },
+  { value: 'expired', label: 'Expired' },
+];
+
+// Get estimate status color
+export const getEstimateStatusColor = (status: EstimateStatus): string => {
+  const colors: Record<EstimateStatus, string> = {
+    draft: 'bg-midnight-600 text-midnight-200',
+    sent: 'bg-gold-500/20 text-gold-400',
+    accepted: 'bg-teal-500/20 text-teal-400',
+    declined: 'bg-coral-500/20 text-coral-400',
+    expired: 'bg-midnight-700 text-midnight-400',
+  };
+  return colors[status] || colors.draft;
+};
+
+// Get estimate status label
+export const getEstimateStatusLabel = (status: EstimateStatus): string =>
+  ESTIMATE_STATUS_OPTIONS.find(option => option.value === status)?.label || 'Unknown';
+
+// A sent estimate expires the day after its validity date
+export const isEstimateExpired = (estimate: Estimate, today: string = getToday()): boolean =>
+  estimate.status === 'sent' && Boolean(estimate.validUntil) && estimate.validUntil < today;
+
+// Invoice-shaped copy of an estimate so the invoice totals and PDF code can render it
+export const estimateToPrintable = (estimate: Estimate): Invoice => ({
+  id: estimate.id,
+  invoiceNumber: estimate.estimateNumber,
+  date: estimate.date,
+  customerId: estimate.customerId,
+  customerName: estimate.customerName,
+  customerEmail: estimate.customerEmail,
+  customerPhone: estimate.customerPhone,
+  customerAddress: estimate.customerAddress,
+  customerStateCode: estimate.customerStateCode,
+  customerGstin: estimate.customerGstin,
+  placeOfSupply: estimate.placeOfSupply,
+  supplyType: estimate.supplyType,
+  items: estimate.items,
+  taxRate: estimate.taxRate,
+  discount: estimate.discount,
+  discountType: estimate.discountType,
+  charges: estimate.charges,
+  currency: estimate.currency,
+  exchangeRate: estimate.exchangeRate,
+  notes: estimate.notes,
+  status: 'draft',
+  rounding: estimate.rounding,
+});
+
+// Fields an invoice inherits when it is created from an estimate. Items and charges get fresh ids.
+export const estimateToInvoiceFields = (estimate: Estimate): Partial<Invoice> => ({
+  customerId: estimate.customerId,
+  customerName: estimate.customerName,
+  customerEmail: estimate.customerEmail,
+  customerPhone: estimate.customerPhone,
+  customerAddress: estimate.customerAddress,
+  customerStateCode: estimate.customerStateCode,
+  customerGstin: estimate.customerGstin,
+  placeOfSupply: estimate.placeOfSupply,
+  supplyType: estimate.supplyType,
+  items: estimate.items.map(item => ({ ...item, id: generateId() })),
+  taxRate: estimate.taxRate,
+  discount: estimate.discount,
+  discountType: estimate.discountType,
+  charges: estimate.charges?.map(charge => ({ ...charge, id: generateId() })),
+  currency: estimate.currency,
+  exchangeRate: estimate.exchangeRate,
+  notes: estimate.notes,
+});
@@ -0,0 +1,315 @@
+import { getInvoiceTotals, splitGST } from './helpers';
+import { roundMoney, sumMoney } from './money';
+import { toBaseAmount } from './currency';
+import {
+  getBusinessStateCode,
+  getInvoiceGSTRegime,
+  getPlaceOfSupply,
+  getStateCodeFromGSTIN,
+  getStateName,
+  getSupplyType,
+  isExportSupply,
+  isServiceCode,
+  isValidGSTIN,
+  isValidHSN,
+} from './gst';
+import { splitAddress, toPortalDate, toUnitCode } from './eInvoice';
+import type { Business, Invoice, TransportDetails, TransportMode } from '../types';
+
+// One bill in the e-way bill portal's bulk generation JSON. Amounts are in rupees.
+export interface EWayBill {
+  userGstin: string;
+  supplyType: 'O'; // Outward
+  subSupplyType: number; // 1 supply, 3 export
+  subSupplyDesc: string;
+  docType: 'INV' | 'BIL';
+  docNo: string;
+  docDate: string; // DD/MM/YYYY
+  transType: number; // 1 regular
+  fromGstin: string;
+  fromTrdName: string;
+  fromAddr1: string;
+  fromAddr2: string;
+  fromPlace: string;
+  fromPincode: number;
+  fromStateCode: number;
+  actualFromStateCode: number;
+  toGstin: string; // 'URP' for an unregistered buyer
+  toTrdName: string;
+  toAddr1: string;
+  toAddr2: string;
+  toPlace: string;
+  toPincode: number;
+  toStateCode: number;
+  actualToStateCode: number;
+  totalValue: number;
+  cgstValue: number;
+  sgstValue: number;
+  igstValue: number;
+  cessValue: number;
+  cessNonAdvolValue: number;
+  OthValue: number; // Charges, the tax on them and round off
+  totInvValue: number;
+  transMode: number; // 1 road, 2 rail, 3 air, 4 ship; 0 when not given
+  transDistance: number;
+  transporterName: string;
+  transporterId: string;
+  transDocNo: string;
+  transDocDate: string;
+  vehicleNo: string;
+  vehicleType: 'R'; // Regular, not over-dimensional cargo
+  mainHsnCode: number;
+  itemList: EWayBillItem[];
+}
+
+export interface EWayBillItem {
+  itemNo: number;
+  productName: string;
+  productDesc: string;
+  hsnCode: number;
+  quantity: number;
+  qtyUnit: string;
+  taxableAmount: number;
+  sgstRate: number;
+  cgstRate: number;
+  igstRate: number;
+  cessRate: number;
+  cessNonAdvol: number;
+}
+
+export interface EWayBillBulk {
+  version: string;
+  billLists: EWayBill[];
+}
+
+// Problems that keep an invoice out of the bulk file
+export interface EWayBillProblem {
+  invoiceId: string;
+  invoiceNumber: string;
+  errors: string[];
+}
+
+export const TRANSPORT_MODE_OPTIONS: { value: TransportMode; label: string }[] = [
+  { value: 'road', label: 'Road' },
+  { value: 'rail', label: 'Rail' },
+  { value: 'air', label: 'Air' },
+  { value: 'ship', label: 'Ship' },
+];
+
+const TRANSPORT_MODE_CODES: Record<TransportMode, number> = { road: 1, rail: 2, air: 3, ship: 4 };
+
+// Version of the bulk generation format the file follows
+const BULK_VERSION = '1.0.0621';
+
+// State code the portal uses for a buyer outside India
+const OTHER_COUNTRY_STATE_CODE = 99;
+
+const MAX_DISTANCE = 4000;
+
+// Regular (KA01AB1234), Bharat series (22BH1234AA) and temporary (TR...) registrations
+const VEHICLE_NUMBER = /^([A-Z]{2}\d{1,2}[A-Z]{0,3}\d{4}|\d{2}BH\d{4}[A-Z]{1,2}|TR[A-Z0-9]{7,13})$/;
+
+// Transporter IDs are a GSTIN or a TRANSIN, both 15 characters starting with a state code
+const TRANSPORTER_ID = /^\d{2}[0-9A-Z]{13}$/;
+
+export const getTransportModeLabel = (mode: TransportMode): string =>
+  TRANSPORT_MODE_OPTIONS.find(option => option.value === mode)?.label || mode;
+
+// Transport details as they are saved: codes in upper case without spaces and blank fields dropped
+export const normalizeTransport = (transport: TransportDetails | undefined): TransportDetails | undefined => {
+  if (!transport) return undefined;
+  return {
+    mode: transport.mode,
+    distance: transport.distance != null && String(transport.distance) !== '' ? Math.round(Number(transport.distance)) : undefined,
+    transporterId: transport.transporterId?.replace(/\s/g, '').toUpperCase() || undefined,
+    transporterName: transport.transporterName?.trim() || undefined,
+    vehicleNumber: transport.mode === 'road' ? transport.vehicleNumber?.replace(/[\s-]/g, '').toUpperCase() || undefined : undefined,
+    transportDocNumber: transport.transportDocNumber?.trim() || undefined,
+    transportDocDate: transport.transportDocDate || undefined,
+  };
+};
+
+// Problems with the transport details themselves, shared by the invoice form and the export
+export const validateTransport = (transport: TransportDetails | undefined): string[] => {
+  if (!transport) return ['Transport details are missing'];
+
+  const errors: string[] = [];
+  const distance = transport.distance;
+  if (distance != null && (!Number.isInteger(distance) || distance < 0 || distance > MAX_DISTANCE)) {
+    errors.push(`Distance must be a whole number of kilometres up to ${MAX_DISTANCE}`);
+  }
+  if (transport.transporterId && !TRANSPORTER_ID.test(transport.transporterId)) {
+    errors.push('Transporter ID must be a 15-character GSTIN or TRANSIN');
+  }
+  if (transport.mode === 'road') {
+    if (transport.vehicleNumber && !VEHICLE_NUMBER.test(transport.vehicleNumber)) {
+      errors.push('Vehicle number is invalid, e.g. KA01AB1234');
+    }
+    if (!transport.vehicleNumber && !transport.transporterId) {
+      errors.push('Road transport needs a vehicle number or a transporter ID');
+    }
+  } else if (!transport.transportDocNumber || !transport.transportDocDate) {
+    errors.push(`${getTransportModeLabel(transport.mode)} transport needs the transport document number and date`);
+  }
+  return errors;
+};
+
+// The e-way bill for `invoice`, built from the same totals the invoice prints. Only goods lines are
+// listed; service (SAC 99) lines, charges, the tax on them and round off go into other value.
+// Lines without an HSN code stay in, for validation to ask for one.
+export const buildEWayBill = (invoice: Invoice, business: Business): EWayBill => {
+  const supplyType = getSupplyType(invoice);
+  const exported = isExportSupply(supplyType);
+  const regime = getInvoiceGSTRegime(invoice, business);
+  const totals = getInvoiceTotals(invoice, regime);
+  const toRupees = (amount: number): number => toBaseAmount(amount, invoice);
+  const transport = invoice.transport;
+
+  const lines = invoice.items
+    .map((item, index) => ({ item, line: totals.lines[index] }))
+    .filter(({ line }) => !isServiceCode(line.hsnCode));
+  const items: EWayBillItem[] = lines.map(({ item, line }, index) => {
+    const interState = regime === 'igst';
+    return {
+      itemNo: index + 1,
+      productName: item.name.trim(),
+      productDesc: item.name.trim(),
+      hsnCode: Number(line.hsnCode) || 0,
+      quantity: line.quantity,
+      qtyUnit: toUnitCode(item.unit),
+      taxableAmount: toRupees(line.taxableValue),
+      sgstRate: interState ? 0 : line.taxRate / 2,
+      cgstRate: interState ? 0 : line.taxRate / 2,
+      igstRate: interState ? line.taxRate : 0,
+      cessRate: 0,
+      cessNonAdvol: 0,
+    };
+  });
+  const taxes = lines.map(({ line }) => splitGST(toRupees(roundMoney(line.taxAmount)), regime));
+
+  const totalValue = sumMoney(items.map(item => item.taxableAmount));
+  const cgstValue = sumMoney(taxes.map(tax => tax.cgst));
+  const sgstValue = sumMoney(taxes.map(tax => sumMoney([tax.sgst, tax.utgst])));
+  const igstValue = sumMoney(taxes.map(tax => tax.igst));
+  const totInvValue = toRupees(totals.total);
+  const mainItem = [...items].sort((a, b) => b.taxableAmount - a.taxableAmount)[0];
+
+  const sellerAddress = splitAddress(business.address);
+  const buyerAddress = splitAddress(invoice.customerAddress);
+  const buyerGstin = invoice.customerGstin?.trim().toUpperCase() || '';
+  const sellerState = Number(getBusinessStateCode(business)) || 0;
+  const buyerState = Number(getPlaceOfSupply(invoice, business) || getStateCodeFromGSTIN(buyerGstin)) || 0;
+
+  return {
+    userGstin: (business.taxId || '').trim().toUpperCase(),
+    supplyType: 'O',
+    subSupplyType: exported ? 3 : 1,
+    subSupplyDesc: '',
+    docType: 'INV',
+    docNo: invoice.invoiceNumber.trim(),
+    docDate: toPortalDate(invoice.date),
+    transType: 1,
+    fromGstin: (business.taxId || '').trim().toUpperCase(),
+    fromTrdName: (business.name || '').trim(),
+    fromAddr1: sellerAddress.Addr1,
+    fromAddr2: sellerAddress.Addr2 || '',
+    fromPlace: (business.city || '').trim() || sellerAddress.Loc,
+    fromPincode: Number(business.pincode) || sellerAddress.Pin,
+    fromStateCode: sellerState,
+    actualFromStateCode: sellerState,
+    toGstin: !exported && buyerGstin ? buyerGstin : 'URP',
+    toTrdName: invoice.customerName.trim(),
+    toAddr1: buyerAddress.Addr1,
+    toAddr2: buyerAddress.Addr2 || '',
+    toPlace: buyerAddress.Loc,
+    toPincode: buyerAddress.Pin,
+    // Exports are billed to a foreign buyer but moved to a port, taken to be in the seller's state
+    toStateCode: exported ? OTHER_COUNTRY_STATE_CODE : buyerState,
+    actualToStateCode: exported ? sellerState : buyerState,
+    totalValue,
+    cgstValue,
+    sgstValue,
+    igstValue,
+    cessValue: 0,
+    cessNonAdvolValue: 0,
+    OthValue: roundMoney(totInvValue - totalValue - cgstValue - sgstValue - igstValue),
+    totInvValue,
+    transMode: transport ? TRANSPORT_MODE_CODES[transport.mode] : 0,
+    transDistance: transport?.distance || 0,
+    transporterName: transport?.transporterName || '',
+    transporterId: transport?.transporterId || '',
+    transDocNo: transport?.transportDocNumber || '',
+    transDocDate: transport?.transportDocDate ? toPortalDate(transport.transportDocDate) : '',
+    vehicleNo: transport?.vehicleNumber || '',
+    vehicleType: 'R',
+    mainHsnCode: mainItem?.hsnCode || 0,
+    itemList: items,
+  };
+};
+
+const isValidPin = (pin: number): boolean => pin >= 100000 && pin <= 999999;
+
+// The portal takes HSN codes as numbers, which drops the leading zero of chapters 01 to 09
+const toHSNString = (code: number): string => {
+  const digits = String(code);
+  return digits.padStart(digits.length + (digits.length % 2), '0');
+};
+
+const isValidState = (code: number): boolean => Boolean(getStateName(String(code).padStart(2, '0')));
+
+// Checks the portal makes on the rest of the bill. Returns one message per problem.
+export const validateEWayBill = (bill: EWayBill): string[] => {
+  const errors: string[] = [];
+
+  if (!/^[A-Za-z0-9/-]{1,16}$/.test(bill.docNo)) {
+    errors.push('Invoice number must be at most 16 letters, digits, "/" or "-"');
+  }
+  if (!isValidGSTIN(bill.fromGstin)) errors.push('Your GSTIN is missing or invalid');
+  if (bill.toGstin !== 'URP' && !isValidGSTIN(bill.toGstin)) errors.push('Customer GSTIN is invalid');
+  if (bill.fromGstin && bill.fromGstin === bill.toGstin) errors.push('Customer GSTIN cannot be your own');
+
+  if (!isValidPin(bill.fromPincode)) errors.push('Your PIN code is missing');
+  if (bill.fromPlace.length < 3) errors.push('Your city is missing');
+  if (!isValidState(bill.fromStateCode)) errors.push('Your state is missing');
+  if (!isValidPin(bill.toPincode)) errors.push('Customer address needs a 6-digit PIN code');
+  if (bill.toPlace.length < 3) errors.push('Customer address needs a city or locality');
+  if (bill.toStateCode !== OTHER_COUNTRY_STATE_CODE && !isValidState(bill.toStateCode)) {
+    errors.push('Customer state is missing');
+  }
+
+  if (bill.itemList.length === 0) errors.push('E-way bills are for goods; the invoice has no items with a goods (HSN) code');
+  bill.itemList.forEach(item => {
+    if (!isValidHSN(toHSNString(item.hsnCode))) errors.push(`Item ${item.itemNo} (${item.productName}): HSN code must be 4, 6 or 8 digits`);
+  });
+  if (bill.totInvValue <= 0) errors.push('Invoice total must be greater than 0');
+
+  return errors;
+};
+
+// The bulk file for `invoices`, with the problems that need fixing first. The file only holds
+// invoices without problems.
+export const buildEWayBillExport = (
+  invoices: Invoice[],
+  business: Business
+): { bulk: EWayBillBulk; problems: EWayBillProblem[] } => {
+  const billLists: EWayBill[] = [];
+  const problems: EWayBillProblem[] = [];
+
+  invoices.forEach(invoice => {
+    const bill = buildEWayBill(invoice, business);
+    const errors = [...validateTransport(invoice.transport), ...validateEWayBill(bill)];
+    if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+      errors.unshift('Draft and cancelled invoices cannot have an e-way bill');
+    }
+    if (errors.length > 0) {
+      problems.push({ invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, errors });
+    } else {
+      billLists.push(bill);
+    }
+  });
+
+  return { bulk: { version: BULK_VERSION, billLists }, problems };
+};
+
+export const getEWayBillFilename = (date: Date = new Date()): string =>
+  `eway-bills-${date.toISOString().split('T')[0]}.json`;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getBusinessStateCode, getGSTRegime, getInvoiceGSTRegime, getPlaceOfSupply } from './gst';
+
+describe('getGSTRegime', () => {
+  it('splits supplies within the state into CGST and SGST', () => {
+    expect(getGSTRegime('29', '29')).toBe('cgst_sgst');
+  });
+
+  it('uses UTGST for supplies within a union territory', () => {
+    expect(getGSTRegime('04', '04')).toBe('cgst_utgst');
+  });
+
+  it('charges IGST on supplies to another state', () => {
+    expect(getGSTRegime('29', '27')).toBe('igst');
+  });
+
+  it('treats an unknown state as intra-state', () => {
+    expect(getGSTRegime(undefined, '27')).toBe('cgst_sgst');
+    expect(getGSTRegime('29', undefined)).toBe('cgst_sgst');
+  });
+});
+
+describe('getPlaceOfSupply', () => {
+  const business = { stateCode: '29' };
+
+  it('prefers the place of supply, then the customer state, then the business state', () => {
+    expect(getPlaceOfSupply({ placeOfSupply: '27', customerStateCode: '33' }, business)).toBe('27');
+    expect(getPlaceOfSupply({ customerStateCode: '33' }, business)).toBe('33');
+    expect(getPlaceOfSupply({}, business)).toBe('29');
+  });
+});
+
+describe('getBusinessStateCode', () => {
+  it('falls back to the state the GSTIN encodes', () => {
+    expect(getBusinessStateCode({ stateCode: '27', taxId: '29ABCDE1234F1Z5' })).toBe('27');
+    expect(getBusinessStateCode({ taxId: '29ABCDE1234F1Z5' })).toBe('29');
+  });
+});
+
+describe('getInvoiceGSTRegime', () => {
+  it('charges IGST when the customer is in another state', () => {
+    expect(getInvoiceGSTRegime({ customerStateCode: '27' }, { taxId: '29ABCDE1234F1Z5' })).toBe('igst');
+    expect(getInvoiceGSTRegime({ customerStateCode: '29' }, { taxId: '29ABCDE1234F1Z5' })).toBe('cgst_sgst');
+  });
+});
@@ -0,0 +1,176 @@
+import type { Business, GSTRegime, Invoice, InvoiceTotals, SupplyType, TaxRateSummary } from '../types';
+
+// GST state codes, as used in GSTINs and the place of supply
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '96', name: 'Other Countries' },
+  { code: '97', name: 'Other Territory' },
+];
+
+// Place of supply of every export
+export const EXPORT_STATE_CODE = '96';
+
+// Union territories without a legislature levy UTGST in place of SGST
+const UTGST_STATE_CODES = ['04', '26', '31', '35', '38', '97'];
+
+export const getStateName = (code: string | undefined): string =>
+  INDIAN_STATES.find(state => state.code === code)?.name || '';
+
+// "09-Uttar Pradesh", the way GST documents print a state
+export const formatState = (code: string | undefined): string => {
+  const name = getStateName(code);
+  return name ? `${code}-${name}` : '';
+};
+
+// The first two digits of a GSTIN are the registering state's code
+export const getStateCodeFromGSTIN = (gstin: string | undefined): string | undefined => {
+  const code = gstin?.trim().slice(0, 2);
+  return code && getStateName(code) ? code : undefined;
+};
+
+// GSTINs are 15 characters: state code, PAN, entity number, 'Z' and a check character
+export const isValidGSTIN = (gstin: string): boolean =>
+  /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin.trim().toUpperCase());
+
+export const SUPPLY_TYPE_OPTIONS: { value: SupplyType; label: string }[] = [
+  { value: 'b2b', label: 'Regular (B2B)' },
+  { value: 'b2c', label: 'Regular (B2C)' },
+  { value: 'export_with_payment', label: 'Export with payment of IGST' },
+  { value: 'export_without_payment', label: 'Export under LUT/bond' },
+  { value: 'sez_with_payment', label: 'SEZ with payment of IGST' },
+  { value: 'sez_without_payment', label: 'SEZ under LUT/bond' },
+  { value: 'deemed_export', label: 'Deemed export' },
+];
+
+// Invoices from before supply types were recorded are B2B when the customer gave a GSTIN
+export const getSupplyType = (invoice: Pick<Invoice, 'supplyType' | 'customerGstin'>): SupplyType =>
+  invoice.supplyType || (invoice.customerGstin ? 'b2b' : 'b2c');
+
+export const getSupplyTypeLabel = (supplyType: SupplyType): string =>
+  SUPPLY_TYPE_OPTIONS.find(option => option.value === supplyType)?.label || supplyType;
+
+export const isExportSupply = (supplyType: SupplyType | undefined): boolean =>
+  supplyType === 'export_with_payment' || supplyType === 'export_without_payment';
+
+export const isSEZSupply = (supplyType: SupplyType | undefined): boolean =>
+  supplyType === 'sez_with_payment' || supplyType === 'sez_without_payment';
+
+// Zero-rated supplies made under a LUT or bond, which carry no tax
+export const isSupplyWithoutTax = (supplyType: SupplyType | undefined): boolean =>
+  supplyType === 'export_without_payment' || supplyType === 'sez_without_payment';
+
+// Supplies whose recipient must be identified by GSTIN
+export const requiresCustomerGSTIN = (supplyType: SupplyType): boolean =>
+  supplyType === 'b2b' || isSEZSupply(supplyType) || supplyType === 'deemed_export';
+
+// Endorsements rule 46 requires on export and SEZ invoices
+const SUPPLY_DECLARATIONS: Partial<Record<SupplyType, string>> = {
+  export_with_payment: 'SUPPLY MEANT FOR EXPORT ON PAYMENT OF INTEGRATED TAX',
+  export_without_payment: 'SUPPLY MEANT FOR EXPORT UNDER BOND OR LETTER OF UNDERTAKING WITHOUT PAYMENT OF INTEGRATED TAX',
+  sez_with_payment: 'SUPPLY MEANT FOR SEZ UNIT OR SEZ DEVELOPER FOR AUTHORISED OPERATIONS ON PAYMENT OF INTEGRATED TAX',
+  sez_without_payment: 'SUPPLY MEANT FOR SEZ UNIT OR SEZ DEVELOPER FOR AUTHORISED OPERATIONS UNDER BOND OR LETTER OF UNDERTAKING WITHOUT PAYMENT OF INTEGRATED TAX',
+  deemed_export: 'SUPPLY MADE AS DEEMED EXPORT',
+};
+
+// Lines the invoice must carry for its supply type, with the LUT it relies on; none for regular supplies
+export const getSupplyDeclaration = (invoice: Pick<Invoice, 'supplyType' | 'customerGstin'>, business: Partial<Business>): string[] => {
+  const supplyType = getSupplyType(invoice);
+  const declaration = SUPPLY_DECLARATIONS[supplyType];
+  if (!declaration) return [];
+  return isSupplyWithoutTax(supplyType) && business.lutNumber
+    ? [declaration, `LUT ARN: ${business.lutNumber}`]
+    : [declaration];
+};
+
+// Where the business is registered: its chosen state, else the one its GSTIN encodes
+export const getBusinessStateCode = (business: Partial<Business>): string | undefined =>
+  business.stateCode || getStateCodeFromGSTIN(business.taxId);
+
+// Place of supply for an invoice, falling back to the customer's state and then the business's own.
+// Exports are always supplied outside India.
+export const getPlaceOfSupply = (invoice: Pick<Invoice, 'placeOfSupply' | 'customerStateCode' | 'supplyType'>, business: Partial<Business>): string | undefined => {
+  if (isExportSupply(invoice.supplyType)) return EXPORT_STATE_CODE;
+  return invoice.placeOfSupply || invoice.customerStateCode || getBusinessStateCode(business);
+};
+
+// Supplies within the supplier's state are split between the centre and the state (or union
+// territory); supplies to another state carry integrated tax. An unknown state is treated as
+// intra-state so older invoices without a place of supply keep printing CGST + SGST.
+export const getGSTRegime = (supplierStateCode: string | undefined, placeOfSupply: string | undefined): GSTRegime => {
+  if (supplierStateCode && placeOfSupply && supplierStateCode !== placeOfSupply) return 'igst';
+  return supplierStateCode && UTGST_STATE_CODES.includes(supplierStateCode) ? 'cgst_utgst' : 'cgst_sgst';
+};
+
+// Supplies to an SEZ are inter-state even within the supplier's own state
+export const getInvoiceGSTRegime = (invoice: Pick<Invoice, 'placeOfSupply' | 'customerStateCode' | 'supplyType'>, business: Partial<Business>): GSTRegime =>
+  isSEZSupply(invoice.supplyType) ? 'igst' : getGSTRegime(getBusinessStateCode(business), getPlaceOfSupply(invoice, business));
+
+// HSN codes are 4, 6 or 8 digits; SAC codes for services are 6 digits starting with 99
+export const isValidHSN = (code: string): boolean => /^(\d{4}|\d{6}|\d{8})$/.test(code.trim());
+
+export const isServiceCode = (code: string | undefined): boolean => Boolean(code?.trim().startsWith('99'));
+
+export interface GSTSummaryRow {
+  label: string;
+  taxableValue: number;
+  rate: number;
+  amount: number;
+}
+
+// Rows for the tax summary table on the invoice and its PDFs: for each rate charged, IGST alone
+// or CGST with SGST/UTGST, each at half the rate. Untaxed lines add no rows.
+export const getGSTSummaryRows = (totals: InvoiceTotals): GSTSummaryRow[] => {
+  const { regime } = totals.gst;
+  return totals.taxBreakdown
+    .filter(group => group.rate > 0)
+    .flatMap(group => getTaxComponents(regime, group).map(component => ({
+      label: component.label,
+      taxableValue: group.taxableValue,
+      rate: regime === 'igst' ? group.rate : group.rate / 2,
+      amount: component.amount,
+    })));
+};
+
+// Tax components charged under a regime, in print order, with their amounts in `summary`
+export const getTaxComponents = (regime: GSTRegime, summary: Omit<TaxRateSummary, 'rate' | 'taxableValue'>): { label: string; amount: number }[] => {
+  if (regime === 'igst') return [{ label: 'IGST', amount: summary.igst }];
+  return [
+    { label: 'CGST', amount: summary.cgst },
+    regime === 'cgst_utgst' ? { label: 'UTGST', amount: summary.utgst } : { label: 'SGST', amount: summary.sgst },
+  ];
+};
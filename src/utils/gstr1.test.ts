@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { buildGSTR1 } from './gstr1';
+import type { Business, CreditDebitNote, Invoice, InvoiceItem } from '../types';
+
+// Registered in Karnataka (29)
+const business: Business = {
+  name: 'Test Traders',
+  address: '',
+  city: '',
+  state: 'Karnataka',
+  stateCode: '29',
+  pincode: '',
+  phone: '',
+  email: '',
+  taxId: '29ABCDE1234F1Z5',
+  logo: null,
+  signature: null,
+  currency: 'INR',
+  taxRate: 18,
+};
+
+const april = { type: 'month', year: 2026, month: 4 } as const;
+
+const line = (quantity: number, price: number, taxRate: number, hsnCode = '8471'): InvoiceItem =>
+  ({ id: `${hsnCode}-${taxRate}`, name: 'Item', hsnCode, quantity, price, taxRate });
+
+const invoice = (id: string, fields: Partial<Invoice>): Invoice => ({
+  id,
+  invoiceNumber: `INV-00${id}`,
+  date: '2026-04-10',
+  customerName: 'Customer',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  items: [line(10, 100, 18)],
+  taxRate: 18,
+  discount: 0,
+  notes: '',
+  status: 'pending',
+  ...fields,
+});
+
+const creditNote = (id: string, invoiceId: string, items: InvoiceItem[]): CreditDebitNote => ({
+  id,
+  noteNumber: `CN-00${id}`,
+  type: 'credit',
+  invoiceId,
+  date: '2026-04-20',
+  reason: 'Returned',
+  items,
+  taxRate: 18,
+  discount: 0,
+});
+
+const invoices: Invoice[] = [
+  invoice('1', { customerGstin: '29AAAAA1111A1Z5', placeOfSupply: '29' }),
+  invoice('2', { placeOfSupply: '27', items: [line(1, 200000, 18)] }),
+  invoice('3', { placeOfSupply: '29', items: [line(1, 500, 5, '6109')] }),
+  invoice('4', { placeOfSupply: '27' }),
+  invoice('5', { supplyType: 'export_without_payment', items: [line(1, 5000, 18)] }),
+  invoice('6', { status: 'draft' }),
+  invoice('7', { status: 'cancelled' }),
+  invoice('8', { date: '2026-05-02' }),
+];
+
+const notes: CreditDebitNote[] = [
+  creditNote('1', '1', [line(1, 100, 18)]),
+  creditNote('2', '4', [line(1, 100, 18)]),
+];
+
+describe('buildGSTR1', () => {
+  const report = buildGSTR1(invoices, notes, business, april);
+
+  it('reports each issued invoice in its section', () => {
+    expect(report.gstin).toBe('29ABCDE1234F1Z5');
+    expect(report.b2b.map(document => document.number)).toEqual(['INV-001']);
+    expect(report.b2cl.map(document => document.number)).toEqual(['INV-002']);
+    expect(report.exp.map(document => document.number)).toEqual(['INV-005']);
+  });
+
+  it('splits tax by where the supply is made', () => {
+    expect(report.b2b[0].rates).toEqual([{ rate: 18, taxableValue: 1000, igst: 0, cgst: 90, sgst: 90, cess: 0 }]);
+    expect(report.b2cl[0].rates).toEqual([{ rate: 18, taxableValue: 200000, igst: 36000, cgst: 0, sgst: 0, cess: 0 }]);
+    expect(report.exp[0].rates).toEqual([{ rate: 0, taxableValue: 5000, igst: 0, cgst: 0, sgst: 0, cess: 0 }]);
+  });
+
+  it('sums small B2C supplies by place of supply and rate, net of their notes', () => {
+    expect(report.b2cs).toEqual([
+      { placeOfSupply: '27', interState: true, rate: 18, taxableValue: 900, igst: 162, cgst: 0, sgst: 0, cess: 0 },
+      { placeOfSupply: '29', interState: false, rate: 5, taxableValue: 500, igst: 0, cgst: 12.5, sgst: 12.5, cess: 0 },
+    ]);
+  });
+
+  it('reports notes to registered customers under CDNR', () => {
+    expect(report.cdnr.map(document => [document.number, document.noteType, document.invoice.id])).toEqual([['CN-001', 'credit', '1']]);
+    expect(report.cdnur).toEqual([]);
+  });
+
+  it('summarizes HSN codes across every section, net of notes', () => {
+    expect(report.hsn.map(row => [row.hsnCode, row.rate, row.quantity, row.taxableValue, row.igst, row.cgst, row.sgst])).toEqual([
+      ['6109', 5, 1, 500, 0, 12.5, 12.5],
+      ['8471', 0, 1, 5000, 0, 0, 0],
+      ['8471', 18, 19, 201800, 36162, 81, 81],
+    ]);
+  });
+
+  it('counts cancelled invoices in the document summary but not drafts', () => {
+    expect(report.docs).toEqual([
+      { nature: 1, label: 'Invoices for outward supply', from: 'INV-001', to: 'INV-007', total: 6, cancelled: 1 },
+      { nature: 5, label: 'Credit Note', from: 'CN-001', to: 'CN-002', total: 2, cancelled: 0 },
+    ]);
+  });
+
+  it('warns about B2B invoices without a valid customer GSTIN', () => {
+    expect(report.warnings).toEqual([]);
+    const withBadGSTIN = buildGSTR1([invoice('9', { supplyType: 'b2b', customerGstin: '29XYZ' })], [], business, april);
+    expect(withBadGSTIN.warnings).toEqual(['INV-009: customer GSTIN is missing or invalid']);
+  });
+});
@@ -0,0 +1,557 @@
+import { getInvoiceTotals } from './helpers';
+import { sumMoney } from './money';
+import { toBaseAmount } from './currency';
+import { noteToPrintable } from './creditDebitNotes';
+import { toPortalDate, toUnitCode } from './eInvoice';
+import {
+  formatState,
+  getBusinessStateCode,
+  getInvoiceGSTRegime,
+  getPlaceOfSupply,
+  getStateCodeFromGSTIN,
+  getSupplyType,
+  isExportSupply,
+  isValidGSTIN,
+} from './gst';
+import { getReturnPeriod, isInTaxPeriod, type TaxPeriod } from './taxPeriods';
+import type { CSVValue } from './csv';
+import type { Business, CreditDebitNote, Invoice, InvoiceTotals, NoteType, SupplyType } from '../types';
+
+// Inter-state B2C invoices above this are reported one by one (B2CL); the rest are summed by state
+// and rate (B2CS). The limit has been ₹1 lakh since August 2024.
+export const B2CL_THRESHOLD = 100000;
+
+export type GSTR1Section = 'b2b' | 'b2cl' | 'b2cs' | 'exp';
+
+// Tax at one rate on a return document, in rupees. SGST includes UTGST, as the returns report it.
+export interface ReturnRateRow {
+  rate: number;
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface ReturnHSNRow extends ReturnRateRow {
+  hsnCode: string;
+  quantity: number;
+}
+
+// An invoice or note issued in a tax period, with its totals in rupees. Notes are positive
+// whatever their type; `noteType` says which way they move the invoice.
+export interface ReturnDocument {
+  id: string;
+  number: string;
+  date: string;
+  noteType?: NoteType;
+  invoice: Invoice; // The invoice itself, or the one the note was issued against
+  section: GSTR1Section; // Of the invoice
+  supplyType: SupplyType;
+  placeOfSupply: string; // GST state code
+  interState: boolean;
+  value: number;
+  rates: ReturnRateRow[];
+  hsn: ReturnHSNRow[];
+}
+
+export interface B2CSRow extends ReturnRateRow {
+  placeOfSupply: string;
+  interState: boolean;
+}
+
+export interface GSTR1HSNRow extends ReturnHSNRow {
+  description: string;
+  uqc: string; // Unit quantity code; 'NA' for services
+  totalValue: number;
+}
+
+export interface DocumentSeriesRow {
+  nature: number; // Document type number in table 13: 1 invoices, 4 debit notes, 5 credit notes
+  label: string;
+  from: string;
+  to: string;
+  total: number;
+  cancelled: number;
+}
+
+export interface GSTR1Report {
+  gstin: string;
+  period: TaxPeriod;
+  b2b: ReturnDocument[];
+  b2cl: ReturnDocument[];
+  b2cs: B2CSRow[];
+  cdnr: ReturnDocument[]; // Notes to registered customers
+  cdnur: ReturnDocument[]; // Notes against B2CL invoices and exports
+  exp: ReturnDocument[];
+  hsn: GSTR1HSNRow[];
+  docs: DocumentSeriesRow[];
+  warnings: string[]; // Data the return may be missing or misreport
+}
+
+const isIssued = (invoice: Invoice): boolean => invoice.status !== 'draft' && invoice.status !== 'cancelled';
+
+// Which part of GSTR-1 an invoice, and any note issued against it, is reported in
+export const getGSTR1Section = (invoice: Invoice, business: Business): GSTR1Section => {
+  const supplyType = getSupplyType(invoice);
+  if (isExportSupply(supplyType)) return 'exp';
+  if (supplyType !== 'b2c') return 'b2b';
+  const interState = getInvoiceGSTRegime(invoice, business) === 'igst';
+  return interState && toBaseAmount(getInvoiceTotals(invoice).total, invoice) > B2CL_THRESHOLD ? 'b2cl' : 'b2cs';
+};
+
+const toRateRows = (totals: InvoiceTotals, toRupees: (amount: number) => number): ReturnRateRow[] =>
+  totals.taxBreakdown.map(group => ({
+    rate: group.rate,
+    taxableValue: toRupees(group.taxableValue),
+    igst: toRupees(group.igst),
+    cgst: toRupees(group.cgst),
+    sgst: toRupees(sumMoney([group.sgst, group.utgst])),
+    cess: 0,
+  }));
+
+// `document` is the invoice itself or a note made printable against it
+const toReturnDocument = (invoice: Invoice, business: Business, document: Invoice, noteType?: NoteType): ReturnDocument => {
+  const regime = getInvoiceGSTRegime(invoice, business);
+  const totals = getInvoiceTotals(document, regime);
+  const toRupees = (amount: number): number => toBaseAmount(amount, invoice);
+  return {
+    id: document.id,
+    number: document.invoiceNumber,
+    date: document.date,
+    noteType,
+    invoice,
+    section: getGSTR1Section(invoice, business),
+    supplyType: getSupplyType(invoice),
+    placeOfSupply: getPlaceOfSupply(invoice, business) || getStateCodeFromGSTIN(invoice.customerGstin) || getBusinessStateCode(business) || '',
+    interState: regime === 'igst',
+    value: toRupees(totals.total),
+    rates: toRateRows(totals, toRupees),
+    hsn: totals.hsnSummary.map(group => ({
+      hsnCode: group.hsnCode,
+      quantity: group.quantity,
+      rate: group.rate,
+      taxableValue: toRupees(group.taxableValue),
+      igst: toRupees(group.igst),
+      cgst: toRupees(group.cgst),
+      sgst: toRupees(sumMoney([group.sgst, group.utgst])),
+      cess: 0,
+    })),
+  };
+};
+
+// Invoices and notes dated in `period`, worked out with the same totals the invoices print.
+// Drafts and cancelled invoices, and notes against them, are left out.
+export const getReturnDocuments = (
+  invoices: Invoice[],
+  notes: CreditDebitNote[],
+  business: Business,
+  period: TaxPeriod
+): ReturnDocument[] => {
+  const issued = invoices.filter(isIssued);
+  const invoiceById = new Map(issued.map(invoice => [invoice.id, invoice]));
+
+  const invoiceDocuments = issued
+    .filter(invoice => isInTaxPeriod(invoice.date, period))
+    .map(invoice => toReturnDocument(invoice, business, invoice));
+  const noteDocuments = notes
+    .filter(note => isInTaxPeriod(note.date, period))
+    .flatMap(note => {
+      const invoice = invoiceById.get(note.invoiceId);
+      return invoice ? [toReturnDocument(invoice, business, noteToPrintable(note, invoice), note.type)] : [];
+    });
+
+  return [...invoiceDocuments, ...noteDocuments].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime() || a.number.localeCompare(b.number, undefined, { numeric: true }));
+};
+
+// +1 for invoices and debit notes, -1 for credit notes
+export const getDocumentSign = (document: Pick<ReturnDocument, 'noteType'>): number =>
+  document.noteType === 'credit' ? -1 : 1;
+
+export const addRates = <T extends ReturnRateRow>(row: T, rates: ReturnRateRow, sign: number): void => {
+  row.taxableValue = sumMoney([row.taxableValue, sign * rates.taxableValue]);
+  row.igst = sumMoney([row.igst, sign * rates.igst]);
+  row.cgst = sumMoney([row.cgst, sign * rates.cgst]);
+  row.sgst = sumMoney([row.sgst, sign * rates.sgst]);
+  row.cess = sumMoney([row.cess, sign * rates.cess]);
+};
+
+export const emptyRates = (rate: number): ReturnRateRow => ({ rate, taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+// Rows added up across rates; `rate` of the result is meaningless
+export const sumRateRows = (rows: ReturnRateRow[]): ReturnRateRow => {
+  const total = emptyRates(0);
+  rows.forEach(row => addRates(total, row, 1));
+  return total;
+};
+
+// B2C invoices reported in total, net of their notes, by place of supply and rate
+const summarizeB2CS = (documents: ReturnDocument[]): B2CSRow[] => {
+  const rows = new Map<string, B2CSRow>();
+  documents.forEach(document => {
+    document.rates.forEach(rates => {
+      const key = `${document.placeOfSupply}|${rates.rate}`;
+      const row = rows.get(key) || { ...emptyRates(rates.rate), placeOfSupply: document.placeOfSupply, interState: document.interState };
+      addRates(row, rates, getDocumentSign(document));
+      rows.set(key, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply) || a.rate - b.rate);
+};
+
+// What an HSN code was sold as, and in which unit, from the first line or charge that uses it
+const describeHSN = (invoice: Invoice, hsnCode: string): { description: string; uqc: string } | undefined => {
+  const item = invoice.items.find(line => line.hsnCode?.trim() === hsnCode);
+  if (item) return { description: item.name, uqc: hsnCode.startsWith('99') ? 'NA' : toUnitCode(item.unit) };
+  const charge = (invoice.charges || []).find(line => line.hsnCode?.trim() === hsnCode);
+  return charge ? { description: charge.name, uqc: 'NA' } : undefined;
+};
+
+// Supplies by HSN code and rate across every section, net of notes
+const summarizeHSN = (documents: ReturnDocument[]): GSTR1HSNRow[] => {
+  const rows = new Map<string, GSTR1HSNRow>();
+  documents.forEach(document => {
+    const sign = getDocumentSign(document);
+    document.hsn.forEach(group => {
+      const key = `${group.hsnCode}|${group.rate}`;
+      const row = rows.get(key) || {
+        ...emptyRates(group.rate),
+        hsnCode: group.hsnCode,
+        quantity: 0,
+        totalValue: 0,
+        description: '',
+        uqc: 'OTH',
+        ...describeHSN(document.invoice, group.hsnCode),
+      };
+      addRates(row, group, sign);
+      row.quantity += sign * group.quantity;
+      row.totalValue = sumMoney([row.taxableValue, row.igst, row.cgst, row.sgst, row.cess]);
+      rows.set(key, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.rate - b.rate);
+};
+
+// One row per numbering series: documents sharing everything but their trailing number
+const summarizeSeries = (
+  nature: number,
+  label: string,
+  documents: { number: string; cancelled: boolean }[]
+): DocumentSeriesRow[] => {
+  const series = new Map<string, { number: string; cancelled: boolean }[]>();
+  documents.forEach(document => {
+    const prefix = document.number.replace(/\d+$/, '');
+    series.set(prefix, [...(series.get(prefix) || []), document]);
+  });
+  return [...series.values()].map(group => {
+    const sorted = [...group].sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+    return {
+      nature,
+      label,
+      from: sorted[0].number,
+      to: sorted[sorted.length - 1].number,
+      total: group.length,
+      cancelled: group.filter(document => document.cancelled).length,
+    };
+  });
+};
+
+export const buildGSTR1 = (
+  invoices: Invoice[],
+  notes: CreditDebitNote[],
+  business: Business,
+  period: TaxPeriod
+): GSTR1Report => {
+  const documents = getReturnDocuments(invoices, notes, business, period);
+  const invoiceDocuments = documents.filter(document => !document.noteType);
+  const noteDocuments = documents.filter(document => document.noteType);
+  const inSection = (list: ReturnDocument[], section: GSTR1Section) => list.filter(document => document.section === section);
+
+  const warnings: string[] = [];
+  invoiceDocuments.forEach(({ invoice, section }) => {
+    if (section === 'b2b' && !isValidGSTIN(invoice.customerGstin || '')) {
+      warnings.push(`${invoice.invoiceNumber}: customer GSTIN is missing or invalid`);
+    }
+    if (invoice.items.some(item => !item.hsnCode?.trim())) {
+      warnings.push(`${invoice.invoiceNumber}: lines without an HSN/SAC code are left out of the HSN summary`);
+    }
+  });
+
+  // Cancelled invoices still used up their numbers, so the document summary counts them
+  const numbered = invoices.filter(invoice => invoice.status !== 'draft' && isInTaxPeriod(invoice.date, period));
+  const notesOf = (type: NoteType) => noteDocuments
+    .filter(document => document.noteType === type)
+    .map(document => ({ number: document.number, cancelled: false }));
+
+  return {
+    gstin: (business.taxId || '').trim().toUpperCase(),
+    period,
+    b2b: inSection(invoiceDocuments, 'b2b'),
+    b2cl: inSection(invoiceDocuments, 'b2cl'),
+    b2cs: summarizeB2CS(inSection(documents, 'b2cs')),
+    cdnr: inSection(noteDocuments, 'b2b'),
+    cdnur: noteDocuments.filter(document => document.section === 'b2cl' || document.section === 'exp'),
+    exp: inSection(invoiceDocuments, 'exp'),
+    hsn: summarizeHSN(documents),
+    docs: [
+      ...summarizeSeries(1, 'Invoices for outward supply', numbered.map(invoice => ({
+        number: invoice.invoiceNumber,
+        cancelled: invoice.status === 'cancelled',
+      }))),
+      ...summarizeSeries(4, 'Debit Note', notesOf('debit')),
+      ...summarizeSeries(5, 'Credit Note', notesOf('credit')),
+    ],
+    warnings,
+  };
+};
+
+// Offline tool codes
+const INVOICE_TYPE_CODES: Partial<Record<SupplyType, string>> = {
+  b2b: 'R',
+  sez_with_payment: 'SEWP',
+  sez_without_payment: 'SEWOP',
+  deemed_export: 'DE',
+};
+
+const INVOICE_TYPE_LABELS: Partial<Record<SupplyType, string>> = {
+  b2b: 'Regular B2B',
+  sez_with_payment: 'SEZ supplies with payment',
+  sez_without_payment: 'SEZ supplies without payment',
+  deemed_export: 'Deemed Exp',
+};
+
+const getExportType = (document: ReturnDocument): string =>
+  document.supplyType === 'export_with_payment' ? 'WPAY' : 'WOPAY';
+
+const getUnregisteredNoteType = (document: ReturnDocument): string =>
+  document.section === 'b2cl' ? 'B2CL' : document.supplyType === 'export_with_payment' ? 'EXPWP' : 'EXPWOP';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// "01-10-2026" in the JSON
+const toJSONDate = (date: string): string => toPortalDate(date).replace(/\//g, '-');
+
+// "01-Oct-2026" in the CSV sheets
+const toSheetDate = (date: string): string => {
+  const d = new Date(date);
+  return `${pad(d.getDate())}-${MONTHS[d.getMonth()]}-${d.getFullYear()}`;
+};
+
+// Tax amounts of an item, IGST or CGST with SGST as the supply is charged
+const toItemDetails = (rates: ReturnRateRow, interState: boolean) => ({
+  txval: rates.taxableValue,
+  rt: rates.rate,
+  ...(interState ? { iamt: rates.igst } : { camt: rates.cgst, samt: rates.sgst }),
+  csamt: rates.cess,
+});
+
+const toItems = (document: ReturnDocument) =>
+  document.rates.map((rates, index) => ({ num: index + 1, itm_det: toItemDetails(rates, document.interState) }));
+
+// Documents grouped by customer GSTIN, as B2B and CDNR list them
+const groupByGSTIN = <T>(documents: ReturnDocument[], toEntry: (document: ReturnDocument) => T): { ctin: string; entries: T[] }[] => {
+  const groups = new Map<string, T[]>();
+  documents.forEach(document => {
+    const ctin = (document.invoice.customerGstin || '').trim().toUpperCase();
+    groups.set(ctin, [...(groups.get(ctin) || []), toEntry(document)]);
+  });
+  return [...groups.entries()].map(([ctin, entries]) => ({ ctin, entries }));
+};
+
+// GSTR-1 in the format the GST offline tool imports and the portal accepts
+export const toGSTR1JSON = (report: GSTR1Report) => ({
+  gstin: report.gstin,
+  fp: getReturnPeriod(report.period),
+  b2b: groupByGSTIN(report.b2b, document => ({
+    inum: document.number,
+    idt: toJSONDate(document.date),
+    val: document.value,
+    pos: document.placeOfSupply,
+    rchrg: 'N',
+    inv_typ: INVOICE_TYPE_CODES[document.supplyType] || 'R',
+    itms: toItems(document),
+  })).map(({ ctin, entries }) => ({ ctin, inv: entries })),
+  b2cl: [...new Set(report.b2cl.map(document => document.placeOfSupply))].map(pos => ({
+    pos,
+    inv: report.b2cl.filter(document => document.placeOfSupply === pos).map(document => ({
+      inum: document.number,
+      idt: toJSONDate(document.date),
+      val: document.value,
+      itms: toItems(document),
+    })),
+  })),
+  b2cs: report.b2cs.map(row => ({
+    sply_ty: row.interState ? 'INTER' : 'INTRA',
+    pos: row.placeOfSupply,
+    typ: 'OE',
+    ...toItemDetails(row, row.interState),
+  })),
+  cdnr: groupByGSTIN(report.cdnr, document => ({
+    ntty: document.noteType === 'credit' ? 'C' : 'D',
+    nt_num: document.number,
+    nt_dt: toJSONDate(document.date),
+    val: document.value,
+    pos: document.placeOfSupply,
+    rchrg: 'N',
+    inv_typ: INVOICE_TYPE_CODES[document.supplyType] || 'R',
+    itms: toItems(document),
+  })).map(({ ctin, entries }) => ({ ctin, nt: entries })),
+  cdnur: report.cdnur.map(document => ({
+    typ: getUnregisteredNoteType(document),
+    ntty: document.noteType === 'credit' ? 'C' : 'D',
+    nt_num: document.number,
+    nt_dt: toJSONDate(document.date),
+    val: document.value,
+    ...(document.section === 'b2cl' ? { pos: document.placeOfSupply } : {}),
+    itms: toItems(document),
+  })),
+  exp: ['WPAY', 'WOPAY']
+    .map(expType => ({
+      exp_typ: expType,
+      inv: report.exp.filter(document => getExportType(document) === expType).map(document => ({
+        inum: document.number,
+        idt: toJSONDate(document.date),
+        val: document.value,
+        ...(document.invoice.portCode ? { sbpcode: document.invoice.portCode } : {}),
+        ...(document.invoice.shippingBillNumber ? { sbnum: document.invoice.shippingBillNumber } : {}),
+        ...(document.invoice.shippingBillDate ? { sbdt: toJSONDate(document.invoice.shippingBillDate) } : {}),
+        itms: document.rates.map(rates => ({ txval: rates.taxableValue, rt: rates.rate, iamt: rates.igst, csamt: rates.cess })),
+      })),
+    }))
+    .filter(group => group.inv.length > 0),
+  hsn: {
+    data: report.hsn.map((row, index) => ({
+      num: index + 1,
+      hsn_sc: row.hsnCode,
+      desc: row.description,
+      uqc: row.uqc,
+      qty: row.quantity,
+      txval: row.taxableValue,
+      iamt: row.igst,
+      camt: row.cgst,
+      samt: row.sgst,
+      csamt: row.cess,
+      rt: row.rate,
+    })),
+  },
+  doc_issue: {
+    doc_det: [1, 4, 5]
+      .map(nature => ({
+        doc_num: nature,
+        docs: report.docs.filter(row => row.nature === nature).map((row, index) => ({
+          num: index + 1,
+          from: row.from,
+          to: row.to,
+          totnum: row.total,
+          cancel: row.cancelled,
+          net_issue: row.total - row.cancelled,
+        })),
+      }))
+      .filter(group => group.docs.length > 0),
+  },
+});
+
+export interface GSTR1Sheet {
+  name: string; // As the offline tool names its CSV templates
+  rows: CSVValue[][]; // Header row first
+}
+
+// One row per document and rate, in the offline tool's CSV templates
+export const getGSTR1Sheets = (report: GSTR1Report): GSTR1Sheet[] => {
+  const perRate = (documents: ReturnDocument[], toRow: (document: ReturnDocument, rates: ReturnRateRow) => CSVValue[]) =>
+    documents.flatMap(document => document.rates.map(rates => toRow(document, rates)));
+
+  return [
+    {
+      name: 'b2b',
+      rows: [
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply',
+          'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+        ...perRate(report.b2b, (document, rates) => [
+          document.invoice.customerGstin, document.invoice.customerName, document.number, toSheetDate(document.date),
+          document.value, formatState(document.placeOfSupply), 'N', '', INVOICE_TYPE_LABELS[document.supplyType] || 'Regular B2B',
+          '', rates.rate, rates.taxableValue, rates.cess,
+        ]),
+      ],
+    },
+    {
+      name: 'b2cl',
+      rows: [
+        ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate',
+          'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        ...perRate(report.b2cl, (document, rates) => [
+          document.number, toSheetDate(document.date), document.value, formatState(document.placeOfSupply), '',
+          rates.rate, rates.taxableValue, rates.cess, '',
+        ]),
+      ],
+    },
+    {
+      name: 'b2cs',
+      rows: [
+        ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        ...report.b2cs.map(row => ['OE', formatState(row.placeOfSupply), '', row.rate, row.taxableValue, row.cess, '']),
+      ],
+    },
+    {
+      name: 'cdnr',
+      rows: [
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply',
+          'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+        ...perRate(report.cdnr, (document, rates) => [
+          document.invoice.customerGstin, document.invoice.customerName, document.number, toSheetDate(document.date),
+          document.noteType === 'credit' ? 'C' : 'D', formatState(document.placeOfSupply), 'N',
+          INVOICE_TYPE_LABELS[document.supplyType] || 'Regular B2B', document.value, '', rates.rate, rates.taxableValue, rates.cess,
+        ]),
+      ],
+    },
+    {
+      name: 'cdnur',
+      rows: [
+        ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', 'Applicable % of Tax Rate',
+          'Rate', 'Taxable Value', 'Cess Amount'],
+        ...perRate(report.cdnur, (document, rates) => [
+          getUnregisteredNoteType(document), document.number, toSheetDate(document.date),
+          document.noteType === 'credit' ? 'C' : 'D', document.section === 'b2cl' ? formatState(document.placeOfSupply) : '',
+          document.value, '', rates.rate, rates.taxableValue, rates.cess,
+        ]),
+      ],
+    },
+    {
+      name: 'exp',
+      rows: [
+        ['Export Type', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Port Code', 'Shipping Bill Number',
+          'Shipping Bill Date', 'Rate', 'Taxable Value', 'Cess Amount'],
+        ...perRate(report.exp, (document, rates) => [
+          getExportType(document), document.number, toSheetDate(document.date), document.value,
+          document.invoice.portCode, document.invoice.shippingBillNumber,
+          document.invoice.shippingBillDate ? toSheetDate(document.invoice.shippingBillDate) : '',
+          rates.rate, rates.taxableValue, rates.cess,
+        ]),
+      ],
+    },
+    {
+      name: 'hsn',
+      rows: [
+        ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount',
+          'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+        ...report.hsn.map(row => [
+          row.hsnCode, row.description, row.uqc, row.quantity, row.totalValue, row.rate, row.taxableValue,
+          row.igst, row.cgst, row.sgst, row.cess,
+        ]),
+      ],
+    },
+    {
+      name: 'docs',
+      rows: [
+        ['Nature of Document', 'Sr. No. From', 'Sr. No. To', 'Total Number', 'Cancelled'],
+        ...report.docs.map(row => [row.label, row.from, row.to, row.total, row.cancelled]),
+      ],
+    },
+  ];
+};
+
+export const getGSTR1Filename = (report: GSTR1Report, extension: string, sheet?: string): string =>
+  `GSTR1-${report.gstin || 'return'}-${getReturnPeriod(report.period)}${sheet ? `-${sheet}` : ''}.${extension}`;
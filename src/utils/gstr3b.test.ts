@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { buildGSTR3B, getGSTR3BTaxTotals } from './gstr3b';
+import type { Business, CreditDebitNote, Invoice, InvoiceItem } from '../types';
+
+// Registered in Karnataka (29)
+const business: Business = {
+  name: 'Test Traders',
+  address: '',
+  city: '',
+  state: 'Karnataka',
+  stateCode: '29',
+  pincode: '',
+  phone: '',
+  email: '',
+  taxId: '29ABCDE1234F1Z5',
+  logo: null,
+  signature: null,
+  currency: 'INR',
+  taxRate: 18,
+};
+
+const quarter = { type: 'quarter', year: 2026, month: 4 } as const;
+
+const line = (id: string, price: number, taxRate: number): InvoiceItem => ({ id, name: 'Item', quantity: 1, price, taxRate });
+
+const invoice = (id: string, fields: Partial<Invoice>): Invoice => ({
+  id,
+  invoiceNumber: `INV-00${id}`,
+  date: '2026-05-15',
+  customerName: 'Customer',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  placeOfSupply: '29',
+  items: [],
+  taxRate: 18,
+  discount: 0,
+  notes: '',
+  status: 'pending',
+  ...fields,
+});
+
+const invoices: Invoice[] = [
+  // Taxable and nil-rated lines on the same invoice land in different rows
+  invoice('1', { items: [line('a', 1000, 18), line('b', 400, 0)] }),
+  invoice('2', { placeOfSupply: '27', items: [line('a', 2000, 12)] }),
+  invoice('3', { supplyType: 'export_without_payment', items: [line('a', 5000, 18)] }),
+  invoice('4', { supplyType: 'sez_with_payment', customerGstin: '27AAAAA1111A1Z5', items: [line('a', 1000, 18)] }),
+  invoice('5', { status: 'draft', items: [line('a', 9999, 18)] }),
+  invoice('6', { date: '2026-07-01', items: [line('a', 9999, 18)] }),
+];
+
+const notes: CreditDebitNote[] = [
+  { id: 'n1', noteNumber: 'CN-001', type: 'credit', invoiceId: '1', date: '2026-06-01', reason: 'Returned', items: [line('a', 100, 18)], taxRate: 18, discount: 0 },
+  { id: 'n2', noteNumber: 'DN-001', type: 'debit', invoiceId: '2', date: '2026-06-01', reason: 'Short billed', items: [line('a', 500, 12)], taxRate: 12, discount: 0 },
+];
+
+describe('buildGSTR3B', () => {
+  const report = buildGSTR3B(invoices, notes, business, quarter);
+  const row = (key: string) => report.rows.find(candidate => candidate.key === key);
+
+  it('lists every row of table 3.1 in order', () => {
+    expect(report.rows.map(candidate => candidate.key)).toEqual(['outwardTaxable', 'zeroRated', 'nilExempt', 'reverseCharge', 'nonGST']);
+  });
+
+  it('reports taxable supplies net of credit notes and with debit notes added', () => {
+    expect(row('outwardTaxable')).toMatchObject({ taxableValue: 3400, igst: 300, cgst: 81, sgst: 81, cess: 0 });
+  });
+
+  it('reports exports and SEZ supplies as zero rated, with or without IGST paid', () => {
+    expect(row('zeroRated')).toMatchObject({ taxableValue: 6000, igst: 180, cgst: 0, sgst: 0 });
+  });
+
+  it('reports 0% lines on other supplies as nil rated', () => {
+    expect(row('nilExempt')).toMatchObject({ taxableValue: 400, igst: 0, cgst: 0, sgst: 0 });
+  });
+
+  it('leaves out drafts and documents outside the period', () => {
+    expect(row('reverseCharge')).toMatchObject({ taxableValue: 0, igst: 0 });
+    expect(getGSTR3BTaxTotals(report)).toMatchObject({ igst: 480, cgst: 81, sgst: 81, cess: 0 });
+  });
+});
@@ -0,0 +1,92 @@
+import { addRates, emptyRates, getDocumentSign, getReturnDocuments, sumRateRows, type ReturnRateRow } from './gstr1';
+import { isExportSupply, isSEZSupply } from './gst';
+import { getReturnPeriod, type TaxPeriod } from './taxPeriods';
+import type { CSVValue } from './csv';
+import type { Business, CreditDebitNote, Invoice } from '../types';
+
+// Rows of table 3.1, "Details of outward supplies and inward supplies liable to reverse charge"
+export type GSTR3BSupplyKey = 'outwardTaxable' | 'zeroRated' | 'nilExempt' | 'reverseCharge' | 'nonGST';
+
+export interface GSTR3BRow extends Omit<ReturnRateRow, 'rate'> {
+  key: GSTR3BSupplyKey;
+  label: string;
+}
+
+export interface GSTR3BReport {
+  gstin: string;
+  period: TaxPeriod;
+  rows: GSTR3BRow[]; // In table order, (a) to (e)
+}
+
+const SUPPLY_LABELS: Record<GSTR3BSupplyKey, string> = {
+  outwardTaxable: '(a) Outward taxable supplies (other than zero rated, nil rated and exempted)',
+  zeroRated: '(b) Outward taxable supplies (zero rated)',
+  nilExempt: '(c) Other outward supplies (nil rated, exempted)',
+  reverseCharge: '(d) Inward supplies (liable to reverse charge)',
+  nonGST: '(e) Non-GST outward supplies',
+};
+
+const SUPPLY_KEYS = Object.keys(SUPPLY_LABELS) as GSTR3BSupplyKey[];
+
+// Table 3.1 from the invoices and notes dated in `period`, with the same totals GSTR-1 uses.
+// Exports and SEZ supplies are zero rated whether or not IGST was paid; lines at 0% on other
+// supplies are nil rated. Purchases are not recorded, so there is nothing under reverse charge.
+export const buildGSTR3B = (
+  invoices: Invoice[],
+  notes: CreditDebitNote[],
+  business: Business,
+  period: TaxPeriod
+): GSTR3BReport => {
+  const totals = Object.fromEntries(SUPPLY_KEYS.map(key => [key, emptyRates(0)])) as Record<GSTR3BSupplyKey, ReturnRateRow>;
+
+  getReturnDocuments(invoices, notes, business, period).forEach(document => {
+    const zeroRated = isExportSupply(document.supplyType) || isSEZSupply(document.supplyType);
+    const sign = getDocumentSign(document);
+    document.rates.forEach(row => {
+      const key: GSTR3BSupplyKey = zeroRated ? 'zeroRated' : row.rate === 0 ? 'nilExempt' : 'outwardTaxable';
+      addRates(totals[key], row, sign);
+    });
+  });
+
+  return {
+    gstin: (business.taxId || '').trim().toUpperCase(),
+    period,
+    rows: SUPPLY_KEYS.map(key => {
+      const { rate: _rate, ...row } = totals[key];
+      return { key, label: SUPPLY_LABELS[key], ...row };
+    }),
+  };
+};
+
+const getRow = (report: GSTR3BReport, key: GSTR3BSupplyKey): GSTR3BRow =>
+  report.rows.find(row => row.key === key) as GSTR3BRow;
+
+// Tax payable across the table
+export const getGSTR3BTaxTotals = (report: GSTR3BReport): Pick<GSTR3BRow, 'igst' | 'cgst' | 'sgst' | 'cess'> =>
+  sumRateRows(report.rows.map(row => ({ ...row, rate: 0 })));
+
+// Table 3.1 as the GST portal's GSTR-3B JSON lays it out
+export const toGSTR3BJSON = (report: GSTR3BReport) => {
+  const taxed = (row: GSTR3BRow) => ({ txval: row.taxableValue, iamt: row.igst, camt: row.cgst, samt: row.sgst, csamt: row.cess });
+  const zeroRated = getRow(report, 'zeroRated');
+  return {
+    gstin: report.gstin,
+    ret_period: getReturnPeriod(report.period),
+    sup_details: {
+      osup_det: taxed(getRow(report, 'outwardTaxable')),
+      osup_zero: { txval: zeroRated.taxableValue, iamt: zeroRated.igst, csamt: zeroRated.cess },
+      osup_nil_exmp: { txval: getRow(report, 'nilExempt').taxableValue },
+      isup_rev: taxed(getRow(report, 'reverseCharge')),
+      osup_nongst: { txval: getRow(report, 'nonGST').taxableValue },
+    },
+  };
+};
+
+// Table 3.1 with its headings, header row first
+export const getGSTR3BRows = (report: GSTR3BReport): CSVValue[][] => [
+  ['Nature of Supplies', 'Total Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+  ...report.rows.map(row => [row.label, row.taxableValue, row.igst, row.cgst, row.sgst, row.cess]),
+];
+
+export const getGSTR3BFilename = (report: GSTR3BReport, extension: string): string =>
+  `GSTR3B-${report.gstin || 'return'}-${getReturnPeriod(report.period)}.${extension}`;
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChargeTotals, calculateInvoiceTotals, calculateLineTotals, getInvoiceTotals, splitGST } from './helpers';
+import type { AdditionalCharge, InvoiceItem } from '../types';
+
+const item = (fields: Partial<InvoiceItem> = {}): InvoiceItem => ({ id: 'item', name: 'Item', quantity: 1, price: 100, ...fields });
+
+describe('splitGST', () => {
+  it('splits tax between centre and state, the odd paisa going to CGST', () => {
+    expect(splitGST(18.01, 'cgst_sgst')).toMatchObject({ cgst: 9.01, sgst: 9, utgst: 0, igst: 0, total: 18.01 });
+  });
+
+  it('puts the state share under UTGST for union territories', () => {
+    expect(splitGST(18, 'cgst_utgst')).toMatchObject({ cgst: 9, sgst: 0, utgst: 9, igst: 0 });
+  });
+
+  it('keeps inter-state tax whole as IGST', () => {
+    expect(splitGST(18, 'igst')).toMatchObject({ cgst: 0, sgst: 0, igst: 18, total: 18 });
+  });
+});
+
+describe('calculateLineTotals', () => {
+  it('taxes a line at its own rate', () => {
+    expect(calculateLineTotals(item({ quantity: 2, taxRate: 5 }), 18)).toMatchObject({ taxableValue: 200, taxRate: 5, taxAmount: 10, amount: 210 });
+  });
+
+  it('keeps a 0% line untaxed instead of using the invoice rate', () => {
+    expect(calculateLineTotals(item({ taxRate: 0 }), 18)).toMatchObject({ taxRate: 0, taxAmount: 0, amount: 100 });
+  });
+
+  it('uses the invoice rate for a line without a rate', () => {
+    expect(calculateLineTotals(item({ taxRate: '' }), 18)).toMatchObject({ taxRate: 18, taxAmount: 18 });
+    expect(calculateLineTotals(item(), 18)).toMatchObject({ taxRate: 18, taxAmount: 18 });
+  });
+
+  it('takes the tax back out of a tax-inclusive price', () => {
+    expect(calculateLineTotals(item({ price: 118, priceIncludesTax: true, taxRate: 18 }))).toMatchObject({ taxableValue: 100, taxAmount: 18, amount: 118 });
+  });
+
+  it('leaves tax exact when it is rounded per invoice', () => {
+    expect(calculateLineTotals(item({ price: 0.99, taxRate: 5 }), 0, 0, 'invoice').taxAmount).toBeCloseTo(0.0495, 6);
+  });
+
+  it('applies the line discount and then the invoice discount', () => {
+    expect(calculateLineTotals(item({ discount: 10 }), 0, 10)).toMatchObject({ grossAmount: 100, discountAmount: 19, taxableValue: 81 });
+  });
+});
+
+describe('calculateChargeTotals', () => {
+  const charge = (fields: Partial<AdditionalCharge> = {}): AdditionalCharge => ({
+    id: 'charge',
+    name: 'Freight',
+    amount: 50,
+    placement: 'before_tax',
+    taxable: true,
+    ...fields,
+  });
+
+  it('taxes a taxable charge placed before tax', () => {
+    expect(calculateChargeTotals(charge(), 18)).toMatchObject({ taxableValue: 50, taxRate: 18, taxAmount: 9, amount: 59 });
+  });
+
+  it('keeps a 0% charge untaxed', () => {
+    expect(calculateChargeTotals(charge({ taxRate: 0 }), 18)).toMatchObject({ taxRate: 0, taxAmount: 0 });
+  });
+
+  it('does not tax charges added after tax', () => {
+    expect(calculateChargeTotals(charge({ placement: 'after_tax' }), 18)).toMatchObject({ taxableValue: 0, taxAmount: 0, amount: 50 });
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('sums tax by rate', () => {
+    const totals = calculateInvoiceTotals([item({ id: 'a', taxRate: 18 }), item({ id: 'b', taxRate: 18 }), item({ id: 'c', taxRate: 5 })], 18);
+    expect(totals.taxBreakdown.map(group => [group.rate, group.taxableValue, group.total])).toEqual([[5, 100, 5], [18, 200, 36]]);
+    expect(totals.gst).toMatchObject({ cgst: 20.5, sgst: 20.5, total: 41 });
+  });
+
+  it('sums tax by HSN code and rate', () => {
+    const totals = calculateInvoiceTotals(
+      [item({ id: 'a', hsnCode: '8471', taxRate: 18 }), item({ id: 'b', hsnCode: '8471', taxRate: 18 }), item({ id: 'c', hsnCode: '4901', taxRate: 0 }), item({ id: 'd' })],
+      18
+    );
+    expect(totals.hsnSummary.map(group => [group.hsnCode, group.rate, group.quantity, group.total])).toEqual([['4901', 0, 1, 0], ['8471', 18, 2, 36]]);
+  });
+
+  it('rounds tax once per rate when tax rounding is per invoice', () => {
+    // 4.5 paise of tax on each line
+    const items = [item({ id: 'a', price: 0.9 }), item({ id: 'b', price: 0.9 })];
+    const perLine = calculateInvoiceTotals(items, 5, 0, 'igst', { mode: 'nearest', increment: 0.01, taxRounding: 'line' });
+    const perInvoice = calculateInvoiceTotals(items, 5, 0, 'igst', { mode: 'nearest', increment: 0.01, taxRounding: 'invoice' });
+    expect(perLine.taxAmount).toBe(0.1);
+    expect(perInvoice.taxAmount).toBe(0.09);
+    expect(perInvoice.taxBreakdown).toEqual([{ rate: 5, taxableValue: 1.8, cgst: 0, sgst: 0, utgst: 0, igst: 0.09, total: 0.09 }]);
+  });
+
+  it('rounds the total and reports the round-off', () => {
+    const totals = calculateInvoiceTotals([item({ price: 100.4 })], 0);
+    expect(totals.total).toBe(100);
+    expect(totals.roundOff).toBe(-0.4);
+  });
+
+  it('spreads a fixed discount over the lines to the paisa', () => {
+    const totals = calculateInvoiceTotals(
+      [item({ id: 'a' }), item({ id: 'b' }), item({ id: 'c' })],
+      0,
+      100,
+      'cgst_sgst',
+      { mode: 'nearest', increment: 0.01, taxRounding: 'line' },
+      'amount'
+    );
+    expect(totals.lines.map(line => line.taxableValue)).toEqual([66.66, 66.67, 66.67]);
+    expect(totals.discountAmount).toBe(100);
+    expect(totals.total).toBe(200);
+  });
+});
+
+describe('getInvoiceTotals', () => {
+  it('bills zero-rated supplies without tax', () => {
+    const totals = getInvoiceTotals({ items: [item({ taxRate: 18 })], taxRate: 18, discount: 0, supplyType: 'export_without_payment' });
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.total).toBe(100);
+  });
+});
@@ -1,4 +1,24 @@
-import type { InvoiceItem, InvoiceTotals, InvoiceStatus, DateFormat } from '../types';
+import type {
+  AdditionalCharge,
+  ChargePlacement,
+  ChargeTotals,
+  DateFormat,
+  DiscountType,
+  GSTBreakdown,
+  GSTRegime,
+  HSNSummary,
+  Invoice,
+  InvoiceItem,
+  InvoiceStatus,
+  InvoiceTotals,
+  LineTotals,
+  RoundingSettings,
+  TaxRateSummary,
+  TaxRoundingLevel,
+} from '../types';
+import { allocateMinor, fromMinor, resolveRounding, roundMinor, roundMoney, sumMoney, toMinor } from './money';
+import { formatMoney } from './currency';
+import { isSupplyWithoutTax } from './gst';
 
 // Generate unique ID (UUID v4)
 export const generateId = (): string => {
@@ -13,14 +33,9 @@ export const generateId = (): string => {
   });
 };
 
-// Format currency
-export const formatCurrency = (amount: number | string, currency: string = '₹'): string => {
-  const num = parseFloat(String(amount)) || 0;
-  return `${currency}${num.toLocaleString('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  })}`;
-};
+// Format currency; `currency` is an ISO code or a symbol
+export const formatCurrency = (amount: number | string, currency: string = '₹'): string =>
+  formatMoney(parseFloat(String(amount)) || 0, currency);
 
 // Format date
 export const formatDate = (date: string | Date | null | undefined, format: DateFormat = 'short'): string => {
@@ -51,54 +66,252 @@ export const formatDate = (date: string | Date | null | undefined, format: DateF
   return d.toLocaleDateString();
 };
 
-// Calculate invoice totals with per-item discount and tax support
+// Split a GST amount into its components under `regime`. An odd paisa goes to CGST so the
+// components always add back up to the amount.
+export const splitGST = (amount: number, regime: GSTRegime): GSTBreakdown => {
+  const totalMinor = toMinor(amount);
+  const centralMinor = regime === 'igst' ? 0 : roundMinor(totalMinor / 2);
+  const stateShare = fromMinor(totalMinor - centralMinor);
+  return {
+    regime,
+    cgst: fromMinor(centralMinor),
+    sgst: regime === 'cgst_sgst' ? stateShare : 0,
+    utgst: regime === 'cgst_utgst' ? stateShare : 0,
+    igst: regime === 'igst' ? fromMinor(totalMinor) : 0,
+    total: fromMinor(totalMinor),
+  };
+};
+
+const toNumber = (value: unknown): number => parseFloat(String(value)) || 0;
+
+// A line's or charge's own tax rate, else `defaultTaxRate`. Only a blank rate falls back;
+// 0 is a rate of its own, for nil-rated and exempt supplies.
+export const getTaxRate = (rate: number | string | undefined, defaultTaxRate: number = 0): number =>
+  rate === '' || rate == null ? toNumber(defaultTaxRate) : toNumber(rate);
+
+// A tax rate as typed into a form: blank stays blank, so the default rate applies
+export const parseTaxRateInput = (value: string): number | '' =>
+  value.trim() === '' ? '' : toNumber(value);
+
+// Totals for one line. Lines without a tax rate of their own are taxed at `defaultTaxRate`, and
+// `invoiceDiscount` (a percentage) is spread over every line so their values add up to the invoice.
+// Tax-inclusive prices are discounted as charged and the tax is then taken back out of what remains.
+// Values are settled in whole paise; the tax too when `taxRounding` is per line, otherwise it stays
+// exact and is rounded once per rate when the invoice is totalled.
+export const calculateLineTotals = (
+  item: InvoiceItem,
+  defaultTaxRate: number = 0,
+  invoiceDiscount: number = 0,
+  taxRounding: TaxRoundingLevel = 'line'
+): LineTotals => {
+  const quantity = toNumber(item.quantity);
+  const taxRate = getTaxRate(item.taxRate, defaultTaxRate);
+  const taxDivisor = item.priceIncludesTax ? 1 + taxRate / 100 : 1;
+
+  const grossMinor = toMinor((quantity * toNumber(item.price)) / taxDivisor);
+  const afterLineDiscount = grossMinor * (1 - toNumber(item.discount) / 100);
+  const taxableMinor = roundMinor(afterLineDiscount * (1 - toNumber(invoiceDiscount) / 100));
+  const exactTaxMinor = (taxableMinor * taxRate) / 100;
+  const taxMinor = taxRounding === 'line' ? roundMinor(exactTaxMinor) : exactTaxMinor;
+
+  return {
+    id: item.id,
+    hsnCode: item.hsnCode?.trim() || undefined,
+    quantity,
+    grossAmount: fromMinor(grossMinor),
+    discountAmount: fromMinor(grossMinor - taxableMinor),
+    taxableValue: fromMinor(taxableMinor),
+    taxRate,
+    taxAmount: fromMinor(taxMinor),
+    amount: fromMinor(taxableMinor + taxMinor),
+  };
+};
+
+// Totals for an additional charge. Only taxable charges placed before tax are taxed, at their own
+// rate or else the invoice's.
+export const calculateChargeTotals = (
+  charge: AdditionalCharge,
+  defaultTaxRate: number = 0,
+  taxRounding: TaxRoundingLevel = 'line'
+): ChargeTotals => {
+  const amountMinor = toMinor(toNumber(charge.amount));
+  const taxed = charge.placement === 'before_tax' && charge.taxable;
+  const taxRate = taxed ? getTaxRate(charge.taxRate, defaultTaxRate) : 0;
+  const exactTaxMinor = (amountMinor * taxRate) / 100;
+  const taxMinor = taxRounding === 'line' ? roundMinor(exactTaxMinor) : exactTaxMinor;
+
+  return {
+    id: charge.id,
+    hsnCode: charge.hsnCode?.trim() || undefined,
+    name: charge.name,
+    placement: charge.placement,
+    quantity: 1,
+    grossAmount: fromMinor(amountMinor),
+    discountAmount: 0,
+    taxableValue: taxed ? fromMinor(amountMinor) : 0,
+    taxRate,
+    taxAmount: fromMinor(taxMinor),
+    amount: fromMinor(amountMinor + taxMinor),
+  };
+};
+
+// Lines with a fixed invoice discount spread over them in proportion to their value. Each line gets
+// the percentage that takes exactly its share off, so the shares add up to the discount to the paisa.
+const spreadFixedDiscount = (
+  items: InvoiceItem[],
+  baseLines: LineTotals[],
+  discount: number,
+  taxRate: number,
+  taxRounding: TaxRoundingLevel
+): LineTotals[] => {
+  const baseMinor = baseLines.map(line => toMinor(line.taxableValue));
+  const discountMinor = Math.min(toMinor(discount), baseMinor.reduce((sum, value) => sum + value, 0));
+  const shares = allocateMinor(Math.max(0, discountMinor), baseMinor);
+  return items.map((item, index) => {
+    const percent = baseMinor[index] > 0 ? (shares[index] / baseMinor[index]) * 100 : 0;
+    return calculateLineTotals(item, taxRate, percent, taxRounding);
+  });
+};
+
+// Sum lines that share a key, keeping the first line of each group
+const groupLines = (lines: LineTotals[], keyOf: (line: LineTotals) => string | null) => {
+  const groups = new Map<string, { first: LineTotals; quantity: number; taxableValue: number; taxAmount: number }>();
+  lines.forEach(line => {
+    const key = keyOf(line);
+    if (key === null) return;
+    const group = groups.get(key) || { first: line, quantity: 0, taxableValue: 0, taxAmount: 0 };
+    group.quantity += line.quantity;
+    group.taxableValue += line.taxableValue;
+    group.taxAmount += line.taxAmount;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+// Group totals are rounded to paise here, which is where per-invoice tax rounding happens
+const toTaxSummary = (rate: number, taxableValue: number, taxAmount: number, gstRegime: GSTRegime): TaxRateSummary => {
+  const { cgst, sgst, utgst, igst, total } = splitGST(roundMoney(taxAmount), gstRegime);
+  return { rate, taxableValue: roundMoney(taxableValue), cgst, sgst, utgst, igst, total };
+};
+
+// Group line tax by rate, split into its GST components
+export const summarizeTaxByRate = (lines: LineTotals[], gstRegime: GSTRegime = 'cgst_sgst'): TaxRateSummary[] =>
+  groupLines(lines, line => String(line.taxRate))
+    .map(group => toTaxSummary(group.first.taxRate, group.taxableValue, group.taxAmount, gstRegime))
+    .sort((a, b) => a.rate - b.rate);
+
+// Group line tax by HSN/SAC code and rate, as GST returns and the invoice HSN summary need it
+export const summarizeTaxByHSN = (lines: LineTotals[], gstRegime: GSTRegime = 'cgst_sgst'): HSNSummary[] =>
+  groupLines(lines, line => (line.hsnCode ? `${line.hsnCode}|${line.taxRate}` : null))
+    .map(group => ({
+      hsnCode: group.first.hsnCode as string,
+      quantity: group.quantity,
+      ...toTaxSummary(group.first.taxRate, group.taxableValue, group.taxAmount, gstRegime),
+    }))
+    .sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.rate - b.rate);
+
+// Calculate invoice totals with per-item discount and tax support.
+// `taxRate` applies to lines without a rate of their own; `gstRegime` only decides how the tax is split.
+// `rounding` is the document's own snapshot; documents without one total the way they always did.
+// `discount` is a percentage unless `discountType` makes it a fixed amount.
 export const calculateInvoiceTotals = (
   items: InvoiceItem[],
   taxRate: number = 0,
-  discount: number = 0
+  discount: number = 0,
+  gstRegime: GSTRegime = 'cgst_sgst',
+  rounding?: RoundingSettings,
+  discountType: DiscountType = 'percent',
+  charges: AdditionalCharge[] = []
 ): InvoiceTotals => {
-  // Calculate per-item totals first
-  const itemTotals = items.map(item => {
-    const qty = parseFloat(String(item.quantity)) || 0;
-    const price = parseFloat(String(item.price)) || 0;
-    const itemDiscount = parseFloat(String(item.discount)) || 0;
-    const itemTaxRate = parseFloat(String(item.taxRate)) || 0;
-
-    const itemSubtotal = qty * price;
-    const itemDiscountAmount = (itemSubtotal * itemDiscount) / 100;
-    const itemTaxable = itemSubtotal - itemDiscountAmount;
-    const itemTaxAmount = (itemTaxable * itemTaxRate) / 100;
-    const itemTotal = itemTaxable + itemTaxAmount;
-
-    return itemTotal;
-  });
+  const { mode, increment, taxRounding } = resolveRounding(rounding);
+  const baseLines = items.map(item => calculateLineTotals(item, taxRate, 0, taxRounding));
+  const lines = discountType === 'amount'
+    ? spreadFixedDiscount(items, baseLines, toNumber(discount), taxRate, taxRounding)
+    : items.map(item => calculateLineTotals(item, taxRate, discount, taxRounding));
+  const chargeTotals = charges.map(charge => calculateChargeTotals(charge, taxRate, taxRounding));
+
+  const subtotal = sumMoney(baseLines.map(line => line.taxableValue));
+  const itemsTaxable = sumMoney(lines.map(line => line.taxableValue));
+  const discountAmount = sumMoney([subtotal, -itemsTaxable]);
+  const taxableAmount = sumMoney([itemsTaxable, ...chargeTotals.map(charge => charge.taxableValue)]);
 
-  // Sum all item totals to get invoice subtotal
-  const subtotal = itemTotals.reduce((sum, total) => sum + total, 0);
+  // Invoice tax and its GST split are sums of the per-rate totals, so they always match the tax summary
+  const taxedLines = [...lines, ...chargeTotals.filter(charge => charge.taxableValue > 0)];
+  const taxBreakdown = summarizeTaxByRate(taxedLines, gstRegime);
+  const taxAmount = sumMoney(taxBreakdown.map(group => group.total));
 
-  // Apply invoice-level discount and tax
-  const discountAmount = (subtotal * (parseFloat(String(discount)) || 0)) / 100;
-  const taxableAmount = subtotal - discountAmount;
-  const taxAmount = (taxableAmount * (parseFloat(String(taxRate)) || 0)) / 100;
-  const exactTotal = taxableAmount + taxAmount;
-  const roundedTotal = Math.round(exactTotal);
-  const roundOff = roundedTotal - exactTotal;
+  const exactTotal = sumMoney([itemsTaxable, taxAmount, ...chargeTotals.map(charge => charge.grossAmount)]);
+  const roundedTotal = roundMoney(exactTotal, mode, increment);
 
   return {
     subtotal,
     discountAmount,
+    charges: chargeTotals,
     taxableAmount,
     taxAmount,
-    roundOff,
+    lines,
+    taxBreakdown,
+    hsnSummary: summarizeTaxByHSN(taxedLines, gstRegime),
+    gst: {
+      regime: gstRegime,
+      cgst: sumMoney(taxBreakdown.map(group => group.cgst)),
+      sgst: sumMoney(taxBreakdown.map(group => group.sgst)),
+      utgst: sumMoney(taxBreakdown.map(group => group.utgst)),
+      igst: sumMoney(taxBreakdown.map(group => group.igst)),
+      total: taxAmount,
+    },
+    roundOff: sumMoney([roundedTotal, -exactTotal]),
     total: roundedTotal,
   };
 };
 
+// Charges on an invoice placed before or after tax, as its totals blocks list them
+export const getChargesAt = (totals: InvoiceTotals, placement: ChargePlacement): ChargeTotals[] =>
+  totals.charges.filter(charge => charge.placement === placement);
+
+// The fields of an invoice (or an estimate, note or template shaped like one) its totals depend on
+export type TotalsSource = Pick<Invoice, 'items' | 'taxRate' | 'discount' | 'discountType' | 'charges' | 'rounding' | 'supplyType'>;
+
+// A document with every line and charge at 0%, as zero-rated supplies under a LUT or bond are billed
+const withoutTax = (source: TotalsSource): TotalsSource => ({
+  ...source,
+  items: source.items.map(item => ({ ...item, taxRate: 0 })),
+  taxRate: 0,
+  charges: source.charges?.map(charge => ({ ...charge, taxRate: 0 })),
+});
+
+// Totals for a whole document; `gstRegime` only decides how the tax is split
+export const getInvoiceTotals = (source: TotalsSource, gstRegime?: GSTRegime): InvoiceTotals => {
+  const billed = isSupplyWithoutTax(source.supplyType) ? withoutTax(source) : source;
+  return calculateInvoiceTotals(
+    billed.items,
+    billed.taxRate,
+    billed.discount,
+    gstRegime,
+    billed.rounding,
+    billed.discountType,
+    billed.charges
+  );
+};
+
+// Save a file the app generated, such as an export, to the user's downloads
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 // Get invoice status color
 export const getStatusColor = (status: InvoiceStatus): string => {
   const colors: Record<InvoiceStatus, string> = {
     draft: 'bg-midnight-600 text-midnight-200',
     pending: 'bg-gold-500/20 text-gold-400',
+    partially_paid: 'bg-blue-500/20 text-blue-400',
     paid: 'bg-teal-500/20 text-teal-400',
     overdue: 'bg-coral-500/20 text-coral-400',
     cancelled: 'bg-midnight-700 text-midnight-400',
@@ -111,6 +324,7 @@ export const getStatusLabel = (status: InvoiceStatus): string => {
   const labels: Record<InvoiceStatus, string> = {
     draft: 'Draft',
     pending: 'Pending',
+    partially_paid: 'Partially Paid',
     paid: 'Paid',
     overdue: 'Overdue',
     cancelled: 'Cancelled',
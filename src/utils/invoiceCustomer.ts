@@ -0,0 +1,23 @@
+import type { Customer, Invoice } from '../types';
+
+export const normalizeName = (name?: string): string => (name || '').trim().toLowerCase();
+
+// Last 10 digits, so +91 98765 43210 and 098765-43210 are the same number
+const normalizePhone = (phone?: string): string => (phone || '').replace(/\D/g, '').slice(-10);
+
+const onlyMatch = (matches: Customer[]): Customer | undefined => (matches.length === 1 ? matches[0] : undefined);
+
+// The saved customer an invoice was billed to: the one it is linked to, otherwise the only
+// customer with the same name or, failing that, the same phone. Invoices from before the link
+// existed, or converted from an estimate, are matched the same way the backfill migration did.
+export const findInvoiceCustomer = (
+  invoice: Pick<Invoice, 'customerId' | 'customerName' | 'customerPhone'>,
+  customers: Customer[]
+): Customer | undefined => {
+  if (invoice.customerId) return customers.find(customer => customer.id === invoice.customerId);
+
+  const name = normalizeName(invoice.customerName);
+  const phone = normalizePhone(invoice.customerPhone);
+  return (name ? onlyMatch(customers.filter(customer => normalizeName(customer.name) === name)) : undefined)
+    || (phone ? onlyMatch(customers.filter(customer => normalizePhone(customer.phone) === phone)) : undefined);
+};
@@ -0,0 +1,129 @@
+import { formatDate } from './helpers';
+import type { Invoice } from '../types';
+
+export type MergeableField = Exclude<keyof Invoice, 'id' | 'createdAt' | 'updatedAt' | 'user_id'>;
+
+// Fields that only make sense together are merged together, e.g. a discount and its type
+export type MergeGroup =
+  | 'invoiceNumber' | 'date' | 'customerName' | 'customerEmail' | 'customerPhone' | 'customerAddress'
+  | 'customerStateCode' | 'customerGstin' | 'placeOfSupply' | 'supplyType' | 'exportDetails' | 'transport'
+  | 'items' | 'taxRate' | 'discount' | 'charges' | 'currency' | 'notes' | 'status' | 'paymentTerms'
+  | 'rounding' | 'eInvoice';
+
+// Every invoice field has a group, so a field added to Invoice fails to compile until it is merged too
+const FIELD_GROUPS: Record<MergeableField, MergeGroup> = {
+  invoiceNumber: 'invoiceNumber',
+  date: 'date',
+  customerId: 'customerName',
+  customerName: 'customerName',
+  customerEmail: 'customerEmail',
+  customerPhone: 'customerPhone',
+  customerAddress: 'customerAddress',
+  customerStateCode: 'customerStateCode',
+  customerGstin: 'customerGstin',
+  placeOfSupply: 'placeOfSupply',
+  supplyType: 'supplyType',
+  portCode: 'exportDetails',
+  shippingBillNumber: 'exportDetails',
+  shippingBillDate: 'exportDetails',
+  transport: 'transport',
+  items: 'items',
+  taxRate: 'taxRate',
+  discount: 'discount',
+  discountType: 'discount',
+  charges: 'charges',
+  currency: 'currency',
+  exchangeRate: 'currency',
+  notes: 'notes',
+  status: 'status',
+  paymentTerms: 'paymentTerms',
+  dueDate: 'paymentTerms',
+  rounding: 'rounding',
+  irn: 'eInvoice',
+  ackNumber: 'eInvoice',
+  ackDate: 'eInvoice',
+  signedQrCode: 'eInvoice',
+};
+
+export const MERGE_GROUP_LABELS: Record<MergeGroup, string> = {
+  invoiceNumber: 'Invoice Number',
+  date: 'Invoice Date',
+  customerName: 'Customer Name',
+  customerEmail: 'Customer Email',
+  customerPhone: 'Customer Phone',
+  customerAddress: 'Customer Address',
+  customerStateCode: 'Customer State',
+  customerGstin: 'Customer GSTIN',
+  placeOfSupply: 'Place of Supply',
+  supplyType: 'Supply Type',
+  exportDetails: 'Export Details',
+  transport: 'Transport',
+  items: 'Items',
+  taxRate: 'Tax Rate',
+  discount: 'Discount',
+  charges: 'Additional Charges',
+  currency: 'Currency',
+  notes: 'Notes',
+  status: 'Status',
+  paymentTerms: 'Payment Terms',
+  rounding: 'Rounding',
+  eInvoice: 'E-Invoice Registration',
+};
+
+const MERGE_GROUPS = Object.keys(MERGE_GROUP_LABELS) as MergeGroup[];
+const MERGEABLE_FIELDS = Object.keys(FIELD_GROUPS) as MergeableField[];
+
+export const getMergeGroupFields = (group: MergeGroup): MergeableField[] =>
+  MERGEABLE_FIELDS.filter(field => FIELD_GROUPS[field] === group);
+
+// Compare dates by day so the same date in different formats is not a change
+const normalize = (field: MergeableField, value: unknown): string =>
+  field === 'date' && value ? formatDate(value as string, 'input') : JSON.stringify(value ?? '');
+
+const differs = (a: Invoice, b: Invoice, group: MergeGroup): boolean =>
+  getMergeGroupFields(group).some(field => normalize(field, a[field]) !== normalize(field, b[field]));
+
+const copyGroup = (target: Invoice, source: Invoice, group: MergeGroup): void => {
+  getMergeGroupFields(group).forEach(field => {
+    (target as unknown as Record<string, unknown>)[field] = source[field];
+  });
+};
+
+export interface InvoiceMergePlan {
+  merged: Invoice; // Both sides' changes, and mine wherever they collide
+  taken: MergeGroup[]; // Changed only by them, so their value was taken
+  conflicts: MergeGroup[]; // Changed by both, so the user has to choose
+}
+
+// Three-way merge of my edit and their saved version against the `base` both started from.
+// A group only one side changed keeps that side's value; without a base every difference is
+// treated as changed on both sides.
+export const planInvoiceMerge = (base: Invoice | null | undefined, mine: Invoice, theirs: Invoice): InvoiceMergePlan => {
+  const merged: Invoice = { ...mine, updatedAt: theirs.updatedAt };
+  const taken: MergeGroup[] = [];
+  const conflicts: MergeGroup[] = [];
+
+  MERGE_GROUPS.filter(group => differs(mine, theirs, group)).forEach(group => {
+    if (base && !differs(base, mine, group)) {
+      copyGroup(merged, theirs, group);
+      taken.push(group);
+    } else if (!base || differs(base, theirs, group)) {
+      conflicts.push(group);
+    }
+  });
+
+  return { merged, taken, conflicts };
+};
+
+// The planned merge with their value for every conflicting group the user chose it for
+export const applyMergeChoices = (
+  plan: InvoiceMergePlan,
+  theirs: Invoice,
+  choices: Partial<Record<MergeGroup, 'mine' | 'theirs'>>
+): Invoice => {
+  const merged: Invoice = { ...plan.merged };
+  plan.conflicts.forEach(group => {
+    if (choices[group] === 'theirs') copyGroup(merged, theirs, group);
+  });
+  return merged;
+};
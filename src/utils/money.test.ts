@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { allocateMinor, resolveRounding, roundMinor, roundMoney, sumMoney, toMinor } from './money';
+
+describe('toMinor', () => {
+  it('converts rupees to whole paise', () => {
+    expect(toMinor(12.34)).toBe(1234);
+    expect(toMinor('99.995')).toBe(10000);
+  });
+
+  it('treats anything that is not a number as zero', () => {
+    expect(toMinor('')).toBe(0);
+    expect(toMinor('abc')).toBe(0);
+  });
+});
+
+describe('roundMinor', () => {
+  it('rounds half away from zero by default', () => {
+    expect(roundMinor(150.5)).toBe(151);
+    expect(roundMinor(-150.5)).toBe(-151);
+  });
+
+  it('ignores float noise before rounding', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundMinor(1.005 * 100)).toBe(101);
+  });
+
+  it('rounds to a step in the given direction', () => {
+    expect(roundMinor(1234, 'nearest', 100)).toBe(1200);
+    expect(roundMinor(1201, 'up', 100)).toBe(1300);
+    expect(roundMinor(1299, 'down', 100)).toBe(1200);
+  });
+
+  it('moves negative amounts the same way as positive ones', () => {
+    expect(roundMinor(-1201, 'up', 100)).toBe(-1300);
+    expect(roundMinor(-1299, 'down', 100)).toBe(-1200);
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(roundMinor(-0.2), 0)).toBe(true);
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to paise by default', () => {
+    expect(roundMoney(10.005)).toBe(10.01);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it('rounds to the configured increment', () => {
+    expect(roundMoney(10.02, 'nearest', 0.05)).toBe(10);
+    expect(roundMoney(10.03, 'nearest', 0.05)).toBe(10.05);
+    expect(roundMoney(10.01, 'up', 1)).toBe(11);
+    expect(roundMoney(10.99, 'down', 1)).toBe(10);
+  });
+
+  it('rounds to at least a paisa when the increment is smaller', () => {
+    expect(roundMoney(10.123, 'nearest', 0.001)).toBe(10.12);
+  });
+});
+
+describe('allocateMinor', () => {
+  it('splits in proportion to the weights and always adds up', () => {
+    const shares = allocateMinor(100, [1, 1, 1]);
+    expect(shares).toEqual([34, 33, 33]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(100);
+  });
+
+  it('hands leftover paise to the largest remainders', () => {
+    expect(allocateMinor(10, [3, 3, 4])).toEqual([3, 3, 4]);
+    expect(allocateMinor(7, [1, 2])).toEqual([2, 5]);
+  });
+
+  it('gives nothing when there is nothing to weigh by', () => {
+    expect(allocateMinor(500, [0, 0])).toEqual([0, 0]);
+    expect(allocateMinor(500, [])).toEqual([]);
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds in paise so long sums do not drift', () => {
+    expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+    expect(sumMoney([100.1, -0.1])).toBe(100);
+  });
+});
+
+describe('resolveRounding', () => {
+  it('fills in settings a document predates', () => {
+    expect(resolveRounding()).toEqual({ mode: 'nearest', increment: 1, taxRounding: 'line' });
+    expect(resolveRounding({ increment: 0.01 })).toEqual({ mode: 'nearest', increment: 0.01, taxRounding: 'line' });
+  });
+});
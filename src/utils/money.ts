@@ -0,0 +1,74 @@
+import type { RoundingMode, RoundingSettings, TaxRoundingLevel } from '../types';
+
+// Whole rupees, tax rounded on every line: how invoices were totalled before rounding was configurable
+export const DEFAULT_ROUNDING: RoundingSettings = { mode: 'nearest', increment: 1, taxRounding: 'line' };
+
+export const ROUNDING_MODE_OPTIONS: { value: RoundingMode; label: string }[] = [
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' },
+];
+
+export const ROUNDING_INCREMENT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.01, label: 'No rounding (0.01)' },
+  { value: 0.05, label: '0.05' },
+  { value: 0.1, label: '0.10' },
+  { value: 1, label: '1.00' },
+];
+
+export const TAX_ROUNDING_OPTIONS: { value: TaxRoundingLevel; label: string }[] = [
+  { value: 'line', label: 'Per line' },
+  { value: 'invoice', label: 'Per invoice (each tax rate once)' },
+];
+
+// Rounding a document was issued with, filling in anything it predates
+export const resolveRounding = (rounding?: Partial<RoundingSettings>): RoundingSettings => ({
+  ...DEFAULT_ROUNDING,
+  ...rounding,
+});
+
+// Drop the float noise left by arithmetic (100.49999999999999 is 100.5) before rounding
+const clean = (value: number): number => Number(value.toPrecision(12));
+
+// Round paise to a multiple of `step` paise. Up and down move away from and toward zero,
+// so a credit note rounds the same way as the invoice it reverses.
+export const roundMinor = (minor: number, mode: RoundingMode = 'nearest', step: number = 1): number => {
+  const units = clean(Math.abs(minor) / step);
+  const rounded = mode === 'up' ? Math.ceil(units) : mode === 'down' ? Math.floor(units) : Math.round(units);
+  return rounded === 0 ? 0 : Math.sign(minor) * rounded * step;
+};
+
+// Amount in paise, as an integer
+export const toMinor = (amount: number | string): number => {
+  const value = Number(amount);
+  return Number.isFinite(value) ? roundMinor(value * 100) : 0;
+};
+
+export const fromMinor = (minor: number): number => minor / 100;
+
+// Round an amount to `increment` (0.01, 0.05, 0.10, 1.00...) in the direction `mode` gives
+export const roundMoney = (amount: number, mode: RoundingMode = 'nearest', increment: number = 0.01): number =>
+  fromMinor(roundMinor(toMinor(amount), mode, Math.max(1, toMinor(increment))));
+
+// Split `totalMinor` paise in proportion to `weights`, handing leftover paise to the largest
+// remainders so the shares add up exactly
+export const allocateMinor = (totalMinor: number, weights: number[]): number[] => {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightTotal <= 0) return weights.map(() => 0);
+
+  const exact = weights.map(weight => clean((totalMinor * weight) / weightTotal));
+  const shares = exact.map(Math.floor);
+  const leftover = totalMinor - shares.reduce((sum, share) => sum + share, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, leftover)
+    .forEach(({ index }) => { shares[index] += 1; });
+  return shares;
+};
+
+// Add amounts in paise so long sums do not drift
+export const sumMoney = (amounts: number[]): number =>
+  fromMinor(amounts.reduce((sum, amount) => sum + toMinor(amount), 0));
+
+export const addMoney = (...amounts: number[]): number => sumMoney(amounts);
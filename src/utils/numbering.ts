@@ -0,0 +1,17 @@
+// Next number in a yearly series like INV-2026-0001, based on the numbers already used.
+// Simple auto-increment; not safe against two devices creating documents at the same moment.
+export const getNextDocumentNumber = (
+  prefix: string,
+  existingNumbers: string[],
+  date: Date = new Date()
+): string => {
+  const yearPrefix = `${prefix}-${date.getFullYear()}-`;
+
+  const usedNumbers = existingNumbers
+    .filter(num => num?.startsWith(yearPrefix))
+    .map(num => parseInt(num.split('-').pop() || '0'))
+    .filter(n => !isNaN(n));
+
+  const maxNum = usedNumbers.length > 0 ? Math.max(...usedNumbers) : 0;
+  return `${yearPrefix}${(maxNum + 1).toString().padStart(4, '0')}`;
+};
@@ -0,0 +1,87 @@
+import type { Invoice, PaymentTerms, PaymentTermsCode } from '../types';
+
+// Fixed number of days for each net term
+const NET_DAYS: Partial<Record<PaymentTermsCode, number>> = {
+  due_on_receipt: 0,
+  net_7: 7,
+  net_15: 15,
+  net_30: 30,
+  net_60: 60,
+};
+
+export const PAYMENT_TERMS_OPTIONS: { value: PaymentTermsCode; label: string }[] = [
+  { value: 'due_on_receipt', label: 'Due on receipt' },
+  { value: 'net_7', label: 'Net 7' },
+  { value: 'net_15', label: 'Net 15' },
+  { value: 'net_30', label: 'Net 30' },
+  { value: 'net_60', label: 'Net 60' },
+  { value: 'end_of_month', label: 'End of month' },
+  { value: 'custom', label: 'Custom days' },
+];
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = { code: 'due_on_receipt' };
+
+const isPaymentTermsCode = (value: unknown): value is PaymentTermsCode =>
+  PAYMENT_TERMS_OPTIONS.some(option => option.value === value);
+
+// Read terms from a stored code, accepting older free-text values like "Net 30" or "Due on receipt"
+export const parsePaymentTerms = (code: unknown, days?: unknown): PaymentTerms | undefined => {
+  if (typeof code !== 'string' || !code.trim()) return undefined;
+
+  if (isPaymentTermsCode(code)) {
+    return code === 'custom' ? { code, days: Number(days) || 0 } : { code };
+  }
+
+  const text = code.trim().toLowerCase();
+  if (text.includes('receipt')) return { code: 'due_on_receipt' };
+  if (text.includes('end of month')) return { code: 'end_of_month' };
+
+  const net = text.match(/(\d+)/);
+  if (net) {
+    const netDays = parseInt(net[1]);
+    const match = Object.entries(NET_DAYS).find(([, value]) => value === netDays);
+    return match ? { code: match[0] as PaymentTermsCode } : { code: 'custom', days: netDays };
+  }
+  return undefined;
+};
+
+// Human readable label, e.g. "Net 30" or "Net 45 days"
+export const getPaymentTermsLabel = (terms: PaymentTerms | undefined): string => {
+  if (!terms) return '';
+  if (terms.code === 'custom') return `Net ${terms.days || 0} days`;
+  return PAYMENT_TERMS_OPTIONS.find(option => option.value === terms.code)?.label || '';
+};
+
+// Due date (YYYY-MM-DD) for an invoice dated `date` under `terms`
+export const calculateDueDate = (date: string, terms: PaymentTerms | undefined): string | undefined => {
+  if (!date || !terms) return undefined;
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return undefined;
+
+  // The invoice's calendar day is the YYYY-MM-DD it was entered as; stored dates are that day at
+  // UTC midnight, so reading it back in local time would land a day early west of UTC
+  const [, year, month, day] = date.match(/^(\d{4})-(\d{2})-(\d{2})/)
+    || [, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()];
+  const due = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+
+  if (terms.code === 'end_of_month') {
+    due.setUTCMonth(due.getUTCMonth() + 1, 0);
+  } else {
+    const days = terms.code === 'custom' ? Number(terms.days) || 0 : NET_DAYS[terms.code] || 0;
+    due.setUTCDate(due.getUTCDate() + days);
+  }
+
+  return due.toISOString().split('T')[0];
+};
+
+// Today's date as YYYY-MM-DD in the user's time zone
+export const getToday = (): string => {
+  const now = new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// An unpaid or partly paid invoice becomes overdue the day after its due date
+export const isPastDue = (invoice: Invoice, today: string = getToday()): boolean =>
+  (invoice.status === 'pending' || invoice.status === 'partially_paid')
+  && Boolean(invoice.dueDate) && (invoice.dueDate as string) < today;
@@ -0,0 +1,56 @@
+import { getInvoiceTotals } from './helpers';
+import { isPastDue } from './paymentTerms';
+import { getNotesAdjustment } from './creditDebitNotes';
+import { sumMoney } from './money';
+import type { CreditDebitNote, Invoice, InvoiceStatus, Payment, PaymentMode } from '../types';
+
+export const PAYMENT_MODE_OPTIONS: { value: PaymentMode; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'bank', label: 'Bank Transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'card', label: 'Card' },
+];
+
+export const getPaymentModeLabel = (mode: PaymentMode): string =>
+  PAYMENT_MODE_OPTIONS.find(option => option.value === mode)?.label || mode;
+
+// Payments recorded against one invoice, oldest first
+export const getInvoicePayments = (payments: Payment[], invoiceId: string): Payment[] =>
+  payments
+    .filter(payment => payment.invoiceId === invoiceId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+export const getAmountPaid = (payments: Payment[]): number =>
+  sumMoney(payments.map(payment => Number(payment.amount) || 0));
+
+// An overdue invoice with part of it paid; its status alone no longer says so
+export const isPartlyPaidOverdue = (invoice: Invoice, payments: Payment[]): boolean =>
+  invoice.status === 'overdue' && getAmountPaid(payments) > 0;
+
+// Outstanding amount on an invoice after its payments and credit/debit notes; never negative
+export const getBalanceDue = (invoice: Invoice, payments: Payment[], notes: CreditDebitNote[] = []): number => {
+  const { total } = getInvoiceTotals(invoice);
+  return Math.max(0, sumMoney([total, getNotesAdjustment(notes, invoice.rounding), -getAmountPaid(payments)]));
+};
+
+// Status an invoice should have once `payments` and `notes` are its full history.
+// Cancelled invoices keep their status; an invoice settled by credit notes alone counts as paid.
+export const getStatusFromPayments = (
+  invoice: Invoice,
+  payments: Payment[],
+  notes: CreditDebitNote[] = []
+): InvoiceStatus => {
+  if (invoice.status === 'cancelled') return invoice.status;
+
+  const paid = getAmountPaid(payments);
+  const settled = getBalanceDue(invoice, payments, notes) === 0;
+  if (settled && (paid > 0 || notes.some(note => note.type === 'credit'))) return 'paid';
+  if (paid > 0) return 'partially_paid';
+
+  // All payments removed: fall back to pending, or overdue if the due date has passed
+  if (invoice.status === 'paid' || invoice.status === 'partially_paid') {
+    return isPastDue({ ...invoice, status: 'pending' }) ? 'overdue' : 'pending';
+  }
+  return invoice.status;
+};
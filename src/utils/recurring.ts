@@ -0,0 +1,124 @@
+import { generateId } from './helpers';
+import { calculateDueDate, getToday } from './paymentTerms';
+import type { Invoice, RecurringFrequency, RecurringProfile, RecurringStatus } from '../types';
+
+export const RECURRING_FREQUENCY_OPTIONS: { value: RecurringFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export const getFrequencyLabel = (frequency: RecurringFrequency): string =>
+  RECURRING_FREQUENCY_OPTIONS.find(option => option.value === frequency)?.label || frequency;
+
+// Get recurring profile status color
+export const getRecurringStatusColor = (status: RecurringStatus): string => {
+  const colors: Record<RecurringStatus, string> = {
+    active: 'bg-teal-500/20 text-teal-400',
+    paused: 'bg-gold-500/20 text-gold-400',
+    ended: 'bg-midnight-600 text-midnight-200',
+  };
+  return colors[status] || colors.ended;
+};
+
+export const getRecurringStatusLabel = (status: RecurringStatus): string =>
+  ({ active: 'Active', paused: 'Paused', ended: 'Ended' })[status] || 'Unknown';
+
+const MONTHS_PER_PERIOD: Partial<Record<RecurringFrequency, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+const DAYS_PER_PERIOD: Partial<Record<RecurringFrequency, number>> = { daily: 1, weekly: 7 };
+
+// The `n`th run after `startDate` (YYYY-MM-DD). Month-based runs are counted from the start
+// date and clamped to the month's last day, so a schedule starting on the 31st stays on month ends.
+export const addPeriods = (startDate: string, frequency: RecurringFrequency, n: number): string => {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const months = MONTHS_PER_PERIOD[frequency];
+
+  if (months) {
+    const targetMonth = month - 1 + months * n;
+    const lastDay = new Date(Date.UTC(year, targetMonth + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, targetMonth, Math.min(day, lastDay))).toISOString().split('T')[0];
+  }
+
+  const days = (DAYS_PER_PERIOD[frequency] || 1) * n;
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+// First run of the schedule that falls after `date`
+export const getRunDateAfter = (startDate: string, frequency: RecurringFrequency, date: string): string => {
+  let n = 0;
+  let runDate = startDate;
+  while (runDate <= date) {
+    n += 1;
+    runDate = addPeriods(startDate, frequency, n);
+  }
+  return runDate;
+};
+
+// A profile owes an invoice when it is active and its next run is today or earlier, within its end date
+export const isRecurringDue = (profile: RecurringProfile, today: string = getToday()): boolean =>
+  profile.status === 'active' &&
+  profile.nextRunDate <= today &&
+  (!profile.endDate || profile.nextRunDate <= profile.endDate);
+
+// Move a profile past `runDate`, ending it once the schedule passes its end date
+export const advanceRecurringProfile = (profile: RecurringProfile, runDate: string): RecurringProfile => {
+  const nextRunDate = getRunDateAfter(profile.startDate, profile.frequency, runDate);
+  const ended = Boolean(profile.endDate) && nextRunDate > (profile.endDate as string);
+  return {
+    ...profile,
+    nextRunDate,
+    lastRunDate: runDate,
+    status: ended ? 'ended' : profile.status,
+  };
+};
+
+// Skip the next cycle without generating an invoice for it
+export const skipNextRun = (profile: RecurringProfile): RecurringProfile => {
+  const nextRunDate = getRunDateAfter(profile.startDate, profile.frequency, profile.nextRunDate);
+  const ended = Boolean(profile.endDate) && nextRunDate > (profile.endDate as string);
+  return { ...profile, nextRunDate, status: ended ? 'ended' : profile.status };
+};
+
+// Run dates still to come, soonest first
+export const getUpcomingRuns = (profile: RecurringProfile, count: number = 3): string[] => {
+  if (profile.status === 'ended') return [];
+  const runs: string[] = [];
+  let runDate = profile.nextRunDate;
+  while (runs.length < count && (!profile.endDate || runDate <= profile.endDate)) {
+    runs.push(runDate);
+    runDate = getRunDateAfter(profile.startDate, profile.frequency, runDate);
+  }
+  return runs;
+};
+
+// Stable UUID-shaped id for the invoice a profile generates on `runDate`, so a run that
+// happens twice (two devices, or a retried job) writes the same invoice instead of a duplicate
+export const getRecurringInvoiceId = (profileId: string, runDate: string): string => {
+  const input = `${profileId}:${runDate}`;
+  // Four FNV-1a passes with different offsets give 128 bits
+  const hex = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x85ebca6b]
+    .map(seed => {
+      let hash = seed;
+      for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+      }
+      return (hash >>> 0).toString(16).padStart(8, '0');
+    })
+    .join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// The invoice a profile generates for `runDate`
+export const buildRecurringInvoice = (profile: RecurringProfile, runDate: string, invoiceNumber: string): Invoice => ({
+  ...profile.template,
+  id: getRecurringInvoiceId(profile.id, runDate),
+  invoiceNumber,
+  date: new Date(runDate).toISOString(),
+  dueDate: calculateDueDate(runDate, profile.template.paymentTerms),
+  items: profile.template.items.map(item => ({ ...item, id: generateId() })),
+  charges: profile.template.charges?.map(charge => ({ ...charge, id: generateId() })),
+  status: profile.autoSend ? 'pending' : 'draft',
+});
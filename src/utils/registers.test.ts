@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGISTER_FILTERS, buildRegister, getRegisterCustomers, getRegisterTotals } from './registers';
+import type { Business, CreditDebitNote, Customer, Invoice, InvoiceItem } from '../types';
+
+// Registered in Karnataka (29)
+const business: Business = {
+  name: 'Test Traders',
+  address: '',
+  city: '',
+  state: 'Karnataka',
+  stateCode: '29',
+  pincode: '',
+  phone: '',
+  email: '',
+  taxId: '29ABCDE1234F1Z5',
+  logo: null,
+  signature: null,
+  currency: 'INR',
+  taxRate: 18,
+};
+
+const line = (id: string, price: number): InvoiceItem => ({ id, name: 'Item', quantity: 1, price, taxRate: 18 });
+
+const invoice = (id: string, fields: Partial<Invoice>): Invoice => ({
+  id,
+  invoiceNumber: `INV-00${id}`,
+  date: '2026-05-15',
+  customerName: 'Customer',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  placeOfSupply: '29',
+  items: [line('a', 1000)],
+  taxRate: 18,
+  discount: 0,
+  notes: '',
+  status: 'pending',
+  ...fields,
+});
+
+const customers: Customer[] = [{ id: 'c1', name: 'Acme Traders' }];
+
+const invoices: Invoice[] = [
+  // The same saved customer billed under two spellings
+  invoice('1', { customerId: 'c1', customerName: 'Acme Traders' }),
+  invoice('2', { customerId: 'c1', customerName: 'ACME Traders Pvt Ltd' }),
+  invoice('3', { customerName: 'Walk-in' }),
+];
+
+const notes: CreditDebitNote[] = [
+  { id: 'n1', noteNumber: 'CN-001', type: 'credit', invoiceId: '1', date: '2026-05-20', reason: 'Returned', items: [line('a', 100)], taxRate: 18, discount: 0 },
+  { id: 'n2', noteNumber: 'DN-001', type: 'debit', invoiceId: '3', date: '2026-05-20', reason: 'Short billed', items: [line('a', 50)], taxRate: 18, discount: 0 },
+];
+
+const total = (register: ReturnType<typeof buildRegister>, key: string): number | null =>
+  getRegisterTotals(register)[register.columns.findIndex(column => column.key === key)];
+
+describe('getRegisterCustomers', () => {
+  it('lists a saved customer once whatever name it was billed under', () => {
+    expect(getRegisterCustomers(invoices, customers)).toEqual([
+      { value: 'c1', label: 'Acme Traders' },
+      { value: 'name:walk-in', label: 'Walk-in' },
+    ]);
+  });
+});
+
+describe('buildRegister', () => {
+  it('lists credit notes as negative and debit notes as positive rows in the sales register', () => {
+    const register = buildRegister('sales', invoices, notes, customers, business, DEFAULT_REGISTER_FILTERS);
+    expect(register.rows).toHaveLength(5);
+    expect(register.rows.find(row => row.id === 'n1')).toMatchObject({ documentType: 'Credit Note', taxableValue: -100, total: -118 });
+    expect(total(register, 'taxableValue')).toBe(2950);
+  });
+
+  it('nets notes into the tax register by rate', () => {
+    const register = buildRegister('tax', invoices, notes, customers, business, DEFAULT_REGISTER_FILTERS);
+    expect(total(register, 'taxableValue')).toBe(2950);
+    expect(total(register, 'tax')).toBe(531);
+  });
+
+  it('filters by the saved customer and totals it net of its notes', () => {
+    const filters = { ...DEFAULT_REGISTER_FILTERS, customer: 'c1' };
+    const sales = buildRegister('sales', invoices, notes, customers, business, filters);
+    expect(sales.customerName).toBe('Acme Traders');
+    expect(sales.rows.map(row => row.id)).toEqual(['1', '2', 'n1']);
+
+    const byCustomer = buildRegister('customers', invoices, notes, customers, business, DEFAULT_REGISTER_FILTERS);
+    expect(byCustomer.rows[0]).toMatchObject({ id: 'c1', customerName: 'Acme Traders', invoiceCount: 2, taxableValue: 1900 });
+  });
+
+  it('dates notes by their own date', () => {
+    const register = buildRegister('sales', invoices, notes, customers, business, { ...DEFAULT_REGISTER_FILTERS, to: '2026-05-19' });
+    expect(register.rows.map(row => row.id)).toEqual(['1', '2', '3']);
+  });
+});
@@ -0,0 +1,449 @@
+import { formatDate, getInvoiceTotals, getStatusLabel } from './helpers';
+import { sumMoney } from './money';
+import { getBaseCurrency, getInvoiceCurrency, toBaseAmount } from './currency';
+import { formatState, getBusinessStateCode, getInvoiceGSTRegime, getPlaceOfSupply, getStateCodeFromGSTIN } from './gst';
+import { getNoteTypeLabel, noteToPrintable } from './creditDebitNotes';
+import { findInvoiceCustomer, normalizeName } from './invoiceCustomer';
+import type { CSVValue } from './csv';
+import type { Business, CreditDebitNote, Customer, Invoice, InvoiceStatus, InvoiceTotals, NoteType, ReportPDFContent } from '../types';
+
+export type RegisterType = 'sales' | 'items' | 'customers' | 'tax';
+
+// 'issued' is every invoice except drafts and cancelled ones
+export type RegisterStatusFilter = 'issued' | InvoiceStatus;
+
+export interface RegisterFilters {
+  from: string; // YYYY-MM-DD, '' for no lower bound
+  to: string; // YYYY-MM-DD, '' for no upper bound
+  status: RegisterStatusFilter;
+  customer: string; // A customer's value from getRegisterCustomers, '' for everyone
+}
+
+export interface RegisterCustomer {
+  value: string; // The saved customer's id, or `name:` and the billed name for invoices not matched to one
+  label: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export type RegisterColumnType = 'text' | 'date' | 'count' | 'quantity' | 'percent' | 'money';
+
+export interface RegisterColumn<T> {
+  key: string;
+  label: string;
+  type: RegisterColumnType;
+  value(row: T): string | number;
+}
+
+export interface RegisterRow {
+  id: string;
+}
+
+export interface Register<T extends RegisterRow = RegisterRow> {
+  type: RegisterType;
+  title: string;
+  currency: string; // Amounts are converted to the business's base currency
+  customerName: string; // The customer filtered by, '' for everyone
+  columns: RegisterColumn<T>[];
+  rows: T[];
+}
+
+// Credit notes are listed with negative amounts so the register totals net of them, as GSTR-1 and GSTR-3B do
+export interface SalesRegisterRow extends RegisterRow {
+  documentType: string; // 'Invoice', 'Credit Note' or 'Debit Note'
+  invoiceNumber: string; // The invoice's or note's own number
+  date: string;
+  customerKey: string; // RegisterCustomer value
+  customerName: string;
+  customerGstin: string;
+  placeOfSupply: string;
+  status: InvoiceStatus; // Of the invoice, for notes the one they were issued against
+  currency: string; // The invoice's own currency
+  taxableValue: number;
+  cgst: number;
+  sgst: number; // Includes UTGST
+  igst: number;
+  tax: number;
+  total: number;
+}
+
+export interface ItemSalesRow extends RegisterRow {
+  name: string;
+  hsnCode: string;
+  unit: string;
+  quantity: number;
+  invoiceCount: number;
+  taxableValue: number;
+  tax: number;
+  total: number;
+}
+
+export interface CustomerSalesRow extends RegisterRow {
+  customerName: string;
+  customerGstin: string;
+  invoiceCount: number; // Notes are netted into the amounts but not counted
+  taxableValue: number;
+  tax: number;
+  total: number;
+}
+
+export interface TaxRegisterRow extends RegisterRow {
+  documentType: string;
+  invoiceNumber: string;
+  date: string;
+  customerName: string;
+  customerGstin: string;
+  placeOfSupply: string;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number; // Includes UTGST
+  igst: number;
+  tax: number;
+}
+
+export const DEFAULT_REGISTER_FILTERS: RegisterFilters = { from: '', to: '', status: 'issued', customer: '' };
+
+export const REGISTER_TYPE_OPTIONS: { value: RegisterType; label: string }[] = [
+  { value: 'sales', label: 'Sales Register' },
+  { value: 'items', label: 'Item-wise Sales' },
+  { value: 'customers', label: 'Customer-wise Sales' },
+  { value: 'tax', label: 'Tax Register' },
+];
+
+export const REGISTER_STATUS_OPTIONS: { value: RegisterStatusFilter; label: string }[] = [
+  { value: 'issued', label: 'All issued' },
+  ...(['pending', 'partially_paid', 'paid', 'overdue', 'draft', 'cancelled'] as InvoiceStatus[]).map(status => ({
+    value: status,
+    label: getStatusLabel(status),
+  })),
+];
+
+const REGISTER_FILE_NAMES: Record<RegisterType, string> = {
+  sales: 'sales-register',
+  items: 'item-sales',
+  customers: 'customer-sales',
+  tax: 'tax-register',
+};
+
+const isIssued = (invoice: Invoice): boolean => invoice.status !== 'draft' && invoice.status !== 'cancelled';
+
+// An invoice, or a note issued against it, as a register lists it
+export interface RegisterDocument {
+  invoice: Invoice;
+  document: Invoice; // The invoice itself, or the note made printable against it
+  noteType?: NoteType;
+  customerKey: string;
+}
+
+// Invoices billed to a saved customer are grouped under it whatever name they were typed with
+const getCustomerKey = (invoice: Invoice, customers: Customer[]): string =>
+  findInvoiceCustomer(invoice, customers)?.id || `name:${normalizeName(invoice.customerName)}`;
+
+// Customers to filter by, one per saved customer and one per other name billed
+export const getRegisterCustomers = (invoices: Invoice[], customers: Customer[]): RegisterCustomer[] => {
+  const options = new Map<string, RegisterCustomer>();
+  invoices.forEach(invoice => {
+    const customer = findInvoiceCustomer(invoice, customers);
+    const value = customer ? customer.id : `name:${normalizeName(invoice.customerName)}`;
+    const label = (customer ? customer.name : invoice.customerName || '').trim();
+    if (label && !options.has(value)) options.set(value, { value, label });
+  });
+  return [...options.values()].sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// Invoices and the notes issued against them matching the filters. Each is dated by its own date,
+// compared as calendar days with both ends included; notes follow their invoice's status and customer.
+export const filterRegisterDocuments = (
+  invoices: Invoice[],
+  notes: CreditDebitNote[],
+  customers: Customer[],
+  filters: RegisterFilters
+): RegisterDocument[] => {
+  const inRange = (value: string): boolean => {
+    const date = formatDate(value, 'input');
+    return (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+  };
+  const matched = new Map<string, RegisterDocument>();
+  invoices.forEach(invoice => {
+    if (filters.status === 'issued' ? !isIssued(invoice) : invoice.status !== filters.status) return;
+    const customerKey = getCustomerKey(invoice, customers);
+    if (filters.customer && customerKey !== filters.customer) return;
+    matched.set(invoice.id, { invoice, document: invoice, customerKey });
+  });
+
+  const invoiceDocuments = [...matched.values()].filter(({ invoice }) => inRange(invoice.date));
+  const noteDocuments = notes.flatMap(note => {
+    const match = matched.get(note.invoiceId);
+    return match && inRange(note.date)
+      ? [{ ...match, document: noteToPrintable(note, match.invoice), noteType: note.type }]
+      : [];
+  });
+  return [...invoiceDocuments, ...noteDocuments];
+};
+
+// Notes are taxed the way the invoice they were issued against is
+const getTotals = ({ invoice, document }: RegisterDocument, business: Business): InvoiceTotals =>
+  getInvoiceTotals(document, getInvoiceGSTRegime(invoice, business));
+
+const getDocumentType = ({ noteType }: RegisterDocument): string => (noteType ? getNoteTypeLabel(noteType) : 'Invoice');
+
+// Converts an amount to the base currency at the invoice's rate, negative for credit notes
+const toSignedBase = ({ invoice, noteType }: RegisterDocument) => (amount: number): number =>
+  (noteType === 'credit' ? -1 : 1) * toBaseAmount(amount, invoice) || 0; // `|| 0` keeps -0 out of the totals
+
+const getPlaceOfSupplyLabel = (invoice: Invoice, business: Business): string => {
+  const code = getPlaceOfSupply(invoice, business) || getStateCodeFromGSTIN(invoice.customerGstin) || getBusinessStateCode(business);
+  return code ? formatState(code) : '';
+};
+
+const byDate = (a: { date: string; invoiceNumber: string }, b: { date: string; invoiceNumber: string }): number =>
+  a.date.localeCompare(b.date) || a.invoiceNumber.localeCompare(b.invoiceNumber, undefined, { numeric: true });
+
+// One row per invoice and note, amounts in the base currency
+export const getSalesRegister = (documents: RegisterDocument[], business: Business): SalesRegisterRow[] =>
+  documents.map(entry => {
+    const { invoice, document } = entry;
+    const totals = getTotals(entry, business);
+    const toBase = toSignedBase(entry);
+    return {
+      id: document.id,
+      documentType: getDocumentType(entry),
+      invoiceNumber: document.invoiceNumber,
+      date: formatDate(document.date, 'input'),
+      customerKey: entry.customerKey,
+      customerName: invoice.customerName,
+      customerGstin: invoice.customerGstin || '',
+      placeOfSupply: getPlaceOfSupplyLabel(invoice, business),
+      status: invoice.status,
+      currency: getInvoiceCurrency(invoice, business),
+      taxableValue: toBase(totals.taxableAmount),
+      cgst: toBase(totals.gst.cgst),
+      sgst: toBase(sumMoney([totals.gst.sgst, totals.gst.utgst])),
+      igst: toBase(totals.gst.igst),
+      tax: toBase(totals.taxAmount),
+      total: toBase(totals.total),
+    };
+  }).sort(byDate);
+
+// Items sold, grouped by name, HSN/SAC and unit. Additional charges are not items and are left out,
+// and so are notes, which adjust amounts rather than record sales.
+export const getItemSalesRegister = (documents: RegisterDocument[], business: Business): ItemSalesRow[] => {
+  const rows = new Map<string, ItemSalesRow & { invoiceIds: Set<string> }>();
+  documents.filter(entry => !entry.noteType).forEach(entry => {
+    const { invoice } = entry;
+    const totals = getTotals(entry, business);
+    invoice.items.forEach((item, index) => {
+      const line = totals.lines[index];
+      if (!line || !item.name?.trim()) return;
+      const hsnCode = (item.hsnCode || '').trim();
+      const unit = (item.unit || '').trim();
+      const id = [item.name.trim().toLowerCase(), hsnCode, unit.toLowerCase()].join('|');
+      const row = rows.get(id) || {
+        id, name: item.name.trim(), hsnCode, unit, quantity: 0, invoiceCount: 0, taxableValue: 0, tax: 0, total: 0, invoiceIds: new Set<string>(),
+      };
+      const taxableValue = toBaseAmount(line.taxableValue, invoice);
+      const tax = toBaseAmount(line.taxAmount, invoice);
+      row.quantity += line.quantity;
+      row.invoiceIds.add(invoice.id);
+      row.invoiceCount = row.invoiceIds.size;
+      row.taxableValue = sumMoney([row.taxableValue, taxableValue]);
+      row.tax = sumMoney([row.tax, tax]);
+      row.total = sumMoney([row.total, taxableValue, tax]);
+      rows.set(id, row);
+    });
+  });
+  return [...rows.values()]
+    .map(({ invoiceIds: _invoiceIds, ...row }) => row)
+    .sort((a, b) => b.taxableValue - a.taxableValue);
+};
+
+// Sales net of notes totalled per customer, largest first
+export const getCustomerSalesRegister = (documents: RegisterDocument[], customers: Customer[], business: Business): CustomerSalesRow[] => {
+  const rows = new Map<string, CustomerSalesRow>();
+  const names = new Map(customers.map(customer => [customer.id, customer.name.trim()]));
+  getSalesRegister(documents, business).forEach(sale => {
+    const id = sale.customerKey;
+    const row = rows.get(id) || {
+      id, customerName: names.get(id) || sale.customerName.trim(), customerGstin: '', invoiceCount: 0, taxableValue: 0, tax: 0, total: 0,
+    };
+    row.customerGstin = row.customerGstin || sale.customerGstin;
+    if (sale.documentType === 'Invoice') row.invoiceCount += 1;
+    row.taxableValue = sumMoney([row.taxableValue, sale.taxableValue]);
+    row.tax = sumMoney([row.tax, sale.tax]);
+    row.total = sumMoney([row.total, sale.total]);
+    rows.set(id, row);
+  });
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+};
+
+// One row per invoice or note and tax rate, as the tax summary on the invoice shows it
+export const getTaxRegister = (documents: RegisterDocument[], business: Business): TaxRegisterRow[] =>
+  documents.flatMap(entry => {
+    const { invoice, document } = entry;
+    const totals = getTotals(entry, business);
+    const toBase = toSignedBase(entry);
+    const placeOfSupply = getPlaceOfSupplyLabel(invoice, business);
+    return totals.taxBreakdown.map(group => ({
+      id: `${document.id}-${group.rate}`,
+      documentType: getDocumentType(entry),
+      invoiceNumber: document.invoiceNumber,
+      date: formatDate(document.date, 'input'),
+      customerName: invoice.customerName,
+      customerGstin: invoice.customerGstin || '',
+      placeOfSupply,
+      rate: group.rate,
+      taxableValue: toBase(group.taxableValue),
+      cgst: toBase(group.cgst),
+      sgst: toBase(sumMoney([group.sgst, group.utgst])),
+      igst: toBase(group.igst),
+      tax: toBase(group.total),
+    }));
+  }).sort((a, b) => byDate(a, b) || a.rate - b.rate);
+
+export const SALES_REGISTER_COLUMNS: RegisterColumn<SalesRegisterRow>[] = [
+  { key: 'date', label: 'Date', type: 'date', value: row => row.date },
+  { key: 'documentType', label: 'Type', type: 'text', value: row => row.documentType },
+  { key: 'invoiceNumber', label: 'Number', type: 'text', value: row => row.invoiceNumber },
+  { key: 'customerName', label: 'Customer', type: 'text', value: row => row.customerName },
+  { key: 'customerGstin', label: 'GSTIN', type: 'text', value: row => row.customerGstin },
+  { key: 'placeOfSupply', label: 'Place of Supply', type: 'text', value: row => row.placeOfSupply },
+  { key: 'status', label: 'Status', type: 'text', value: row => getStatusLabel(row.status) },
+  { key: 'currency', label: 'Currency', type: 'text', value: row => row.currency },
+  { key: 'taxableValue', label: 'Taxable Value', type: 'money', value: row => row.taxableValue },
+  { key: 'cgst', label: 'CGST', type: 'money', value: row => row.cgst },
+  { key: 'sgst', label: 'SGST/UTGST', type: 'money', value: row => row.sgst },
+  { key: 'igst', label: 'IGST', type: 'money', value: row => row.igst },
+  { key: 'total', label: 'Invoice Value', type: 'money', value: row => row.total },
+];
+
+export const ITEM_SALES_COLUMNS: RegisterColumn<ItemSalesRow>[] = [
+  { key: 'name', label: 'Item', type: 'text', value: row => row.name },
+  { key: 'hsnCode', label: 'HSN/SAC', type: 'text', value: row => row.hsnCode },
+  { key: 'unit', label: 'Unit', type: 'text', value: row => row.unit },
+  { key: 'quantity', label: 'Quantity', type: 'quantity', value: row => row.quantity },
+  { key: 'invoiceCount', label: 'Invoices', type: 'count', value: row => row.invoiceCount },
+  { key: 'taxableValue', label: 'Taxable Value', type: 'money', value: row => row.taxableValue },
+  { key: 'tax', label: 'Tax', type: 'money', value: row => row.tax },
+  { key: 'total', label: 'Total', type: 'money', value: row => row.total },
+];
+
+export const CUSTOMER_SALES_COLUMNS: RegisterColumn<CustomerSalesRow>[] = [
+  { key: 'customerName', label: 'Customer', type: 'text', value: row => row.customerName },
+  { key: 'customerGstin', label: 'GSTIN', type: 'text', value: row => row.customerGstin },
+  { key: 'invoiceCount', label: 'Invoices', type: 'count', value: row => row.invoiceCount },
+  { key: 'taxableValue', label: 'Taxable Value', type: 'money', value: row => row.taxableValue },
+  { key: 'tax', label: 'Tax', type: 'money', value: row => row.tax },
+  { key: 'total', label: 'Total', type: 'money', value: row => row.total },
+];
+
+export const TAX_REGISTER_COLUMNS: RegisterColumn<TaxRegisterRow>[] = [
+  { key: 'date', label: 'Date', type: 'date', value: row => row.date },
+  { key: 'documentType', label: 'Type', type: 'text', value: row => row.documentType },
+  { key: 'invoiceNumber', label: 'Number', type: 'text', value: row => row.invoiceNumber },
+  { key: 'customerName', label: 'Customer', type: 'text', value: row => row.customerName },
+  { key: 'customerGstin', label: 'GSTIN', type: 'text', value: row => row.customerGstin },
+  { key: 'placeOfSupply', label: 'Place of Supply', type: 'text', value: row => row.placeOfSupply },
+  { key: 'rate', label: 'Rate', type: 'percent', value: row => row.rate },
+  { key: 'taxableValue', label: 'Taxable Value', type: 'money', value: row => row.taxableValue },
+  { key: 'cgst', label: 'CGST', type: 'money', value: row => row.cgst },
+  { key: 'sgst', label: 'SGST/UTGST', type: 'money', value: row => row.sgst },
+  { key: 'igst', label: 'IGST', type: 'money', value: row => row.igst },
+  { key: 'tax', label: 'Total Tax', type: 'money', value: row => row.tax },
+];
+
+const getRegisterTitle = (type: RegisterType): string =>
+  REGISTER_TYPE_OPTIONS.find(option => option.value === type)?.label || 'Register';
+
+// The register of `type` over the invoices and notes matching `filters`
+export const buildRegister = (
+  type: RegisterType,
+  invoices: Invoice[],
+  notes: CreditDebitNote[],
+  customers: Customer[],
+  business: Business,
+  filters: RegisterFilters
+): Register => {
+  const filtered = filterRegisterDocuments(invoices, notes, customers, filters);
+  const customerName = filters.customer
+    ? getRegisterCustomers(invoices, customers).find(option => option.value === filters.customer)?.label || ''
+    : '';
+  const base = { type, title: getRegisterTitle(type), currency: getBaseCurrency(business), customerName };
+  switch (type) {
+    case 'items':
+      return { ...base, columns: ITEM_SALES_COLUMNS, rows: getItemSalesRegister(filtered, business) };
+    case 'customers':
+      return { ...base, columns: CUSTOMER_SALES_COLUMNS, rows: getCustomerSalesRegister(filtered, customers, business) };
+    case 'tax':
+      return { ...base, columns: TAX_REGISTER_COLUMNS, rows: getTaxRegister(filtered, business) };
+    default:
+      return { ...base, columns: SALES_REGISTER_COLUMNS, rows: getSalesRegister(filtered, business) };
+  }
+};
+
+export const sortRegisterRows = <T extends RegisterRow>(rows: T[], column: RegisterColumn<T>, direction: SortDirection): T[] =>
+  [...rows].sort((a, b) => {
+    const left = column.value(a);
+    const right = column.value(b);
+    const comparison = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { numeric: true });
+    return direction === 'asc' ? comparison : -comparison;
+  });
+
+// `page` is 1-based and clamped to the pages there are
+export const paginateRows = <T>(rows: T[], page: number, pageSize: number): { rows: T[]; page: number; pageCount: number } => {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return { rows: rows.slice((current - 1) * pageSize, current * pageSize), page: current, pageCount };
+};
+
+// Column sums for the totals row: money and counts add up, other columns are left blank
+export const getRegisterTotals = (register: Register): (number | null)[] =>
+  register.columns.map(column =>
+    column.type === 'money' || column.type === 'count'
+      ? sumMoney(register.rows.map(row => Number(column.value(row)) || 0))
+      : null);
+
+// Header, rows and totals, with numbers left as numbers for spreadsheets
+export const getRegisterSheet = (register: Register): CSVValue[][] => {
+  const totals = getRegisterTotals(register);
+  return [
+    register.columns.map(column => (column.type === 'money' ? `${column.label} (${register.currency})` : column.label)),
+    ...register.rows.map(row => register.columns.map(column => column.value(row))),
+    totals.map((total, index) => (index === 0 ? 'Total' : total)),
+  ];
+};
+
+// "1 Apr 2024 to 30 Jun 2024", or an open range
+export const getRegisterRangeLabel = (filters: RegisterFilters): string => {
+  if (filters.from && filters.to) return `${formatDate(filters.from)} to ${formatDate(filters.to)}`;
+  if (filters.from) return `From ${formatDate(filters.from)}`;
+  if (filters.to) return `Up to ${formatDate(filters.to)}`;
+  return 'All dates';
+};
+
+const formatPDFValue = (type: RegisterColumnType, value: number | string | null): string => {
+  if (value === null || value === '') return '';
+  if (typeof value === 'string') return type === 'date' ? formatDate(value) : value;
+  if (type === 'money') return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  if (type === 'percent') return `${value}%`;
+  return String(value);
+};
+
+// The register laid out for the report PDF, filters in the subtitle
+export const getRegisterPDFContent = (register: Register, filters: RegisterFilters): ReportPDFContent => {
+  const status = REGISTER_STATUS_OPTIONS.find(option => option.value === filters.status)?.label;
+  const totals = getRegisterTotals(register);
+  return {
+    title: register.title,
+    subtitle: [getRegisterRangeLabel(filters), status, register.customerName, `Amounts in ${register.currency}`].filter(Boolean).join(' | '),
+    head: register.columns.map(column => column.label),
+    body: register.rows.map(row => register.columns.map(column => formatPDFValue(column.type, column.value(row)))),
+    foot: register.columns.map((column, index) => (index === 0 ? 'Total' : formatPDFValue(column.type, totals[index]))),
+    alignments: register.columns.map(column => (column.type === 'text' || column.type === 'date' ? 'left' : 'right')),
+  };
+};
+
+export const getRegisterFilename = (register: Register, filters: RegisterFilters, extension: string): string =>
+  `${REGISTER_FILE_NAMES[register.type]}${filters.from ? `-${filters.from}` : ''}${filters.to ? `-to-${filters.to}` : ''}.${extension}`;
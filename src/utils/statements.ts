@@ -0,0 +1,163 @@
+import { formatDate, getInvoiceTotals } from './helpers';
+import { sumMoney } from './money';
+import { getBaseCurrency, toBaseAmount } from './currency';
+import { getToday } from './paymentTerms';
+import { getAmountPaid, getInvoicePayments, getPaymentModeLabel } from './payments';
+import { getInvoiceNotes, getNoteTotal, getNotesAdjustment } from './creditDebitNotes';
+import type { Business, CreditDebitNote, Customer, Invoice, Payment } from '../types';
+
+export type StatementEntryType = 'invoice' | 'debit_note' | 'credit_note' | 'payment';
+
+// One line of the statement. Debits add to what the customer owes, credits take it off.
+export interface StatementEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  type: StatementEntryType;
+  reference: string; // Invoice, note or payment reference number
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this line
+}
+
+export interface CustomerStatement {
+  customer: Pick<Customer, 'name' | 'address' | 'gstin' | 'phone' | 'email'>;
+  from: string; // YYYY-MM-DD, '' from the first transaction
+  to: string; // YYYY-MM-DD
+  currency: string; // Amounts are in the business's base currency
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+}
+
+// Lines on the same day: what was billed comes before what settled it
+const ENTRY_ORDER: Record<StatementEntryType, number> = { invoice: 0, debit_note: 1, credit_note: 2, payment: 3 };
+
+const ENTRY_LABELS: Record<StatementEntryType, string> = {
+  invoice: 'Invoice',
+  debit_note: 'Debit Note',
+  credit_note: 'Credit Note',
+  payment: 'Payment',
+};
+
+export const getStatementEntryLabel = (type: StatementEntryType): string => ENTRY_LABELS[type];
+
+// 1 April of the financial year `date` falls in, as YYYY-MM-DD
+export const getFinancialYearStart = (date: string = getToday()): string => {
+  const [year, month] = date.split('-').map(Number);
+  return `${month >= 4 ? year : year - 1}-04-01`;
+};
+
+// Every invoice, note and payment on the customer's invoices, in base currency. Drafts and cancelled
+// invoices were never owed. An invoice marked paid without the payments to show for it is
+// settled by a payment line on the day it was last updated, so the balance agrees with the
+// aging report.
+const getLedgerEntries = (
+  invoices: Invoice[],
+  payments: Payment[],
+  notes: CreditDebitNote[]
+): Omit<StatementEntry, 'balance'>[] =>
+  invoices
+    .filter(invoice => invoice.status !== 'draft' && invoice.status !== 'cancelled')
+    .flatMap(invoice => {
+      const toBase = (amount: number): number => toBaseAmount(amount, invoice);
+      const invoicePayments = getInvoicePayments(payments, invoice.id);
+      const invoiceNotes = getInvoiceNotes(notes, invoice.id);
+      const total = getInvoiceTotals(invoice).total;
+      const entries: Omit<StatementEntry, 'balance'>[] = [{
+        id: invoice.id,
+        date: formatDate(invoice.date, 'input'),
+        type: 'invoice',
+        reference: invoice.invoiceNumber,
+        description: invoice.dueDate ? `Due ${formatDate(invoice.dueDate)}` : '',
+        debit: toBase(total),
+        credit: 0,
+      }];
+
+      invoiceNotes.forEach(note => {
+        const amount = toBase(getNoteTotal(note, invoice.rounding));
+        entries.push({
+          id: note.id,
+          date: formatDate(note.date, 'input'),
+          type: note.type === 'debit' ? 'debit_note' : 'credit_note',
+          reference: note.noteNumber,
+          description: `Against ${invoice.invoiceNumber}${note.reason ? `: ${note.reason}` : ''}`,
+          debit: note.type === 'debit' ? amount : 0,
+          credit: note.type === 'debit' ? 0 : amount,
+        });
+      });
+
+      invoicePayments.forEach(payment => {
+        entries.push({
+          id: payment.id,
+          date: formatDate(payment.date, 'input'),
+          type: 'payment',
+          reference: payment.reference || '',
+          description: `${getPaymentModeLabel(payment.mode)} against ${invoice.invoiceNumber}`,
+          debit: 0,
+          credit: toBase(Number(payment.amount) || 0),
+        });
+      });
+
+      if (invoice.status === 'paid') {
+        const unrecorded = sumMoney([total, getNotesAdjustment(invoiceNotes, invoice.rounding), -getAmountPaid(invoicePayments)]);
+        if (unrecorded > 0) {
+          entries.push({
+            id: `${invoice.id}-paid`,
+            date: formatDate(invoice.updatedAt || invoice.date, 'input'),
+            type: 'payment',
+            reference: '',
+            description: `${invoice.invoiceNumber} marked as paid`,
+            debit: 0,
+            credit: toBase(unrecorded),
+          });
+        }
+      }
+
+      return entries;
+    });
+
+// The customer's account between `from` and `to`: what was owed before `from`, every
+// transaction in between with the balance after each, and what is owed at the end.
+// `invoices` are the customer's own, as returned by getCustomerInvoices.
+export const buildCustomerStatement = (
+  customer: CustomerStatement['customer'],
+  invoices: Invoice[],
+  payments: Payment[],
+  notes: CreditDebitNote[],
+  business: Business,
+  from: string,
+  to: string = getToday()
+): CustomerStatement => {
+  const ledger = getLedgerEntries(invoices, payments, notes)
+    .filter(entry => entry.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+
+  const earlier = ledger.filter(entry => from && entry.date < from);
+  const openingBalance = sumMoney(earlier.map(entry => entry.debit - entry.credit));
+
+  let balance = openingBalance;
+  const entries = ledger
+    .filter(entry => !from || entry.date >= from)
+    .map(entry => {
+      balance = sumMoney([balance, entry.debit, -entry.credit]);
+      return { ...entry, balance };
+    });
+
+  return {
+    customer,
+    from,
+    to,
+    currency: getBaseCurrency(business),
+    openingBalance,
+    entries,
+    totalDebits: sumMoney(entries.map(entry => entry.debit)),
+    totalCredits: sumMoney(entries.map(entry => entry.credit)),
+    closingBalance: balance,
+  };
+};
+
+export const getStatementFilename = (statement: CustomerStatement): string =>
+  `Statement-${statement.customer.name.trim().replace(/[^\w-]+/g, '-')}-${statement.to}.pdf`;
@@ -0,0 +1,70 @@
+import { formatDate } from './helpers';
+
+// Returns are filed monthly, or quarterly under the QRMP scheme
+export type TaxPeriodType = 'month' | 'quarter';
+
+export interface TaxPeriod {
+  type: TaxPeriodType;
+  year: number;
+  month: number; // 1-12, the first month of a quarter
+}
+
+export const TAX_PERIOD_TYPE_OPTIONS: { value: TaxPeriodType; label: string }[] = [
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthCount = (period: TaxPeriod): number => (period.type === 'quarter' ? 3 : 1);
+
+// The period `date` falls in. Quarters start in January, April, July and October, so they line up
+// with the Indian financial year.
+export const getTaxPeriod = (type: TaxPeriodType, date: Date = new Date()): TaxPeriod => {
+  const month = date.getMonth() + 1;
+  return { type, year: date.getFullYear(), month: type === 'quarter' ? month - ((month - 1) % 3) : month };
+};
+
+// The period `count` periods before `period`
+export const shiftTaxPeriod = (period: TaxPeriod, count: number): TaxPeriod => {
+  const index = period.year * 12 + (period.month - 1) - count * monthCount(period);
+  return { type: period.type, year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+// The current period and the ones before it, newest first
+export const getRecentTaxPeriods = (type: TaxPeriodType, count: number = 12, date: Date = new Date()): TaxPeriod[] => {
+  const current = getTaxPeriod(type, date);
+  return Array.from({ length: count }, (_, index) => shiftTaxPeriod(current, index));
+};
+
+// First and last day of the period, as YYYY-MM-DD
+export const getTaxPeriodRange = (period: TaxPeriod): { from: string; to: string } => {
+  const lastMonth = period.month + monthCount(period) - 1;
+  const lastDay = new Date(period.year, lastMonth, 0).getDate();
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return {
+    from: `${period.year}-${pad(period.month)}-01`,
+    to: `${period.year}-${pad(lastMonth)}-${pad(lastDay)}`,
+  };
+};
+
+// Dates are compared by day, the way the invoice form saves them
+export const isInTaxPeriod = (date: string, period: TaxPeriod): boolean => {
+  const { from, to } = getTaxPeriodRange(period);
+  const day = formatDate(date, 'input');
+  return day >= from && day <= to;
+};
+
+// "MMYYYY" of the period's last month, as the returns identify it
+export const getReturnPeriod = (period: TaxPeriod): string =>
+  `${String(period.month + monthCount(period) - 1).padStart(2, '0')}${period.year}`;
+
+// "Oct 2026" or "Oct - Dec 2026"
+export const getTaxPeriodLabel = (period: TaxPeriod): string =>
+  period.type === 'quarter'
+    ? `${MONTHS[period.month - 1]} - ${MONTHS[period.month + 1]} ${period.year}`
+    : `${MONTHS[period.month - 1]} ${period.year}`;
+
+// Stable key for a period, e.g. for a select's value
+export const getTaxPeriodKey = (period: TaxPeriod): string =>
+  `${period.type}-${period.year}-${String(period.month).padStart(2, '0')}`;
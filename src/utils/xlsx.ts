@@ -0,0 +1,77 @@
+import { strToU8, zipSync } from 'fflate';
+import type { CSVValue } from './csv';
+
+export interface XLSXSheet {
+  name: string;
+  rows: CSVValue[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXML = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Excel sheet names: at most 31 characters, none of : \ / ? * [ ]
+const toSheetName = (name: string, index: number): string =>
+  name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+
+// Column letters for a zero-based index: 0 -> A, 25 -> Z, 26 -> AA
+const toColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toCell = (value: CSVValue, ref: string): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+  }
+  // Strings are written inline, so the workbook needs no shared string table
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(String(value))}</t></is></c>`;
+};
+
+const toWorksheet = (rows: CSVValue[][]): string =>
+  `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((value, c) => toCell(value, `${toColumnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('')}</sheetData></worksheet>`;
+
+// A workbook with one worksheet per sheet, numbers kept as numbers so they add up in Excel
+export const toXLSXBlob = (sheets: XLSXSheet[]): Blob => {
+  const names = sheets.map((sheet, index) => escapeXML(toSheetName(sheet.name, index)));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+      names.map((name, index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      sheets.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+      '</Relationships>'
+    ),
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(toWorksheet(sheet.rows));
+  });
+
+  // Copied into a plain ArrayBuffer-backed array, which is what Blob accepts
+  return new Blob([new Uint8Array(zipSync(files))], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
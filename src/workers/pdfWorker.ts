@@ -1,7 +1,25 @@
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import { formatDate, numberToWords, calculateInvoiceTotals } from '../utils/helpers';
-import type { Invoice, Business, Settings } from '../types';
+import QRCode from 'qrcode';
+import { formatDate, numberToWords, getInvoiceTotals, getChargesAt } from '../utils/helpers';
+import { getPaymentTermsLabel } from '../utils/paymentTerms';
+import { getAmountPaid, getBalanceDue } from '../utils/payments';
+import { getNotesAdjustment } from '../utils/creditDebitNotes';
+import { formatExchangeRate, formatPDFMoney, getBaseCurrency, getCurrencyInfo, getInvoiceCurrency, toBaseAmount } from '../utils/currency';
+import {
+    formatState,
+    getBusinessStateCode,
+    getPlaceOfSupply,
+    getInvoiceGSTRegime,
+    getGSTSummaryRows,
+    getTaxComponents,
+    getSupplyDeclaration,
+    getSupplyType,
+    getSupplyTypeLabel,
+    isExportSupply,
+} from '../utils/gst';
+import { getStatementEntryLabel, type CustomerStatement } from '../utils/statements';
+import type { Invoice, Business, Settings, InvoicePDFOptions, ReportPDFContent } from '../types';
 
 // Extend jsPDF type to include autoTable
 declare module 'jspdf' {
@@ -15,6 +33,18 @@ interface PDFGenerationMessage {
     invoice: Invoice;
     business: Business;
     settings: Partial<Settings>;
+    options?: InvoicePDFOptions;
+}
+
+interface PDFReportMessage {
+    type: 'generate-report';
+    report: ReportPDFContent;
+}
+
+interface PDFStatementMessage {
+    type: 'generate-statement';
+    statement: CustomerStatement;
+    business: Business;
 }
 
 interface PDFProgressMessage {
@@ -33,17 +63,11 @@ interface PDFErrorMessage {
     error: string;
 }
 
-type WorkerMessage = PDFGenerationMessage;
+type WorkerMessage = PDFGenerationMessage | PDFReportMessage | PDFStatementMessage;
 
 // PDF-safe currency formatter (avoids Unicode issues)
-const formatPDFCurrency = (amount: number | string, currency: string = 'Rs.'): string => {
-    const num = parseFloat(String(amount)) || 0;
-    const currencySymbol = currency === '₹' ? 'Rs.' : currency;
-    return `${currencySymbol} ${num.toLocaleString('en-US', {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2
-    })}`;
-};
+const formatPDFCurrency = (amount: number | string, currency: string = 'INR'): string =>
+    formatPDFMoney(parseFloat(String(amount)) || 0, currency);
 
 // Helper function to check if content fits on current page and add new page if needed
 const checkAndAddPage = (doc: jsPDF, currentY: number, requiredSpace: number, margin: number = 15): number => {
@@ -58,10 +82,25 @@ const checkAndAddPage = (doc: jsPDF, currentY: number, requiredSpace: number, ma
     return currentY;
 };
 
+// Draws `text` as a QR code from filled squares, so no canvas is needed
+const drawQRCode = (doc: jsPDF, text: string, x: number, y: number, size: number): void => {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const cell = size / modules.size;
+    doc.setFillColor(0, 0, 0);
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (modules.get(row, col)) {
+                doc.rect(x + col * cell, y + row * cell, cell, cell, 'F');
+            }
+        }
+    }
+};
+
 const generateInvoicePDF = (
     invoice: Invoice,
     business: Business,
     settings: Partial<Settings> = {},
+    options: InvoicePDFOptions = {},
     onProgress?: (progress: number, message: string) => void
 ): jsPDF => {
     onProgress?.(10, 'Initializing PDF...');
@@ -72,15 +111,16 @@ const generateInvoicePDF = (
     const contentWidth = pageWidth - 2 * margin;
     let y = 15;
 
-    const totals = calculateInvoiceTotals(invoice.items, invoice.taxRate, invoice.discount);
-    const currency = business.currency || 'Rs.';
+    const totals = getInvoiceTotals(invoice, getInvoiceGSTRegime(invoice, business));
+    const currency = getInvoiceCurrency(invoice, business);
+    const documentLabel = options.documentLabel || 'Invoice';
 
     onProgress?.(20, 'Adding header...');
 
-    // Tax Invoice Title
+    // Document Title
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
-    doc.text('Tax Invoice', pageWidth / 2, y, { align: 'center' });
+    doc.text(options.title || 'Tax Invoice', pageWidth / 2, y, { align: 'center' });
     y += 10;
 
     // Draw top border
@@ -128,7 +168,8 @@ const generateInvoicePDF = (
         y += 4;
     }
     if (business.taxId) {
-        doc.text(`GSTIN: ${business.taxId}, State: ${business.state || '09-Uttar Pradesh'}`, pageWidth - margin, y, { align: 'right' });
+        const businessState = formatState(getBusinessStateCode(business)) || business.state;
+        doc.text(`GSTIN: ${business.taxId}${businessState ? `, State: ${businessState}` : ''}`, pageWidth - margin, y, { align: 'right' });
         y += 4;
     }
 
@@ -140,6 +181,27 @@ const generateInvoicePDF = (
     doc.line(margin, y, pageWidth - margin, y);
     y += 8;
 
+    // E-invoice registration: IRN and acknowledgement, with the IRP's signed QR code on the right
+    if (invoice.irn) {
+        const qrSize = 30;
+        const irnY = y;
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'bold');
+        doc.text(`IRN: ${invoice.irn}`, margin, irnY);
+        doc.setFont('helvetica', 'normal');
+        doc.text(`Ack No.: ${invoice.ackNumber || ''}`, margin, irnY + 5);
+        doc.text(`Ack Date: ${invoice.ackDate || ''}`, margin, irnY + 10);
+        y = irnY + 14;
+        if (invoice.signedQrCode) {
+            drawQRCode(doc, invoice.signedQrCode, pageWidth - margin - qrSize, irnY - 4, qrSize);
+            y = irnY + qrSize;
+        }
+
+        doc.setLineWidth(0.5);
+        doc.line(margin, y, pageWidth - margin, y);
+        y += 8;
+    }
+
     onProgress?.(40, 'Adding customer details...');
 
     // Bill To & Invoice Details - Two columns
@@ -163,21 +225,63 @@ const generateInvoicePDF = (
         doc.text(addrLines, leftColX, leftY);
         leftY += addrLines.length * 4;
     }
-    doc.text(`State: ${business.state || '09-Uttar Pradesh'}`, leftColX, leftY);
+    if (invoice.customerStateCode) {
+        doc.text(`State: ${formatState(invoice.customerStateCode)}`, leftColX, leftY);
+        leftY += 4;
+    }
+    if (invoice.customerGstin) {
+        doc.text(`GSTIN: ${invoice.customerGstin}`, leftColX, leftY);
+    }
 
     // Invoice Details
     doc.setFont('helvetica', 'bold');
     doc.setFontSize(9);
-    doc.text('Invoice Details', rightColX, sectionY);
+    doc.text(`${documentLabel} Details`, rightColX, sectionY);
 
     doc.setFont('helvetica', 'normal');
     doc.setFontSize(8);
     let rightY = sectionY + 5;
-    doc.text(`Invoice No.: ${invoice.invoiceNumber}`, rightColX, rightY);
+    doc.text(`${documentLabel} No.: ${invoice.invoiceNumber}`, rightColX, rightY);
     rightY += 4;
     doc.text(`Date: ${formatDate(invoice.date)}`, rightColX, rightY);
-    rightY += 4;
-    doc.text(`Place of Supply: ${business.state || '09-Uttar Pradesh'}`, rightColX, rightY);
+    if (invoice.dueDate) {
+        rightY += 4;
+        const termsLabel = invoice.paymentTerms ? ` (${getPaymentTermsLabel(invoice.paymentTerms)})` : '';
+        doc.text(`Due Date: ${formatDate(invoice.dueDate)}${termsLabel}`, rightColX, rightY);
+    }
+    if (options.validUntil) {
+        rightY += 4;
+        doc.text(`Valid Until: ${formatDate(options.validUntil)}`, rightColX, rightY);
+    }
+    if (options.reference) {
+        rightY += 4;
+        doc.text(`Against Invoice No.: ${options.reference.number} dated ${formatDate(options.reference.date)}`, rightColX, rightY);
+        if (options.reference.reason) {
+            rightY += 4;
+            const reasonLines = doc.splitTextToSize(`Reason: ${options.reference.reason}`, pageWidth - margin - rightColX);
+            doc.text(reasonLines, rightColX, rightY);
+            rightY += (reasonLines.length - 1) * 4;
+        }
+    }
+    const placeOfSupply = formatState(getPlaceOfSupply(invoice, business));
+    if (placeOfSupply) {
+        rightY += 4;
+        doc.text(`Place of Supply: ${placeOfSupply}`, rightColX, rightY);
+    }
+    const supplyType = getSupplyType(invoice);
+    if (supplyType !== 'b2b' && supplyType !== 'b2c') {
+        rightY += 4;
+        doc.text(`Supply Type: ${getSupplyTypeLabel(supplyType)}`, rightColX, rightY);
+    }
+    if (isExportSupply(supplyType) && invoice.portCode) {
+        rightY += 4;
+        doc.text(`Port Code: ${invoice.portCode}`, rightColX, rightY);
+    }
+    if (isExportSupply(supplyType) && invoice.shippingBillNumber) {
+        rightY += 4;
+        const billDate = invoice.shippingBillDate ? ` dated ${formatDate(invoice.shippingBillDate)}` : '';
+        doc.text(`Shipping Bill: ${invoice.shippingBillNumber}${billDate}`, rightColX, rightY);
+    }
 
     y = Math.max(leftY, rightY) + 8;
 
@@ -190,28 +294,26 @@ const generateInvoicePDF = (
 
     // Items table with new columns
     const tableData = invoice.items.map((item, index) => {
-        const itemTotal = Number(item.quantity) * Number(item.price);
-        const itemDiscount = (itemTotal * invoice.discount) / 100;
-        const itemTaxable = itemTotal - itemDiscount;
-        const itemGst = (itemTaxable * invoice.taxRate) / 100;
-        const itemAmount = itemTaxable + itemGst;
+        const line = totals.lines[index];
+        const discountPercent = line.grossAmount > 0 ? (line.discountAmount / line.grossAmount) * 100 : 0;
 
         return [
             (index + 1).toString(),
             item.name,
+            item.hsnCode || '-',
             item.quantity.toString(),
             item.unit || 'PCS',
-            formatPDFCurrency(item.price, currency),
-            `${formatPDFCurrency(itemDiscount, currency)}\n(${invoice.discount}%)`,
-            formatPDFCurrency(itemTaxable, currency),
-            `${formatPDFCurrency(itemGst, currency)}\n(${invoice.taxRate.toFixed(1)}%)`,
-            formatPDFCurrency(itemAmount, currency),
+            `${formatPDFCurrency(item.price, currency)}${item.priceIncludesTax ? '\n(incl. tax)' : ''}`,
+            `${formatPDFCurrency(line.discountAmount, currency)}\n(${discountPercent.toFixed(1)}%)`,
+            formatPDFCurrency(line.taxableValue, currency),
+            `${formatPDFCurrency(line.taxAmount, currency)}\n(${line.taxRate.toFixed(1)}%)`,
+            formatPDFCurrency(line.amount, currency),
         ];
     });
 
     doc.autoTable({
         startY: y,
-        head: [['#', 'Item name', 'Quantity', 'Unit', 'Price/Unit', 'Discount', 'Taxable amount', 'GST', 'Amount']],
+        head: [['#', 'Item name', 'HSN/SAC', 'Qty', 'Unit', 'Price/Unit', 'Discount', 'Taxable amount', 'GST', 'Amount']],
         body: tableData,
         margin: { left: margin, right: margin },
         tableWidth: contentWidth,
@@ -232,15 +334,16 @@ const generateInvoicePDF = (
             fillColor: [255, 255, 255],
         },
         columnStyles: {
-            0: { cellWidth: 10, halign: 'center' },
+            0: { cellWidth: 8, halign: 'center' },
             1: { cellWidth: 'auto' },
-            2: { cellWidth: 15, halign: 'center' },
-            3: { cellWidth: 12, halign: 'center' },
-            4: { cellWidth: 20, halign: 'right' },
+            2: { cellWidth: 16, halign: 'center' },
+            3: { cellWidth: 11, halign: 'center' },
+            4: { cellWidth: 10, halign: 'center' },
             5: { cellWidth: 20, halign: 'right' },
-            6: { cellWidth: 22, halign: 'right' },
-            7: { cellWidth: 20, halign: 'right' },
-            8: { cellWidth: 22, halign: 'right' },
+            6: { cellWidth: 20, halign: 'right' },
+            7: { cellWidth: 22, halign: 'right' },
+            8: { cellWidth: 20, halign: 'right' },
+            9: { cellWidth: 22, halign: 'right' },
         },
     });
 
@@ -257,10 +360,12 @@ const generateInvoicePDF = (
     y += 8;
 
     // Tax Summary using autoTable (left side)
-    const taxTableData = [
-        ['SGST', formatPDFCurrency(totals.taxableAmount, currency), `${(invoice.taxRate / 2).toFixed(1)}%`, formatPDFCurrency(totals.taxAmount / 2, currency)],
-        ['CGST', formatPDFCurrency(totals.taxableAmount, currency), `${(invoice.taxRate / 2).toFixed(1)}%`, formatPDFCurrency(totals.taxAmount / 2, currency)],
-    ];
+    const taxTableData = getGSTSummaryRows(totals).map(row => [
+        row.label,
+        formatPDFCurrency(row.taxableValue, currency),
+        `${row.rate.toFixed(1)}%`,
+        formatPDFCurrency(row.amount, currency),
+    ]);
 
     doc.autoTable({
         startY: y,
@@ -304,9 +409,33 @@ const generateInvoicePDF = (
     let amountY = y + 5;
 
     doc.text('Sub Total', rightColX, amountY);
-    doc.text(formatPDFCurrency(totals.taxableAmount, currency), pageWidth - margin, amountY, { align: 'right' });
+    doc.text(formatPDFCurrency(totals.subtotal, currency), pageWidth - margin, amountY, { align: 'right' });
     amountY += 5;
 
+    if (totals.discountAmount > 0) {
+        doc.text(invoice.discountType === 'amount' ? 'Discount' : `Discount (${invoice.discount}%)`, rightColX, amountY);
+        doc.text(`- ${formatPDFCurrency(totals.discountAmount, currency)}`, pageWidth - margin, amountY, { align: 'right' });
+        amountY += 5;
+    }
+
+    getChargesAt(totals, 'before_tax').forEach((charge) => {
+        doc.text(charge.name, rightColX, amountY);
+        doc.text(formatPDFCurrency(charge.grossAmount, currency), pageWidth - margin, amountY, { align: 'right' });
+        amountY += 5;
+    });
+
+    if (totals.taxAmount > 0) {
+        doc.text(settings.taxLabel || 'Tax', rightColX, amountY);
+        doc.text(formatPDFCurrency(totals.taxAmount, currency), pageWidth - margin, amountY, { align: 'right' });
+        amountY += 5;
+    }
+
+    getChargesAt(totals, 'after_tax').forEach((charge) => {
+        doc.text(charge.name, rightColX, amountY);
+        doc.text(formatPDFCurrency(charge.grossAmount, currency), pageWidth - margin, amountY, { align: 'right' });
+        amountY += 5;
+    });
+
     doc.text('Round off', rightColX, amountY);
     const roundOffText = `${totals.roundOff >= 0 ? '' : '- '}${formatPDFCurrency(Math.abs(totals.roundOff), currency)}`;
     doc.text(roundOffText, pageWidth - margin, amountY, { align: 'right' });
@@ -317,6 +446,41 @@ const generateInvoicePDF = (
     doc.text('Total', rightColX, amountY);
     doc.text(formatPDFCurrency(totals.total, currency), pageWidth - margin, amountY, { align: 'right' });
 
+    // Invoices in another currency also state the total in base currency at the invoice's rate
+    const baseCurrency = getBaseCurrency(business);
+    if (currency !== baseCurrency && invoice.exchangeRate) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        amountY += 5;
+        doc.text(`Total in ${baseCurrency}`, rightColX, amountY);
+        doc.text(formatPDFCurrency(toBaseAmount(totals.total, invoice), baseCurrency), pageWidth - margin, amountY, { align: 'right' });
+        amountY += 4;
+        doc.text(formatExchangeRate(currency, invoice.exchangeRate, baseCurrency), rightColX, amountY);
+    }
+
+    // Credit/debit notes, payments received so far and what is still owed
+    const payments = options.payments || [];
+    const notes = options.notes || [];
+    if (payments.length > 0 || notes.length > 0) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        if (notes.length > 0) {
+            amountY += 5;
+            const adjustment = getNotesAdjustment(notes, invoice.rounding);
+            doc.text('Credit/Debit Notes', rightColX, amountY);
+            doc.text(`${adjustment < 0 ? '- ' : '+ '}${formatPDFCurrency(Math.abs(adjustment), currency)}`, pageWidth - margin, amountY, { align: 'right' });
+        }
+        amountY += 5;
+        doc.text('Received', rightColX, amountY);
+        doc.text(formatPDFCurrency(getAmountPaid(payments), currency), pageWidth - margin, amountY, { align: 'right' });
+        amountY += 5;
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.text('Balance Due', rightColX, amountY);
+        doc.text(formatPDFCurrency(getBalanceDue(invoice, payments, notes), currency), pageWidth - margin, amountY, { align: 'right' });
+    }
+
     y = Math.max(taxTableEndY, amountY) + 8;
 
     // Horizontal line
@@ -324,10 +488,59 @@ const generateInvoicePDF = (
     doc.line(margin, y, pageWidth - margin, y);
     y += 8;
 
+    // HSN/SAC-wise summary
+    if (totals.hsnSummary.length > 0) {
+        const componentLabels = getTaxComponents(totals.gst.regime, totals.gst).map(component => component.label);
+        y = checkAndAddPage(doc, y, 20, margin);
+
+        doc.autoTable({
+            startY: y,
+            head: [['HSN/SAC', 'Taxable value', 'Rate', ...componentLabels, 'Total tax']],
+            body: totals.hsnSummary.map(group => [
+                group.hsnCode,
+                formatPDFCurrency(group.taxableValue, currency),
+                `${group.rate.toFixed(1)}%`,
+                ...getTaxComponents(totals.gst.regime, group).map(component => formatPDFCurrency(component.amount, currency)),
+                formatPDFCurrency(group.total, currency),
+            ]),
+            margin: { left: margin, right: margin },
+            tableWidth: contentWidth,
+            styles: {
+                fontSize: 6,
+                cellPadding: 1.5,
+                lineColor: [0, 0, 0],
+                lineWidth: 0.1,
+                textColor: [0, 0, 0],
+            },
+            headStyles: {
+                fillColor: [255, 255, 255],
+                textColor: [0, 0, 0],
+                fontStyle: 'bold',
+                lineWidth: 0.2,
+            },
+            bodyStyles: {
+                fillColor: [255, 255, 255],
+            },
+        });
+
+        y = doc.lastAutoTable.finalY + 8;
+    }
+
     onProgress?.(90, 'Adding footer...');
 
+    // Declaration for exports, SEZ supplies and deemed exports
+    const declaration = getSupplyDeclaration(invoice, business);
+    if (declaration.length > 0) {
+        const declarationLines = declaration.flatMap(line => doc.splitTextToSize(line, contentWidth) as string[]);
+        y = checkAndAddPage(doc, y, declarationLines.length * 4 + 6, margin);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(7);
+        doc.text(declarationLines, margin, y);
+        y += declarationLines.length * 4 + 4;
+    }
+
     // Calculate space needed for footer section
-    const amountWords = `${numberToWords(Math.floor(totals.total))} Rupees only`;
+    const amountWords = `${numberToWords(Math.floor(totals.total))} ${getCurrencyInfo(currency)?.unitName || currency} only`;
     const wordsLines = doc.splitTextToSize(amountWords, (pageWidth / 2) - margin - 10);
     const notesLines = invoice.notes ? doc.splitTextToSize(invoice.notes, (pageWidth / 2) - margin - 10) : [];
     const footerHeight = 15 + wordsLines.length * 4 + 10 + (notesLines.length * 4) + 35;
@@ -341,7 +554,7 @@ const generateInvoicePDF = (
     // Left column - Amount in words and Terms
     doc.setFont('helvetica', 'bold');
     doc.setFontSize(8);
-    doc.text('Invoice Amount In Words', leftColX, y);
+    doc.text(`${documentLabel} Amount In Words`, leftColX, y);
     y += 5;
 
     doc.setFont('helvetica', 'normal');
@@ -394,11 +607,252 @@ const generateInvoicePDF = (
     return doc;
 };
 
+// A report table over as many landscape pages as it needs, numbered in the footer
+const generateReportPDF = (
+    report: ReportPDFContent,
+    onProgress?: (progress: number, message: string) => void
+): jsPDF => {
+    onProgress?.(10, 'Initializing PDF...');
+
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 15;
+    let y = 15;
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(report.title, margin, y);
+    y += 6;
+
+    if (report.subtitle) {
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.text(report.subtitle, margin, y);
+        y += 4;
+    }
+
+    onProgress?.(40, 'Adding table...');
+
+    const columnStyles: Record<number, { halign: 'left' | 'center' | 'right' }> = {};
+    (report.alignments || []).forEach((halign, index) => {
+        columnStyles[index] = { halign };
+    });
+
+    doc.autoTable({
+        startY: y + 2,
+        head: [report.head],
+        body: report.body,
+        foot: report.foot ? [report.foot] : undefined,
+        margin: { left: margin, right: margin },
+        styles: {
+            fontSize: 7,
+            cellPadding: 1.5,
+            lineColor: [0, 0, 0],
+            lineWidth: 0.1,
+            textColor: [0, 0, 0],
+        },
+        headStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            lineWidth: 0.3,
+        },
+        bodyStyles: {
+            fillColor: [255, 255, 255],
+        },
+        footStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            lineWidth: 0.3,
+        },
+        columnStyles,
+    });
+
+    const pageCount = doc.getNumberOfPages();
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+    }
+
+    onProgress?.(100, 'PDF generated successfully!');
+
+    return doc;
+};
+
+// Statement of account: business and customer, the balance summary, then every transaction with its running balance
+const generateStatementPDF = (
+    statement: CustomerStatement,
+    business: Business,
+    onProgress?: (progress: number, message: string) => void
+): jsPDF => {
+    onProgress?.(10, 'Initializing PDF...');
+
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 15;
+    const money = (amount: number): string => formatPDFCurrency(amount, statement.currency);
+    let y = 15;
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Statement of Account', pageWidth / 2, y, { align: 'center' });
+    y += 10;
+
+    doc.setLineWidth(0.5);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 8;
+
+    onProgress?.(20, 'Adding header...');
+
+    // Business on the left, customer on the right
+    const headerStartY = y;
+    doc.setFontSize(11);
+    doc.text(business.name || 'Business Name', margin, y);
+    doc.text(statement.customer.name, pageWidth - margin, y, { align: 'right' });
+    y += 5;
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    const businessLines = [
+        business.address,
+        `${business.city || ''}${business.city && business.state ? ', ' : ''}${business.state || ''} ${business.pincode || ''}`.trim(),
+        business.phone ? `Phone no.: ${business.phone}` : '',
+        business.email ? `Email: ${business.email}` : '',
+        business.taxId ? `GSTIN: ${business.taxId}` : '',
+    ].filter(Boolean);
+    const customerLines = [
+        ...doc.splitTextToSize(statement.customer.address || '', 80),
+        statement.customer.phone ? `Phone no.: ${statement.customer.phone}` : '',
+        statement.customer.email ? `Email: ${statement.customer.email}` : '',
+        statement.customer.gstin ? `GSTIN: ${statement.customer.gstin}` : '',
+    ].filter(Boolean);
+    businessLines.forEach((line, index) => doc.text(line, margin, y + index * 4));
+    customerLines.forEach((line: string, index: number) => doc.text(line, pageWidth - margin, y + index * 4, { align: 'right' }));
+    y = Math.max(y + Math.max(businessLines.length, customerLines.length) * 4, headerStartY + 20);
+    y += 3;
+
+    doc.setLineWidth(0.5);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 6;
+
+    onProgress?.(40, 'Adding summary...');
+
+    // Period and balance summary
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    const period = statement.from
+        ? `${formatDate(statement.from)} to ${formatDate(statement.to)}`
+        : `Up to ${formatDate(statement.to)}`;
+    doc.text(`Period: ${period}`, margin, y);
+    doc.text(`Amount Due: ${money(statement.closingBalance)}`, pageWidth - margin, y, { align: 'right' });
+    y += 6;
+
+    doc.autoTable({
+        startY: y,
+        head: [['Opening Balance', 'Debits', 'Credits', 'Closing Balance']],
+        body: [[money(statement.openingBalance), money(statement.totalDebits), money(statement.totalCredits), money(statement.closingBalance)]],
+        margin: { left: margin, right: margin },
+        styles: {
+            fontSize: 8,
+            cellPadding: 2,
+            lineColor: [0, 0, 0],
+            lineWidth: 0.1,
+            textColor: [0, 0, 0],
+        },
+        headStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            lineWidth: 0.3,
+        },
+        bodyStyles: {
+            fillColor: [255, 255, 255],
+        },
+        columnStyles: {
+            0: { halign: 'right' },
+            1: { halign: 'right' },
+            2: { halign: 'right' },
+            3: { halign: 'right' },
+        },
+    });
+    y = doc.lastAutoTable.finalY + 6;
+
+    onProgress?.(60, 'Adding transactions...');
+
+    doc.autoTable({
+        startY: y,
+        head: [['Date', 'Type', 'Reference', 'Details', 'Debit', 'Credit', 'Balance']],
+        body: [
+            [statement.from ? formatDate(statement.from) : '', 'Opening Balance', '', '', '', '', money(statement.openingBalance)],
+            ...statement.entries.map(entry => [
+                formatDate(entry.date),
+                getStatementEntryLabel(entry.type),
+                entry.reference,
+                entry.description,
+                entry.debit ? money(entry.debit) : '',
+                entry.credit ? money(entry.credit) : '',
+                money(entry.balance),
+            ]),
+        ],
+        foot: [['', 'Closing Balance', '', '', money(statement.totalDebits), money(statement.totalCredits), money(statement.closingBalance)]],
+        margin: { left: margin, right: margin },
+        styles: {
+            fontSize: 7,
+            cellPadding: 1.5,
+            lineColor: [0, 0, 0],
+            lineWidth: 0.1,
+            textColor: [0, 0, 0],
+        },
+        headStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            lineWidth: 0.3,
+        },
+        bodyStyles: {
+            fillColor: [255, 255, 255],
+        },
+        footStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            lineWidth: 0.3,
+        },
+        columnStyles: {
+            0: { cellWidth: 20 },
+            1: { cellWidth: 22 },
+            2: { cellWidth: 24 },
+            3: { cellWidth: 'auto' },
+            4: { cellWidth: 24, halign: 'right' },
+            5: { cellWidth: 24, halign: 'right' },
+            6: { cellWidth: 26, halign: 'right' },
+        },
+    });
+
+    const pageCount = doc.getNumberOfPages();
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.text(`Generated on ${formatDate(new Date())}`, margin, pageHeight - 8);
+        doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+    }
+
+    onProgress?.(100, 'PDF generated successfully!');
+
+    return doc;
+};
+
 // Listen for messages from main thread
 self.onmessage = (e: MessageEvent<WorkerMessage>) => {
-    const { type, invoice, business, settings } = e.data;
+    const request = e.data;
 
-    if (type === 'generate') {
+    if (request.type === 'generate' || request.type === 'generate-report' || request.type === 'generate-statement') {
         try {
             const progressCallback = (progress: number, message: string) => {
                 self.postMessage({
@@ -408,7 +862,14 @@ self.onmessage = (e: MessageEvent<WorkerMessage>) => {
                 } as PDFProgressMessage);
             };
 
-            const doc = generateInvoicePDF(invoice, business, settings, progressCallback);
+            let doc: jsPDF;
+            if (request.type === 'generate') {
+                doc = generateInvoicePDF(request.invoice, request.business, request.settings, request.options, progressCallback);
+            } else if (request.type === 'generate-report') {
+                doc = generateReportPDF(request.report, progressCallback);
+            } else {
+                doc = generateStatementPDF(request.statement, request.business, progressCallback);
+            }
             const blob = doc.output('blob');
 
             self.postMessage({
@@ -0,0 +1,51 @@
+-- Add credit and debit notes issued against invoices
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS credit_debit_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    note_number TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('credit', 'debit')),
+    date TEXT NOT NULL,
+    reason TEXT,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    discount NUMERIC(10,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_debit_notes_user_id ON credit_debit_notes(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_debit_notes_invoice_id ON credit_debit_notes(invoice_id);
+
+ALTER TABLE credit_debit_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own credit/debit notes"
+    ON credit_debit_notes FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own credit/debit notes"
+    ON credit_debit_notes FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own credit/debit notes"
+    ON credit_debit_notes FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own credit/debit notes"
+    ON credit_debit_notes FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_credit_debit_notes_updated_at
+    BEFORE UPDATE ON credit_debit_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE credit_debit_notes;
+
+-- Separate numbering series for each note type
+ALTER TABLE settings
+ADD COLUMN IF NOT EXISTS credit_note_prefix TEXT NOT NULL DEFAULT 'CN',
+ADD COLUMN IF NOT EXISTS debit_note_prefix TEXT NOT NULL DEFAULT 'DN';
@@ -0,0 +1,9 @@
+-- Add e-invoice registration details to invoices
+-- Run this in your Supabase SQL Editor
+
+-- IRN, acknowledgement and signed QR code returned by the IRP when an invoice is registered
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS irn TEXT,
+ADD COLUMN IF NOT EXISTS ack_number TEXT,
+ADD COLUMN IF NOT EXISTS ack_date TEXT,
+ADD COLUMN IF NOT EXISTS signed_qr_code TEXT;
@@ -0,0 +1,57 @@
+-- Add estimates (quotations) with their own numbering, convertible to invoices
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS estimates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    estimate_number TEXT NOT NULL,
+    date TEXT NOT NULL,
+    valid_until TEXT,
+    customer_name TEXT NOT NULL,
+    customer_email TEXT,
+    customer_phone TEXT,
+    customer_address TEXT,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+    discount NUMERIC(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired')),
+    converted_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_estimates_user_id ON estimates(user_id);
+CREATE INDEX IF NOT EXISTS idx_estimates_created_at ON estimates(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_estimates_status ON estimates(status);
+
+ALTER TABLE estimates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own estimates"
+    ON estimates FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own estimates"
+    ON estimates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own estimates"
+    ON estimates FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own estimates"
+    ON estimates FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_estimates_updated_at
+    BEFORE UPDATE ON estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE estimates;
+
+-- Numbering and validity defaults for new estimates
+ALTER TABLE settings
+ADD COLUMN IF NOT EXISTS estimate_prefix TEXT NOT NULL DEFAULT 'EST',
+ADD COLUMN IF NOT EXISTS estimate_validity_days INTEGER NOT NULL DEFAULT 30;
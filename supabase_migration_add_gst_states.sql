@@ -0,0 +1,23 @@
+-- Add GST state codes and place of supply
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS customer_state_code TEXT,
+ADD COLUMN IF NOT EXISTS place_of_supply TEXT;
+
+-- Estimates are taxed the same way so they quote the tax the invoice will charge
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS customer_state_code TEXT,
+ADD COLUMN IF NOT EXISTS customer_gstin TEXT,
+ADD COLUMN IF NOT EXISTS place_of_supply TEXT;
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS state_code TEXT;
+
+ALTER TABLE business_profile
+ADD COLUMN IF NOT EXISTS state_code TEXT;
+
+-- Registered businesses already carry their state in the first two digits of the GSTIN
+UPDATE business_profile
+SET state_code = substring(tax_id FROM 1 FOR 2)
+WHERE state_code IS NULL AND tax_id ~ '^[0-9]{2}';
@@ -0,0 +1,7 @@
+-- Add HSN/SAC codes and per-product tax rates to the product catalog
+-- Invoice line items are stored as JSONB and pick up hsnCode without a schema change
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2);
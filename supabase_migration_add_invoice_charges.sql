@@ -0,0 +1,10 @@
+-- Add fixed-amount discounts and additional charges to invoices
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+ADD COLUMN IF NOT EXISTS charges JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+ADD COLUMN IF NOT EXISTS charges JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,44 @@
+-- Link invoices to saved customers
+-- Run this in your Supabase SQL Editor
+
+-- The customer_* columns stay as the snapshot printed on the invoice
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON invoices(customer_id);
+
+-- Estimates carry the customer they quote to the invoice they are converted to
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+-- Backfill existing invoices without touching updated_at, which the app reads for sync conflicts
+ALTER TABLE invoices DISABLE TRIGGER update_invoices_updated_at;
+
+-- Match by name, ignoring case and surrounding spaces, where exactly one of the user's customers has it
+UPDATE invoices AS i
+SET customer_id = c.id
+FROM customers AS c
+WHERE i.customer_id IS NULL
+    AND c.user_id = i.user_id
+    AND LOWER(TRIM(c.name)) = LOWER(TRIM(i.customer_name))
+    AND (
+        SELECT COUNT(*) FROM customers AS other
+        WHERE other.user_id = i.user_id
+            AND LOWER(TRIM(other.name)) = LOWER(TRIM(i.customer_name))
+    ) = 1;
+
+-- Then by the last 10 digits of the phone number, again only where the match is unambiguous
+UPDATE invoices AS i
+SET customer_id = c.id
+FROM customers AS c
+WHERE i.customer_id IS NULL
+    AND c.user_id = i.user_id
+    AND REGEXP_REPLACE(COALESCE(i.customer_phone, ''), '\D', '', 'g') <> ''
+    AND RIGHT(REGEXP_REPLACE(c.phone, '\D', '', 'g'), 10) = RIGHT(REGEXP_REPLACE(i.customer_phone, '\D', '', 'g'), 10)
+    AND (
+        SELECT COUNT(*) FROM customers AS other
+        WHERE other.user_id = i.user_id
+            AND RIGHT(REGEXP_REPLACE(other.phone, '\D', '', 'g'), 10) = RIGHT(REGEXP_REPLACE(i.customer_phone, '\D', '', 'g'), 10)
+    ) = 1;
+
+ALTER TABLE invoices ENABLE TRIGGER update_invoices_updated_at;
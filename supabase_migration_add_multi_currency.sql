@@ -0,0 +1,15 @@
+-- Add per-invoice currencies and an exchange rates table
+-- Run this in your Supabase SQL Editor
+
+-- Existing invoices keep a NULL currency and are read as the base currency
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS currency TEXT,
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14,6) CHECK (exchange_rate > 0);
+
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS currency TEXT,
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(14,6) CHECK (exchange_rate > 0);
+
+-- Base currency per unit of each foreign currency, keyed by ISO 4217 code, e.g. {"USD": 83.25}
+ALTER TABLE settings
+ADD COLUMN IF NOT EXISTS exchange_rates JSONB NOT NULL DEFAULT '{}'::jsonb;
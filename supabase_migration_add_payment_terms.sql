@@ -0,0 +1,34 @@
+-- Add structured payment terms and due dates
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS payment_terms TEXT,
+ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER,
+ADD COLUMN IF NOT EXISTS due_date TEXT;
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS payment_terms TEXT,
+ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER;
+
+ALTER TABLE settings
+ADD COLUMN IF NOT EXISTS default_payment_terms_days INTEGER;
+
+-- Convert the old free-text default into a terms code
+UPDATE settings
+SET default_payment_terms = CASE
+    WHEN default_payment_terms ILIKE '%receipt%' THEN 'due_on_receipt'
+    WHEN default_payment_terms ILIKE '%end of month%' THEN 'end_of_month'
+    WHEN default_payment_terms ~ '\m(7|15|30|60)\M' THEN 'net_' || substring(default_payment_terms FROM '\m(7|15|30|60)\M')
+    ELSE 'due_on_receipt'
+END
+WHERE default_payment_terms NOT IN ('due_on_receipt', 'net_7', 'net_15', 'net_30', 'net_60', 'end_of_month', 'custom');
+
+ALTER TABLE settings
+ALTER COLUMN default_payment_terms SET DEFAULT 'due_on_receipt';
+
+CREATE INDEX IF NOT EXISTS idx_invoices_due_date ON invoices(due_date);
+
+-- Add comments to document the columns
+COMMENT ON COLUMN invoices.payment_terms IS 'Payment terms code: due_on_receipt, net_7, net_15, net_30, net_60, end_of_month or custom';
+COMMENT ON COLUMN invoices.payment_terms_days IS 'Number of days for custom payment terms';
+COMMENT ON COLUMN invoices.due_date IS 'Due date (YYYY-MM-DD) computed from the invoice date and payment terms';
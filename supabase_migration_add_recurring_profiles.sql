@@ -0,0 +1,47 @@
+-- Add recurring invoice profiles
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS recurring_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    template JSONB NOT NULL DEFAULT '{}'::jsonb,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'quarterly', 'yearly')),
+    start_date TEXT NOT NULL,
+    end_date TEXT,
+    next_run_date TEXT NOT NULL,
+    last_run_date TEXT,
+    auto_send BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_profiles_user_id ON recurring_profiles(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_profiles_next_run_date ON recurring_profiles(next_run_date);
+
+ALTER TABLE recurring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring profiles"
+    ON recurring_profiles FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring profiles"
+    ON recurring_profiles FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring profiles"
+    ON recurring_profiles FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring profiles"
+    ON recurring_profiles FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_profiles_updated_at
+    BEFORE UPDATE ON recurring_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE recurring_profiles;
@@ -0,0 +1,15 @@
+-- Add configurable money rounding
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE settings
+ADD COLUMN IF NOT EXISTS rounding_mode TEXT NOT NULL DEFAULT 'nearest' CHECK (rounding_mode IN ('nearest', 'up', 'down')),
+ADD COLUMN IF NOT EXISTS rounding_increment NUMERIC(4,2) NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS tax_rounding TEXT NOT NULL DEFAULT 'line' CHECK (tax_rounding IN ('line', 'invoice'));
+
+-- Invoices and estimates keep the rounding they were issued with; existing rows stay NULL and
+-- keep totalling to the nearest rupee with tax rounded per line
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS rounding JSONB;
+
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS rounding JSONB;
@@ -0,0 +1,20 @@
+-- Add supply types for exports and SEZ supplies, customer GSTINs and the business's LUT
+-- Run this in your Supabase SQL Editor
+
+-- Existing invoices keep a NULL supply type and are read as B2B or B2C from the customer GSTIN
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS customer_gstin TEXT,
+ADD COLUMN IF NOT EXISTS supply_type TEXT CHECK (supply_type IN ('b2b', 'b2c', 'export_with_payment', 'export_without_payment', 'sez_with_payment', 'sez_without_payment', 'deemed_export')),
+ADD COLUMN IF NOT EXISTS port_code TEXT,
+ADD COLUMN IF NOT EXISTS shipping_bill_number TEXT,
+ADD COLUMN IF NOT EXISTS shipping_bill_date TEXT;
+
+ALTER TABLE estimates
+ADD COLUMN IF NOT EXISTS supply_type TEXT CHECK (supply_type IN ('b2b', 'b2c', 'export_with_payment', 'export_without_payment', 'sez_with_payment', 'sez_without_payment', 'deemed_export'));
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS gstin TEXT;
+
+-- ARN of the letter of undertaking, printed on exports and SEZ supplies made without tax
+ALTER TABLE business_profile
+ADD COLUMN IF NOT EXISTS lut_number TEXT;
@@ -0,0 +1,6 @@
+-- Let products carry tax-inclusive prices
+-- Invoice line items are stored as JSONB and pick up priceIncludesTax without a schema change
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS price_includes_tax BOOLEAN NOT NULL DEFAULT false;
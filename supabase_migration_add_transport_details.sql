@@ -0,0 +1,6 @@
+-- Add transport details for e-way bills
+-- Run this in your Supabase SQL Editor
+
+-- Mode, distance, transporter and vehicle or transport document, as one JSON object
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS transport JSONB;